@@ -0,0 +1,395 @@
+// SPDX-License-Identifier: BSD-3-Clause-Clear
+pragma solidity ^0.8.24;
+
+import {FHE, euint8, ebool, eaddress, externalEuint8} from "@fhevm/solidity/lib/FHE.sol";
+import {SepoliaConfig} from "@fhevm/solidity/config/ZamaConfig.sol";
+
+/**
+ * @title CodeBreakerGame
+ * @notice A Mastermind-style game: players crack a secret 4-digit code, learning after every guess how many
+ * digits are right and in the right place (bulls) and how many are right but misplaced (cows)
+ * @dev Runs on the same FHEVM infrastructure as SecretNumberGame. The code and the guesses stay encrypted, the
+ * bulls and cows of a guess are computed homomorphically and only the guessing player can decrypt them. The
+ * first player to crack the code is tracked encrypted and revealed, together with the code, when the round ends.
+ * @author SecretNumberGame contributors
+ */
+contract CodeBreakerGame is SepoliaConfig {
+    // A code is CODE_LENGTH digits from 0 to DIGITS - 1; digits may repeat
+    /// @notice How many digits a code has
+    uint8 public constant CODE_LENGTH = 4;
+    /// @notice How many different digits there are
+    uint8 public constant DIGITS = 10;
+
+    // Game state
+    /// @notice The admin, who runs rounds and changes settings
+    address public admin;
+    /// @notice Whether a round is accepting guesses
+    bool public isGameActive;
+    /// @notice How many guesses each player may make per round (0 = unlimited)
+    uint8 public maxGuessesPerPlayer;
+
+    /// @notice The latest round (0 means no game has been started yet)
+    uint256 public currentRound;
+    /// @notice Rounds whose code was drawn on-chain by startRandomCode, so not even the admin knows it
+    mapping(uint256 round => bool random) public randomRounds;
+
+    // The secret code of the current round, one encrypted digit per position
+    euint8[4] private secretCode;
+    // How often every digit occurs in the secret code, counted once per round for the cows of every guess
+    euint8[10] private secretDigitCounts;
+
+    // The bulls and cows of a guess (encrypted, readable by the guessing player)
+    struct Feedback {
+        euint8 bulls;
+        euint8 cows;
+    }
+    /// @notice How many guesses a player has made in a round
+    mapping(uint256 round => mapping(address player => uint8 guesses)) public totalGuesses;
+    mapping(uint256 round => mapping(address player => Feedback[] guesses)) private feedback;
+
+    // The first player to crack the code, kept encrypted while the round runs
+    struct RoundSolver {
+        ebool solved;
+        eaddress winner;
+        euint8 winnerGuesses;
+    }
+    mapping(uint256 round => RoundSolver solver) private roundSolvers;
+
+    // The code and the first player to crack it, decrypted once the round ends
+    struct RoundReveal {
+        bool requested;
+        bool revealed;
+        uint8[4] code;
+        address winner;
+        uint8 guesses;
+    }
+    mapping(uint256 round => RoundReveal reveal) private roundReveals;
+    /// @notice The round whose reveal a decryption request is for
+    mapping(uint256 requestId => uint256 round) public revealRequestRounds;
+
+    // Events
+
+    /**
+     * @notice A round was opened
+     * @param round The round that was opened
+     * @param random Whether its code was drawn on-chain
+     * @param timestamp When it was opened
+     */
+    event GameStarted(uint256 indexed round, bool random, uint256 timestamp);
+
+    /**
+     * @notice The guess limit of the next rounds was changed
+     * @param maxGuessesPerPlayer How many guesses each player may make per round (0 = unlimited)
+     */
+    event GameConfigured(uint8 maxGuessesPerPlayer);
+
+    /**
+     * @notice A player guessed the code; the feedback is ready to be decrypted by them
+     * @param player The player
+     * @param round The round guessed in
+     * @param guessCount Which of the player's guesses in the round this was
+     */
+    event GuessMade(address indexed player, uint256 indexed round, uint8 guessCount);
+
+    /**
+     * @notice A round was ended and the decryption of its code requested
+     * @param round The round that ended
+     * @param requestId The decryption request
+     */
+    event RoundEnded(uint256 indexed round, uint256 requestId);
+
+    /**
+     * @notice The code and first solver of an ended round were decrypted
+     * @param round The round
+     * @param code The code, one digit per position
+     * @param winner The first player to crack it (zero if nobody did)
+     * @param guesses How many guesses the winner needed
+     */
+    event CodeRevealed(uint256 indexed round, uint8[4] code, address indexed winner, uint8 guesses);
+
+    // Errors
+    error NotAdmin(address caller);
+    error InvalidAdmin();
+    error InvalidRequest(uint256 requestId);
+    error GameNotActive();
+    error RoundInProgress();
+    error CodeNotRevealed(uint256 round);
+    error GuessLimitReached(address player, uint8 limit);
+    error RequestAlreadyProcessed(uint256 requestId);
+
+    /**
+     * @notice Deploys the game with its admin
+     * @param gameAdmin The address allowed to run rounds and change settings
+     */
+    constructor(address gameAdmin) {
+        if (gameAdmin == address(0)) revert InvalidAdmin();
+        admin = gameAdmin;
+    }
+
+    /**
+     * @notice Admin sets the per-player guess limit
+     * @dev Can only be changed between rounds so every player in a round plays by the same rules
+     * @param newMaxGuessesPerPlayer How many guesses each player may make per round (0 = unlimited)
+     */
+    function configureGame(uint8 newMaxGuessesPerPlayer) external {
+        if (msg.sender != admin) revert NotAdmin(msg.sender);
+        if (isGameActive) revert RoundInProgress();
+
+        maxGuessesPerPlayer = newMaxGuessesPerPlayer;
+
+        emit GameConfigured(newMaxGuessesPerPlayer);
+    }
+
+    /**
+     * @notice Admin sets the secret code to start a new round
+     * @dev A digit above 9 is taken modulo 10, so every code can be cracked with digits 0-9
+     * @param inputDigits The encrypted digits of the code, first position first
+     * @param inputProof Zero-knowledge proof covering all the digits
+     */
+    function setSecretCode(externalEuint8[4] calldata inputDigits, bytes calldata inputProof) external {
+        _checkCanStartRound();
+
+        euint8[4] memory code;
+        for (uint256 i = 0; i < CODE_LENGTH; i++) {
+            code[i] = FHE.rem(FHE.fromExternal(inputDigits[i], inputProof), DIGITS);
+        }
+        _openRound(code, false);
+    }
+
+    /**
+     * @notice Admin starts a new round with a code nobody knows
+     * @dev Every digit is drawn from the FHEVM's encrypted randomness; a 16-bit draw reduced modulo 10 keeps
+     * the bias below 0.01%
+     */
+    function startRandomCode() external {
+        _checkCanStartRound();
+
+        euint8[4] memory code;
+        for (uint256 i = 0; i < CODE_LENGTH; i++) {
+            code[i] = FHE.asEuint8(FHE.rem(FHE.randEuint16(), DIGITS));
+        }
+        _openRound(code, true);
+    }
+
+    /**
+     * @notice Reverts unless the caller may start a new round now
+     * @dev Runs before any input is verified or randomness drawn, so a rejected call does no FHE work. The
+     * previous round has to be over and revealed, so its winner is known before the code changes.
+     */
+    function _checkCanStartRound() private view {
+        if (msg.sender != admin) revert NotAdmin(msg.sender);
+        if (isGameActive) revert RoundInProgress();
+        if (currentRound != 0 && !roundReveals[currentRound].revealed) revert CodeNotRevealed(currentRound);
+    }
+
+    /**
+     * @notice Opens the next round around a new secret code
+     * @dev Callers check _checkCanStartRound first
+     * @param code The encrypted digits of the code
+     * @param random Whether the code was drawn on-chain
+     */
+    function _openRound(euint8[4] memory code, bool random) private {
+        for (uint256 i = 0; i < CODE_LENGTH; i++) {
+            secretCode[i] = code[i];
+            FHE.allowThis(code[i]);
+        }
+        for (uint8 digit = 0; digit < DIGITS; digit++) {
+            secretDigitCounts[digit] = _countDigit(code, digit);
+            FHE.allowThis(secretDigitCounts[digit]);
+        }
+
+        currentRound++;
+        isGameActive = true;
+        randomRounds[currentRound] = random;
+
+        RoundSolver storage solver = roundSolvers[currentRound];
+        solver.solved = FHE.asEbool(false);
+        solver.winner = FHE.asEaddress(address(0));
+        solver.winnerGuesses = FHE.asEuint8(0);
+        FHE.allowThis(solver.solved);
+        FHE.allowThis(solver.winner);
+        FHE.allowThis(solver.winnerGuesses);
+
+        emit GameStarted(currentRound, random, block.timestamp);
+    }
+
+    /**
+     * @notice Player guesses the code and gets its encrypted bulls and cows
+     * @dev Decrypt the feedback with getFeedback and user decryption; nobody else can read it. A guess digit
+     * above 9 never matches.
+     * @param inputDigits The encrypted digits of the guess, first position first
+     * @param inputProof Zero-knowledge proof covering all the digits
+     * @return guessNumber Which of the player's guesses in the round this was (index guessNumber - 1 in getFeedback)
+     */
+    function makeGuess(
+        externalEuint8[4] calldata inputDigits,
+        bytes calldata inputProof
+    ) external returns (uint8 guessNumber) {
+        uint256 round = currentRound;
+        if (!isGameActive) revert GameNotActive();
+        if (maxGuessesPerPlayer != 0 && totalGuesses[round][msg.sender] >= maxGuessesPerPlayer) {
+            revert GuessLimitReached(msg.sender, maxGuessesPerPlayer);
+        }
+
+        euint8[4] memory guess;
+        for (uint256 i = 0; i < CODE_LENGTH; i++) {
+            guess[i] = FHE.fromExternal(inputDigits[i], inputProof);
+        }
+
+        (euint8 bulls, euint8 cows) = _score(guess);
+        FHE.allowThis(bulls);
+        FHE.allow(bulls, msg.sender);
+        FHE.allowThis(cows);
+        FHE.allow(cows, msg.sender);
+
+        guessNumber = ++totalGuesses[round][msg.sender];
+        feedback[round][msg.sender].push(Feedback({bulls: bulls, cows: cows}));
+        _trackSolver(round, FHE.eq(bulls, CODE_LENGTH), guessNumber);
+
+        emit GuessMade(msg.sender, round, guessNumber);
+    }
+
+    /**
+     * @notice Scores a guess against the secret code
+     * @dev Every digit matches as often as it occurs in both the guess and the code, min(guess count, code
+     * count); the matches in the right place are bulls and the rest are cows. Counting per digit is what keeps
+     * repeated digits from being matched twice: guessing 1111 against 1234 scores one bull and no cows.
+     * @param guess The encrypted digits of the guess
+     * @return bulls How many digits are right and in the right place (encrypted)
+     * @return cows How many digits are right but in the wrong place (encrypted)
+     */
+    function _score(euint8[4] memory guess) private returns (euint8 bulls, euint8 cows) {
+        bulls = FHE.asEuint8(FHE.eq(guess[0], secretCode[0]));
+        for (uint256 i = 1; i < CODE_LENGTH; i++) {
+            bulls = FHE.add(bulls, FHE.asEuint8(FHE.eq(guess[i], secretCode[i])));
+        }
+
+        euint8 matches = FHE.min(_countDigit(guess, 0), secretDigitCounts[0]);
+        for (uint8 digit = 1; digit < DIGITS; digit++) {
+            matches = FHE.add(matches, FHE.min(_countDigit(guess, digit), secretDigitCounts[digit]));
+        }
+        cows = FHE.sub(matches, bulls);
+    }
+
+    /**
+     * @notice Counts how often a digit occurs in an encrypted code
+     * @param code The encrypted digits
+     * @param digit The digit to count
+     * @return count The number of positions holding the digit (encrypted)
+     */
+    function _countDigit(euint8[4] memory code, uint8 digit) private returns (euint8 count) {
+        count = FHE.asEuint8(FHE.eq(code[0], digit));
+        for (uint256 i = 1; i < CODE_LENGTH; i++) {
+            count = FHE.add(count, FHE.asEuint8(FHE.eq(code[i], digit)));
+        }
+    }
+
+    /**
+     * @notice Makes the caller the round's encrypted winner if they are the first to crack the code
+     * @param round The current round
+     * @param cracked Whether the guess has CODE_LENGTH bulls (encrypted)
+     * @param guessNumber Which of the caller's guesses it was
+     */
+    function _trackSolver(uint256 round, ebool cracked, uint8 guessNumber) private {
+        RoundSolver storage solver = roundSolvers[round];
+        ebool isFirst = FHE.and(cracked, FHE.not(solver.solved));
+        solver.winner = FHE.select(isFirst, FHE.asEaddress(msg.sender), solver.winner);
+        solver.winnerGuesses = FHE.select(isFirst, FHE.asEuint8(guessNumber), solver.winnerGuesses);
+        solver.solved = FHE.or(solver.solved, cracked);
+
+        FHE.allowThis(solver.winner);
+        FHE.allowThis(solver.winnerGuesses);
+        FHE.allowThis(solver.solved);
+    }
+
+    /**
+     * @notice Admin ends the current round and requests public decryption of its code and first solver
+     * @return requestId The decryption request ID
+     */
+    function endRound() external returns (uint256 requestId) {
+        if (msg.sender != admin) revert NotAdmin(msg.sender);
+        if (!isGameActive) revert GameNotActive();
+
+        uint256 round = currentRound;
+        isGameActive = false;
+
+        RoundSolver storage solver = roundSolvers[round];
+        bytes32[] memory cts = new bytes32[](CODE_LENGTH + 3);
+        for (uint256 i = 0; i < CODE_LENGTH; i++) {
+            cts[i] = FHE.toBytes32(secretCode[i]);
+        }
+        cts[CODE_LENGTH] = FHE.toBytes32(solver.solved);
+        cts[CODE_LENGTH + 1] = FHE.toBytes32(solver.winner);
+        cts[CODE_LENGTH + 2] = FHE.toBytes32(solver.winnerGuesses);
+
+        requestId = FHE.requestDecryption(cts, this.callbackRoundRevealed.selector);
+
+        roundReveals[round].requested = true;
+        revealRequestRounds[requestId] = round;
+
+        emit RoundEnded(round, requestId);
+    }
+
+    /**
+     * @notice Callback for the code and first solver of an ended round
+     * @param requestId The decryption request ID
+     * @param cleartexts The decrypted values
+     * @param decryptionProof The proof from KMS
+     */
+    function callbackRoundRevealed(uint256 requestId, bytes memory cleartexts, bytes memory decryptionProof) public {
+        uint256 round = revealRequestRounds[requestId];
+        if (round == 0) revert InvalidRequest(requestId);
+
+        RoundReveal storage reveal = roundReveals[round];
+        if (reveal.revealed) revert RequestAlreadyProcessed(requestId);
+
+        // Verify KMS signatures
+        FHE.checkSignatures(requestId, cleartexts, decryptionProof);
+
+        (uint8 d0, uint8 d1, uint8 d2, uint8 d3, bool solved, address winner, uint8 guesses) = abi.decode(
+            cleartexts,
+            (uint8, uint8, uint8, uint8, bool, address, uint8)
+        );
+        reveal.revealed = true;
+        reveal.code = [d0, d1, d2, d3];
+        if (solved) {
+            reveal.winner = winner;
+            reveal.guesses = guesses;
+        }
+
+        emit CodeRevealed(round, reveal.code, reveal.winner, reveal.guesses);
+    }
+
+    /**
+     * @notice Get the encrypted feedback for one of a player's guesses
+     * @dev Only the player is allowed to decrypt it
+     * @param round The round to look up
+     * @param player The player's address
+     * @param index The guess, counting from 0
+     * @return bulls Digits right and in the right place (encrypted)
+     * @return cows Digits right but in the wrong place (encrypted)
+     */
+    function getFeedback(
+        uint256 round,
+        address player,
+        uint256 index
+    ) external view returns (euint8 bulls, euint8 cows) {
+        Feedback storage entry = feedback[round][player][index];
+        return (entry.bulls, entry.cows);
+    }
+
+    /**
+     * @notice Get the code and first solver of an ended round
+     * @param round The round to look up
+     * @return revealed Whether the decryption has arrived
+     * @return code The secret code, first position first
+     * @return winner The first player to crack the code (zero address if nobody did)
+     * @return guesses How many guesses the winner needed
+     */
+    function getRoundReveal(
+        uint256 round
+    ) external view returns (bool revealed, uint8[4] memory code, address winner, uint8 guesses) {
+        RoundReveal storage reveal = roundReveals[round];
+        return (reveal.revealed, reveal.code, reveal.winner, reveal.guesses);
+    }
+}
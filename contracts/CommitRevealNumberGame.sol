@@ -0,0 +1,374 @@
+// SPDX-License-Identifier: BSD-3-Clause-Clear
+pragma solidity ^0.8.24;
+
+import {SecretNumberGameBase} from "./SecretNumberGameBase.sol";
+
+/**
+ * @title CommitRevealNumberGame
+ * @notice The secret number guessing game for networks without an FHEVM coprocessor
+ * @dev The secret and the guesses are hidden behind salted hashes instead of encryption. The admin or a game
+ * master commits to the secret when starting a round and reveals it with endRound; players then reveal their
+ * guesses, which settles them. The earliest correct guess of the round wins the prize pool.
+ * @author SecretNumberGame contributors
+ */
+contract CommitRevealNumberGame is SecretNumberGameBase {
+    /// @notice Tells clients that drive every variant of the game which one this is
+    string public constant GAME_VARIANT = "commit-reveal";
+
+    /// @notice Time players have to reveal their guesses once the secret is revealed; unrevealed guesses then lose
+    uint256 public constant GUESS_REVEAL_PERIOD = 1 days;
+
+    // Every guess pays guessFee into the prize pool right away, since there is no result to wait for. Player
+    // statistics are only known once guesses are revealed, and the earliest correct guess wins.
+
+    // The secret commitment of a round and how far the round has been settled
+    struct RoundCommitment {
+        bytes32 secretCommitment;
+        bool revealed;
+        uint8 secret;
+        uint8 minNumber;
+        uint8 maxNumber;
+        uint256 revealedAt;
+        uint256 guesses;
+        uint256 revealedGuesses;
+        bool winnerFound;
+        uint256 winningRequestId;
+        bool settled;
+    }
+    mapping(uint256 round => RoundCommitment commitment) private roundCommitments;
+
+    // Guess tracking: every committed guess is a request until it is revealed. IDs start at 1, as 0 stands for
+    // "no request" like in the FHEVM variant
+    uint256 private lastRequestId;
+    /// @notice The salted hash a request's guess was committed as
+    mapping(uint256 requestId => bytes32 commitment) public guessCommitments;
+
+    // Events of the commit-reveal variant (the shared events are declared in ISecretNumberGame)
+
+    /**
+     * @notice A revealed round was settled and its prize pool awarded or rolled over
+     * @param round The round
+     * @param winner The earliest correct guesser (zero if nobody guessed right)
+     */
+    event RoundSettled(uint256 indexed round, address indexed winner);
+
+    // Errors of the commit-reveal variant
+    error CommitmentMismatch();
+    error SecretAlreadyRevealed(uint256 round);
+    error SecretNotRevealed(uint256 round);
+    error RoundNotSettled(uint256 round);
+    error RoundAlreadySettled(uint256 round);
+    error RevealPeriodActive(uint256 round, uint256 endsAt);
+
+    /**
+     * @notice Deploys the game with its admin
+     * @param gameAdmin The address allowed to manage the game, its settings and its roles
+     */
+    constructor(address gameAdmin) {
+        _setInitialAdmin(gameAdmin);
+    }
+
+    /**
+     * @notice Hash the admin commits to when starting a round
+     * @param secret The secret number
+     * @param salt Random bytes that keep the secret from being found by hashing every possible number
+     * @return commitment keccak256(abi.encode(game, secret, salt))
+     */
+    function computeSecretCommitment(uint8 secret, bytes32 salt) public view returns (bytes32) {
+        return keccak256(abi.encode(address(this), secret, salt));
+    }
+
+    /**
+     * @notice Hash a player commits to when making a guess
+     * @dev The player is part of the hash, so nobody can copy another player's guess
+     * @param player The guessing player
+     * @param guess The guessed number
+     * @param salt Random bytes that keep the guess from being found by hashing every possible number
+     * @return commitment keccak256(abi.encode(game, player, guess, salt))
+     */
+    function computeGuessCommitment(address player, uint8 guess, bytes32 salt) public view returns (bytes32) {
+        return keccak256(abi.encode(address(this), player, guess, salt));
+    }
+
+    /**
+     * @notice Admin or game master commits to a secret number to start a new round
+     * @dev Every call opens a fresh round. The previous round has to be revealed and settled first, so no round
+     * can be abandoned with its secret hidden and its guesses never counted.
+     * @param secretCommitment The hash from computeSecretCommitment
+     * @param duration Seconds the round accepts guesses for (0 = until the round is reset or ended)
+     */
+    function setSecretNumber(bytes32 secretCommitment, uint256 duration) external {
+        if (!_canRunRounds(msg.sender)) revert NotGameMaster(msg.sender);
+        if (currentRound != 0) {
+            RoundCommitment storage previous = roundCommitments[currentRound];
+            if (!previous.revealed) revert SecretNotRevealed(currentRound);
+            if (!previous.settled) revert RoundNotSettled(currentRound);
+        }
+
+        currentRound++;
+        isGameActive = true;
+
+        RoundCommitment storage commitment = roundCommitments[currentRound];
+        commitment.secretCommitment = secretCommitment;
+        commitment.minNumber = minNumber;
+        commitment.maxNumber = maxNumber;
+
+        uint256 deadline = duration > 0 ? block.timestamp + duration : 0;
+        roundDeadlines[currentRound] = deadline;
+
+        emit GameStarted(currentRound, block.timestamp, deadline);
+    }
+
+    /**
+     * @notice Player commits to a guess, paying the guess fee
+     * @dev The guess stays hidden until the player reveals it with revealGuess after the secret is revealed
+     * @param guessCommitment The hash from computeGuessCommitment
+     * @return requestId The ID the guess is revealed under
+     */
+    function makeGuess(bytes32 guessCommitment) external payable returns (uint256 requestId) {
+        uint256 round = currentRound;
+        _checkCanGuess(round);
+
+        totalGuesses[round][msg.sender]++;
+        prizePool += msg.value;
+        roundCommitments[round].guesses++;
+
+        requestId = ++lastRequestId;
+        pendingRequests[requestId] = msg.sender;
+        requestRounds[requestId] = round;
+        requestGuessNumbers[requestId] = totalGuesses[round][msg.sender];
+        guessCommitments[requestId] = guessCommitment;
+        playerRequests[msg.sender].push(requestId);
+
+        emit GuessMade(msg.sender, round, totalGuesses[round][msg.sender], requestId);
+        return requestId;
+    }
+
+    /**
+     * @notice Checks that the caller may make a guess in the current round, paying the right fee
+     * @dev Unlike the FHEVM variant a player who already won can keep guessing, since nobody knows yet
+     * @param round The current round
+     */
+    function _checkCanGuess(uint256 round) private view {
+        _checkRoundOpen(round);
+        if (maxGuessesPerPlayer != 0 && totalGuesses[round][msg.sender] >= maxGuessesPerPlayer) {
+            revert GuessLimitReached(msg.sender, maxGuessesPerPlayer);
+        }
+        if (msg.value != guessFee) revert IncorrectGuessFee(msg.value, guessFee);
+    }
+
+    /**
+     * @notice End the current round and reveal its secret number (admin or game master)
+     * @dev Also works for a round that was already reset or closed, whose secret is still hidden. Players
+     * have GUESS_REVEAL_PERIOD to reveal their guesses; a round without guesses is settled at once.
+     * @param secret The committed secret number
+     * @param salt The salt the secret was committed with
+     */
+    function endRound(uint8 secret, bytes32 salt) external {
+        if (!_canRunRounds(msg.sender)) revert NotGameMaster(msg.sender);
+        uint256 round = currentRound;
+        if (round == 0) revert GameNotActive();
+
+        RoundCommitment storage commitment = roundCommitments[round];
+        if (commitment.revealed) revert SecretAlreadyRevealed(round);
+        if (computeSecretCommitment(secret, salt) != commitment.secretCommitment) revert CommitmentMismatch();
+
+        if (isGameActive) {
+            isGameActive = false;
+            emit GameReset(round, block.timestamp);
+        }
+
+        commitment.revealed = true;
+        commitment.secret = secret;
+        commitment.revealedAt = block.timestamp;
+
+        emit SecretRevealed(round, secret);
+
+        if (commitment.guesses == 0) {
+            _settle(round);
+        }
+    }
+
+    /**
+     * @notice Reveal a committed guess once the round's secret is revealed, which delivers its result
+     * @dev Anyone holding the salt can reveal a guess; it always counts for the player who made it.
+     * The round is settled as soon as its last guess is revealed.
+     * @param requestId The ID returned by makeGuess
+     * @param guess The committed guess
+     * @param salt The salt the guess was committed with
+     */
+    function revealGuess(uint256 requestId, uint8 guess, bytes32 salt) external {
+        address player = pendingRequests[requestId];
+        if (player == address(0)) revert InvalidRequest(requestId);
+        if (processedRequests[requestId]) revert RequestAlreadyProcessed(requestId);
+
+        uint256 round = requestRounds[requestId];
+        RoundCommitment storage commitment = roundCommitments[round];
+        if (!commitment.revealed) revert SecretNotRevealed(round);
+        if (commitment.settled) revert RoundAlreadySettled(round);
+        if (computeGuessCommitment(player, guess, salt) != guessCommitments[requestId]) revert CommitmentMismatch();
+
+        // A secret outside the round's range can't be guessed, just like in the FHEVM variant
+        bool isCorrect = guess == commitment.secret && guess >= commitment.minNumber && guess <= commitment.maxNumber;
+
+        processedRequests[requestId] = true;
+        lastGuessCorrect[round][player] = isCorrect;
+        commitment.revealedGuesses++;
+
+        if (isCorrect) {
+            _recordCorrectGuess(round, player, requestId);
+        }
+
+        emit GuessResult(player, round, isCorrect, totalGuesses[round][player], requestId);
+
+        if (commitment.revealedGuesses == commitment.guesses) {
+            _settle(round);
+        }
+    }
+
+    /**
+     * @notice Records a correct guess on the leaderboard and as the round's winning guess if it came earliest
+     * @param round The round of the guess
+     * @param player The guessing player
+     * @param requestId The guess
+     */
+    function _recordCorrectGuess(uint256 round, address player, uint256 requestId) private {
+        RoundCommitment storage commitment = roundCommitments[round];
+
+        // Request IDs grow with every guess, so the lowest correct one was committed first
+        if (!commitment.winnerFound || requestId < commitment.winningRequestId) {
+            commitment.winnerFound = true;
+            commitment.winningRequestId = requestId;
+        }
+
+        // A player with several correct guesses is only recorded once
+        if (!hasWon[round][player]) {
+            hasWon[round][player] = true;
+            winners.push(
+                Winner({
+                    player: player,
+                    round: round,
+                    guesses: requestGuessNumbers[requestId],
+                    timestamp: block.timestamp
+                })
+            );
+        }
+    }
+
+    /**
+     * @notice Settle the current round once the time to reveal guesses is over (anyone)
+     * @dev Guesses that were not revealed in time lose; their fees stay in the prize pool
+     */
+    function settleRound() external {
+        uint256 round = currentRound;
+        RoundCommitment storage commitment = roundCommitments[round];
+        if (!commitment.revealed) revert SecretNotRevealed(round);
+        if (commitment.settled) revert RoundAlreadySettled(round);
+
+        uint256 endsAt = commitment.revealedAt + GUESS_REVEAL_PERIOD;
+        if (block.timestamp < endsAt) revert RevealPeriodActive(round, endsAt);
+
+        _settle(round);
+    }
+
+    /**
+     * @notice Awards the prize pool to the player of the round's earliest correct guess, if any
+     * @param round The round being settled
+     */
+    function _settle(uint256 round) private {
+        RoundCommitment storage commitment = roundCommitments[round];
+        commitment.settled = true;
+
+        address winner;
+        if (commitment.winnerFound) {
+            winner = pendingRequests[commitment.winningRequestId];
+            roundWinners[round] = winner;
+            _awardPrize(round, winner);
+        }
+
+        emit RoundSettled(round, winner);
+    }
+
+    /**
+     * @notice Get how far a round has been settled
+     * @param round The round to look up
+     * @return revealed Whether the secret has been revealed
+     * @return settled Whether the round's winner has been decided
+     * @return guesses How many guesses were committed in the round
+     * @return revealedGuesses How many of them have been revealed
+     * @return revealPeriodEnd The timestamp from which anyone can settle the round (0 until the secret is revealed)
+     */
+    function getRoundSettlement(
+        uint256 round
+    )
+        external
+        view
+        returns (bool revealed, bool settled, uint256 guesses, uint256 revealedGuesses, uint256 revealPeriodEnd)
+    {
+        RoundCommitment storage commitment = roundCommitments[round];
+        return (
+            commitment.revealed,
+            commitment.settled,
+            commitment.guesses,
+            commitment.revealedGuesses,
+            commitment.revealed ? commitment.revealedAt + GUESS_REVEAL_PERIOD : 0
+        );
+    }
+
+    /**
+     * @notice Get the secret commitment of a round
+     * @param round The round to look up
+     * @return The hash the round's secret was committed to
+     */
+    function getSecretCommitment(uint256 round) external view returns (bytes32) {
+        return roundCommitments[round].secretCommitment;
+    }
+
+    /**
+     * @notice Stop accepting guesses in the current round (admin or game master)
+     * @dev The secret can still be revealed with endRound to settle the guesses already made. A prize pool
+     * nobody won rolls over into the next round.
+     */
+    function resetGame() external {
+        if (!_canRunRounds(msg.sender)) revert NotGameMaster(msg.sender);
+
+        isGameActive = false;
+
+        emit GameReset(currentRound, block.timestamp);
+    }
+
+    /**
+     * @notice Closes the current round once its deadline has passed
+     * @dev Anyone can call this, so a time-boxed round stops accepting guesses even if no game master is around.
+     * The game master still has to reveal the secret with endRound to settle the round.
+     */
+    function closeExpiredRound() external {
+        if (!isGameActive) revert GameNotActive();
+        uint256 round = currentRound;
+        if (roundDeadlines[round] == 0) revert NoRoundDeadline(round);
+        if (!_isExpired(round)) revert RoundNotExpired(round, roundDeadlines[round]);
+
+        isGameActive = false;
+
+        emit RoundExpired(round, roundDeadlines[round], msg.sender);
+        emit GameReset(round, block.timestamp);
+    }
+
+    /**
+     * @notice Get the revealed secret number of a round
+     * @param round The round to look up
+     * @return revealed Whether the secret has been revealed yet
+     * @return value The revealed secret number
+     * @return inRange Whether the secret was inside the range the round was played under
+     */
+    function getRevealedSecret(uint256 round) external view returns (bool revealed, uint8 value, bool inRange) {
+        RoundCommitment storage commitment = roundCommitments[round];
+        return (
+            commitment.revealed,
+            commitment.secret,
+            commitment.revealed &&
+                commitment.secret >= commitment.minNumber &&
+                commitment.secret <= commitment.maxNumber
+        );
+    }
+}
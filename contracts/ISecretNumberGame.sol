@@ -0,0 +1,466 @@
+// SPDX-License-Identifier: BSD-3-Clause-Clear
+pragma solidity ^0.8.24;
+
+/**
+ * @title ISecretNumberGame
+ * @notice The part of the guessing game every variant implements: roles, settings, stakes, rounds and statistics
+ * @dev Implemented by SecretNumberGame (FHEVM) and CommitRevealNumberGame (plain EVM). Only starting a round and
+ * making a guess differ between the variants, since that is where the secret and the guesses are hidden.
+ * @author SecretNumberGame contributors
+ */
+interface ISecretNumberGame {
+    // A round win, as recorded on the leaderboard
+    struct Winner {
+        address player;
+        uint256 round;
+        uint8 guesses;
+        uint256 timestamp;
+    }
+
+    // Events
+
+    /**
+     * @notice A round was opened
+     * @param round The round that was opened
+     * @param timestamp When it was opened
+     * @param deadline When it stops accepting guesses (0 = no deadline)
+     */
+    event GameStarted(uint256 indexed round, uint256 timestamp, uint256 deadline);
+
+    /**
+     * @notice A player made a guess whose result is on its way
+     * @param player The player
+     * @param round The round guessed in
+     * @param guessCount Which of the player's guesses in the round this was
+     * @param requestId The request the result arrives under
+     */
+    event GuessMade(address indexed player, uint256 indexed round, uint8 guessCount, uint256 requestId);
+
+    /**
+     * @notice The result of a guess arrived
+     * @param player The player who guessed
+     * @param round The round guessed in
+     * @param correct Whether the guess was correct
+     * @param totalGuesses How many guesses the player has made in the round
+     * @param requestId The request of the guess
+     */
+    event GuessResult(
+        address indexed player,
+        uint256 indexed round,
+        bool correct,
+        uint8 totalGuesses,
+        uint256 requestId
+    );
+
+    /**
+     * @notice A round was ended
+     * @param round The round that ended
+     * @param timestamp When it ended
+     */
+    event GameReset(uint256 indexed round, uint256 timestamp);
+
+    /**
+     * @notice A round was closed after its deadline
+     * @param round The round that was closed
+     * @param deadline The deadline that passed
+     * @param closedBy Who closed it
+     */
+    event RoundExpired(uint256 indexed round, uint256 deadline, address indexed closedBy);
+
+    /**
+     * @notice The guess fee was changed
+     * @param fee The new fee, in wei
+     */
+    event GuessFeeChanged(uint256 fee);
+
+    /**
+     * @notice The range and guess limit of the next rounds were changed
+     * @param minNumber The smallest allowed secret
+     * @param maxNumber The largest allowed secret
+     * @param maxGuessesPerPlayer The guesses a player has per round (0 = unlimited)
+     */
+    event GameConfigured(uint8 minNumber, uint8 maxNumber, uint8 maxGuessesPerPlayer);
+
+    /**
+     * @notice The secret of an ended round was made public
+     * @param round The round
+     * @param value Its secret
+     */
+    event SecretRevealed(uint256 indexed round, uint8 value);
+
+    /**
+     * @notice The prize pool of a round went to its winner
+     * @param round The round that was won
+     * @param winner The player who won it
+     * @param amount The prize, in wei
+     */
+    event PrizeAwarded(uint256 indexed round, address indexed winner, uint256 amount);
+
+    /**
+     * @notice A winner withdrew their prizes
+     * @param winner The player who claimed
+     * @param amount The amount paid out, in wei
+     */
+    event PrizeClaimed(address indexed winner, uint256 amount);
+
+    /**
+     * @notice A role was granted
+     * @param role The role
+     * @param account The account that got it
+     * @param sender The admin who granted it
+     */
+    event RoleGranted(bytes32 indexed role, address indexed account, address indexed sender);
+
+    /**
+     * @notice A role was revoked
+     * @param role The role
+     * @param account The account that lost it
+     * @param sender The admin who revoked it
+     */
+    event RoleRevoked(bytes32 indexed role, address indexed account, address indexed sender);
+
+    /**
+     * @notice The admin proposed a new admin
+     * @param currentAdmin The admin
+     * @param newAdmin The proposed admin, who has to accept
+     */
+    event AdminTransferStarted(address indexed currentAdmin, address indexed newAdmin);
+
+    /**
+     * @notice The admin withdrew a proposed admin transfer
+     * @param currentAdmin The admin
+     * @param cancelledAdmin The admin that was proposed
+     */
+    event AdminTransferCancelled(address indexed currentAdmin, address indexed cancelledAdmin);
+
+    // Errors
+    error NotAdmin(address caller);
+    error NotGameMaster(address caller);
+    error NotPendingAdmin(address caller);
+    error InvalidAdmin();
+    error InvalidAccount();
+    error UnknownRole(bytes32 role);
+    error InvalidRange(uint8 minNumber, uint8 maxNumber);
+    error IncorrectGuessFee(uint256 sent, uint256 required);
+    error InvalidRequest(uint256 requestId);
+    error GameNotActive();
+    error RoundInProgress();
+    error RoundHasExpired(uint256 round, uint256 deadline);
+    error RoundNotExpired(uint256 round, uint256 deadline);
+    error NoRoundDeadline(uint256 round);
+    error GuessLimitReached(address player, uint8 limit);
+    error RequestAlreadyProcessed(uint256 requestId);
+    error NoPendingTransfer();
+    error NoPrizeToClaim(address player);
+    error TransferFailed(address to, uint256 amount);
+
+    /**
+     * @notice Which variant of the game this is, "fhe" or "commit-reveal"
+     * @return The variant
+     */
+    function GAME_VARIANT() external view returns (string memory);
+
+    /**
+     * @notice The role of the admin
+     * @return The role
+     */
+    function ADMIN_ROLE() external view returns (bytes32);
+
+    /**
+     * @notice The role of the accounts allowed to run rounds
+     * @return The role
+     */
+    function GAME_MASTER_ROLE() external view returns (bytes32);
+
+    /**
+     * @notice The admin, who manages the game, its settings and its roles
+     * @return The admin
+     */
+    function admin() external view returns (address);
+
+    /**
+     * @notice The admin proposed by transferAdmin, until they accept
+     * @return The proposed admin (zero if there is none)
+     */
+    function pendingAdmin() external view returns (address);
+
+    /**
+     * @notice Whether a round is accepting guesses
+     * @return Whether a round is running
+     */
+    function isGameActive() external view returns (bool);
+
+    /**
+     * @notice The smallest allowed secret
+     * @return The minimum
+     */
+    function minNumber() external view returns (uint8);
+
+    /**
+     * @notice The largest allowed secret
+     * @return The maximum
+     */
+    function maxNumber() external view returns (uint8);
+
+    /**
+     * @notice The guesses a player has per round
+     * @return The limit (0 = unlimited)
+     */
+    function maxGuessesPerPlayer() external view returns (uint8);
+
+    /**
+     * @notice The latest round
+     * @return The round (0 if none has been started)
+     */
+    function currentRound() external view returns (uint256);
+
+    /**
+     * @notice When a round stops accepting guesses
+     * @param round The round
+     * @return The deadline (0 = no deadline)
+     */
+    function roundDeadlines(uint256 round) external view returns (uint256);
+
+    /**
+     * @notice The fee every guess has to pay into the prize pool
+     * @return The fee, in wei
+     */
+    function guessFee() external view returns (uint256);
+
+    /**
+     * @notice The fees collected for the next winner
+     * @return The pool, in wei
+     */
+    function prizePool() external view returns (uint256);
+
+    /**
+     * @notice The player who won a round's prize pool
+     * @param round The round
+     * @return The winner (zero if nobody won)
+     */
+    function roundWinners(uint256 round) external view returns (address);
+
+    /**
+     * @notice The prizes a player has won but not claimed yet
+     * @param player The player
+     * @return The amount, in wei
+     */
+    function pendingPrizes(address player) external view returns (uint256);
+
+    /**
+     * @notice How many guesses a player has made in a round
+     * @param round The round
+     * @param player The player
+     * @return The number of guesses
+     */
+    function totalGuesses(uint256 round, address player) external view returns (uint8);
+
+    /**
+     * @notice Whether a player's latest guess in a round was correct
+     * @param round The round
+     * @param player The player
+     * @return Whether it was correct
+     */
+    function lastGuessCorrect(uint256 round, address player) external view returns (bool);
+
+    /**
+     * @notice Whether a player has found the secret of a round
+     * @param round The round
+     * @param player The player
+     * @return Whether they won
+     */
+    function hasWon(uint256 round, address player) external view returns (bool);
+
+    // Admin and roles
+
+    /**
+     * @notice Proposes a new admin, who becomes admin once they accept (admin only)
+     * @param newAdmin The proposed admin
+     */
+    function transferAdmin(address newAdmin) external;
+
+    /**
+     * @notice Accepts a proposed admin transfer (proposed admin only)
+     */
+    function acceptAdmin() external;
+
+    /**
+     * @notice Withdraws a proposed admin transfer (admin only)
+     */
+    function cancelAdminTransfer() external;
+
+    /**
+     * @notice Grants a role to an account (admin only)
+     * @param role The role
+     * @param account The account
+     */
+    function grantRole(bytes32 role, address account) external;
+
+    /**
+     * @notice Revokes a role from an account (admin only)
+     * @param role The role
+     * @param account The account
+     */
+    function revokeRole(bytes32 role, address account) external;
+
+    /**
+     * @notice Whether an account has a role
+     * @param role The role
+     * @param account The account
+     * @return Whether it has the role
+     */
+    function hasRole(bytes32 role, address account) external view returns (bool);
+
+    // Settings, changed between rounds
+
+    /**
+     * @notice Sets the range of the secret and the guess limit of the next rounds (admin only)
+     * @param newMinNumber The smallest allowed secret
+     * @param newMaxNumber The largest allowed secret
+     * @param newMaxGuessesPerPlayer The guesses a player has per round (0 = unlimited)
+     */
+    function configureGame(uint8 newMinNumber, uint8 newMaxNumber, uint8 newMaxGuessesPerPlayer) external;
+
+    /**
+     * @notice Sets the fee every guess pays into the prize pool (admin only)
+     * @param fee The fee, in wei
+     */
+    function setGuessFee(uint256 fee) external;
+
+    // Rounds
+
+    /**
+     * @notice Ends the current round (admin or game master)
+     */
+    function resetGame() external;
+
+    /**
+     * @notice Ends the current round once its deadline has passed (anyone)
+     */
+    function closeExpiredRound() external;
+
+    // Prizes
+
+    /**
+     * @notice Pays out the caller's unclaimed prizes
+     */
+    function claimPrize() external;
+
+    /**
+     * @notice The prize pool and fee of the current round
+     * @return pool The fees collected so far, in wei
+     * @return fee The guess fee, in wei
+     * @return winner The round's winner (zero while nobody has won)
+     */
+    function getPoolInfo() external view returns (uint256 pool, uint256 fee, address winner);
+
+    // Statistics
+
+    /**
+     * @notice The caller's statistics for the current round
+     * @return correct Whether their latest guess was correct
+     * @return guesses How many guesses they made
+     * @return won Whether they found the secret
+     */
+    function getMyStats() external view returns (bool correct, uint8 guesses, bool won);
+
+    /**
+     * @notice A player's statistics for a round
+     * @param round The round
+     * @param player The player
+     * @return correct Whether their latest guess was correct
+     * @return guesses How many guesses they made
+     * @return won Whether they found the secret
+     */
+    function getPlayerStats(
+        uint256 round,
+        address player
+    ) external view returns (bool correct, uint8 guesses, bool won);
+
+    /**
+     * @notice The range and guess limit of the game
+     * @return min The smallest allowed secret
+     * @return max The largest allowed secret
+     * @return maxGuesses The guesses a player has per round (0 = unlimited)
+     */
+    function getGameSettings() external view returns (uint8 min, uint8 max, uint8 maxGuesses);
+
+    /**
+     * @notice How many wins the leaderboard holds
+     * @return The number of wins
+     */
+    function getWinnerCount() external view returns (uint256);
+
+    /**
+     * @notice A page of the leaderboard, in the order the wins happened
+     * @param offset The first win to return
+     * @param limit How many wins to return at most
+     * @return page The wins
+     */
+    function getWinners(uint256 offset, uint256 limit) external view returns (Winner[] memory page);
+
+    /**
+     * @notice The latest round
+     * @return The round (0 if none has been started)
+     */
+    function getCurrentRound() external view returns (uint256);
+
+    /**
+     * @notice When a round stops accepting guesses
+     * @param round The round
+     * @return The deadline (0 = no deadline)
+     */
+    function getRoundDeadline(uint256 round) external view returns (uint256);
+
+    /**
+     * @notice How long the current round keeps accepting guesses
+     * @return hasDeadline Whether the round has a deadline
+     * @return remaining Seconds left until it (0 once it has passed)
+     */
+    function getTimeRemaining() external view returns (bool hasDeadline, uint256 remaining);
+
+    /**
+     * @notice The revealed secret of a round
+     * @param round The round
+     * @return revealed Whether the secret has been revealed yet
+     * @return value The secret
+     * @return inRange Whether it was inside the range the round was played under
+     */
+    function getRevealedSecret(uint256 round) external view returns (bool revealed, uint8 value, bool inRange);
+
+    /**
+     * @notice Whether a round is accepting guesses
+     * @return active Whether a round is running
+     */
+    function getGameStatus() external view returns (bool active);
+
+    // Guess requests: a guess is a request until its result is known
+
+    /**
+     * @notice Whether the result of a request is known
+     * @param requestId The request
+     * @return Whether it was processed
+     */
+    function isRequestProcessed(uint256 requestId) external view returns (bool);
+
+    /**
+     * @notice The player who made a request
+     * @param requestId The request
+     * @return The player (zero for unknown requests)
+     */
+    function getRequestPlayer(uint256 requestId) external view returns (address);
+
+    /**
+     * @notice Every request a player has made
+     * @param player The player
+     * @return The requests, oldest first
+     */
+    function getPlayerRequests(address player) external view returns (uint256[] memory);
+
+    /**
+     * @notice The round a request was made in
+     * @param requestId The request
+     * @return The round
+     */
+    function getRequestRound(uint256 requestId) external view returns (uint256);
+}
@@ -1,48 +1,292 @@
 // SPDX-License-Identifier: BSD-3-Clause-Clear
 pragma solidity ^0.8.24;
 
-import {FHE, euint8, ebool, externalEuint8} from "@fhevm/solidity/lib/FHE.sol";
-import {SepoliaConfig} from "@fhevm/solidity/config/ZamaConfig.sol";
+import {FHE, euint8, euint16, ebool, eaddress, externalEuint8} from "@fhevm/solidity/lib/FHE.sol";
+import {SepoliaConfig, ZamaConfig} from "@fhevm/solidity/config/ZamaConfig.sol";
+import {SecretNumberGameBase} from "./SecretNumberGameBase.sol";
 
 /**
  * @title SecretNumberGame
- * @notice A simple guessing game where players try to guess a secret number (1-100)
+ * @notice A simple guessing game where players try to guess a secret number (1-100 unless configured otherwise)
  * @dev Demonstrates FHEVM's encrypted computations: encrypted secret, encrypted guesses, public results
+ * @author SecretNumberGame contributors
  */
-contract SecretNumberGame is SepoliaConfig {
-    // The secret number (encrypted, set by admin)
+contract SecretNumberGame is SepoliaConfig, SecretNumberGameBase {
+    /// @notice Tells clients that drive every variant of the game which one this is
+    string public constant GAME_VARIANT = "fhe";
+
+    // The secret number (encrypted, set by admin or a game master)
     euint8 private secretNumber;
 
-    // Game state
-    address public admin;
-    bool public isGameActive;
+    // Hint values, decryptable only by the guessing player
+    /// @notice The hint of a correct guess
+    uint8 public constant HINT_CORRECT = 0;
+    /// @notice The hint of a guess below the secret
+    uint8 public constant HINT_TOO_LOW = 1;
+    /// @notice The hint of a guess above the secret
+    uint8 public constant HINT_TOO_HIGH = 2;
+
+    /// @notice Blocks a guess result may take before its player can cancel or retry the decryption request
+    uint256 public constant DECRYPTION_TIMEOUT_BLOCKS = 100;
+
+    /// @notice Most guesses makeGuesses takes at once
+    uint256 public constant MAX_BATCH_GUESSES = 8;
 
-    // Player statistics
-    mapping(address => uint8) public totalGuesses;
-    mapping(address => bool) public lastGuessCorrect;
-    mapping(address => bool) public hasWon;
+    /// @notice Whether wrong guesses get an encrypted higher/lower hint
+    bool public hintsEnabled;
+    /// @notice Whether new rounds keep guess results encrypted for the guessing player
+    bool public privacyMode;
+    /// @notice Whether new rounds are sealed rounds, won by the closest guess
+    bool public sealedMode;
 
-    // Decryption request tracking
-    mapping(uint256 => address) public pendingRequests;
-    mapping(uint256 => bool) public processedRequests;
+    /// @notice Rounds whose secret was drawn on-chain by startRandomGame, so not even the game master knows it
+    mapping(uint256 round => bool random) public randomRounds;
+    // Solo rounds: instead of sharing one secret, every player guesses a secret drawn for them by startMyPuzzle
+    /// @notice Whether a round is a solo round
+    mapping(uint256 round => bool solo) public soloRounds;
+    mapping(uint256 round => mapping(address player => euint8 secret)) private playerSecrets;
+
+    // Secret reveal at the end of a round, with the range the round was played under
+    struct SecretReveal {
+        bool requested;
+        bool revealed;
+        uint8 value;
+        uint8 minNumber;
+        uint8 maxNumber;
+    }
+    /// @notice The secret reveal of a round
+    mapping(uint256 round => SecretReveal reveal) public secretReveals;
+    /// @notice The round whose secret a decryption request reveals
+    mapping(uint256 requestId => uint256 round) public revealRequestRounds;
 
-    // Events
-    event GameStarted(uint256 timestamp);
-    event GuessMade(address indexed player, uint8 guessCount, uint256 requestId);
-    event GuessResult(address indexed player, bool correct, uint8 totalGuesses);
-    event GameReset(uint256 timestamp);
+    // Decryption request tracking: every guess fee is held with its request and joins the prize pool once
+    // the guess result arrives
+    mapping(uint256 requestId => euint8 hint) private requestHints;
+    mapping(uint256 requestId => ebool correct) private requestResults;
+    /// @notice The block a request was made or last retried in
+    mapping(uint256 requestId => uint256 blockNumber) public requestBlocks;
+    /// @notice The fee paid with a request, held until its result arrives
+    mapping(uint256 requestId => uint256 fee) public requestFees;
+    /// @notice Whether a request was cancelled by its player
+    mapping(uint256 requestId => bool cancelled) public cancelledRequests;
+    /// @notice How many guesses a request from makeGuesses covers (0 for a single guess)
+    mapping(uint256 requestId => uint8 batchSize) public requestBatchSizes;
 
-    constructor() {
-        admin = msg.sender;
+    // Privacy mode: results stay encrypted for the guessing player, and only the round's first correct
+    // guesser is decrypted, once the round ends
+    struct PrivateRound {
+        ebool winnerFound;
+        eaddress winner;
+        euint8 winnerGuesses;
+        bool revealRequested;
+        bool revealed;
     }
+    /// @notice Whether a round was played in privacy mode
+    mapping(uint256 round => bool isPrivate) public privateRounds;
+    mapping(uint256 round => PrivateRound winner) private privateRoundWinners;
+    /// @notice The round whose winner a decryption request reveals
+    mapping(uint256 requestId => uint256 round) public winnerRevealRequestRounds;
+    mapping(uint256 round => mapping(address player => ebool correct)) private privateLastResults;
+    mapping(uint256 round => mapping(address player => ebool won)) private privateWins;
+    mapping(uint256 round => mapping(address player => euint8 hint)) private privateLastHints;
+
+    // Sealed mode: every player submits one sealed guess and the closest guess wins. A sealed round is a
+    // private round whose winner slots hold the closest guesser so far, so it is revealed the same way
+    /// @notice Whether a round was played in sealed mode
+    mapping(uint256 round => bool isSealed) public sealedRounds;
+    mapping(uint256 round => euint8 distance) private sealedBestDistances;
+
+    // Events of the FHEVM variant (the shared events are declared in ISecretNumberGame)
+
+    /**
+     * @notice Hints were turned on or off
+     * @param enabled Whether wrong guesses get a hint
+     */
+    event HintModeChanged(bool enabled);
+
+    /**
+     * @notice Privacy mode was turned on or off for the next rounds
+     * @param enabled Whether new rounds are private
+     */
+    event PrivacyModeChanged(bool enabled);
+
+    /**
+     * @notice Sealed mode was turned on or off for the next rounds
+     * @param enabled Whether new rounds are sealed
+     */
+    event SealedModeChanged(bool enabled);
+
+    /**
+     * @notice A player submitted their one guess of a sealed round
+     * @param player The player
+     * @param round The sealed round
+     */
+    event SealedGuessMade(address indexed player, uint256 indexed round);
 
     /**
-     * @notice Admin sets the secret number to start the game
+     * @notice A player made a guess in a private round, whose result only they can decrypt
+     * @param player The player
+     * @param round The round guessed in
+     * @param guessCount How many guesses the player has made in the round
+     */
+    event PrivateGuessMade(address indexed player, uint256 indexed round, uint8 guessCount);
+
+    /**
+     * @notice A player made several guesses that share one request
+     * @param player The player
+     * @param round The round guessed in
+     * @param batchSize How many guesses the request covers
+     * @param requestId The request the result arrives under
+     */
+    event GuessBatchMade(address indexed player, uint256 indexed round, uint8 batchSize, uint256 requestId);
+
+    /**
+     * @notice A player drew their own secret in a solo round
+     * @param player The player
+     * @param round The solo round
+     */
+    event PuzzleStarted(address indexed player, uint256 indexed round);
+
+    /**
+     * @notice The decryption of a private or sealed round's winner was requested
+     * @param round The round that ended
+     * @param requestId The decryption request
+     */
+    event WinnerRevealRequested(uint256 indexed round, uint256 requestId);
+
+    /**
+     * @notice The winner of a private or sealed round was decrypted
+     * @param round The round
+     * @param winner The winner (zero if nobody won)
+     * @param guesses How many guesses the winner needed
+     */
+    event PrivateWinnerRevealed(uint256 indexed round, address indexed winner, uint8 guesses);
+
+    /**
+     * @notice The decryption of an ended round's secret was requested
+     * @param round The round that ended
+     * @param requestId The decryption request
+     */
+    event SecretRevealRequested(uint256 indexed round, uint256 requestId);
+
+    /**
+     * @notice A player cancelled a request whose result did not arrive in time
+     * @param player The player
+     * @param requestId The cancelled request
+     * @param refund The fee paid back, in wei
+     * @param guessRestored Whether the guess was given back to the player
+     */
+    event RequestCancelled(address indexed player, uint256 indexed requestId, uint256 refund, bool guessRestored);
+
+    /**
+     * @notice A player asked again for a result that did not arrive in time
+     * @param player The player
+     * @param requestId The request that timed out
+     * @param newRequestId The request the result now arrives under
+     */
+    event DecryptionRetried(address indexed player, uint256 indexed requestId, uint256 newRequestId);
+
+    /**
+     * @notice A guess result arrived after a later round had opened, so its fee went back to the player
+     * @param player The player, who can withdraw the refund with claimPrize
+     * @param requestId The late request
+     * @param refund The fee paid back, in wei
+     */
+    event LateResultRefunded(address indexed player, uint256 indexed requestId, uint256 refund);
+
+    // Errors of the FHEVM variant
+    error NotRequestOwner(uint256 requestId, address caller);
+    error WinnerNotRevealed(uint256 round);
+    error AlreadyWon(address player);
+    error RequestNotTimedOut(uint256 requestId, uint256 timeoutBlock);
+    error InvalidBatchSize(uint256 size, uint256 maxSize);
+    error NotEnoughGuessesLeft(uint256 remaining);
+    error NotSoloRound(uint256 round);
+    error PuzzleAlreadyStarted(address player);
+    error PuzzleNotStarted(address player);
+    error NoSharedSecret(uint256 round);
+    error NotSealedRound(uint256 round);
+    error SealedGuessRequired(uint256 round);
+    error SealedGuessAlreadySubmitted(address player);
+    error SealedModeEnabled();
+    error AlreadyInitialized();
+
+    /**
+     * @notice Deploys the game with its admin
+     * @param gameAdmin The address allowed to manage the game, its settings and its roles
+     */
+    constructor(address gameAdmin) {
+        _setInitialAdmin(gameAdmin);
+    }
+
+    /**
+     * @notice Set up a clone of this game, which runs no constructor (used by SecretNumberGameFactory)
+     * @dev Only works once, on a clone that has no admin yet; the factory calls it in the transaction that clones
+     * @param gameAdmin The address allowed to manage the game, its settings and its roles
+     */
+    function initialize(address gameAdmin) external {
+        if (admin != address(0)) revert AlreadyInitialized();
+        // A clone shares the code but not the storage of the game it copies
+        FHE.setCoprocessor(ZamaConfig.getSepoliaConfig());
+        minNumber = 1;
+        maxNumber = 100;
+        _setInitialAdmin(gameAdmin);
+    }
+
+    /**
+     * @notice Admin enables or disables encrypted higher/lower hints
+     * @dev Can only be changed between rounds so every player in a round gets the same feedback
+     * @param enabled Whether wrong guesses should produce an encrypted hint
+     */
+    function setHintMode(bool enabled) external {
+        if (msg.sender != admin) revert NotAdmin(msg.sender);
+        if (isGameActive) revert RoundInProgress();
+
+        hintsEnabled = enabled;
+
+        emit HintModeChanged(enabled);
+    }
+
+    /**
+     * @notice Admin enables or disables privacy mode
+     * @dev Can only be changed between rounds. In a private round guess results are never decrypted publicly:
+     * each player can only decrypt their own, and the first correct guesser is revealed when the round ends.
+     * @param enabled Whether guess results should stay private
+     */
+    function setPrivacyMode(bool enabled) external {
+        if (msg.sender != admin) revert NotAdmin(msg.sender);
+        if (isGameActive) revert RoundInProgress();
+
+        privacyMode = enabled;
+
+        emit PrivacyModeChanged(enabled);
+    }
+
+    /**
+     * @notice Admin enables or disables sealed mode, the closest-guess variant of the game
+     * @dev Can only be changed between rounds. In a sealed round every player submits one guess with
+     * submitSealedGuess and the guess closest to the secret wins; only the winner is decrypted, once the round
+     * ends. Sealed rounds are private rounds, so privacy mode makes no difference to them.
+     * @param enabled Whether new rounds should be sealed
+     */
+    function setSealedMode(bool enabled) external {
+        if (msg.sender != admin) revert NotAdmin(msg.sender);
+        if (isGameActive) revert RoundInProgress();
+
+        sealedMode = enabled;
+
+        emit SealedModeChanged(enabled);
+    }
+
+    /**
+     * @notice Admin or game master sets the secret number to start a new round
+     * @dev Every call opens a fresh round, so player stats from earlier rounds no longer apply
      * @param inputEuint8 Encrypted number input from off-chain
      * @param inputProof Zero-knowledge proof for the encrypted input
+     * @param duration Seconds the round accepts guesses for (0 = until the round is reset or ended)
      */
-    function setSecretNumber(externalEuint8 inputEuint8, bytes calldata inputProof) external {
-        require(msg.sender == admin, "Only admin can set secret number");
+    function setSecretNumber(externalEuint8 inputEuint8, bytes calldata inputProof, uint256 duration) external {
+        _checkCanStartRound();
 
         // Convert external encrypted input to euint8 with proof verification
         secretNumber = FHE.fromExternal(inputEuint8, inputProof);
@@ -50,44 +294,480 @@ contract SecretNumberGame is SepoliaConfig {
         // CRITICAL: Allow contract to use the encrypted value for comparisons
         FHE.allowThis(secretNumber);
 
+        _openRound(duration);
+    }
+
+    /**
+     * @notice Admin or game master starts a new round with a secret nobody knows
+     * @dev The secret is drawn on-chain from the FHEVM's encrypted randomness and mapped into
+     * [minNumber, maxNumber], so no plaintext ever exists until the round's secret is revealed.
+     * @param duration Seconds the round accepts guesses for (0 = until the round is reset or ended)
+     */
+    function startRandomGame(uint256 duration) external {
+        _checkCanStartRound();
+
+        secretNumber = _drawSecret();
+        FHE.allowThis(secretNumber);
+
+        _openRound(duration);
+        randomRounds[currentRound] = true;
+    }
+
+    /**
+     * @notice Admin or game master starts a solo round, in which every player guesses a secret of their own
+     * @dev There is no shared secret: each player draws one with startMyPuzzle, so one player's win tells the
+     * others nothing. Guess limits, fees and the prize pool work as in a shared round, and the first player to
+     * solve their puzzle takes the pool. Sealed guesses are only comparable against one shared secret, so solo
+     * rounds cannot be started in sealed mode.
+     * @param duration Seconds the round accepts guesses for (0 = until the round is reset)
+     */
+    function startSoloRound(uint256 duration) external {
+        _checkCanStartRound();
+        if (sealedMode) revert SealedModeEnabled();
+
+        _openRound(duration);
+        soloRounds[currentRound] = true;
+    }
+
+    /**
+     * @notice Player draws their own secret for the current solo round
+     * @dev The secret comes from encrypted randomness like in startRandomGame, so nobody knows it
+     */
+    function startMyPuzzle() external {
+        uint256 round = currentRound;
+        _checkRoundOpen(round);
+        if (!soloRounds[round]) revert NotSoloRound(round);
+        if (FHE.isInitialized(playerSecrets[round][msg.sender])) revert PuzzleAlreadyStarted(msg.sender);
+
+        euint8 secret = _drawSecret();
+        FHE.allowThis(secret);
+        playerSecrets[round][msg.sender] = secret;
+
+        emit PuzzleStarted(msg.sender, round);
+    }
+
+    /**
+     * @notice Check whether a player has drawn their secret for a solo round
+     * @param round The round to look up
+     * @param player The player's address
+     * @return started Whether the player can guess in the round
+     */
+    function hasPuzzle(uint256 round, address player) external view returns (bool) {
+        return FHE.isInitialized(playerSecrets[round][player]);
+    }
+
+    /**
+     * @notice Draws an encrypted secret from [minNumber, maxNumber] that nobody knows
+     * @dev A 16-bit draw reduced modulo the range size keeps the bias below 0.4% for any range
+     * @return secret The drawn secret (encrypted)
+     */
+    function _drawSecret() private returns (euint8 secret) {
+        uint16 rangeSize = uint16(maxNumber) - minNumber + 1;
+        euint16 offset = FHE.rem(FHE.randEuint16(), rangeSize);
+        secret = FHE.asEuint8(FHE.add(offset, uint16(minNumber)));
+    }
+
+    /**
+     * @notice The secret the caller's guesses are compared against in a round
+     * @param round The current round
+     * @return secret The shared secret, or the caller's own secret in a solo round (encrypted)
+     */
+    function _secretFor(uint256 round) private view returns (euint8 secret) {
+        if (!soloRounds[round]) {
+            return secretNumber;
+        }
+        secret = playerSecrets[round][msg.sender];
+        if (!FHE.isInitialized(secret)) revert PuzzleNotStarted(msg.sender);
+    }
+
+    /**
+     * @notice Checks that the caller may start a new round now
+     */
+    function _checkCanStartRound() private view {
+        if (!_canRunRounds(msg.sender)) revert NotGameMaster(msg.sender);
+        // The running round has to be ended first, so that its secret and winner get revealed
+        if (isGameActive) revert RoundInProgress();
+        // The prize of a private round is only awarded once its winner is known
+        if (privateRounds[currentRound] && !privateRoundWinners[currentRound].revealed) {
+            revert WinnerNotRevealed(currentRound);
+        }
+    }
+
+    /**
+     * @notice Opens the next round around the secret number that was just set
+     * @param duration Seconds the round accepts guesses for (0 = until the round is reset or ended)
+     */
+    function _openRound(uint256 duration) private {
+        currentRound++;
         isGameActive = true;
-        emit GameStarted(block.timestamp);
+
+        uint256 deadline = duration > 0 ? block.timestamp + duration : 0;
+        roundDeadlines[currentRound] = deadline;
+
+        if (privacyMode || sealedMode) {
+            _startPrivateRound(currentRound);
+        }
+        if (sealedMode) {
+            sealedBestDistances[currentRound] = FHE.asEuint8(0);
+            FHE.allowThis(sealedBestDistances[currentRound]);
+            sealedRounds[currentRound] = true;
+        }
+
+        emit GameStarted(currentRound, block.timestamp, deadline);
     }
 
     /**
-     * @notice Player makes a guess
+     * @notice Sets up the encrypted winner tracking of a private round
+     * @param round The round being started
+     */
+    function _startPrivateRound(uint256 round) private {
+        PrivateRound storage privateRound = privateRoundWinners[round];
+        privateRound.winnerFound = FHE.asEbool(false);
+        privateRound.winner = FHE.asEaddress(address(0));
+        privateRound.winnerGuesses = FHE.asEuint8(0);
+
+        FHE.allowThis(privateRound.winnerFound);
+        FHE.allowThis(privateRound.winner);
+        FHE.allowThis(privateRound.winnerGuesses);
+
+        privateRounds[round] = true;
+    }
+
+    /**
+     * @notice Player makes a guess, paying the guess fee
+     * @dev The fee is held for the request and joins the prize pool when the result arrives.
+     * In a private round the result is kept encrypted for the player instead, see getPrivateResult.
      * @param inputEuint8 Encrypted guess from off-chain
      * @param inputProof Zero-knowledge proof for the encrypted guess
-     * @return requestId The decryption request ID
+     * @return requestId The decryption request ID (0 in a private round, where nothing is decrypted)
      */
-    function makeGuess(externalEuint8 inputEuint8, bytes calldata inputProof) external returns (uint256 requestId) {
-        require(isGameActive, "Game not active");
-        require(!hasWon[msg.sender], "You already won!");
+    function makeGuess(
+        externalEuint8 inputEuint8,
+        bytes calldata inputProof
+    ) external payable returns (uint256 requestId) {
+        uint256 round = currentRound;
+        _checkCanGuess(round, 1);
+        euint8 secret = _secretFor(round);
 
         // Convert external encrypted input to euint8 with proof verification
         euint8 playerGuess = FHE.fromExternal(inputEuint8, inputProof);
 
-        // Perform encrypted comparison: is guess equal to secret number?
-        ebool isCorrect = FHE.eq(playerGuess, secretNumber);
+        // Perform encrypted comparison: is guess in range and equal to secret number?
+        ebool isCorrect = _evaluateGuess(playerGuess, secret);
 
         // Allow contract to decrypt the result
         FHE.allowThis(isCorrect);
 
-        // Increment guess counter
-        totalGuesses[msg.sender]++;
+        // Compute the encrypted hint before the guess handle goes out of scope
+        euint8 hint;
+        if (hintsEnabled) {
+            hint = _computeHint(playerGuess, secret);
+        }
+
+        return _recordGuess(round, isCorrect, hint, 1);
+    }
+
+    /**
+     * @notice Player makes several guesses at once, paying the guess fee for each
+     * @dev The guesses share one result, whether any of them was correct, so they cost a single decryption.
+     * They count as separate guesses towards the guess limit; a winning batch is ranked on the leaderboard
+     * by its last guess, and it gets no hint since a hint could not say which guess it is about.
+     * @param inputEuint8s Encrypted guesses from off-chain, encrypted together under one proof
+     * @param inputProof Zero-knowledge proof for the encrypted guesses
+     * @return requestId The decryption request ID (0 in a private round, where nothing is decrypted)
+     */
+    function makeGuesses(
+        externalEuint8[] calldata inputEuint8s,
+        bytes calldata inputProof
+    ) external payable returns (uint256 requestId) {
+        uint256 size = inputEuint8s.length;
+        if (size == 0 || size > MAX_BATCH_GUESSES) revert InvalidBatchSize(size, MAX_BATCH_GUESSES);
+
+        uint256 round = currentRound;
+        _checkCanGuess(round, uint8(size));
+        euint8 secret = _secretFor(round);
+
+        // OR the comparisons together so the oracle only has one result to decrypt
+        ebool anyCorrect = _evaluateGuess(FHE.fromExternal(inputEuint8s[0], inputProof), secret);
+        for (uint256 i = 1; i < size; i++) {
+            anyCorrect = FHE.or(anyCorrect, _evaluateGuess(FHE.fromExternal(inputEuint8s[i], inputProof), secret));
+        }
+        FHE.allowThis(anyCorrect);
+
+        euint8 noHint;
+        requestId = _recordGuess(round, anyCorrect, noHint, uint8(size));
+
+        if (!privateRounds[round]) {
+            requestBatchSizes[requestId] = uint8(size);
+            emit GuessBatchMade(msg.sender, round, uint8(size), requestId);
+        }
+        return requestId;
+    }
+
+    /**
+     * @notice Counts evaluated guesses for the player and requests their result, or keeps it private
+     * @param round The current round
+     * @param isCorrect Whether the guess, or any guess of the batch, was correct (encrypted)
+     * @param hint The encrypted hint (uninitialized when there is none)
+     * @param count How many guesses the result covers
+     * @return requestId The decryption request ID (0 in a private round)
+     */
+    function _recordGuess(
+        uint256 round,
+        ebool isCorrect,
+        euint8 hint,
+        uint8 count
+    ) private returns (uint256 requestId) {
+        // Increment guess counter for the current round
+        totalGuesses[round][msg.sender] += count;
+
+        if (privateRounds[round]) {
+            _recordPrivateGuess(round, isCorrect, hint);
+            return 0;
+        }
 
         // Request decryption of the comparison result
+        requestId = _requestGuessResult(isCorrect);
+
+        // Track the request
+        pendingRequests[requestId] = msg.sender;
+        processedRequests[requestId] = false;
+        requestRounds[requestId] = round;
+        requestGuessNumbers[requestId] = totalGuesses[round][msg.sender];
+        requestFees[requestId] = msg.value;
+
+        if (FHE.isInitialized(hint)) {
+            requestHints[requestId] = hint;
+        }
+
+        emit GuessMade(msg.sender, round, totalGuesses[round][msg.sender], requestId);
+    }
+
+    /**
+     * @notice Player submits their one sealed guess of a sealed round, paying the guess fee
+     * @dev The guess is never decrypted. Its encrypted distance to the secret is folded into the round's
+     * closest guess as it arrives, rather than in one loop over every guess at the end, so ending the round costs
+     * the same however many players took part. Only a strictly closer guess takes the lead, so on a tie the
+     * earliest guess wins. Guesses outside [minNumber, maxNumber] never win.
+     * @param inputEuint8 Encrypted guess from off-chain
+     * @param inputProof Zero-knowledge proof for the encrypted guess
+     */
+    function submitSealedGuess(externalEuint8 inputEuint8, bytes calldata inputProof) external payable {
+        uint256 round = currentRound;
+        _checkCanSeal(round);
+        euint8 secret = _secretFor(round);
+
+        euint8 playerGuess = FHE.fromExternal(inputEuint8, inputProof);
+
+        // |guess - secret|, taking the subtraction that cannot wrap around
+        euint8 distance = FHE.select(
+            FHE.gt(playerGuess, secret),
+            FHE.sub(playerGuess, secret),
+            FHE.sub(secret, playerGuess)
+        );
+        ebool inRange = FHE.and(FHE.ge(playerGuess, minNumber), FHE.le(playerGuess, maxNumber));
+
+        // The first guess in range leads until a strictly closer one arrives
+        PrivateRound storage privateRound = privateRoundWinners[round];
+        euint8 bestDistance = sealedBestDistances[round];
+        ebool isCloser = FHE.and(inRange, FHE.or(FHE.not(privateRound.winnerFound), FHE.lt(distance, bestDistance)));
+
+        sealedBestDistances[round] = FHE.select(isCloser, distance, bestDistance);
+        privateRound.winner = FHE.select(isCloser, FHE.asEaddress(msg.sender), privateRound.winner);
+        privateRound.winnerGuesses = FHE.select(isCloser, FHE.asEuint8(1), privateRound.winnerGuesses);
+        privateRound.winnerFound = FHE.or(privateRound.winnerFound, isCloser);
+
+        FHE.allowThis(sealedBestDistances[round]);
+        FHE.allowThis(privateRound.winner);
+        FHE.allowThis(privateRound.winnerGuesses);
+        FHE.allowThis(privateRound.winnerFound);
+
+        totalGuesses[round][msg.sender] = 1;
+        prizePool += msg.value;
+
+        emit SealedGuessMade(msg.sender, round);
+    }
+
+    /**
+     * @notice Checks that the caller may submit their sealed guess in the current round, paying the right fee
+     * @param round The current round
+     */
+    function _checkCanSeal(uint256 round) private view {
+        _checkRoundOpen(round);
+        if (!sealedRounds[round]) revert NotSealedRound(round);
+        if (totalGuesses[round][msg.sender] != 0) revert SealedGuessAlreadySubmitted(msg.sender);
+        if (msg.value != guessFee) revert IncorrectGuessFee(msg.value, guessFee);
+    }
+
+    /**
+     * @notice Checks that the caller may make guesses in the current round, paying the right fee
+     * @param round The current round
+     * @param count How many guesses the caller makes at once
+     */
+    function _checkCanGuess(uint256 round, uint8 count) private view {
+        _checkRoundOpen(round);
+        if (sealedRounds[round]) revert SealedGuessRequired(round);
+        if (hasWon[round][msg.sender]) revert AlreadyWon(msg.sender);
+        // Without a configured limit, guesses are still capped by what their uint8 counter can hold
+        uint8 limit = maxGuessesPerPlayer == 0 ? type(uint8).max : maxGuessesPerPlayer;
+        uint8 used = totalGuesses[round][msg.sender];
+        if (used >= limit) revert GuessLimitReached(msg.sender, limit);
+        if (uint256(used) + count > limit) revert NotEnoughGuessesLeft(limit - used);
+        uint256 fee = guessFee * count;
+        if (msg.value != fee) revert IncorrectGuessFee(msg.value, fee);
+    }
+
+    /**
+     * @notice Keeps the result of a guess in a private round encrypted for the player
+     * @dev The first correct guess of the round replaces the encrypted winner, which is only decrypted when
+     * the round ends. The fee joins the prize pool at once since there is no result to wait for.
+     * @param round The current round
+     * @param isCorrect The encrypted guess result
+     * @param hint The encrypted hint (uninitialized when hints are disabled)
+     */
+    function _recordPrivateGuess(uint256 round, ebool isCorrect, euint8 hint) private {
+        uint8 guessNumber = totalGuesses[round][msg.sender];
+
+        ebool won = privateWins[round][msg.sender];
+        won = FHE.isInitialized(won) ? FHE.or(won, isCorrect) : isCorrect;
+
+        privateLastResults[round][msg.sender] = isCorrect;
+        privateWins[round][msg.sender] = won;
+        FHE.allow(isCorrect, msg.sender);
+        FHE.allowThis(won);
+        FHE.allow(won, msg.sender);
+
+        if (hintsEnabled) {
+            privateLastHints[round][msg.sender] = hint;
+        }
+
+        PrivateRound storage privateRound = privateRoundWinners[round];
+        ebool isFirst = FHE.and(isCorrect, FHE.not(privateRound.winnerFound));
+        privateRound.winner = FHE.select(isFirst, FHE.asEaddress(msg.sender), privateRound.winner);
+        privateRound.winnerGuesses = FHE.select(isFirst, FHE.asEuint8(guessNumber), privateRound.winnerGuesses);
+        privateRound.winnerFound = FHE.or(privateRound.winnerFound, isCorrect);
+
+        FHE.allowThis(privateRound.winner);
+        FHE.allowThis(privateRound.winnerGuesses);
+        FHE.allowThis(privateRound.winnerFound);
+
+        prizePool += msg.value;
+
+        emit PrivateGuessMade(msg.sender, round, guessNumber);
+    }
+
+    /**
+     * @notice Requests decryption of an encrypted guess result and records when it was made
+     * @param isCorrect The encrypted guess result
+     * @return requestId The decryption request ID
+     */
+    function _requestGuessResult(ebool isCorrect) private returns (uint256 requestId) {
         bytes32[] memory cts = new bytes32[](1);
         cts[0] = FHE.toBytes32(isCorrect);
 
         requestId = FHE.requestDecryption(cts, this.callbackGuessResult.selector);
 
-        // Track the request
-        pendingRequests[requestId] = msg.sender;
-        processedRequests[requestId] = false;
+        requestResults[requestId] = isCorrect;
+        requestBlocks[requestId] = block.number;
+        playerRequests[msg.sender].push(requestId);
+    }
 
-        emit GuessMade(msg.sender, totalGuesses[msg.sender], requestId);
-        return requestId;
+    /**
+     * @notice Player cancels a guess whose result never arrived, getting the fee back
+     * @dev Only possible once DECRYPTION_TIMEOUT_BLOCKS have passed; a late result for the request is ignored
+     * @param requestId The request to cancel
+     * @param restoreGuess Whether to take the guess, or every guess of a batch, back so it no longer counts towards
+     * the guess limit
+     */
+    function cancelRequest(uint256 requestId, bool restoreGuess) external {
+        _checkTimedOut(requestId);
+
+        uint256 refund = requestFees[requestId];
+        requestFees[requestId] = 0;
+        processedRequests[requestId] = true;
+        cancelledRequests[requestId] = true;
+
+        if (restoreGuess) {
+            uint8 batchSize = requestBatchSizes[requestId];
+            totalGuesses[requestRounds[requestId]][msg.sender] -= batchSize == 0 ? 1 : batchSize;
+        }
+
+        if (refund > 0) {
+            (bool success, ) = payable(msg.sender).call{value: refund}("");
+            if (!success) revert TransferFailed(msg.sender, refund);
+        }
+
+        emit RequestCancelled(msg.sender, requestId, refund, restoreGuess);
+    }
+
+    /**
+     * @notice Player asks the oracle again for a guess result that never arrived
+     * @dev Only possible once DECRYPTION_TIMEOUT_BLOCKS have passed. The stored encrypted result is decrypted
+     * under a new request ID, which takes over the guess; a late result for the old request is ignored.
+     * @param requestId The request to retry
+     * @return newRequestId The new decryption request ID
+     */
+    function retryRequest(uint256 requestId) external returns (uint256 newRequestId) {
+        _checkTimedOut(requestId);
+
+        newRequestId = _requestGuessResult(requestResults[requestId]);
+
+        pendingRequests[newRequestId] = msg.sender;
+        requestRounds[newRequestId] = requestRounds[requestId];
+        requestGuessNumbers[newRequestId] = requestGuessNumbers[requestId];
+        requestFees[newRequestId] = requestFees[requestId];
+        requestHints[newRequestId] = requestHints[requestId];
+        requestBatchSizes[newRequestId] = requestBatchSizes[requestId];
+
+        requestFees[requestId] = 0;
+        processedRequests[requestId] = true;
+        cancelledRequests[requestId] = true;
+
+        emit DecryptionRetried(msg.sender, requestId, newRequestId);
+    }
+
+    /**
+     * @notice Checks that a request belongs to the caller, is unresolved and has timed out
+     * @param requestId The request to check
+     */
+    function _checkTimedOut(uint256 requestId) private view {
+        if (pendingRequests[requestId] != msg.sender) revert NotRequestOwner(requestId, msg.sender);
+        if (processedRequests[requestId]) revert RequestAlreadyProcessed(requestId);
+        uint256 timeoutBlock = requestBlocks[requestId] + DECRYPTION_TIMEOUT_BLOCKS;
+        if (block.number < timeoutBlock) revert RequestNotTimedOut(requestId, timeoutBlock);
+    }
+
+    /**
+     * @notice Checks a guess against the secret number without revealing anything about it
+     * @dev Guesses outside [minNumber, maxNumber] are automatic misses, even if they match the secret
+     * @param playerGuess The encrypted guess
+     * @param secret The secret the guess is compared against
+     * @return isCorrect Whether the guess is in range and equal to the secret (encrypted)
+     */
+    function _evaluateGuess(euint8 playerGuess, euint8 secret) private returns (ebool isCorrect) {
+        ebool inRange = FHE.and(FHE.ge(playerGuess, minNumber), FHE.le(playerGuess, maxNumber));
+        isCorrect = FHE.and(FHE.eq(playerGuess, secret), inRange);
+    }
+
+    /**
+     * @notice Computes the encrypted direction of a guess relative to the secret number
+     * @dev Only the contract and the guessing player are allowed to decrypt the result
+     * @param playerGuess The encrypted guess
+     * @param secret The secret the guess is compared against
+     * @return hint HINT_TOO_LOW, HINT_TOO_HIGH or HINT_CORRECT (encrypted)
+     */
+    function _computeHint(euint8 playerGuess, euint8 secret) private returns (euint8 hint) {
+        ebool tooLow = FHE.lt(playerGuess, secret);
+        ebool tooHigh = FHE.gt(playerGuess, secret);
+
+        hint = FHE.select(
+            tooLow,
+            FHE.asEuint8(HINT_TOO_LOW),
+            FHE.select(tooHigh, FHE.asEuint8(HINT_TOO_HIGH), FHE.asEuint8(HINT_CORRECT))
+        );
+
+        FHE.allowThis(hint);
+        FHE.allow(hint, msg.sender);
     }
 
     /**
@@ -97,10 +777,15 @@ contract SecretNumberGame is SepoliaConfig {
      * @param decryptionProof The proof from KMS
      */
     function callbackGuessResult(uint256 requestId, bytes memory cleartexts, bytes memory decryptionProof) public {
-        require(!processedRequests[requestId], "Request already processed");
+        // The player gave up on this request, so a late result no longer counts
+        if (cancelledRequests[requestId]) {
+            return;
+        }
+
+        if (processedRequests[requestId]) revert RequestAlreadyProcessed(requestId);
 
         address player = pendingRequests[requestId];
-        require(player != address(0), "Invalid request");
+        if (player == address(0)) revert InvalidRequest(requestId);
 
         // Verify KMS signatures
         FHE.checkSignatures(requestId, cleartexts, decryptionProof);
@@ -108,63 +793,261 @@ contract SecretNumberGame is SepoliaConfig {
         // Decode the decrypted boolean result
         bool isCorrect = abi.decode(cleartexts, (bool));
 
-        // Update player stats
-        lastGuessCorrect[player] = isCorrect;
+        // Update player stats for the round the guess was made in
+        uint256 round = requestRounds[requestId];
+        lastGuessCorrect[round][player] = isCorrect;
+
+        // The pool only holds the current round's fees and what earlier rounds rolled over into it. A result that
+        // arrives after a later round has opened, e.g. through a retry, gets its fee back and wins no prize, so it
+        // cannot take fees paid in later rounds
+        uint256 fee = requestFees[requestId];
+        requestFees[requestId] = 0;
+        bool isLate = round != currentRound;
+        if (!isLate) {
+            // The guess fee joins the pool now that the guess has counted
+            prizePool += fee;
+        } else if (fee > 0) {
+            pendingPrizes[player] += fee;
+            emit LateResultRefunded(player, requestId, fee);
+        }
+
+        // A player who wins with several guesses in flight is only recorded once
+        if (isCorrect && !hasWon[round][player]) {
+            hasWon[round][player] = true;
+
+            // Rank by the number of the winning guess, not guesses still pending when it resolved
+            winners.push(
+                Winner({
+                    player: player,
+                    round: round,
+                    guesses: requestGuessNumbers[requestId],
+                    timestamp: block.timestamp
+                })
+            );
 
-        if (isCorrect) {
-            hasWon[player] = true;
+            // The first correct guesser of the round takes the pool
+            if (!isLate && roundWinners[round] == address(0)) {
+                roundWinners[round] = player;
+                _awardPrize(round, player);
+            }
         }
 
         processedRequests[requestId] = true;
 
-        emit GuessResult(player, isCorrect, totalGuesses[player]);
+        emit GuessResult(player, round, isCorrect, totalGuesses[round][player], requestId);
     }
 
     /**
-     * @notice Check your game statistics
-     * @return correct Whether your last guess was correct
-     * @return guesses Total number of guesses you've made
-     * @return won Whether you've won the game
+     * @notice Get the encrypted hint produced by a guess
+     * @dev Returns an uninitialized handle when hints were disabled for the guess
+     * @param requestId The request ID
+     * @return hint The encrypted hint, decryptable only by the guessing player
      */
-    function getMyStats() external view returns (bool correct, uint8 guesses, bool won) {
-        return (lastGuessCorrect[msg.sender], totalGuesses[msg.sender], hasWon[msg.sender]);
+    function getRequestHint(uint256 requestId) external view returns (euint8) {
+        return requestHints[requestId];
     }
 
     /**
-     * @notice Check if a decryption request has been processed
-     * @param requestId The request ID to check
-     * @return processed Whether the request has been processed
+     * @notice Reset the game (admin or game master)
+     * @dev Deactivates the game; the next setSecretNumber opens a new round with fresh player stats.
+     * An unwon prize pool is kept and rolls over into the next round. The secret is revealed like with endRound,
+     * so a round cannot be reset to hide an unfair pick.
      */
-    function isRequestProcessed(uint256 requestId) external view returns (bool) {
-        return processedRequests[requestId];
+    function resetGame() external {
+        if (!_canRunRounds(msg.sender)) revert NotGameMaster(msg.sender);
+
+        isGameActive = false;
+
+        emit GameReset(currentRound, block.timestamp);
+        _requestSecretReveal(currentRound);
+        _requestWinnerReveal(currentRound);
     }
 
     /**
-     * @notice Get the player associated with a request
-     * @param requestId The request ID
-     * @return player The player's address
+     * @notice End the current round and publicly reveal its secret number (admin or game master)
+     * @dev Deactivates the game like resetGame, then requests public decryption of the secret so anyone can
+     * check it was a fair pick. The range in force during the round is recorded alongside the revealed value.
+     * Solo rounds have no shared secret and are ended with resetGame instead.
+     * @return requestId The decryption request ID
      */
-    function getRequestPlayer(uint256 requestId) external view returns (address) {
-        return pendingRequests[requestId];
+    function endRound() external returns (uint256 requestId) {
+        if (!_canRunRounds(msg.sender)) revert NotGameMaster(msg.sender);
+        if (!isGameActive) revert GameNotActive();
+        uint256 round = currentRound;
+        if (soloRounds[round]) revert NoSharedSecret(round);
+
+        isGameActive = false;
+
+        emit GameReset(round, block.timestamp);
+        requestId = _requestSecretReveal(round);
+        _requestWinnerReveal(round);
     }
 
     /**
-     * @notice Reset the game (admin only)
-     * @dev Clears all player stats and deactivates the game
+     * @notice Requests public decryption of an ended round's shared secret, once
+     * @dev Every way of ending a round calls this, so every secret gets revealed. Solo rounds have no shared
+     * secret to reveal.
+     * @param round The round that ended
+     * @return requestId The decryption request ID (0 if nothing was requested)
      */
-    function resetGame() external {
-        require(msg.sender == admin, "Only admin can reset");
+    function _requestSecretReveal(uint256 round) private returns (uint256 requestId) {
+        if (round == 0 || soloRounds[round] || secretReveals[round].requested) {
+            return 0;
+        }
+
+        bytes32[] memory cts = new bytes32[](1);
+        cts[0] = FHE.toBytes32(secretNumber);
+
+        requestId = FHE.requestDecryption(cts, this.callbackSecretRevealed.selector);
+
+        secretReveals[round] = SecretReveal({
+            requested: true,
+            revealed: false,
+            value: 0,
+            minNumber: minNumber,
+            maxNumber: maxNumber
+        });
+        revealRequestRounds[requestId] = round;
+
+        emit SecretRevealRequested(round, requestId);
+    }
+
+    /**
+     * @notice Closes the current round once its deadline has passed
+     * @dev Anyone can call this, so a time-boxed round ends even if no game master is around. Like resetGame,
+     * the round's statistics are kept, its secret is revealed and a prize pool nobody won rolls over into the
+     * next round.
+     */
+    function closeExpiredRound() external {
+        if (!isGameActive) revert GameNotActive();
+        uint256 round = currentRound;
+        if (roundDeadlines[round] == 0) revert NoRoundDeadline(round);
+        if (!_isExpired(round)) revert RoundNotExpired(round, roundDeadlines[round]);
 
         isGameActive = false;
 
-        emit GameReset(block.timestamp);
+        emit RoundExpired(round, roundDeadlines[round], msg.sender);
+        emit GameReset(round, block.timestamp);
+        _requestSecretReveal(round);
+        _requestWinnerReveal(round);
+    }
+
+    /**
+     * @notice Requests public decryption of a private round's first correct guesser, once
+     * @param round The round that ended
+     */
+    function _requestWinnerReveal(uint256 round) private {
+        PrivateRound storage privateRound = privateRoundWinners[round];
+        if (!privateRounds[round] || privateRound.revealRequested) {
+            return;
+        }
+
+        bytes32[] memory cts = new bytes32[](3);
+        cts[0] = FHE.toBytes32(privateRound.winnerFound);
+        cts[1] = FHE.toBytes32(privateRound.winner);
+        cts[2] = FHE.toBytes32(privateRound.winnerGuesses);
+
+        uint256 requestId = FHE.requestDecryption(cts, this.callbackWinnerRevealed.selector);
+
+        privateRound.revealRequested = true;
+        winnerRevealRequestRounds[requestId] = round;
+
+        emit WinnerRevealRequested(round, requestId);
+    }
+
+    /**
+     * @notice Callback for the winner reveal of a private round
+     * @dev Records the winner and awards the prize like a public win; the zero address means nobody won
+     * @param requestId The decryption request ID
+     * @param cleartexts The decrypted values
+     * @param decryptionProof The proof from KMS
+     */
+    function callbackWinnerRevealed(uint256 requestId, bytes memory cleartexts, bytes memory decryptionProof) public {
+        uint256 round = winnerRevealRequestRounds[requestId];
+        if (round == 0) revert InvalidRequest(requestId);
+
+        PrivateRound storage privateRound = privateRoundWinners[round];
+        if (privateRound.revealed) revert RequestAlreadyProcessed(requestId);
+
+        // Verify KMS signatures
+        FHE.checkSignatures(requestId, cleartexts, decryptionProof);
+
+        (bool found, address winner, uint8 guesses) = abi.decode(cleartexts, (bool, address, uint8));
+        privateRound.revealed = true;
+
+        if (found) {
+            hasWon[round][winner] = true;
+            winners.push(Winner({player: winner, round: round, guesses: guesses, timestamp: block.timestamp}));
+            roundWinners[round] = winner;
+            _awardPrize(round, winner);
+        }
+
+        emit PrivateWinnerRevealed(round, winner, guesses);
+    }
+
+    /**
+     * @notice Get a player's encrypted results in a private round
+     * @dev Only the player is allowed to decrypt them; handles are zero until the player has guessed
+     * @param round The round to look up
+     * @param player The player's address
+     * @return lastCorrect Whether the player's last guess was correct (encrypted)
+     * @return won Whether any of the player's guesses was correct (encrypted)
+     * @return lastHint The hint for the player's last guess (encrypted, zero handle when hints are disabled)
+     */
+    function getPrivateResult(
+        uint256 round,
+        address player
+    ) external view returns (ebool lastCorrect, ebool won, euint8 lastHint) {
+        return (privateLastResults[round][player], privateWins[round][player], privateLastHints[round][player]);
+    }
+
+    /**
+     * @notice Check whether a private round's winner has been revealed
+     * @param round The round to look up
+     * @return revealed Whether the reveal has arrived
+     * @return winner The first correct guesser (zero address if nobody guessed the secret or not revealed yet)
+     */
+    function getPrivateWinner(uint256 round) external view returns (bool revealed, address winner) {
+        PrivateRound storage privateRound = privateRoundWinners[round];
+        return (privateRound.revealed, privateRound.revealed ? roundWinners[round] : address(0));
+    }
+
+    /**
+     * @notice Callback for the secret number reveal
+     * @param requestId The decryption request ID
+     * @param cleartexts The decrypted values
+     * @param decryptionProof The proof from KMS
+     */
+    function callbackSecretRevealed(uint256 requestId, bytes memory cleartexts, bytes memory decryptionProof) public {
+        uint256 round = revealRequestRounds[requestId];
+        if (round == 0) revert InvalidRequest(requestId);
+
+        SecretReveal storage reveal = secretReveals[round];
+        if (reveal.revealed) revert RequestAlreadyProcessed(requestId);
+
+        // Verify KMS signatures
+        FHE.checkSignatures(requestId, cleartexts, decryptionProof);
+
+        uint8 value = abi.decode(cleartexts, (uint8));
+        reveal.revealed = true;
+        reveal.value = value;
+
+        emit SecretRevealed(round, value);
     }
 
     /**
-     * @notice Check if game is currently active
-     * @return active The game status
+     * @notice Get the revealed secret number of a round
+     * @param round The round to look up
+     * @return revealed Whether the secret has been revealed yet
+     * @return value The revealed secret number
+     * @return inRange Whether the secret was inside the range the round was played under
      */
-    function getGameStatus() external view returns (bool active) {
-        return isGameActive;
+    function getRevealedSecret(uint256 round) external view returns (bool revealed, uint8 value, bool inRange) {
+        SecretReveal storage reveal = secretReveals[round];
+        return (
+            reveal.revealed,
+            reveal.value,
+            reveal.revealed && reveal.value >= reveal.minNumber && reveal.value <= reveal.maxNumber
+        );
     }
 }
@@ -0,0 +1,418 @@
+// SPDX-License-Identifier: BSD-3-Clause-Clear
+pragma solidity ^0.8.24;
+
+import {ISecretNumberGame} from "./ISecretNumberGame.sol";
+
+/**
+ * @title SecretNumberGameBase
+ * @notice What every variant of the secret number game shares: roles, settings, the prize pool, player statistics,
+ * request bookkeeping and the leaderboard
+ * @dev The variants only differ in how the secret and the guesses are hidden, and so in how rounds are started,
+ * guesses are made and results arrive
+ * @author SecretNumberGame contributors
+ */
+abstract contract SecretNumberGameBase is ISecretNumberGame {
+    // Roles: the admin manages settings and roles, game masters run rounds
+    /// @notice The role of the admin
+    bytes32 public constant ADMIN_ROLE = keccak256("ADMIN_ROLE");
+    /// @notice The role of the accounts allowed to run rounds
+    bytes32 public constant GAME_MASTER_ROLE = keccak256("GAME_MASTER_ROLE");
+
+    // Game state
+    /// @notice The admin, who manages the game, its settings and its roles
+    address public admin;
+    /// @notice The admin proposed by transferAdmin, until they accept
+    address public pendingAdmin;
+    /// @notice Whether an account holds GAME_MASTER_ROLE
+    mapping(address account => bool isGameMaster) public gameMasters;
+    /// @notice Whether a round is accepting guesses
+    bool public isGameActive;
+
+    // Game settings: the range secrets and guesses are drawn from, and the per-player guess limit (0 = unlimited)
+    /// @notice The smallest allowed secret
+    uint8 public minNumber = 1;
+    /// @notice The largest allowed secret
+    uint8 public maxNumber = 100;
+    /// @notice The guesses a player has per round (0 = unlimited)
+    uint8 public maxGuessesPerPlayer;
+
+    /// @notice The latest round (0 means no game has been started yet)
+    uint256 public currentRound;
+    /// @notice Timestamp from which a round no longer accepts guesses and anyone may close it (0 = no deadline)
+    mapping(uint256 round => uint256 deadline) public roundDeadlines;
+
+    // Stakes: every guess pays guessFee into the prize pool. The pool goes to the round's winner; a pool nobody
+    // wins rolls over into the next round
+    /// @notice The fee every guess pays into the prize pool, in wei
+    uint256 public guessFee;
+    /// @notice The fees collected for the next winner, in wei
+    uint256 public prizePool;
+    /// @notice The player who won a round's prize pool
+    mapping(uint256 round => address winner) public roundWinners;
+    /// @notice The balance a player can withdraw with claimPrize, in wei
+    mapping(address player => uint256 amount) public pendingPrizes;
+
+    // Player statistics, keyed by round
+    /// @notice How many guesses a player has made in a round
+    mapping(uint256 round => mapping(address player => uint8 guesses)) public totalGuesses;
+    /// @notice Whether a player's latest guess result in a round was correct
+    mapping(uint256 round => mapping(address player => bool correct)) public lastGuessCorrect;
+    /// @notice Whether a player has found the secret of a round
+    mapping(uint256 round => mapping(address player => bool won)) public hasWon;
+
+    // Leaderboard: every round win, in the order the wins were confirmed
+    Winner[] internal winners;
+
+    // Request tracking: every guess is a request until its result is known
+    /// @notice The player who made a request
+    mapping(uint256 requestId => address player) public pendingRequests;
+    /// @notice Whether a request's result is known
+    mapping(uint256 requestId => bool processed) public processedRequests;
+    /// @notice The round a request was made in
+    mapping(uint256 requestId => uint256 round) public requestRounds;
+    /// @notice Which of the player's guesses in the round a request was
+    mapping(uint256 requestId => uint8 guessNumber) public requestGuessNumbers;
+    mapping(address player => uint256[] requestIds) internal playerRequests;
+
+    /**
+     * @notice Start handing the admin role over to another address (admin only)
+     * @dev The new admin has to call acceptAdmin; until then the current admin keeps full control
+     * @param newAdmin The proposed admin
+     */
+    function transferAdmin(address newAdmin) external {
+        if (msg.sender != admin) revert NotAdmin(msg.sender);
+        if (newAdmin == address(0)) revert InvalidAdmin();
+
+        pendingAdmin = newAdmin;
+
+        emit AdminTransferStarted(admin, newAdmin);
+    }
+
+    /**
+     * @notice Accept a pending admin handoff (pending admin only)
+     */
+    function acceptAdmin() external {
+        if (msg.sender != pendingAdmin) revert NotPendingAdmin(msg.sender);
+
+        address previousAdmin = admin;
+        admin = msg.sender;
+        pendingAdmin = address(0);
+
+        emit RoleRevoked(ADMIN_ROLE, previousAdmin, msg.sender);
+        emit RoleGranted(ADMIN_ROLE, msg.sender, msg.sender);
+    }
+
+    /**
+     * @notice Cancel a pending admin handoff (admin only)
+     */
+    function cancelAdminTransfer() external {
+        if (msg.sender != admin) revert NotAdmin(msg.sender);
+        if (pendingAdmin == address(0)) revert NoPendingTransfer();
+
+        address cancelledAdmin = pendingAdmin;
+        pendingAdmin = address(0);
+
+        emit AdminTransferCancelled(admin, cancelledAdmin);
+    }
+
+    /**
+     * @notice Grant a role to an account (admin only)
+     * @dev Only GAME_MASTER_ROLE can be granted; the admin role moves through transferAdmin
+     * @param role The role to grant
+     * @param account The account receiving the role
+     */
+    function grantRole(bytes32 role, address account) external {
+        if (msg.sender != admin) revert NotAdmin(msg.sender);
+        if (role != GAME_MASTER_ROLE) revert UnknownRole(role);
+        if (account == address(0)) revert InvalidAccount();
+
+        if (!gameMasters[account]) {
+            gameMasters[account] = true;
+            emit RoleGranted(role, account, msg.sender);
+        }
+    }
+
+    /**
+     * @notice Revoke a role from an account (admin only)
+     * @param role The role to revoke
+     * @param account The account losing the role
+     */
+    function revokeRole(bytes32 role, address account) external {
+        if (msg.sender != admin) revert NotAdmin(msg.sender);
+        if (role != GAME_MASTER_ROLE) revert UnknownRole(role);
+
+        if (gameMasters[account]) {
+            gameMasters[account] = false;
+            emit RoleRevoked(role, account, msg.sender);
+        }
+    }
+
+    /**
+     * @notice Check whether an account holds a role
+     * @param role The role to check
+     * @param account The account to check
+     * @return granted Whether the account holds the role
+     */
+    function hasRole(bytes32 role, address account) public view returns (bool) {
+        if (role == ADMIN_ROLE) {
+            return account == admin;
+        }
+        if (role == GAME_MASTER_ROLE) {
+            return gameMasters[account];
+        }
+        return false;
+    }
+
+    /**
+     * @notice Admin configures the number range and the per-player guess limit
+     * @dev Can only be changed between rounds so every player in a round plays by the same rules
+     * @param newMinNumber The smallest valid secret and guess
+     * @param newMaxNumber The largest valid secret and guess
+     * @param newMaxGuessesPerPlayer How many guesses each player may make per round (0 = unlimited)
+     */
+    function configureGame(uint8 newMinNumber, uint8 newMaxNumber, uint8 newMaxGuessesPerPlayer) external {
+        if (msg.sender != admin) revert NotAdmin(msg.sender);
+        if (isGameActive) revert RoundInProgress();
+        if (newMinNumber > newMaxNumber) revert InvalidRange(newMinNumber, newMaxNumber);
+
+        minNumber = newMinNumber;
+        maxNumber = newMaxNumber;
+        maxGuessesPerPlayer = newMaxGuessesPerPlayer;
+
+        emit GameConfigured(newMinNumber, newMaxNumber, newMaxGuessesPerPlayer);
+    }
+
+    /**
+     * @notice Admin sets the fee (in wei) every guess must pay into the prize pool
+     * @dev Can only be changed between rounds so every player in a round pays the same fee
+     * @param fee The per-guess fee in wei
+     */
+    function setGuessFee(uint256 fee) external {
+        if (msg.sender != admin) revert NotAdmin(msg.sender);
+        if (isGameActive) revert RoundInProgress();
+
+        guessFee = fee;
+
+        emit GuessFeeChanged(fee);
+    }
+
+    /**
+     * @notice Withdraw the prizes you have won
+     * @dev Pull payment: the balance is cleared before the transfer so re-entrant calls find nothing to claim
+     */
+    function claimPrize() external {
+        uint256 amount = pendingPrizes[msg.sender];
+        if (amount == 0) revert NoPrizeToClaim(msg.sender);
+
+        pendingPrizes[msg.sender] = 0;
+
+        (bool success, ) = payable(msg.sender).call{value: amount}("");
+        if (!success) revert TransferFailed(msg.sender, amount);
+
+        emit PrizeClaimed(msg.sender, amount);
+    }
+
+    /**
+     * @notice Get the prize pool details
+     * @return pool The current prize pool in wei
+     * @return fee The per-guess fee in wei
+     * @return winner The winner of the current round (zero address if none yet)
+     */
+    function getPoolInfo() external view returns (uint256 pool, uint256 fee, address winner) {
+        return (prizePool, guessFee, roundWinners[currentRound]);
+    }
+
+    /**
+     * @notice Check your game statistics for the current round
+     * @return correct Whether your last guess was correct
+     * @return guesses Total number of guesses you've made this round
+     * @return won Whether you've won this round
+     */
+    function getMyStats() external view returns (bool correct, uint8 guesses, bool won) {
+        return getPlayerStats(currentRound, msg.sender);
+    }
+
+    /**
+     * @notice Check a player's statistics for any round
+     * @param round The round to look up
+     * @param player The player's address
+     * @return correct Whether the player's last guess in that round was correct
+     * @return guesses Total number of guesses the player made in that round
+     * @return won Whether the player won that round
+     */
+    function getPlayerStats(uint256 round, address player) public view returns (bool correct, uint8 guesses, bool won) {
+        return (lastGuessCorrect[round][player], totalGuesses[round][player], hasWon[round][player]);
+    }
+
+    /**
+     * @notice Get the game settings
+     * @return min The smallest valid secret and guess
+     * @return max The largest valid secret and guess
+     * @return maxGuesses How many guesses each player may make per round (0 = unlimited)
+     */
+    function getGameSettings() external view returns (uint8 min, uint8 max, uint8 maxGuesses) {
+        return (minNumber, maxNumber, maxGuessesPerPlayer);
+    }
+
+    /**
+     * @notice Get the number of recorded wins
+     * @return count The number of entries on the leaderboard
+     */
+    function getWinnerCount() external view returns (uint256) {
+        return winners.length;
+    }
+
+    /**
+     * @notice Get a page of recorded wins, in the order they were confirmed
+     * @param offset The index of the first entry to return
+     * @param limit The maximum number of entries to return
+     * @return page The requested entries
+     */
+    function getWinners(uint256 offset, uint256 limit) external view returns (Winner[] memory page) {
+        if (offset >= winners.length) {
+            return new Winner[](0);
+        }
+
+        // Clamped before adding, so a huge limit cannot overflow
+        if (limit > winners.length - offset) {
+            limit = winners.length - offset;
+        }
+        uint256 end = offset + limit;
+
+        page = new Winner[](end - offset);
+        for (uint256 i = offset; i < end; i++) {
+            page[i - offset] = winners[i];
+        }
+        return page;
+    }
+
+    /**
+     * @notice Get the current round number
+     * @return round The current round (0 if no game has been started yet)
+     */
+    function getCurrentRound() external view returns (uint256) {
+        return currentRound;
+    }
+
+    /**
+     * @notice Get the deadline of a round
+     * @param round The round to look up
+     * @return The timestamp from which the round no longer accepts guesses (0 = no deadline)
+     */
+    function getRoundDeadline(uint256 round) external view returns (uint256) {
+        return roundDeadlines[round];
+    }
+
+    /**
+     * @notice Get the time left to guess in the current round
+     * @return hasDeadline Whether the current round has a deadline
+     * @return remaining Seconds until the deadline (0 once it has passed or when no round is active)
+     */
+    function getTimeRemaining() external view returns (bool hasDeadline, uint256 remaining) {
+        uint256 deadline = roundDeadlines[currentRound];
+        hasDeadline = isGameActive && deadline != 0;
+        if (hasDeadline && block.timestamp < deadline) {
+            remaining = deadline - block.timestamp;
+        }
+    }
+
+    /**
+     * @notice Check if the result of a request is known
+     * @param requestId The request ID to check
+     * @return processed Whether the request has been processed
+     */
+    function isRequestProcessed(uint256 requestId) external view returns (bool) {
+        return processedRequests[requestId];
+    }
+
+    /**
+     * @notice Get the player associated with a request
+     * @param requestId The request ID
+     * @return player The player's address
+     */
+    function getRequestPlayer(uint256 requestId) external view returns (address) {
+        return pendingRequests[requestId];
+    }
+
+    /**
+     * @notice Get every request a player has made
+     * @param player The player's address
+     * @return requestIds The request IDs, oldest first
+     */
+    function getPlayerRequests(address player) external view returns (uint256[] memory) {
+        return playerRequests[player];
+    }
+
+    /**
+     * @notice Get the round a request was made in
+     * @param requestId The request ID
+     * @return round The round number
+     */
+    function getRequestRound(uint256 requestId) external view returns (uint256) {
+        return requestRounds[requestId];
+    }
+
+    /**
+     * @notice Check if game is currently active
+     * @return active The game status
+     */
+    function getGameStatus() external view returns (bool active) {
+        return isGameActive;
+    }
+
+    /**
+     * @notice Give the admin role to the game's first admin
+     * @param gameAdmin The first admin
+     */
+    function _setInitialAdmin(address gameAdmin) internal {
+        if (gameAdmin == address(0)) revert InvalidAdmin();
+        admin = gameAdmin;
+
+        emit RoleGranted(ADMIN_ROLE, gameAdmin, msg.sender);
+    }
+
+    /**
+     * @notice Whether an account may run rounds (the admin or a game master)
+     * @param account The account to check
+     * @return allowed Whether the account may start and end rounds
+     */
+    function _canRunRounds(address account) internal view returns (bool) {
+        return account == admin || gameMasters[account];
+    }
+
+    /**
+     * @notice Checks that the current round is active and still before its deadline
+     * @param round The current round
+     */
+    function _checkRoundOpen(uint256 round) internal view {
+        if (!isGameActive) revert GameNotActive();
+        if (_isExpired(round)) revert RoundHasExpired(round, roundDeadlines[round]);
+    }
+
+    /**
+     * @notice Whether a round had a deadline that has been reached
+     * @param round The round to check
+     * @return Whether the round has expired
+     */
+    function _isExpired(uint256 round) internal view returns (bool) {
+        uint256 deadline = roundDeadlines[round];
+        return deadline != 0 && block.timestamp >= deadline;
+    }
+
+    /**
+     * @notice Moves the prize pool into the winner's claimable balance
+     * @param round The round that was won
+     * @param winner The winner of the round
+     */
+    function _awardPrize(uint256 round, address winner) internal {
+        uint256 amount = prizePool;
+        if (amount == 0) {
+            return;
+        }
+
+        prizePool = 0;
+        pendingPrizes[winner] += amount;
+
+        emit PrizeAwarded(round, winner, amount);
+    }
+}
@@ -0,0 +1,121 @@
+// SPDX-License-Identifier: BSD-3-Clause-Clear
+pragma solidity ^0.8.24;
+
+import {Clones} from "@openzeppelin/contracts/proxy/Clones.sol";
+import {SecretNumberGame} from "./SecretNumberGame.sol";
+
+/**
+ * @title SecretNumberGameFactory
+ * @notice Deploys and keeps track of independent SecretNumberGame instances
+ * @dev Games are identified by their index in the registry; the caller of createGame becomes the game's admin.
+ * New games are minimal-proxy clones (EIP-1167) of a deployed game, so the factory does not carry the game's bytecode.
+ * @author SecretNumberGame contributors
+ */
+contract SecretNumberGameFactory {
+    /// @notice The game every new game is a clone of
+    address public immutable GAME_IMPLEMENTATION;
+
+    // All games ever created, indexed by game ID
+    address[] private games;
+
+    // Game IDs created by each address
+    mapping(address creator => uint256[] gameIds) private gamesByCreator;
+
+    /// @notice Creator of each game
+    mapping(uint256 gameId => address creator) public gameCreators;
+
+    // Events
+
+    /**
+     * @notice A game was created
+     * @param gameId The ID of the new game
+     * @param creator Who created it, and is its admin
+     * @param game The address of the new game contract
+     */
+    event GameCreated(uint256 indexed gameId, address indexed creator, address game);
+
+    // Errors
+    error GameDoesNotExist(uint256 gameId);
+    error InvalidImplementation();
+
+    /**
+     * @notice Deploys the factory for clones of a deployed game
+     * @dev Only the implementation's code is shared; its own state and admin play no part in the clones
+     * @param gameImplementation The game to clone
+     */
+    constructor(address gameImplementation) {
+        if (gameImplementation.code.length == 0) revert InvalidImplementation();
+        GAME_IMPLEMENTATION = gameImplementation;
+    }
+
+    /**
+     * @notice Create a new game administered by the caller
+     * @return gameId The ID of the new game
+     * @return game The address of the new game contract
+     */
+    function createGame() external returns (uint256 gameId, address game) {
+        game = Clones.clone(GAME_IMPLEMENTATION);
+        SecretNumberGame(game).initialize(msg.sender);
+
+        gameId = games.length;
+        games.push(game);
+        gamesByCreator[msg.sender].push(gameId);
+        gameCreators[gameId] = msg.sender;
+
+        emit GameCreated(gameId, msg.sender, game);
+        return (gameId, game);
+    }
+
+    /**
+     * @notice Get the address of a game
+     * @param gameId The game ID
+     * @return game The game contract address
+     */
+    function getGame(uint256 gameId) external view returns (address) {
+        if (gameId >= games.length) revert GameDoesNotExist(gameId);
+        return games[gameId];
+    }
+
+    /**
+     * @notice Get the number of games created through this factory
+     * @return count The number of games
+     */
+    function getGameCount() external view returns (uint256) {
+        return games.length;
+    }
+
+    /**
+     * @notice List the games created by an address
+     * @param creator The creator's address
+     * @return gameIds The IDs of the games created by that address
+     */
+    function getGamesByCreator(address creator) external view returns (uint256[] memory) {
+        return gamesByCreator[creator];
+    }
+
+    /**
+     * @notice List the games that are currently active or inactive
+     * @dev Reads the live status of every game, so this is meant for off-chain calls
+     * @param active Whether to list active (true) or inactive (false) games
+     * @return gameIds The IDs of the matching games
+     */
+    function getGamesByStatus(bool active) external view returns (uint256[] memory gameIds) {
+        uint256 count = 0;
+        bool[] memory matches = new bool[](games.length);
+        for (uint256 i = 0; i < games.length; i++) {
+            if (SecretNumberGame(games[i]).getGameStatus() == active) {
+                matches[i] = true;
+                count++;
+            }
+        }
+
+        gameIds = new uint256[](count);
+        uint256 next = 0;
+        for (uint256 i = 0; i < games.length; i++) {
+            if (matches[i]) {
+                gameIds[next++] = i;
+            }
+        }
+        return gameIds;
+    }
+}
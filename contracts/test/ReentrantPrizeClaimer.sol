@@ -0,0 +1,61 @@
+// SPDX-License-Identifier: BSD-3-Clause-Clear
+pragma solidity ^0.8.24;
+
+import {externalEuint8} from "@fhevm/solidity/lib/FHE.sol";
+import {SecretNumberGame} from "../SecretNumberGame.sol";
+
+/**
+ * @title ReentrantPrizeClaimer
+ * @notice Test helper that plays a SecretNumberGame and tries to re-enter claimPrize when paid
+ * @author SecretNumberGame contributors
+ */
+contract ReentrantPrizeClaimer {
+    /// @notice The game this helper plays
+    SecretNumberGame public immutable game;
+
+    /// @notice How often the helper tried to re-enter claimPrize
+    uint256 public reentryAttempts;
+    /// @notice How often re-entering claimPrize succeeded
+    uint256 public reentrySuccesses;
+
+    /**
+     * @notice Deploys the helper for a game
+     * @param targetGame The game to play
+     */
+    constructor(SecretNumberGame targetGame) {
+        game = targetGame;
+    }
+
+    /**
+     * @notice Makes a guess as this contract, passing the fee on
+     * @param inputEuint8 Encrypted guess, bound to this contract
+     * @param inputProof Zero-knowledge proof for the encrypted guess
+     * @return The decryption request ID
+     */
+    function guess(externalEuint8 inputEuint8, bytes calldata inputProof) external payable returns (uint256) {
+        return game.makeGuess{value: msg.value}(inputEuint8, inputProof);
+    }
+
+    /**
+     * @notice Claims this contract's prize, which triggers the re-entry attempt
+     */
+    function claim() external {
+        game.claimPrize();
+    }
+
+    /**
+     * @notice Accepts the prize and tries to claim it a second time while being paid
+     */
+    receive() external payable {
+        if (msg.sender != address(game) || reentryAttempts > 0) {
+            return;
+        }
+
+        reentryAttempts++;
+        try game.claimPrize() {
+            reentrySuccesses++;
+        } catch {
+            // Expected: the pending prize was already cleared
+        }
+    }
+}
@@ -7,6 +7,7 @@ const func: DeployFunction = async function (hre: HardhatRuntimeEnvironment) {
 
   const deployedSecretNumberGame = await deploy("SecretNumberGame", {
     from: deployer,
+    args: [deployer],
     log: true,
   });
 
@@ -16,3 +17,5 @@ const func: DeployFunction = async function (hre: HardhatRuntimeEnvironment) {
 export default func;
 func.id = "deploy_secretNumberGame"; // unique id to avoid redeploy
 func.tags = ["SecretNumberGame"];
+// anvil has no FHEVM coprocessor, so only the commit-reveal game is deployed there
+func.skip = async (hre: HardhatRuntimeEnvironment) => hre.network.name === "anvil";
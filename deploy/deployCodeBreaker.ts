@@ -0,0 +1,21 @@
+import { DeployFunction } from "hardhat-deploy/types";
+import { HardhatRuntimeEnvironment } from "hardhat/types";
+
+const func: DeployFunction = async function (hre: HardhatRuntimeEnvironment) {
+  const { deployer } = await hre.getNamedAccounts();
+  const { deploy } = hre.deployments;
+
+  const deployedCodeBreakerGame = await deploy("CodeBreakerGame", {
+    from: deployer,
+    args: [deployer],
+    log: true,
+  });
+
+  console.log(`CodeBreakerGame contract deployed at: `, deployedCodeBreakerGame.address);
+};
+
+export default func;
+func.id = "deploy_codeBreakerGame"; // unique id to avoid redeploy
+func.tags = ["CodeBreakerGame"];
+// The code-breaker game needs the FHEVM coprocessor, which anvil lacks
+func.skip = async (hre: HardhatRuntimeEnvironment) => hre.network.name === "anvil";
@@ -0,0 +1,21 @@
+import { DeployFunction } from "hardhat-deploy/types";
+import { HardhatRuntimeEnvironment } from "hardhat/types";
+
+const func: DeployFunction = async function (hre: HardhatRuntimeEnvironment) {
+  const { deployer } = await hre.getNamedAccounts();
+  const { deploy } = hre.deployments;
+
+  const deployedCommitRevealNumberGame = await deploy("CommitRevealNumberGame", {
+    from: deployer,
+    args: [deployer],
+    log: true,
+  });
+
+  console.log(`CommitRevealNumberGame contract deployed at: `, deployedCommitRevealNumberGame.address);
+};
+
+export default func;
+func.id = "deploy_commitRevealNumberGame"; // unique id to avoid redeploy
+func.tags = ["CommitRevealNumberGame"];
+// The commit-reveal game is a fallback for local chains; FHEVM networks run SecretNumberGame
+func.skip = async (hre: HardhatRuntimeEnvironment) => !["hardhat", "localhost", "anvil"].includes(hre.network.name);
@@ -0,0 +1,29 @@
+import { DeployFunction } from "hardhat-deploy/types";
+import { HardhatRuntimeEnvironment } from "hardhat/types";
+
+const func: DeployFunction = async function (hre: HardhatRuntimeEnvironment) {
+  const { deployer } = await hre.getNamedAccounts();
+  const { deploy } = hre.deployments;
+
+  // Every game the factory creates is a clone of this one, which is never played itself
+  const deployedImplementation = await deploy("SecretNumberGameImplementation", {
+    contract: "SecretNumberGame",
+    from: deployer,
+    args: [deployer],
+    log: true,
+  });
+
+  const deployedSecretNumberGameFactory = await deploy("SecretNumberGameFactory", {
+    from: deployer,
+    args: [deployedImplementation.address],
+    log: true,
+  });
+
+  console.log(`SecretNumberGameFactory contract deployed at: `, deployedSecretNumberGameFactory.address);
+};
+
+export default func;
+func.id = "deploy_secretNumberGameFactory"; // unique id to avoid redeploy
+func.tags = ["SecretNumberGameFactory"];
+// The factory creates FHEVM games, which anvil cannot run
+func.skip = async (hre: HardhatRuntimeEnvironment) => hre.network.name === "anvil";
@@ -0,0 +1,246 @@
+import type { ContractTransactionReceipt, ContractTransactionResponse, Signer } from "ethers";
+
+import type { CodeBreakerGame } from "../types";
+import type { GameStartedEvent, GuessMadeEvent, RoundEndedEvent } from "../types/contracts/CodeBreakerGame";
+import type { FhevmClient, WaitOptions } from "./SecretNumberGameClient";
+
+/**
+ * How close a guess came to the code: digits right and in the right place (bulls) and digits right but in
+ * the wrong place (cows).
+ */
+export type CodeFeedback = {
+  bulls: number;
+  cows: number;
+};
+
+/**
+ * The code and first solver of an ended round.
+ */
+export type CodeReveal = {
+  round: bigint;
+  code: number[];
+  // The first player to crack the code, undefined if nobody did
+  winner?: string;
+  guesses: number;
+};
+
+export type CodeBreakerGameClientOptions = {
+  timeoutMs?: number;
+  pollIntervalMs?: number;
+  // Called with every transaction the client sends, before it is mined
+  onTransaction?: (tx: ContractTransactionResponse) => void;
+};
+
+// Events the client reads back from its own transaction receipts
+type ReceiptEvents = {
+  GameStarted: GameStartedEvent.OutputObject;
+  GuessMade: GuessMadeEvent.OutputObject;
+  RoundEnded: RoundEndedEvent.OutputObject;
+};
+
+const CODE_LENGTH = 4;
+const DEFAULT_TIMEOUT_MS = 120_000;
+const DEFAULT_POLL_INTERVAL_MS = 2_000;
+
+/**
+ * Parses a code written as its digits, e.g. "1123".
+ * @throws if it is not exactly four digits from 0 to 9
+ */
+export function parseCode(text: string): number[] {
+  if (!/^[0-9]{4}$/.test(text)) {
+    throw new Error(`A code is ${CODE_LENGTH} digits from 0 to 9, got "${text}"`);
+  }
+  return [...text].map(Number);
+}
+
+/**
+ * Typed client for a deployed CodeBreakerGame. Encrypts codes and guesses for the connected signer and decrypts
+ * the bulls and cows the game allows it to read.
+ */
+export class CodeBreakerGameClient {
+  readonly contract: CodeBreakerGame;
+  private readonly timeoutMs: number;
+  private readonly pollIntervalMs: number;
+
+  constructor(
+    contract: CodeBreakerGame,
+    readonly fhevm: FhevmClient,
+    readonly signer: Signer,
+    private readonly options: CodeBreakerGameClientOptions = {},
+  ) {
+    this.contract = contract.connect(signer);
+    this.timeoutMs = options.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+    this.pollIntervalMs = options.pollIntervalMs ?? DEFAULT_POLL_INTERVAL_MS;
+  }
+
+  /**
+   * Returns a client for the same game acting as another signer.
+   */
+  connect(signer: Signer): CodeBreakerGameClient {
+    return new CodeBreakerGameClient(this.contract, this.fhevm, signer, this.options);
+  }
+
+  async getAddress(): Promise<string> {
+    return this.contract.getAddress();
+  }
+
+  /**
+   * Encrypts the digits of a code for this game, bound to the connected signer. One proof covers them all.
+   */
+  async encryptCode(digits: number[]): Promise<{ handles: Uint8Array[]; inputProof: Uint8Array }> {
+    if (digits.length !== CODE_LENGTH) {
+      throw new Error(`A code has ${CODE_LENGTH} digits, got ${digits.length}`);
+    }
+    const input = this.fhevm.createEncryptedInput(await this.getAddress(), await this.signer.getAddress());
+    for (const digit of digits) {
+      input.add8(digit);
+    }
+    const encrypted = await input.encrypt();
+    return { handles: encrypted.handles, inputProof: encrypted.inputProof };
+  }
+
+  /**
+   * Sets the secret code, opening a new round (admin).
+   * @returns The round that was opened
+   */
+  async setCode(digits: number[]): Promise<bigint> {
+    const { handles, inputProof } = await this.encryptCode(digits);
+    const receipt = await this.send(this.contract.setSecretCode(toCodeHandles(handles), inputProof));
+    return this.findEvent(receipt, "GameStarted").round;
+  }
+
+  /**
+   * Opens a new round with a code drawn on-chain, which nobody knows (admin).
+   * @returns The round that was opened
+   */
+  async startRandomCode(): Promise<bigint> {
+    const receipt = await this.send(this.contract.startRandomCode());
+    return this.findEvent(receipt, "GameStarted").round;
+  }
+
+  /**
+   * Guesses the code. Read its bulls and cows with feedback.
+   * @returns Which of the signer's guesses in the round this was, counting from 1
+   */
+  async submitGuess(digits: number[]): Promise<number> {
+    const { handles, inputProof } = await this.encryptCode(digits);
+    const receipt = await this.send(this.contract.makeGuess(toCodeHandles(handles), inputProof));
+    return Number(this.findEvent(receipt, "GuessMade").guessCount);
+  }
+
+  /**
+   * Decrypts the bulls and cows of one of the connected signer's guesses.
+   * @param guessNumber The guess, counting from 1 (defaults to the latest one)
+   * @param round The round (defaults to the current round)
+   */
+  async feedback(guessNumber?: number, round?: bigint): Promise<CodeFeedback> {
+    const player = await this.signer.getAddress();
+    const feedbackRound = round ?? (await this.contract.currentRound());
+    const index = guessNumber ?? Number(await this.contract.totalGuesses(feedbackRound, player));
+    if (index < 1) {
+      throw new Error(`${player} has not guessed in round ${feedbackRound}`);
+    }
+
+    const [bulls, cows] = await this.contract.getFeedback(feedbackRound, player, index - 1);
+    const decrypted = await this.userDecrypt([bulls, cows]);
+    return { bulls: Number(decrypted[bulls]), cows: Number(decrypted[cows]) };
+  }
+
+  /**
+   * Ends the current round and requests the decryption of its code and first solver (admin).
+   * @returns The round that was ended
+   */
+  async endRound(): Promise<bigint> {
+    const receipt = await this.send(this.contract.endRound());
+    return this.findEvent(receipt, "RoundEnded").round;
+  }
+
+  /**
+   * Waits for the code and first solver of an ended round to be revealed. On a mock network the decryption
+   * oracle is run first.
+   */
+  async waitForReveal(round: bigint, options: WaitOptions = {}): Promise<CodeReveal> {
+    const timeoutMs = options.timeoutMs ?? this.timeoutMs;
+
+    if (this.fhevm.isMock && this.fhevm.awaitDecryptionOracle) {
+      await this.fhevm.awaitDecryptionOracle();
+    }
+
+    const startedAt = Date.now();
+    for (;;) {
+      const { revealed, code, winner, guesses } = await this.contract.getRoundReveal(round);
+      if (revealed) {
+        return {
+          round,
+          code: code.map(Number),
+          winner: BigInt(winner) !== 0n ? winner : undefined,
+          guesses: Number(guesses),
+        };
+      }
+
+      const elapsedMs = Date.now() - startedAt;
+      if (elapsedMs >= timeoutMs) {
+        throw new Error(`Timed out after ${timeoutMs / 1000}s waiting for the code of round ${round}`);
+      }
+
+      options.onProgress?.(elapsedMs);
+      await new Promise((resolve) => setTimeout(resolve, this.pollIntervalMs));
+    }
+  }
+
+  // Decrypts handles the game has allowed the connected signer to read
+  private async userDecrypt(handles: string[]) {
+    const contractAddress = await this.getAddress();
+    const userAddress = await this.signer.getAddress();
+    const keypair = this.fhevm.generateKeypair();
+    const startTimestamp = Math.floor(Date.now() / 1000);
+    const durationDays = 1;
+
+    const eip712 = this.fhevm.createEIP712(keypair.publicKey, [contractAddress], startTimestamp, durationDays);
+    const signature = await this.signer.signTypedData(
+      eip712.domain,
+      { UserDecryptRequestVerification: eip712.types.UserDecryptRequestVerification },
+      eip712.message,
+    );
+
+    return this.fhevm.userDecrypt(
+      handles.map((handle) => ({ handle, contractAddress })),
+      keypair.privateKey,
+      keypair.publicKey,
+      signature,
+      [contractAddress],
+      userAddress,
+      startTimestamp,
+      durationDays,
+    );
+  }
+
+  private async send(pending: Promise<ContractTransactionResponse>): Promise<ContractTransactionReceipt> {
+    const tx = await pending;
+    this.options.onTransaction?.(tx);
+
+    const receipt = await tx.wait();
+    if (!receipt) {
+      throw new Error(`Transaction ${tx.hash} was not mined`);
+    }
+    return receipt;
+  }
+
+  private findEvent<E extends keyof ReceiptEvents>(
+    receipt: ContractTransactionReceipt,
+    eventName: E,
+  ): ReceiptEvents[E] {
+    for (const log of receipt.logs) {
+      const parsed = this.contract.interface.parseLog(log);
+      if (parsed?.name === eventName) {
+        return parsed.args as unknown as ReceiptEvents[E];
+      }
+    }
+    throw new Error(`${eventName} event not found in tx:${receipt.hash}`);
+  }
+}
+
+// The contract takes a fixed-size array of handles
+function toCodeHandles(handles: Uint8Array[]): [Uint8Array, Uint8Array, Uint8Array, Uint8Array] {
+  return [handles[0], handles[1], handles[2], handles[3]];
+}
@@ -0,0 +1,289 @@
+import {
+  AbiCoder,
+  ContractTransactionReceipt,
+  ContractTransactionResponse,
+  Signer,
+  hexlify,
+  keccak256,
+  randomBytes,
+} from "ethers";
+import * as fs from "fs";
+import * as path from "path";
+
+import type { CommitRevealNumberGame } from "../types";
+import type {
+  GameStartedEvent,
+  GuessMadeEvent,
+  GuessResultEvent,
+  RoundSettledEvent,
+} from "../types/contracts/CommitRevealNumberGame";
+import type { GuessResult, PlayerStats, SubmittedGuess } from "./SecretNumberGameClient";
+
+/**
+ * A committed number and the salt it was hidden with. Both are needed to reveal the commitment.
+ */
+export type CommittedValue = {
+  value: number;
+  salt: string;
+};
+
+/**
+ * How far a round of a commit-reveal game has been settled.
+ */
+export type RoundSettlement = {
+  revealed: boolean;
+  settled: boolean;
+  guesses: number;
+  revealedGuesses: number;
+  // Timestamp from which anyone can settle the round (0 until the secret is revealed)
+  revealPeriodEnd: number;
+};
+
+export type CommitRevealGameClientOptions = {
+  // Called with every transaction the client sends, before it is mined
+  onTransaction?: (tx: ContractTransactionResponse) => void;
+};
+
+// Events the client reads back from its own transaction receipts
+type ReceiptEvents = {
+  GameStarted: GameStartedEvent.OutputObject;
+  GuessMade: GuessMadeEvent.OutputObject;
+  GuessResult: GuessResultEvent.OutputObject;
+  RoundSettled: RoundSettledEvent.OutputObject;
+};
+
+/**
+ * The commitment CommitRevealNumberGame expects for a secret, keccak256(abi.encode(game, secret, salt)).
+ */
+export function secretCommitment(game: string, secret: number, salt: string): string {
+  return keccak256(AbiCoder.defaultAbiCoder().encode(["address", "uint8", "bytes32"], [game, secret, salt]));
+}
+
+/**
+ * The commitment CommitRevealNumberGame expects for a guess, keccak256(abi.encode(game, player, guess, salt)).
+ */
+export function guessCommitment(game: string, player: string, guess: number, salt: string): string {
+  return keccak256(
+    AbiCoder.defaultAbiCoder().encode(["address", "address", "uint8", "bytes32"], [game, player, guess, salt]),
+  );
+}
+
+/**
+ * Remembers the number and salt behind every commitment the client makes, keyed by commitment. The values
+ * are kept in memory and, when the store has a file, saved before the commitment is sent: a lost salt can
+ * never be revealed.
+ */
+export class CommitmentStore {
+  private readonly values: Record<string, CommittedValue>;
+
+  constructor(readonly file?: string) {
+    this.values = file && fs.existsSync(file) ? JSON.parse(fs.readFileSync(file, "utf8")) : {};
+  }
+
+  remember(commitment: string, value: CommittedValue): void {
+    this.values[commitment] = value;
+    if (!this.file) {
+      return;
+    }
+    fs.mkdirSync(path.dirname(this.file), { recursive: true });
+    fs.writeFileSync(this.file, JSON.stringify(this.values, null, 2));
+  }
+
+  recall(commitment: string): CommittedValue | undefined {
+    return this.values[commitment];
+  }
+}
+
+/**
+ * Typed client for a deployed CommitRevealNumberGame. Commits to secrets and guesses with fresh salts, keeps
+ * them in its CommitmentStore and reveals them again to settle a round.
+ */
+export class CommitRevealGameClient {
+  readonly contract: CommitRevealNumberGame;
+
+  constructor(
+    contract: CommitRevealNumberGame,
+    readonly signer: Signer,
+    readonly store: CommitmentStore = new CommitmentStore(),
+    private readonly options: CommitRevealGameClientOptions = {},
+  ) {
+    this.contract = contract.connect(signer);
+  }
+
+  /**
+   * Returns a client for the same game and store acting as another signer.
+   */
+  connect(signer: Signer): CommitRevealGameClient {
+    return new CommitRevealGameClient(this.contract, signer, this.store, this.options);
+  }
+
+  async getAddress(): Promise<string> {
+    return this.contract.getAddress();
+  }
+
+  /**
+   * Commits to the secret number, opening a new round (admin or game master).
+   * @param durationSeconds How long the round accepts guesses (0 = until it is reset or ended)
+   * @returns The round that was opened
+   */
+  async setSecret(value: number, durationSeconds = 0): Promise<bigint> {
+    const salt = hexlify(randomBytes(32));
+    const commitment = secretCommitment(await this.getAddress(), value, salt);
+    this.store.remember(commitment, { value, salt });
+
+    const receipt = await this.send(this.contract.setSecretNumber(commitment, durationSeconds));
+    return this.findEvent(receipt, "GameStarted").round;
+  }
+
+  /**
+   * Stops the current round from accepting guesses (admin or game master).
+   */
+  async reset(): Promise<void> {
+    await this.send(this.contract.resetGame());
+  }
+
+  /**
+   * Closes the current round once its deadline has passed (anyone).
+   */
+  async closeExpiredRound(): Promise<void> {
+    await this.send(this.contract.closeExpiredRound());
+  }
+
+  /**
+   * Commits to a guess. Its result is only known once the secret is revealed and the guess with it.
+   */
+  async submitGuess(value: number, options: { value?: bigint } = {}): Promise<SubmittedGuess> {
+    const salt = hexlify(randomBytes(32));
+    const commitment = guessCommitment(await this.getAddress(), await this.signer.getAddress(), value, salt);
+    this.store.remember(commitment, { value, salt });
+
+    const fee = options.value ?? (await this.contract.guessFee());
+    const receipt = await this.send(this.contract.makeGuess(commitment, { value: fee }));
+
+    const guessMade = this.findEvent(receipt, "GuessMade");
+    return {
+      requestId: guessMade.requestId,
+      round: guessMade.round,
+      guessNumber: Number(guessMade.guessCount),
+      blockNumber: receipt.blockNumber,
+      transactionHash: receipt.hash,
+    };
+  }
+
+  /**
+   * Ends the current round and reveals its secret from the store (admin or game master).
+   * @returns The round and its secret
+   */
+  async endRound(): Promise<{ round: bigint; secret: number }> {
+    const round = await this.contract.getCurrentRound();
+    if (round === 0n) {
+      throw new Error(`No round has been started yet`);
+    }
+    const committed = this.store.recall(await this.contract.getSecretCommitment(round));
+    if (!committed) {
+      throw new Error(`The secret of round ${round} was not committed with this store, so it cannot be revealed`);
+    }
+
+    await this.send(this.contract.endRound(committed.value, committed.salt));
+    return { round, secret: committed.value };
+  }
+
+  /**
+   * Reveals the connected signer's unrevealed guesses of a round whose secret has been revealed. Guesses that
+   * were not committed with this store are skipped.
+   * @param round The round (defaults to the current round)
+   * @returns The results of the revealed guesses, oldest guess first
+   */
+  async revealGuesses(round?: bigint): Promise<GuessResult[]> {
+    const player = await this.signer.getAddress();
+    const guessRound = round ?? (await this.contract.getCurrentRound());
+
+    const results: GuessResult[] = [];
+    for (const requestId of await this.contract.getPlayerRequests(player)) {
+      if (
+        (await this.contract.getRequestRound(requestId)) !== guessRound ||
+        (await this.contract.isRequestProcessed(requestId))
+      ) {
+        continue;
+      }
+
+      const committed = this.store.recall(await this.contract.guessCommitments(requestId));
+      if (!committed) {
+        continue;
+      }
+
+      const receipt = await this.send(this.contract.revealGuess(requestId, committed.value, committed.salt));
+      const result = this.findEvent(receipt, "GuessResult");
+      results.push({
+        requestId,
+        round: guessRound,
+        player,
+        correct: result.correct,
+        totalGuesses: Number(result.totalGuesses),
+      });
+    }
+    return results;
+  }
+
+  /**
+   * Settles the current round once the time to reveal guesses is over (anyone).
+   * @returns The winner, or undefined if no revealed guess was correct
+   */
+  async settle(): Promise<string | undefined> {
+    const receipt = await this.send(this.contract.settleRound());
+    const { winner } = this.findEvent(receipt, "RoundSettled");
+    return BigInt(winner) !== 0n ? winner : undefined;
+  }
+
+  /**
+   * Gets how far a round has been settled.
+   * @param round The round (defaults to the current round)
+   */
+  async settlement(round?: bigint): Promise<RoundSettlement> {
+    const settlement = await this.contract.getRoundSettlement(round ?? (await this.contract.getCurrentRound()));
+    return {
+      revealed: settlement.revealed,
+      settled: settlement.settled,
+      guesses: Number(settlement.guesses),
+      revealedGuesses: Number(settlement.revealedGuesses),
+      revealPeriodEnd: Number(settlement.revealPeriodEnd),
+    };
+  }
+
+  /**
+   * Gets a player's statistics, which only count revealed guesses.
+   * @param player The player (defaults to the connected signer)
+   * @param round The round (defaults to the current round)
+   */
+  async stats(player?: string, round?: bigint): Promise<PlayerStats> {
+    const stats = await this.contract.getPlayerStats(
+      round ?? (await this.contract.getCurrentRound()),
+      player ?? (await this.signer.getAddress()),
+    );
+    return { correct: stats.correct, guesses: Number(stats.guesses), won: stats.won };
+  }
+
+  private async send(pending: Promise<ContractTransactionResponse>): Promise<ContractTransactionReceipt> {
+    const tx = await pending;
+    this.options.onTransaction?.(tx);
+
+    const receipt = await tx.wait();
+    if (!receipt) {
+      throw new Error(`Transaction ${tx.hash} was not mined`);
+    }
+    return receipt;
+  }
+
+  private findEvent<E extends keyof ReceiptEvents>(
+    receipt: ContractTransactionReceipt,
+    eventName: E,
+  ): ReceiptEvents[E] {
+    for (const log of receipt.logs) {
+      const parsed = this.contract.interface.parseLog(log);
+      if (parsed?.name === eventName) {
+        return parsed.args as unknown as ReceiptEvents[E];
+      }
+    }
+    throw new Error(`${eventName} event not found in tx:${receipt.hash}`);
+  }
+}
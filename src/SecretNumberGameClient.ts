@@ -0,0 +1,620 @@
+import type { FhevmInstance } from "@zama-fhe/relayer-sdk/node";
+import type {
+  BytesLike,
+  ContractEventPayload,
+  ContractTransactionReceipt,
+  ContractTransactionResponse,
+  Signer,
+} from "ethers";
+
+import type { SecretNumberGame } from "../types";
+import type {
+  GameStartedEvent,
+  GuessMadeEvent,
+  PrivateGuessMadeEvent,
+  PuzzleStartedEvent,
+  SealedGuessMadeEvent,
+} from "../types/contracts/SecretNumberGame";
+
+/**
+ * The part of the FHEVM API the client relies on. Both the hardhat `fhevm` object and a relayer-SDK
+ * `FhevmInstance` implement it; on a mock network the hardhat object also drives the decryption oracle.
+ */
+export type FhevmClient = Pick<
+  FhevmInstance,
+  "createEncryptedInput" | "generateKeypair" | "createEIP712" | "userDecrypt"
+> & {
+  isMock?: boolean;
+  awaitDecryptionOracle?: () => Promise<void>;
+};
+
+/**
+ * Direction of a wrong guess relative to the secret number, decrypted from the encrypted hint.
+ */
+export type GuessHint = "correct" | "too-low" | "too-high";
+
+/**
+ * A guess that has been sent but whose result may not have arrived yet.
+ */
+export type SubmittedGuess = {
+  requestId: bigint;
+  round: bigint;
+  // Which of the player's guesses in the round this was (for a batch, its last guess)
+  guessNumber: number;
+  blockNumber: number;
+  transactionHash: string;
+};
+
+/**
+ * The outcome of a guess, once the oracle has delivered it.
+ */
+export type GuessResult = {
+  requestId: bigint;
+  round: bigint;
+  player: string;
+  correct: boolean;
+  totalGuesses: number;
+  hint?: GuessHint;
+};
+
+/**
+ * A player's own results in a private round, decrypted through user decryption.
+ */
+export type PrivateResult = {
+  round: bigint;
+  player: string;
+  // Whether the player's last guess was correct
+  correct: boolean;
+  // Whether any of the player's guesses was correct
+  won: boolean;
+  totalGuesses: number;
+  hint?: GuessHint;
+};
+
+/**
+ * A player's statistics for one round.
+ */
+export type PlayerStats = {
+  correct: boolean;
+  guesses: number;
+  won: boolean;
+};
+
+export type GuessOptions = {
+  // Wei to send with the guess (defaults to the game's guess fee)
+  value?: bigint;
+  // Decrypt the hint of a wrong guess when hints are enabled
+  hint?: boolean;
+} & WaitOptions;
+
+export type WaitOptions = {
+  // How long to wait for the oracle before giving up (defaults to the client's timeout)
+  timeoutMs?: number;
+  // Called after every unsuccessful poll with the time waited so far
+  onProgress?: (elapsedMs: number) => void;
+};
+
+export type SecretNumberGameClientOptions = {
+  timeoutMs?: number;
+  pollIntervalMs?: number;
+  // Called with every transaction the client sends, before it is mined
+  onTransaction?: (tx: ContractTransactionResponse) => void;
+};
+
+// Events the client reads back from its own transaction receipts
+type ReceiptEvents = {
+  GameStarted: GameStartedEvent.OutputObject;
+  GuessMade: GuessMadeEvent.OutputObject;
+  PrivateGuessMade: PrivateGuessMadeEvent.OutputObject;
+  PuzzleStarted: PuzzleStartedEvent.OutputObject;
+  SealedGuessMade: SealedGuessMadeEvent.OutputObject;
+};
+
+const DEFAULT_TIMEOUT_MS = 120_000;
+const DEFAULT_POLL_INTERVAL_MS = 2_000;
+
+/**
+ * Thrown when the oracle does not deliver a guess result in time.
+ */
+export class GuessResultTimeoutError extends Error {
+  constructor(
+    readonly requestId: bigint,
+    readonly timeoutMs: number,
+  ) {
+    super(`Timed out after ${timeoutMs / 1000}s waiting for the result of request ${requestId}`);
+    this.name = "GuessResultTimeoutError";
+  }
+}
+
+/**
+ * Typed client for a deployed SecretNumberGame. Encrypts inputs for the connected signer, sends the
+ * transactions and waits for the oracle to deliver guess results.
+ */
+export class SecretNumberGameClient {
+  readonly contract: SecretNumberGame;
+  private readonly timeoutMs: number;
+  private readonly pollIntervalMs: number;
+
+  constructor(
+    contract: SecretNumberGame,
+    readonly fhevm: FhevmClient,
+    readonly signer: Signer,
+    private readonly options: SecretNumberGameClientOptions = {},
+  ) {
+    this.contract = contract.connect(signer);
+    this.timeoutMs = options.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+    this.pollIntervalMs = options.pollIntervalMs ?? DEFAULT_POLL_INTERVAL_MS;
+  }
+
+  /**
+   * Returns a client for the same game acting as another signer.
+   */
+  connect(signer: Signer): SecretNumberGameClient {
+    return new SecretNumberGameClient(this.contract, this.fhevm, signer, this.options);
+  }
+
+  async getAddress(): Promise<string> {
+    return this.contract.getAddress();
+  }
+
+  /**
+   * Encrypts a number for this game, bound to the connected signer.
+   */
+  async encrypt(value: number): Promise<{ handle: Uint8Array; inputProof: Uint8Array }> {
+    const encrypted = await this.fhevm
+      .createEncryptedInput(await this.getAddress(), await this.signer.getAddress())
+      .add8(value)
+      .encrypt();
+    return { handle: encrypted.handles[0], inputProof: encrypted.inputProof };
+  }
+
+  /**
+   * Encrypts several numbers together for this game, bound to the connected signer. One proof covers them all.
+   */
+  async encryptAll(values: number[]): Promise<{ handles: Uint8Array[]; inputProof: Uint8Array }> {
+    const input = this.fhevm.createEncryptedInput(await this.getAddress(), await this.signer.getAddress());
+    for (const value of values) {
+      input.add8(value);
+    }
+    const encrypted = await input.encrypt();
+    return { handles: encrypted.handles, inputProof: encrypted.inputProof };
+  }
+
+  /**
+   * Sets the secret number, opening a new round (admin or game master).
+   * @param durationSeconds How long the round accepts guesses (0 = until it is reset or ended)
+   * @returns The round that was opened
+   */
+  async setSecret(value: number, durationSeconds = 0): Promise<bigint> {
+    const { handle, inputProof } = await this.encrypt(value);
+    const receipt = await this.send(this.contract.setSecretNumber(handle, inputProof, durationSeconds));
+
+    return this.findEvent(receipt, "GameStarted").round;
+  }
+
+  /**
+   * Opens a new round with a secret the contract draws from encrypted randomness, so nobody knows it (admin or
+   * game master).
+   * @param durationSeconds How long the round accepts guesses (0 = until it is reset or ended)
+   * @returns The round that was opened
+   */
+  async setRandomSecret(durationSeconds = 0): Promise<bigint> {
+    const receipt = await this.send(this.contract.startRandomGame(durationSeconds));
+    return this.findEvent(receipt, "GameStarted").round;
+  }
+
+  /**
+   * Opens a solo round, in which every player guesses a secret of their own (admin or game master). Players
+   * draw their secret with startPuzzle before they guess.
+   * @param durationSeconds How long the round accepts guesses (0 = until it is reset)
+   * @returns The round that was opened
+   */
+  async startSoloRound(durationSeconds = 0): Promise<bigint> {
+    const receipt = await this.send(this.contract.startSoloRound(durationSeconds));
+    return this.findEvent(receipt, "GameStarted").round;
+  }
+
+  /**
+   * Draws the connected signer's own secret for the current solo round.
+   * @returns The round the puzzle was started in
+   */
+  async startPuzzle(): Promise<bigint> {
+    const receipt = await this.send(this.contract.startMyPuzzle());
+    return this.findEvent(receipt, "PuzzleStarted").round;
+  }
+
+  /**
+   * Whether a player has drawn their secret for a solo round.
+   * @param player The player (defaults to the connected signer)
+   * @param round The round (defaults to the current round)
+   */
+  async hasPuzzle(player?: string, round?: bigint): Promise<boolean> {
+    return this.contract.hasPuzzle(
+      round ?? (await this.contract.getCurrentRound()),
+      player ?? (await this.signer.getAddress()),
+    );
+  }
+
+  /**
+   * Deactivates the game, ending the current round (admin or game master).
+   */
+  async reset(): Promise<void> {
+    await this.send(this.contract.resetGame());
+  }
+
+  /**
+   * Closes the current round once its deadline has passed (anyone).
+   */
+  async closeExpiredRound(): Promise<void> {
+    await this.send(this.contract.closeExpiredRound());
+  }
+
+  /**
+   * Sends a guess without waiting for its result.
+   */
+  async submitGuess(value: number, options: Pick<GuessOptions, "value"> = {}): Promise<SubmittedGuess> {
+    const { handle, inputProof } = await this.encrypt(value);
+    return this.submitEncryptedGuess(handle, inputProof, options);
+  }
+
+  /**
+   * Sends a guess that was encrypted elsewhere. The input must have been encrypted for this game and the
+   * connected signer.
+   */
+  async submitEncryptedGuess(
+    handle: BytesLike,
+    inputProof: BytesLike,
+    options: Pick<GuessOptions, "value"> = {},
+  ): Promise<SubmittedGuess> {
+    const round = await this.contract.getCurrentRound();
+    if (await this.contract.privateRounds(round)) {
+      throw new Error(`Round ${round} is private, its results can only be read with privateGuess`);
+    }
+
+    const fee = options.value ?? (await this.contract.guessFee());
+    const receipt = await this.send(this.contract.makeGuess(handle, inputProof, { value: fee }));
+
+    const guessMade = this.findEvent(receipt, "GuessMade");
+    return {
+      requestId: guessMade.requestId,
+      round: guessMade.round,
+      guessNumber: Number(guessMade.guessCount),
+      blockNumber: receipt.blockNumber,
+      transactionHash: receipt.hash,
+    };
+  }
+
+  /**
+   * Sends several guesses in one transaction without waiting for their shared result, which is correct if any
+   * of them was. The fee defaults to the game's guess fee for each guess.
+   */
+  async submitGuesses(values: number[], options: Pick<GuessOptions, "value"> = {}): Promise<SubmittedGuess> {
+    const round = await this.contract.getCurrentRound();
+    if (await this.contract.privateRounds(round)) {
+      throw new Error(`Round ${round} is private, its results can only be read with privateGuesses`);
+    }
+
+    const { handles, inputProof } = await this.encryptAll(values);
+    const fee = options.value ?? (await this.contract.guessFee()) * BigInt(values.length);
+    const receipt = await this.send(this.contract.makeGuesses(handles, inputProof, { value: fee }));
+
+    const guessMade = this.findEvent(receipt, "GuessMade");
+    return {
+      requestId: guessMade.requestId,
+      round: guessMade.round,
+      guessNumber: Number(guessMade.guessCount),
+      blockNumber: receipt.blockNumber,
+      transactionHash: receipt.hash,
+    };
+  }
+
+  /**
+   * Sends several guesses in one transaction and waits for their shared result. A batch gets no hint.
+   */
+  async guesses(values: number[], options: Omit<GuessOptions, "hint"> = {}): Promise<GuessResult> {
+    const submitted = await this.submitGuesses(values, options);
+
+    const result = await this.waitForResult(submitted, options);
+    if (!result) {
+      throw new Error(`Request ${submitted.requestId} was closed without a result`);
+    }
+    return result;
+  }
+
+  /**
+   * Sends a guess and waits for the oracle to deliver its result.
+   */
+  async guess(value: number, options: GuessOptions = {}): Promise<GuessResult> {
+    const submitted = await this.submitGuess(value, options);
+
+    const result = await this.waitForResult(submitted, options);
+    if (!result) {
+      throw new Error(`Request ${submitted.requestId} was closed without a result`);
+    }
+
+    if (options.hint && !result.correct && (await this.contract.hintsEnabled())) {
+      result.hint = await this.decryptHint(submitted.requestId);
+    }
+    return result;
+  }
+
+  /**
+   * Sends a guess in a private round and decrypts its result, which only the connected signer can read.
+   * Nothing waits for the oracle: the result is never decrypted publicly.
+   */
+  async privateGuess(value: number, options: Pick<GuessOptions, "value" | "hint"> = {}): Promise<PrivateResult> {
+    const { handle, inputProof } = await this.encrypt(value);
+    const fee = options.value ?? (await this.contract.guessFee());
+    const receipt = await this.send(this.contract.makeGuess(handle, inputProof, { value: fee }));
+
+    const guessMade = this.findEvent(receipt, "PrivateGuessMade");
+    const result = await this.privateResult(guessMade.round);
+    if (!options.hint || result.correct) {
+      delete result.hint;
+    }
+    return result;
+  }
+
+  /**
+   * Sends several guesses in a private round and decrypts their shared result, which only the connected signer
+   * can read. A batch gets no hint.
+   */
+  async privateGuesses(values: number[], options: Pick<GuessOptions, "value"> = {}): Promise<PrivateResult> {
+    const { handles, inputProof } = await this.encryptAll(values);
+    const fee = options.value ?? (await this.contract.guessFee()) * BigInt(values.length);
+    const receipt = await this.send(this.contract.makeGuesses(handles, inputProof, { value: fee }));
+
+    const guessMade = this.findEvent(receipt, "PrivateGuessMade");
+    return this.privateResult(guessMade.round);
+  }
+
+  /**
+   * Sends the connected signer's one guess of a sealed round. The guess is never decrypted: once the round ends,
+   * only the player closest to the secret is, see waitForPrivateWinner.
+   * @returns The round the guess was sealed in
+   */
+  async submitSealedGuess(value: number, options: Pick<GuessOptions, "value"> = {}): Promise<bigint> {
+    const { handle, inputProof } = await this.encrypt(value);
+    const fee = options.value ?? (await this.contract.guessFee());
+    const receipt = await this.send(this.contract.submitSealedGuess(handle, inputProof, { value: fee }));
+
+    return this.findEvent(receipt, "SealedGuessMade").round;
+  }
+
+  /**
+   * Decrypts the connected signer's own results in a private round through user decryption.
+   * @param round The round (defaults to the current round)
+   */
+  async privateResult(round?: bigint): Promise<PrivateResult> {
+    const player = await this.signer.getAddress();
+    const resultRound = round ?? (await this.contract.getCurrentRound());
+    const [totalGuesses, [lastCorrect, won, lastHint]] = await Promise.all([
+      this.contract.totalGuesses(resultRound, player),
+      this.contract.getPrivateResult(resultRound, player),
+    ]);
+
+    const result: PrivateResult = {
+      round: resultRound,
+      player,
+      correct: false,
+      won: false,
+      totalGuesses: Number(totalGuesses),
+    };
+    if (BigInt(lastCorrect) === 0n) {
+      return result;
+    }
+
+    const handles = BigInt(lastHint) !== 0n ? [lastCorrect, won, lastHint] : [lastCorrect, won];
+    const decrypted = await this.userDecrypt(handles);
+    result.correct = decrypted[lastCorrect] === true;
+    result.won = decrypted[won] === true;
+    if (BigInt(lastHint) !== 0n) {
+      result.hint = await this.toHint(BigInt(decrypted[lastHint]));
+    }
+    return result;
+  }
+
+  /**
+   * Waits for the winner of an ended private or sealed round to be revealed. On a mock network the decryption
+   * oracle is run first.
+   * @returns The first correct guesser (the closest one in a sealed round), or undefined if nobody won
+   */
+  async waitForPrivateWinner(round: bigint, options: WaitOptions = {}): Promise<string | undefined> {
+    const timeoutMs = options.timeoutMs ?? this.timeoutMs;
+
+    if (this.fhevm.isMock && this.fhevm.awaitDecryptionOracle) {
+      await this.fhevm.awaitDecryptionOracle();
+    }
+
+    const startedAt = Date.now();
+    for (;;) {
+      const { revealed, winner } = await this.contract.getPrivateWinner(round);
+      if (revealed) {
+        return BigInt(winner) !== 0n ? winner : undefined;
+      }
+
+      const elapsedMs = Date.now() - startedAt;
+      if (elapsedMs >= timeoutMs) {
+        throw new Error(`Timed out after ${timeoutMs / 1000}s waiting for the winner of round ${round}`);
+      }
+
+      options.onProgress?.(elapsedMs);
+      await new Promise((resolve) => setTimeout(resolve, this.pollIntervalMs));
+    }
+  }
+
+  /**
+   * Waits for the GuessResult event of a submitted guess. On a mock network the decryption oracle is run first.
+   * @returns The result, or undefined if the request was cancelled or retried before a result arrived
+   * @throws GuessResultTimeoutError if nothing arrives in time
+   */
+  async waitForResult(submitted: SubmittedGuess, options: WaitOptions = {}): Promise<GuessResult | undefined> {
+    const timeoutMs = options.timeoutMs ?? this.timeoutMs;
+
+    if (this.fhevm.isMock && this.fhevm.awaitDecryptionOracle) {
+      await this.fhevm.awaitDecryptionOracle();
+    }
+
+    const player = await this.contract.getRequestPlayer(submitted.requestId);
+    const startedAt = Date.now();
+    for (;;) {
+      const events = await this.contract.queryFilter(
+        this.contract.filters.GuessResult(player, submitted.round),
+        submitted.blockNumber,
+      );
+      const match = events.find((event) => event.args.requestId === submitted.requestId);
+      if (match) {
+        return {
+          requestId: submitted.requestId,
+          round: submitted.round,
+          player,
+          correct: match.args.correct,
+          totalGuesses: Number(match.args.totalGuesses),
+        };
+      }
+
+      if (await this.contract.isRequestProcessed(submitted.requestId)) {
+        return undefined;
+      }
+
+      const elapsedMs = Date.now() - startedAt;
+      if (elapsedMs >= timeoutMs) {
+        throw new GuessResultTimeoutError(submitted.requestId, timeoutMs);
+      }
+
+      options.onProgress?.(elapsedMs);
+      await new Promise((resolve) => setTimeout(resolve, this.pollIntervalMs));
+    }
+  }
+
+  /**
+   * Looks up the request that took over a guess when its decryption was retried.
+   * @returns The new request, ready for waitForResult, or undefined if the request was not retried
+   */
+  async findRetry(submitted: SubmittedGuess): Promise<SubmittedGuess | undefined> {
+    const events = await this.contract.queryFilter(
+      this.contract.filters.DecryptionRetried(undefined, submitted.requestId),
+      submitted.blockNumber,
+    );
+    if (events.length === 0) {
+      return undefined;
+    }
+
+    const retry = events[0];
+    return {
+      requestId: retry.args.newRequestId,
+      round: submitted.round,
+      guessNumber: submitted.guessNumber,
+      blockNumber: retry.blockNumber,
+      transactionHash: retry.transactionHash,
+    };
+  }
+
+  /**
+   * Decrypts the hint of one of the connected signer's guesses through user decryption.
+   * @returns The hint, or undefined if hints were disabled for the guess
+   */
+  async decryptHint(requestId: bigint): Promise<GuessHint | undefined> {
+    const handle = await this.contract.getRequestHint(requestId);
+    if (BigInt(handle) === 0n) {
+      return undefined;
+    }
+
+    const decrypted = await this.userDecrypt([handle]);
+    return this.toHint(BigInt(decrypted[handle]));
+  }
+
+  /**
+   * Gets a player's statistics.
+   * @param player The player (defaults to the connected signer)
+   * @param round The round (defaults to the current round)
+   */
+  async stats(player?: string, round?: bigint): Promise<PlayerStats> {
+    const stats = await this.contract.getPlayerStats(
+      round ?? (await this.contract.getCurrentRound()),
+      player ?? (await this.signer.getAddress()),
+    );
+    return { correct: stats.correct, guesses: Number(stats.guesses), won: stats.won };
+  }
+
+  /**
+   * Calls `callback` for every guess result the game emits from now on.
+   * @param player Only report results for this player
+   * @returns A function that stops the subscription
+   */
+  onResult(callback: (result: GuessResult) => void, player?: string): () => void {
+    const filter = this.contract.filters.GuessResult(player);
+    // The event payload always comes last; some providers pass nothing but the payload
+    const listener = (...args: unknown[]) => {
+      const payload = args[args.length - 1] as ContractEventPayload;
+      const [resultPlayer, round, correct, totalGuesses, requestId] = payload.args;
+      callback({ requestId, round, player: resultPlayer, correct, totalGuesses: Number(totalGuesses) });
+    };
+
+    void this.contract.on(filter, listener);
+    return () => {
+      void this.contract.off(filter, listener);
+    };
+  }
+
+  // Decrypts handles the game has allowed the connected signer to read
+  private async userDecrypt(handles: string[]) {
+    const contractAddress = await this.getAddress();
+    const userAddress = await this.signer.getAddress();
+    const keypair = this.fhevm.generateKeypair();
+    const startTimestamp = Math.floor(Date.now() / 1000);
+    const durationDays = 1;
+
+    const eip712 = this.fhevm.createEIP712(keypair.publicKey, [contractAddress], startTimestamp, durationDays);
+    const signature = await this.signer.signTypedData(
+      eip712.domain,
+      { UserDecryptRequestVerification: eip712.types.UserDecryptRequestVerification },
+      eip712.message,
+    );
+
+    return this.fhevm.userDecrypt(
+      handles.map((handle) => ({ handle, contractAddress })),
+      keypair.privateKey,
+      keypair.publicKey,
+      signature,
+      [contractAddress],
+      userAddress,
+      startTimestamp,
+      durationDays,
+    );
+  }
+
+  private async toHint(hint: bigint): Promise<GuessHint> {
+    if (hint === (await this.contract.HINT_TOO_LOW())) {
+      return "too-low";
+    }
+    if (hint === (await this.contract.HINT_TOO_HIGH())) {
+      return "too-high";
+    }
+    return "correct";
+  }
+
+  private async send(pending: Promise<ContractTransactionResponse>): Promise<ContractTransactionReceipt> {
+    const tx = await pending;
+    this.options.onTransaction?.(tx);
+
+    const receipt = await tx.wait();
+    if (!receipt) {
+      throw new Error(`Transaction ${tx.hash} was not mined`);
+    }
+    return receipt;
+  }
+
+  private findEvent<E extends keyof ReceiptEvents>(
+    receipt: ContractTransactionReceipt,
+    eventName: E,
+  ): ReceiptEvents[E] {
+    for (const log of receipt.logs) {
+      const parsed = this.contract.interface.parseLog(log);
+      if (parsed?.name === eventName) {
+        return parsed.args as unknown as ReceiptEvents[E];
+      }
+    }
+    throw new Error(`${eventName} event not found in tx:${receipt.hash}`);
+  }
+}
@@ -0,0 +1,233 @@
+import { ErrorDescription, Interface, InterfaceAbi, formatEther, isHexString } from "ethers";
+
+/**
+ * What kind of problem a revert reports. Each kind exits the tasks with its own code.
+ */
+export type GameErrorKind = "permission" | "state" | "input" | "transfer" | "unknown";
+
+export const EXIT_CODES: Record<GameErrorKind, number> = {
+  // A revert the decoder does not know, e.g. from the FHEVM contracts or a plain require message
+  unknown: 2,
+  // The caller lacks the role or ownership the call needs
+  permission: 3,
+  // The game is not in a state that allows the call
+  state: 4,
+  // An argument or the value sent is invalid
+  input: 5,
+  // Ether could not be sent out
+  transfer: 6,
+};
+
+/**
+ * A revert turned into something a person can act on.
+ */
+export type DecodedGameError = {
+  // The custom error name, or Error/Panic for reverts without a custom error
+  name: string;
+  args: unknown[];
+  kind: GameErrorKind;
+  message: string;
+  exitCode: number;
+};
+
+type ErrorFormat = {
+  kind: GameErrorKind;
+  describe: (args: ErrorDescription["args"]) => string;
+};
+
+// How every custom error of the game variants, the factory and the code-breaker game reads, keyed by error name
+const ERROR_FORMATS: Record<string, ErrorFormat> = {
+  NotAdmin: { kind: "permission", describe: ([caller]) => `Only the game admin can do this (called by ${caller})` },
+  NotGameMaster: {
+    kind: "permission",
+    describe: ([caller]) => `Only the admin or a game master can run rounds (called by ${caller})`,
+  },
+  NotPendingAdmin: {
+    kind: "permission",
+    describe: ([caller]) => `Only the pending admin can accept the transfer (called by ${caller})`,
+  },
+  NotRequestOwner: {
+    kind: "permission",
+    describe: ([requestId, caller]) => `Request ${requestId} does not belong to ${caller}`,
+  },
+  InvalidAdmin: { kind: "input", describe: () => `The admin cannot be the zero address` },
+  InvalidAccount: { kind: "input", describe: () => `The account cannot be the zero address` },
+  UnknownRole: { kind: "input", describe: ([role]) => `Unknown role ${role}` },
+  InvalidRange: {
+    kind: "input",
+    describe: ([min, max]) => `Invalid range ${min}-${max}: the minimum must not be greater than the maximum`,
+  },
+  IncorrectGuessFee: {
+    kind: "input",
+    describe: ([sent, required]) =>
+      `Incorrect guess fee: sent ${formatEther(sent)} ETH but the fee is ${formatEther(required)} ETH`,
+  },
+  InvalidRequest: { kind: "input", describe: ([requestId]) => `Unknown request ${requestId}` },
+  InvalidBatchSize: {
+    kind: "input",
+    describe: ([size, maxSize]) => `Cannot make ${size} guesses at once, at most ${maxSize} are allowed`,
+  },
+  GameDoesNotExist: { kind: "input", describe: ([gameId]) => `Game ${gameId} does not exist` },
+  InvalidImplementation: { kind: "input", describe: () => `The game implementation has to be a deployed contract` },
+  GameNotActive: { kind: "state", describe: () => `The game is not active, a new round has to be started first` },
+  RoundInProgress: { kind: "state", describe: () => `This can only be changed between rounds` },
+  RoundHasExpired: {
+    kind: "state",
+    describe: ([round, deadline]) => `Round ${round} stopped accepting guesses at ${formatTimestamp(deadline)}`,
+  },
+  RoundNotExpired: {
+    kind: "state",
+    describe: ([round, deadline]) => `Round ${round} is open until ${formatTimestamp(deadline)}`,
+  },
+  NoRoundDeadline: { kind: "state", describe: ([round]) => `Round ${round} has no deadline` },
+  WinnerNotRevealed: {
+    kind: "state",
+    describe: ([round]) => `The winner of private or sealed round ${round} has not been revealed yet`,
+  },
+  AlreadyWon: { kind: "state", describe: ([player]) => `${player} already won this round` },
+  GuessLimitReached: {
+    kind: "state",
+    describe: ([player, limit]) => `${player} has used all ${limit} guesses for this round`,
+  },
+  NotEnoughGuessesLeft: {
+    kind: "state",
+    describe: ([remaining]) => `Only ${remaining} guesses are left for this round`,
+  },
+  RequestAlreadyProcessed: {
+    kind: "state",
+    describe: ([requestId]) => `Request ${requestId} has already been processed`,
+  },
+  RequestNotTimedOut: {
+    kind: "state",
+    describe: ([requestId, timeoutBlock]) =>
+      `Request ${requestId} cannot be cancelled or retried before block ${timeoutBlock}`,
+  },
+  NotSoloRound: { kind: "state", describe: ([round]) => `Round ${round} is not a solo round` },
+  PuzzleAlreadyStarted: {
+    kind: "state",
+    describe: ([player]) => `${player} has already started their puzzle for this round`,
+  },
+  PuzzleNotStarted: {
+    kind: "state",
+    describe: ([player]) => `${player} has to start their puzzle before guessing in this solo round`,
+  },
+  NoSharedSecret: {
+    kind: "state",
+    describe: ([round]) => `Round ${round} is a solo round without a shared secret, reset it instead`,
+  },
+  NotSealedRound: { kind: "state", describe: ([round]) => `Round ${round} is not a sealed round` },
+  SealedGuessRequired: {
+    kind: "state",
+    describe: ([round]) => `Round ${round} is a sealed round, which only takes one sealed guess per player`,
+  },
+  SealedModeEnabled: { kind: "state", describe: () => `Solo rounds cannot be started while sealed mode is on` },
+  AlreadyInitialized: { kind: "state", describe: () => `The game has already been set up` },
+  SealedGuessAlreadySubmitted: {
+    kind: "state",
+    describe: ([player]) => `${player} has already submitted their sealed guess for this round`,
+  },
+  CodeNotRevealed: {
+    kind: "state",
+    describe: ([round]) => `The code of round ${round} has to be revealed before a new round can start`,
+  },
+  NoPendingTransfer: { kind: "state", describe: () => `There is no pending admin transfer` },
+  NoPrizeToClaim: { kind: "state", describe: ([player]) => `${player} has no prize to claim` },
+  CommitmentMismatch: { kind: "input", describe: () => `The number and salt do not match the commitment` },
+  SecretAlreadyRevealed: {
+    kind: "state",
+    describe: ([round]) => `The secret of round ${round} has already been revealed`,
+  },
+  SecretNotRevealed: { kind: "state", describe: ([round]) => `The secret of round ${round} has not been revealed yet` },
+  RoundNotSettled: {
+    kind: "state",
+    describe: ([round]) => `Round ${round} has to be settled before a new round can start`,
+  },
+  RoundAlreadySettled: { kind: "state", describe: ([round]) => `Round ${round} has already been settled` },
+  RevealPeriodActive: {
+    kind: "state",
+    describe: ([round, endsAt]) => `Guesses of round ${round} can be revealed until ${formatTimestamp(endsAt)}`,
+  },
+  TransferFailed: {
+    kind: "transfer",
+    describe: ([to, amount]) => `Sending ${formatEther(amount)} ETH to ${to} failed`,
+  },
+};
+
+/**
+ * Turns the revert data carried by a failed call or transaction into a readable message. The decoder knows the
+ * errors of the ABIs it is given, so it works with typechain contracts and hardhat artifacts alike.
+ */
+export class GameErrorDecoder {
+  private readonly interfaces: Interface[];
+
+  constructor(abis: (Interface | InterfaceAbi)[]) {
+    this.interfaces = abis.map((abi) => Interface.from(abi));
+  }
+
+  /**
+   * @returns The decoded revert, or undefined if the error does not carry revert data
+   */
+  decode(error: unknown): DecodedGameError | undefined {
+    const data = findRevertData(error);
+    if (data === undefined) {
+      return undefined;
+    }
+
+    for (const iface of this.interfaces) {
+      const parsed = iface.parseError(data);
+      if (!parsed) {
+        continue;
+      }
+
+      const format = ERROR_FORMATS[parsed.name];
+      if (format) {
+        return describe(parsed.name, [...parsed.args], format.kind, format.describe(parsed.args));
+      }
+      // Error(string) and Panic(uint256) are built into every interface
+      if (parsed.name === "Error") {
+        return describe(parsed.name, [...parsed.args], "unknown", parsed.args[0]);
+      }
+      return describe(
+        parsed.name,
+        [...parsed.args],
+        "unknown",
+        `Reverted with ${parsed.name}(${parsed.args.join(", ")})`,
+      );
+    }
+
+    return describe("Unknown", [data], "unknown", `Reverted with unknown error ${data.slice(0, 10)}`);
+  }
+}
+
+function describe(name: string, args: unknown[], kind: GameErrorKind, message: string): DecodedGameError {
+  return { name, args, kind, message, exitCode: EXIT_CODES[kind] };
+}
+
+function formatTimestamp(timestamp: bigint): string {
+  return new Date(Number(timestamp) * 1000).toISOString();
+}
+
+/**
+ * Looks for revert data in the error and the errors it wraps. Providers nest it differently, and the in-process
+ * hardhat network only mentions it in the message.
+ */
+function findRevertData(error: unknown, depth = 0): string | undefined {
+  if (typeof error !== "object" || error === null || depth > 5) {
+    return undefined;
+  }
+
+  const { data, message } = error as { data?: unknown; message?: unknown };
+  if (typeof data === "string" && isHexString(data) && data.length >= 10) {
+    return data;
+  }
+
+  for (const key of ["error", "info", "cause", "data"]) {
+    const nested = findRevertData((error as Record<string, unknown>)[key], depth + 1);
+    if (nested !== undefined) {
+      return nested;
+    }
+  }
+
+  const match = typeof message === "string" ? message.match(/return data: (0x[0-9a-fA-F]{8,})/) : null;
+  return match ? match[1] : undefined;
+}
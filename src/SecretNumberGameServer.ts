@@ -0,0 +1,407 @@
+import { getAddress, isAddress, isHexString } from "ethers";
+import * as http from "http";
+import type { AddressInfo } from "net";
+
+import type { SecretNumberGameClient } from "./SecretNumberGameClient";
+import { GameErrorDecoder } from "./SecretNumberGameErrors";
+
+export type SecretNumberGameServerOptions = {
+  // How often the event stream looks for new events
+  pollIntervalMs?: number;
+  // Origins of the web pages allowed to call the API from a browser, e.g. "http://localhost:5173" (none by default)
+  allowedOrigins?: string[];
+};
+
+// A client of the event stream, optionally only interested in one player
+type EventStream = {
+  response: http.ServerResponse;
+  player?: string;
+};
+
+const DEFAULT_POLL_INTERVAL_MS = 1_000;
+const MAX_BODY_BYTES = 64 * 1024;
+const STREAMED_EVENTS = ["GuessMade", "GuessResult"];
+
+/**
+ * An error that is answered with its own HTTP status instead of a 500.
+ */
+class HttpError extends Error {
+  constructor(
+    readonly status: number,
+    message: string,
+    // The name of the contract error behind a rejected guess
+    readonly reason?: string,
+  ) {
+    super(message);
+  }
+}
+
+/**
+ * A small HTTP/JSON API over a game, for frontends that cannot run hardhat tasks:
+ *   - GET  /status                 game state, admin and the relayer address
+ *   - GET  /players/:address/stats a player's guesses, last result and win (`?round=` defaults to the current one)
+ *   - GET  /requests/:id           a guess request and its result once it has one
+ *   - GET  /events                 Server-Sent Events stream of GuessMade and GuessResult (`?player=` to filter)
+ *   - POST /guess                  relays `{ handle, inputProof, value? }` encrypted for the game and the relayer
+ *                                  (409 in a private round, whose results only the guessing player can decrypt)
+ *
+ * Guesses are sent by the client's signer, so they count for the relayer account. Numbers are returned as
+ * decimal strings. Browsers may only call the API from the allowed origins: a request from any other page is
+ * refused with 403 before it is routed, so no page can spend the relayer's funds by posting a guess.
+ */
+export class SecretNumberGameServer {
+  private readonly server: http.Server;
+  private readonly pollIntervalMs: number;
+  private readonly allowedOrigins: Set<string>;
+  private readonly streams = new Set<EventStream>();
+  private readonly errors: GameErrorDecoder;
+  private poller?: NodeJS.Timeout;
+  // Bumped whenever polling stops, so a poll still in flight from before neither reschedules nor streams
+  private pollGeneration = 0;
+  // Last block the event stream has looked at
+  private lastBlock?: number;
+
+  constructor(
+    readonly client: SecretNumberGameClient,
+    options: SecretNumberGameServerOptions = {},
+  ) {
+    this.pollIntervalMs = options.pollIntervalMs ?? DEFAULT_POLL_INTERVAL_MS;
+    this.allowedOrigins = new Set(options.allowedOrigins ?? []);
+    this.errors = new GameErrorDecoder([client.contract.interface]);
+    this.server = http.createServer((request, response) => {
+      void this.handle(request, response);
+    });
+  }
+
+  /**
+   * Starts listening.
+   * @param port The port to listen on (0 picks a free one)
+   * @returns The server's base URL
+   */
+  async listen(port = 0, host = "127.0.0.1"): Promise<string> {
+    await new Promise<void>((resolve, reject) => {
+      this.server.once("error", reject);
+      this.server.listen(port, host, () => {
+        this.server.off("error", reject);
+        resolve();
+      });
+    });
+    const address = this.server.address() as AddressInfo;
+    return `http://${host}:${address.port}`;
+  }
+
+  /**
+   * Ends every event stream and stops the server.
+   */
+  async close(): Promise<void> {
+    for (const stream of this.streams) {
+      stream.response.end();
+    }
+    this.streams.clear();
+    this.stopPolling();
+
+    await new Promise<void>((resolve, reject) => {
+      this.server.close((error) => (error ? reject(error) : resolve()));
+      this.server.closeAllConnections();
+    });
+  }
+
+  private get provider() {
+    const provider = this.client.contract.runner?.provider;
+    if (!provider) {
+      throw new Error(`The game contract is not connected to a provider`);
+    }
+    return provider;
+  }
+
+  private async handle(request: http.IncomingMessage, response: http.ServerResponse): Promise<void> {
+    const url = new URL(request.url ?? "/", "http://localhost");
+    // Browsers send the calling page's origin; requests from scripts and other tools come without one
+    const origin = request.headers.origin;
+    response.setHeader("Vary", "Origin");
+
+    try {
+      if (origin !== undefined) {
+        if (!this.allowedOrigins.has(origin)) {
+          throw new HttpError(403, `Origin not allowed: ${origin}`);
+        }
+        response.setHeader("Access-Control-Allow-Origin", origin);
+      }
+
+      if (request.method === "OPTIONS") {
+        response.writeHead(204, {
+          "Access-Control-Allow-Methods": "GET, POST, OPTIONS",
+          "Access-Control-Allow-Headers": "Content-Type",
+        });
+        response.end();
+        return;
+      }
+
+      const route = `${request.method} ${url.pathname}`;
+      let match: RegExpMatchArray | null;
+      if (route === "GET /status") {
+        send(response, 200, await this.status());
+      } else if ((match = route.match(/^GET \/players\/([^/]+)\/stats$/))) {
+        send(response, 200, await this.playerStats(match[1], url.searchParams.get("round")));
+      } else if ((match = route.match(/^GET \/requests\/([^/]+)$/))) {
+        send(response, 200, await this.requestInfo(match[1]));
+      } else if (route === "GET /events") {
+        await this.openStream(response, url.searchParams.get("player"));
+      } else if (route === "POST /guess") {
+        send(response, 202, await this.relayGuess(await readJson(request)));
+      } else {
+        throw new HttpError(404, `Not found: ${route}`);
+      }
+    } catch (error) {
+      if (error instanceof HttpError) {
+        send(response, error.status, { error: error.message, reason: error.reason });
+      } else {
+        send(response, 500, { error: error instanceof Error ? error.message : String(error) });
+      }
+    }
+  }
+
+  private async status() {
+    const contract = this.client.contract;
+    const [active, admin, round, settings, pool, hintsEnabled, privacyMode, timeRemaining] = await Promise.all([
+      contract.getGameStatus(),
+      contract.admin(),
+      contract.getCurrentRound(),
+      contract.getGameSettings(),
+      contract.getPoolInfo(),
+      contract.hintsEnabled(),
+      contract.privacyMode(),
+      contract.getTimeRemaining(),
+    ]);
+    return {
+      game: await this.client.getAddress(),
+      relayer: await this.client.signer.getAddress(),
+      active,
+      admin,
+      round,
+      minNumber: Number(settings.min),
+      maxNumber: Number(settings.max),
+      maxGuesses: Number(settings.maxGuesses),
+      hintsEnabled,
+      privacyMode,
+      // Unix time from which guesses are refused, and the seconds left until then (null without a deadline)
+      deadline: timeRemaining.hasDeadline ? Number(await contract.getRoundDeadline(round)) : null,
+      timeRemaining: timeRemaining.hasDeadline ? Number(timeRemaining.remaining) : null,
+      guessFee: pool.fee,
+      prizePool: pool.pool,
+    };
+  }
+
+  private async playerStats(address: string, roundParam: string | null) {
+    if (!isAddress(address)) {
+      throw new HttpError(400, `Invalid address: ${address}`);
+    }
+    const player = getAddress(address);
+    const contract = this.client.contract;
+    const round = roundParam !== null ? parseId(roundParam, "round") : await contract.getCurrentRound();
+
+    const [guesses, lastGuessCorrect, won] = await Promise.all([
+      contract.totalGuesses(round, player),
+      contract.lastGuessCorrect(round, player),
+      contract.hasWon(round, player),
+    ]);
+    return { player, round, guesses: Number(guesses), lastGuessCorrect, won };
+  }
+
+  private async requestInfo(id: string) {
+    const requestId = parseId(id, "request ID");
+    const contract = this.client.contract;
+
+    const player = await contract.pendingRequests(requestId);
+    if (BigInt(player) === 0n) {
+      throw new HttpError(404, `Unknown request: ${requestId}`);
+    }
+    const [round, guessNumber, processed, cancelled, blockNumber, fee] = await Promise.all([
+      contract.requestRounds(requestId),
+      contract.requestGuessNumbers(requestId),
+      contract.processedRequests(requestId),
+      contract.cancelledRequests(requestId),
+      contract.requestBlocks(requestId),
+      contract.requestFees(requestId),
+    ]);
+
+    // The result only lives in the GuessResult event
+    let correct: boolean | undefined;
+    if (processed && !cancelled) {
+      const events = await contract.queryFilter(contract.filters.GuessResult(player, round), Number(blockNumber));
+      correct = events.find((event) => event.args.requestId === requestId)?.args.correct;
+    }
+
+    return {
+      requestId,
+      player,
+      round,
+      guessNumber: Number(guessNumber),
+      blockNumber: Number(blockNumber),
+      fee,
+      processed,
+      cancelled,
+      correct,
+    };
+  }
+
+  private async relayGuess(body: Record<string, unknown>) {
+    const { handle, inputProof, value } = body;
+    if (!isHexString(handle, 32)) {
+      throw new HttpError(400, `handle must be a 32-byte hex string`);
+    }
+    if (!isHexString(inputProof)) {
+      throw new HttpError(400, `inputProof must be a hex string`);
+    }
+    if (value !== undefined && (typeof value !== "string" || !/^\d+$/.test(value))) {
+      throw new HttpError(400, `value must be a decimal string of wei`);
+    }
+
+    const contract = this.client.contract;
+    if (await contract.privateRounds(await contract.getCurrentRound())) {
+      throw new HttpError(409, `The current round is private, its results cannot be relayed`);
+    }
+
+    try {
+      return await this.client.submitEncryptedGuess(handle, inputProof, {
+        value: value !== undefined ? BigInt(value) : undefined,
+      });
+    } catch (error) {
+      const decoded = this.errors.decode(error);
+      if (!decoded) {
+        throw new HttpError(400, error instanceof Error ? error.message : String(error));
+      }
+      throw new HttpError(400, decoded.message, decoded.name);
+    }
+  }
+
+  private async openStream(response: http.ServerResponse, player: string | null): Promise<void> {
+    if (player !== null && !isAddress(player)) {
+      throw new HttpError(400, `Invalid address: ${player}`);
+    }
+
+    // Only events after the stream was opened are sent
+    if (this.lastBlock === undefined) {
+      this.lastBlock = await this.provider.getBlockNumber();
+    }
+
+    const stream: EventStream = { response, player: player !== null ? getAddress(player) : undefined };
+    this.streams.add(stream);
+    response.once("close", () => {
+      this.streams.delete(stream);
+      if (this.streams.size === 0) {
+        this.stopPolling();
+      }
+    });
+
+    response.writeHead(200, {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache",
+      Connection: "keep-alive",
+    });
+    response.write(": connected\n\n");
+
+    if (!this.poller) {
+      this.schedulePoll();
+    }
+  }
+
+  private schedulePoll(): void {
+    const generation = this.pollGeneration;
+    this.poller = setTimeout(() => {
+      void this.poll(generation)
+        .catch((error) => console.error(`Event stream poll failed: ${error}`))
+        .finally(() => {
+          if (generation === this.pollGeneration) {
+            this.schedulePoll();
+          }
+        });
+    }, this.pollIntervalMs);
+  }
+
+  private stopPolling(): void {
+    clearTimeout(this.poller);
+    this.poller = undefined;
+    this.pollGeneration++;
+    this.lastBlock = undefined;
+  }
+
+  private async poll(generation: number): Promise<void> {
+    const contract = this.client.contract;
+    const provider = this.provider;
+    const toBlock = await provider.getBlockNumber();
+    if (generation !== this.pollGeneration || this.lastBlock === undefined || toBlock <= this.lastBlock) {
+      return;
+    }
+
+    const logs = await provider.getLogs({
+      address: await this.client.getAddress(),
+      fromBlock: this.lastBlock + 1,
+      toBlock,
+    });
+    if (generation !== this.pollGeneration) {
+      return;
+    }
+    this.lastBlock = toBlock;
+
+    for (const log of logs) {
+      const parsed = contract.interface.parseLog(log);
+      if (!parsed || !STREAMED_EVENTS.includes(parsed.name)) {
+        continue;
+      }
+
+      const event = {
+        player: parsed.args.player as string,
+        round: parsed.args.round as bigint,
+        requestId: parsed.args.requestId as bigint,
+        ...(parsed.name === "GuessMade"
+          ? { guessNumber: Number(parsed.args.guessCount) }
+          : { correct: parsed.args.correct as boolean, totalGuesses: Number(parsed.args.totalGuesses) }),
+        blockNumber: log.blockNumber,
+        transactionHash: log.transactionHash,
+      };
+      const message = `event: ${parsed.name}\nid: ${log.blockNumber}-${log.index}\ndata: ${toJson(event)}\n\n`;
+      for (const stream of this.streams) {
+        if (stream.player === undefined || stream.player === event.player) {
+          stream.response.write(message);
+        }
+      }
+    }
+  }
+}
+
+function parseId(value: string, name: string): bigint {
+  if (!/^\d+$/.test(value)) {
+    throw new HttpError(400, `Invalid ${name}: ${value}`);
+  }
+  return BigInt(value);
+}
+
+async function readJson(request: http.IncomingMessage): Promise<Record<string, unknown>> {
+  let body = "";
+  for await (const chunk of request) {
+    body += chunk;
+    if (body.length > MAX_BODY_BYTES) {
+      throw new HttpError(413, `Request body too large`);
+    }
+  }
+
+  try {
+    const parsed = JSON.parse(body);
+    if (typeof parsed !== "object" || parsed === null || Array.isArray(parsed)) {
+      throw new Error();
+    }
+    return parsed;
+  } catch {
+    throw new HttpError(400, `Request body must be a JSON object`);
+  }
+}
+
+function toJson(value: unknown): string {
+  return JSON.stringify(value, (_, v) => (typeof v === "bigint" ? v.toString() : v));
+}
+
+function send(response: http.ServerResponse, status: number, body: unknown): void {
+  response.writeHead(status, { "Content-Type": "application/json" });
+  response.end(toJson(body));
+}
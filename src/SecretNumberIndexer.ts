@@ -0,0 +1,437 @@
+import { getAddress, ZeroAddress } from "ethers";
+import * as fs from "fs";
+import * as path from "path";
+
+import type { SecretNumberGame } from "../types";
+
+export const INDEXED_EVENTS = [
+  "GameStarted",
+  "GuessMade",
+  "GuessBatchMade",
+  "PrivateGuessMade",
+  "SealedGuessMade",
+  "GuessResult",
+  "GameReset",
+  "RequestCancelled",
+  "DecryptionRetried",
+  "LateResultRefunded",
+  "SecretRevealed",
+  "PrivateWinnerRevealed",
+  "PrizeAwarded",
+] as const;
+
+export type IndexedEventName = (typeof INDEXED_EVENTS)[number];
+
+/**
+ * One game event as stored in the index. Numbers that can outgrow a JS number are decimal strings,
+ * so the index is plain JSON.
+ */
+export type IndexedEvent = {
+  name: IndexedEventName;
+  blockNumber: number;
+  logIndex: number;
+  transactionHash: string;
+  round: string;
+  player?: string;
+  requestId?: string;
+  // GameStarted and GameReset
+  timestamp?: number;
+  // GameStarted: when the round stops accepting guesses (0 = no deadline)
+  deadline?: number;
+  // GuessMade and PrivateGuessMade: which of the player's guesses in the round this was
+  guessNumber?: number;
+  // GuessBatchMade: how many guesses the request covers
+  batchSize?: number;
+  // GuessResult; PrivateWinnerRevealed: how many guesses the winner needed
+  correct?: boolean;
+  totalGuesses?: number;
+  // DecryptionRetried: the request that took over the guess
+  newRequestId?: string;
+  // SecretRevealed
+  value?: number;
+  // PrizeAwarded: the prize; RequestCancelled and LateResultRefunded: the refund
+  amount?: string;
+};
+
+/**
+ * Everything the indexer has read from one game, and how far it got.
+ */
+export type GameIndex = {
+  game: string;
+  chainId: string;
+  fromBlock: number;
+  lastBlock: number;
+  events: IndexedEvent[];
+};
+
+// "private" guesses are those of private and sealed rounds, whose results only the player can decrypt
+export type GuessStatus = "pending" | "correct" | "wrong" | "cancelled" | "private";
+
+/**
+ * A guess as rebuilt from its GuessMade event and everything that happened to its request afterwards.
+ */
+export type GuessRecord = {
+  // The request currently standing for the guess; a retry replaces it. Private guesses have none
+  requestId?: string;
+  round: string;
+  player: string;
+  guessNumber: number;
+  blockNumber: number;
+  transactionHash: string;
+  status: GuessStatus;
+  retries: number;
+  resultBlock?: number;
+  // How many guesses the request covers, when it was made with makeGuesses
+  batchSize?: number;
+};
+
+export type RoundSummary = {
+  round: string;
+  startedBlock: number;
+  startedAt: number;
+  // When the round stopped or stops accepting guesses, if it was time-boxed
+  deadline?: number;
+  endedBlock?: number;
+  endedAt?: number;
+  players: number;
+  guesses: number;
+  pending: number;
+  // Players with a correct guess, in the order their results arrived. In a private or sealed round, the winner
+  // once it has been revealed
+  winners: string[];
+  prizeWinner?: string;
+  prize?: string;
+  // The secret, once the round has been ended with a public reveal
+  secret?: number;
+};
+
+export type SyncOptions = {
+  // The last block to index (defaults to the latest block)
+  toBlock?: number;
+  // How many blocks to ask the node about at once
+  batchSize?: number;
+  // Called after every batch with the last block indexed so far
+  onProgress?: (block: number, toBlock: number) => void;
+};
+
+const DEFAULT_BATCH_SIZE = 2_000;
+
+/**
+ * Rebuilds a game's history from its events. The index is kept in memory and, when opened from a file,
+ * saved after every batch so an interrupted sync resumes from the last indexed block.
+ */
+export class SecretNumberIndexer {
+  // Round of every request seen so far, including the ones retries handed the guess to
+  private readonly requestRounds = new Map<string, string>();
+
+  constructor(
+    readonly contract: SecretNumberGame,
+    readonly index: GameIndex,
+    readonly file?: string,
+  ) {
+    for (const event of index.events) {
+      this.trackRequest(event);
+    }
+  }
+
+  /**
+   * Opens the index saved in `file`, or starts a new one from `fromBlock` if the file is missing or
+   * belongs to another game or chain.
+   */
+  static async open(contract: SecretNumberGame, file: string, fromBlock = 0): Promise<SecretNumberIndexer> {
+    const game = await contract.getAddress();
+    const chainId = (await getProvider(contract).getNetwork()).chainId.toString();
+
+    if (fs.existsSync(file)) {
+      const saved: GameIndex = JSON.parse(fs.readFileSync(file, "utf8"));
+      if (saved.game === game && saved.chainId === chainId) {
+        return new SecretNumberIndexer(contract, saved, file);
+      }
+    }
+    return new SecretNumberIndexer(contract, { game, chainId, fromBlock, lastBlock: fromBlock - 1, events: [] }, file);
+  }
+
+  /**
+   * Reads the events emitted since the last indexed block.
+   * @returns The number of new events
+   */
+  async sync(options: SyncOptions = {}): Promise<number> {
+    const provider = getProvider(this.contract);
+    const toBlock = options.toBlock ?? (await provider.getBlockNumber());
+    const batchSize = options.batchSize ?? DEFAULT_BATCH_SIZE;
+
+    let added = 0;
+    for (let from = this.index.lastBlock + 1; from <= toBlock; from += batchSize) {
+      const to = Math.min(from + batchSize - 1, toBlock);
+      const logs = await provider.getLogs({ address: this.index.game, fromBlock: from, toBlock: to });
+
+      for (const log of logs) {
+        const parsed = this.contract.interface.parseLog(log);
+        if (!parsed || !(INDEXED_EVENTS as readonly string[]).includes(parsed.name)) {
+          continue;
+        }
+
+        const event = this.toIndexedEvent(parsed.name as IndexedEventName, parsed.args, {
+          blockNumber: log.blockNumber,
+          logIndex: log.index,
+          transactionHash: log.transactionHash,
+        });
+        this.trackRequest(event);
+        this.index.events.push(event);
+        added++;
+      }
+
+      this.index.lastBlock = to;
+      this.save();
+      options.onProgress?.(to, toBlock);
+    }
+    return added;
+  }
+
+  /**
+   * Writes the index to its file, if it has one.
+   */
+  save(): void {
+    if (!this.file) {
+      return;
+    }
+    fs.mkdirSync(path.dirname(this.file), { recursive: true });
+    fs.writeFileSync(this.file, JSON.stringify(this.index, null, 2));
+  }
+
+  /**
+   * Every guess a player has made, oldest first.
+   */
+  history(player: string): GuessRecord[] {
+    const address = getAddress(player);
+    return this.guesses().filter((guess) => guess.player === address);
+  }
+
+  /**
+   * Everything that happened in a round, in the order it happened.
+   */
+  timeline(round: bigint): IndexedEvent[] {
+    return this.index.events.filter((event) => event.round === round.toString());
+  }
+
+  /**
+   * One summary per round, oldest first.
+   */
+  rounds(): RoundSummary[] {
+    const summaries = new Map<string, RoundSummary>();
+    for (const event of this.index.events) {
+      if (event.name === "GameStarted") {
+        summaries.set(event.round, {
+          round: event.round,
+          startedBlock: event.blockNumber,
+          startedAt: event.timestamp!,
+          deadline: event.deadline || undefined,
+          players: 0,
+          guesses: 0,
+          pending: 0,
+          winners: [],
+        });
+        continue;
+      }
+
+      const summary = summaries.get(event.round);
+      if (!summary) {
+        continue;
+      }
+      if (event.name === "GameReset") {
+        summary.endedBlock = event.blockNumber;
+        summary.endedAt = event.timestamp;
+      } else if (event.name === "SecretRevealed") {
+        summary.secret = event.value;
+      } else if (event.name === "PrivateWinnerRevealed" && event.player !== ZeroAddress) {
+        summary.winners.push(event.player!);
+      } else if (event.name === "PrizeAwarded") {
+        summary.prizeWinner = event.player;
+        summary.prize = event.amount;
+      }
+    }
+
+    const players = new Map<string, Set<string>>();
+    for (const guess of this.guesses()) {
+      const summary = summaries.get(guess.round);
+      if (!summary) {
+        continue;
+      }
+      const count = guess.batchSize ?? 1;
+      summary.guesses += count;
+      summary.pending += guess.status === "pending" ? count : 0;
+      players.set(guess.round, (players.get(guess.round) ?? new Set()).add(guess.player));
+    }
+    for (const event of this.index.events) {
+      const summary = summaries.get(event.round);
+      if (summary && event.name === "GuessResult" && event.correct && !summary.winners.includes(event.player!)) {
+        summary.winners.push(event.player!);
+      }
+    }
+
+    for (const summary of summaries.values()) {
+      summary.players = players.get(summary.round)?.size ?? 0;
+    }
+    return [...summaries.values()];
+  }
+
+  private guesses(): GuessRecord[] {
+    const guesses: GuessRecord[] = [];
+    // The guess each live request stands for
+    const byRequest = new Map<string, GuessRecord>();
+    // The latest private guess number of every player in every round
+    const privateGuessNumbers = new Map<string, number>();
+
+    for (const event of this.index.events) {
+      if (event.name === "GuessMade") {
+        const guess: GuessRecord = {
+          requestId: event.requestId!,
+          round: event.round,
+          player: event.player!,
+          guessNumber: event.guessNumber!,
+          blockNumber: event.blockNumber,
+          transactionHash: event.transactionHash,
+          status: "pending",
+          retries: 0,
+        };
+        guesses.push(guess);
+        byRequest.set(guess.requestId!, guess);
+        continue;
+      }
+      if (event.name === "PrivateGuessMade" || event.name === "SealedGuessMade") {
+        // A sealed round takes one guess per player
+        const guessNumber = event.guessNumber ?? 1;
+        // A private batch has no batch event, so its size is how far it moved the player's guess count
+        const key = `${event.round}:${event.player}`;
+        const batchSize = guessNumber - (privateGuessNumbers.get(key) ?? 0);
+        privateGuessNumbers.set(key, guessNumber);
+        guesses.push({
+          round: event.round,
+          player: event.player!,
+          guessNumber,
+          blockNumber: event.blockNumber,
+          transactionHash: event.transactionHash,
+          status: "private",
+          retries: 0,
+          batchSize: batchSize > 1 ? batchSize : undefined,
+        });
+        continue;
+      }
+
+      const guess = event.requestId !== undefined ? byRequest.get(event.requestId) : undefined;
+      if (!guess) {
+        continue;
+      }
+      if (event.name === "GuessBatchMade") {
+        guess.batchSize = event.batchSize;
+      } else if (event.name === "DecryptionRetried") {
+        byRequest.delete(guess.requestId!);
+        guess.requestId = event.newRequestId!;
+        guess.retries++;
+        byRequest.set(guess.requestId, guess);
+      } else if (event.name === "RequestCancelled") {
+        guess.status = "cancelled";
+      } else if (event.name === "GuessResult") {
+        guess.status = event.correct ? "correct" : "wrong";
+        guess.resultBlock = event.blockNumber;
+      }
+    }
+    return guesses;
+  }
+
+  private toIndexedEvent(
+    name: IndexedEventName,
+    args: Record<string, unknown>,
+    log: Pick<IndexedEvent, "blockNumber" | "logIndex" | "transactionHash">,
+  ): IndexedEvent {
+    const event: IndexedEvent = { name, ...log, round: "" };
+    const str = (value: unknown) => (value as bigint).toString();
+
+    switch (name) {
+      case "GameStarted":
+        event.round = str(args.round);
+        event.timestamp = Number(args.timestamp);
+        event.deadline = Number(args.deadline);
+        break;
+      case "GameReset":
+        event.round = str(args.round);
+        event.timestamp = Number(args.timestamp);
+        break;
+      case "GuessMade":
+        event.round = str(args.round);
+        event.player = args.player as string;
+        event.requestId = str(args.requestId);
+        event.guessNumber = Number(args.guessCount);
+        break;
+      case "GuessBatchMade":
+        event.round = str(args.round);
+        event.player = args.player as string;
+        event.requestId = str(args.requestId);
+        event.batchSize = Number(args.batchSize);
+        break;
+      case "PrivateGuessMade":
+        event.round = str(args.round);
+        event.player = args.player as string;
+        event.guessNumber = Number(args.guessCount);
+        break;
+      case "SealedGuessMade":
+        event.round = str(args.round);
+        event.player = args.player as string;
+        break;
+      case "GuessResult":
+        event.round = str(args.round);
+        event.player = args.player as string;
+        event.requestId = str(args.requestId);
+        event.correct = args.correct as boolean;
+        event.totalGuesses = Number(args.totalGuesses);
+        break;
+      case "RequestCancelled":
+      case "LateResultRefunded":
+        event.player = args.player as string;
+        event.requestId = str(args.requestId);
+        event.amount = str(args.refund);
+        break;
+      case "DecryptionRetried":
+        event.player = args.player as string;
+        event.requestId = str(args.requestId);
+        event.newRequestId = str(args.newRequestId);
+        break;
+      case "SecretRevealed":
+        event.round = str(args.round);
+        event.value = Number(args.value);
+        break;
+      case "PrivateWinnerRevealed":
+        event.round = str(args.round);
+        event.player = args.winner as string;
+        event.totalGuesses = Number(args.guesses);
+        break;
+      case "PrizeAwarded":
+        event.round = str(args.round);
+        event.player = args.winner as string;
+        event.amount = str(args.amount);
+        break;
+    }
+
+    // Cancellations, retries and refunds do not name the round, so it comes from the request's guess
+    if (!event.round && event.requestId !== undefined) {
+      event.round = this.requestRounds.get(event.requestId) ?? "";
+    }
+    return event;
+  }
+
+  private trackRequest(event: IndexedEvent): void {
+    if (event.name === "GuessMade") {
+      this.requestRounds.set(event.requestId!, event.round);
+    } else if (event.name === "DecryptionRetried") {
+      this.requestRounds.set(event.newRequestId!, event.round);
+    }
+  }
+}
+
+function getProvider(contract: SecretNumberGame) {
+  const provider = contract.runner?.provider;
+  if (!provider) {
+    throw new Error(`The game contract is not connected to a provider`);
+  }
+  return provider;
+}
@@ -0,0 +1,282 @@
+import * as readline from "readline";
+import type { Readable, Writable } from "stream";
+
+import type { GuessHint, GuessResult, SecretNumberGameClient } from "./SecretNumberGameClient";
+import { GameErrorDecoder } from "./SecretNumberGameErrors";
+
+/**
+ * A guess made during the session. Its result is filled in once it arrives.
+ */
+export type PlayHistoryEntry = {
+  round: bigint;
+  value: number;
+  // The guess request, undefined for a private guess, which has no public result
+  requestId?: bigint;
+  // Undefined while the result is on its way
+  correct?: boolean;
+  hint?: GuessHint;
+};
+
+const PROMPT = "guess> ";
+
+const HELP = [
+  "Commands:",
+  "  <number>, guess <number>          make a guess",
+  "  history                           the numbers you tried this session",
+  "  stats                             your statistics for the current round",
+  "  set <number|random> [seconds]     start a round (admin or game master)",
+  "  reset                             stop the current round (admin or game master)",
+  "  help                              show this help",
+  "  quit                              end the session",
+];
+
+/**
+ * An interactive play session over a game: reads commands from `input`, writes to `output` and reports guess
+ * results as their GuessResult events arrive, so the prompt is never blocked by the oracle. The FHEVM is
+ * initialized once for the whole session, which is what makes it quicker than one task per guess.
+ */
+export class SecretNumberPlaySession {
+  // Every guess made during the session, oldest first
+  readonly history: PlayHistoryEntry[] = [];
+  private readonly errors: GameErrorDecoder;
+  private prompt?: readline.Interface;
+  // Whether a command is running, in which case the prompt is shown once it is done
+  private busy = false;
+
+  constructor(
+    readonly client: SecretNumberGameClient,
+    private readonly input: Readable,
+    private readonly output: Writable,
+  ) {
+    this.errors = new GameErrorDecoder([client.contract.interface]);
+  }
+
+  /**
+   * Runs the session until `quit` or the end of the input.
+   */
+  async run(): Promise<void> {
+    const player = await this.client.signer.getAddress();
+    const prompt = readline.createInterface({ input: this.input, output: this.output, prompt: PROMPT });
+    this.prompt = prompt;
+    // Ctrl+C ends the session like `quit` instead of pausing the input
+    prompt.on("SIGINT", () => prompt.close());
+    // Lines are only buffered once iterating starts, so start before anything is awaited
+    const lines = prompt[Symbol.asyncIterator]();
+    const unsubscribe = this.client.onResult((result) => void this.reportResult(result), player);
+
+    try {
+      this.busy = true;
+      this.print(`🎮 Playing as ${player}, type 'help' for the commands`);
+      await this.execute("status");
+      this.busy = false;
+      prompt.prompt();
+
+      for await (const line of lines) {
+        this.busy = true;
+        if (!(await this.execute(line))) {
+          break;
+        }
+        this.busy = false;
+        prompt.prompt();
+      }
+    } finally {
+      unsubscribe();
+      this.prompt = undefined;
+      prompt.close();
+    }
+
+    const waiting = this.history.filter((entry) => entry.requestId !== undefined && entry.correct === undefined);
+    if (waiting.length > 0) {
+      this.print(`⏳ ${waiting.length} guess(es) still waiting for a result, see 'task:get-stats' later`);
+    }
+    this.print(`👋 Bye!`);
+  }
+
+  /**
+   * Runs one command line. Errors are printed, not thrown, so a failed command does not end the session.
+   * @returns Whether the session goes on
+   */
+  async execute(line: string): Promise<boolean> {
+    const [command, ...args] = line.trim().split(/\s+/);
+    try {
+      switch (command.toLowerCase()) {
+        case "":
+          break;
+        case "quit":
+        case "exit":
+          return false;
+        case "help":
+          HELP.forEach((helpLine) => this.print(helpLine));
+          break;
+        case "status":
+          await this.status();
+          break;
+        case "history":
+          this.printHistory();
+          break;
+        case "stats":
+          await this.stats();
+          break;
+        case "set":
+          await this.set(args);
+          break;
+        case "reset":
+          await this.client.reset();
+          this.print(`🔄 The round has been stopped`);
+          break;
+        case "guess":
+          await this.guess(args[0]);
+          break;
+        default:
+          if (/^\d+$/.test(command)) {
+            await this.guess(command);
+            break;
+          }
+          this.print(`❓ Unknown command '${command}', type 'help' for the commands`);
+      }
+    } catch (error) {
+      const decoded = this.errors.decode(error);
+      this.print(`❌ ${decoded ? decoded.message : error instanceof Error ? error.message : String(error)}`);
+    }
+    return true;
+  }
+
+  private async status(): Promise<void> {
+    const round = await this.client.contract.getCurrentRound();
+    if (!(await this.client.contract.getGameStatus())) {
+      this.print(`⏸️  No round is running${round > 0n ? ` (round ${round} has ended)` : ""}`);
+      return;
+    }
+
+    const settings = await this.client.contract.getGameSettings();
+    this.print(`🎯 Round ${round} is running: guess a number between ${settings.min} and ${settings.max}`);
+  }
+
+  private async guess(text: string | undefined): Promise<void> {
+    const value = Number(text);
+    const settings = await this.client.contract.getGameSettings();
+    if (text === undefined || !Number.isInteger(value) || value < settings.min || value > settings.max) {
+      throw new Error(`Guess must be an integer between ${settings.min} and ${settings.max}`);
+    }
+
+    const contract = this.client.contract;
+    const round = await contract.getCurrentRound();
+    if (!(await contract.getGameStatus())) {
+      throw new Error(`No round is running, the admin has to 'set' a secret first`);
+    }
+    if (await contract.sealedRounds(round)) {
+      throw new Error(`Round ${round} is a sealed round, submit your one guess with 'task:submit-sealed'`);
+    }
+    if ((await contract.soloRounds(round)) && !(await this.client.hasPuzzle(undefined, round))) {
+      this.print(`🧩 Round ${round} is a solo round, drawing your own secret number...`);
+      await this.client.startPuzzle();
+    }
+
+    if (await contract.privateRounds(round)) {
+      // The result is only ever decrypted for this player, so it is known as soon as the guess is mined
+      const result = await this.client.privateGuess(value, { hint: true });
+      const entry: PlayHistoryEntry = { round, value, correct: result.correct, hint: result.hint };
+      this.history.push(entry);
+      this.print(`🔒 ${describeEntry(entry)} (private)`);
+      return;
+    }
+
+    const submitted = await this.client.submitGuess(value);
+    this.history.push({ round, value, requestId: submitted.requestId });
+    this.print(`📨 Guess ${value} sent as request ${submitted.requestId}, its result shows up when it arrives`);
+
+    // Nothing else drives the mock oracle
+    if (this.client.fhevm.isMock && this.client.fhevm.awaitDecryptionOracle) {
+      await this.client.fhevm.awaitDecryptionOracle();
+    }
+  }
+
+  private async set(args: string[]): Promise<void> {
+    const [secret, durationText = "0"] = args;
+    const duration = Number(durationText);
+    if (!Number.isInteger(duration) || duration < 0) {
+      throw new Error(`The duration must be a non-negative number of seconds`);
+    }
+
+    let round: bigint;
+    if (secret === "random") {
+      round = await this.client.setRandomSecret(duration);
+    } else {
+      const settings = await this.client.contract.getGameSettings();
+      const value = Number(secret);
+      if (secret === undefined || !Number.isInteger(value) || value < settings.min || value > settings.max) {
+        throw new Error(
+          `Usage: set <number|random> [seconds], with a number between ${settings.min} and ${settings.max}`,
+        );
+      }
+      round = await this.client.setSecret(value, duration);
+    }
+    this.print(`✅ Round ${round} started${duration > 0 ? `, it accepts guesses for ${duration}s` : ""}`);
+  }
+
+  private async stats(): Promise<void> {
+    const round = await this.client.contract.getCurrentRound();
+    if (round === 0n) {
+      this.print(`No round has been started yet`);
+      return;
+    }
+
+    const stats = await this.client.stats(undefined, round);
+    const prize = await this.client.contract.pendingPrizes(await this.client.signer.getAddress());
+    this.print(`📊 Round ${round}: ${stats.guesses} guess(es), ${stats.won ? "🎉 won" : "not won yet"}`);
+    if (prize > 0n) {
+      this.print(`   💰 ${prize} wei of prizes to claim with 'task:claim-prize'`);
+    }
+  }
+
+  private printHistory(): void {
+    if (this.history.length === 0) {
+      this.print(`No guesses yet this session`);
+      return;
+    }
+    this.history.forEach((entry, i) => this.print(`  ${i + 1}. round ${entry.round}: ${describeEntry(entry)}`));
+  }
+
+  // Fills in the history entry of a guess result and prints it
+  private async reportResult(result: GuessResult): Promise<void> {
+    const entry = this.history.find((candidate) => candidate.requestId === result.requestId);
+    // Only guesses of this session are reported, and each only once
+    if (!entry || entry.correct !== undefined) {
+      return;
+    }
+
+    entry.correct = result.correct;
+    try {
+      // The hint only comes through user decryption, so it is read before the result is shown
+      entry.hint = result.correct ? undefined : await this.client.decryptHint(result.requestId);
+    } catch (error) {
+      this.print(`⚠️  Could not decrypt the hint: ${error instanceof Error ? error.message : String(error)}`);
+    }
+    this.print(`📡 ${describeEntry(entry)}${result.correct ? " 🎉 You found the secret!" : ""}`);
+  }
+
+  // Prints a line, and puts the prompt back if it was showing
+  private print(message: string): void {
+    const interrupting = this.prompt !== undefined && !this.busy;
+    this.output.write(`${interrupting ? "\n" : ""}${message}\n`);
+    if (interrupting) {
+      this.prompt?.prompt(true);
+    }
+  }
+}
+
+function describeEntry(entry: PlayHistoryEntry): string {
+  if (entry.correct === undefined) {
+    return `${entry.value} ⏳ waiting for the result`;
+  }
+  if (entry.correct) {
+    return `${entry.value} ✅ correct`;
+  }
+  if (entry.hint === "too-high") {
+    return `${entry.value} ❌ too high`;
+  }
+  if (entry.hint === "too-low") {
+    return `${entry.value} ❌ too low`;
+  }
+  return `${entry.value} ❌ wrong`;
+}
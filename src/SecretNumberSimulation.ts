@@ -0,0 +1,249 @@
+import type { ContractTransactionResponse, Signer } from "ethers";
+
+import type { SecretNumberGame } from "../types";
+import { FhevmClient, SecretNumberGameClient, SubmittedGuess } from "./SecretNumberGameClient";
+
+export type SimulationOptions = {
+  rounds: number;
+  // Most guesses each player makes per round (also capped by the game's guess limit and range)
+  guessesPerPlayer?: number;
+  // Source of the secrets and guesses, so a run can be repeated
+  random?: () => number;
+  // Called as soon as a round has been played and checked
+  onRound?: (round: SimulationRound) => void;
+};
+
+/**
+ * Gas used by every call of one contract function during a simulation.
+ */
+export type GasStats = {
+  calls: number;
+  total: bigint;
+  min: bigint;
+  max: bigint;
+};
+
+export type SimulationRound = {
+  round: bigint;
+  secret: number;
+  guesses: number;
+  // Every player who guessed the secret, in the order their results arrived
+  winners: string[];
+  // The player who took the round's prize
+  prizeWinner?: string;
+};
+
+export type SimulationReport = {
+  players: number;
+  rounds: SimulationRound[];
+  guesses: number;
+  // Gas per contract function, including the oracle's result callbacks
+  gas: Record<string, GasStats>;
+  // Every broken invariant, empty when the game behaved
+  violations: string[];
+  elapsedMs: number;
+};
+
+const DEFAULT_GUESSES_PER_PLAYER = 3;
+
+/**
+ * Plays `options.rounds` rounds of a game with many players against the mock FHEVM and checks the
+ * game's bookkeeping afterwards. In every wave each player still in the round sends one guess, all at
+ * once, and the decryption oracle then answers them together.
+ *
+ * The invariants checked after every round:
+ *   - exactly the players who guessed the secret are flagged as winners, and each is listed once
+ *   - every player's `totalGuesses` equals the number of guesses they sent
+ *   - every request is processed, with exactly one GuessResult that matches the cleartext guess
+ *
+ * @param admin Admin or game master of `game`; the game must not have an active round
+ */
+export async function runSimulation(
+  game: SecretNumberGame,
+  fhevm: FhevmClient,
+  admin: Signer,
+  players: Signer[],
+  options: SimulationOptions,
+): Promise<SimulationReport> {
+  if (!fhevm.isMock || !fhevm.awaitDecryptionOracle) {
+    throw new Error(`Simulations need the mock FHEVM to answer decryption requests`);
+  }
+  const awaitDecryptionOracle = fhevm.awaitDecryptionOracle.bind(fhevm);
+  const random = options.random ?? Math.random;
+  const startedAt = Date.now();
+
+  const report: SimulationReport = {
+    players: players.length,
+    rounds: [],
+    guesses: 0,
+    gas: {},
+    violations: [],
+    elapsedMs: 0,
+  };
+  const recordGas = (operation: string, gasUsed: bigint) => {
+    const stats = (report.gas[operation] ??= { calls: 0, total: 0n, min: gasUsed, max: gasUsed });
+    stats.calls++;
+    stats.total += gasUsed;
+    stats.min = gasUsed < stats.min ? gasUsed : stats.min;
+    stats.max = gasUsed > stats.max ? gasUsed : stats.max;
+  };
+
+  // Every transaction the clients send is charged to the function it calls
+  const sent: ContractTransactionResponse[] = [];
+  const clientOptions = { onTransaction: (tx: ContractTransactionResponse) => sent.push(tx) };
+  const recordSent = async () => {
+    for (const tx of sent.splice(0)) {
+      const receipt = await tx.wait();
+      const operation = game.interface.parseTransaction(tx)?.name ?? "unknown";
+      recordGas(operation, receipt?.gasUsed ?? 0n);
+    }
+  };
+
+  const adminClient = new SecretNumberGameClient(game, fhevm, admin, clientOptions);
+  const playerClients = players.map((player) => new SecretNumberGameClient(game, fhevm, player, clientOptions));
+  const playerAddresses = await Promise.all(players.map((player) => player.getAddress()));
+
+  const settings = await game.getGameSettings();
+  const min = Number(settings.min);
+  const max = Number(settings.max);
+  let guessLimit = options.guessesPerPlayer ?? DEFAULT_GUESSES_PER_PLAYER;
+  if (settings.maxGuesses > 0n) {
+    guessLimit = Math.min(guessLimit, Number(settings.maxGuesses));
+  }
+  const pick = (from: number[]) => from[Math.floor(random() * from.length)];
+
+  for (let r = 0; r < options.rounds; r++) {
+    const secret = pick(range(min, max));
+    const round = await adminClient.setSecret(secret);
+
+    const tried = playerAddresses.map(() => new Set<number>());
+    const guesses = new Map<bigint, { player: number; guess: number }>();
+    const results = new Map<bigint, { correct: boolean; count: number }>();
+    const won = new Set<number>();
+    const winners: string[] = [];
+
+    for (;;) {
+      const active = playerClients
+        .map((_, i) => i)
+        .filter((i) => !won.has(i) && tried[i].size < guessLimit && tried[i].size < max - min + 1);
+      if (active.length === 0) {
+        break;
+      }
+
+      const wave = await Promise.all(
+        active.map(async (i): Promise<[number, number, SubmittedGuess]> => {
+          const guess = pick(range(min, max).filter((n) => !tried[i].has(n)));
+          tried[i].add(guess);
+          return [i, guess, await playerClients[i].submitGuess(guess)];
+        }),
+      );
+      for (const [player, guess, submitted] of wave) {
+        guesses.set(submitted.requestId, { player, guess });
+      }
+      report.guesses += wave.length;
+
+      await awaitDecryptionOracle();
+      await recordSent();
+
+      const fromBlock = Math.min(...wave.map(([, , submitted]) => submitted.blockNumber));
+      const events = await game.queryFilter(game.filters.GuessResult(undefined, round), fromBlock);
+      const callbacks = new Map<string, (typeof events)[number]>();
+      for (const event of events) {
+        const result = results.get(event.args.requestId) ?? { correct: event.args.correct, count: 0 };
+        result.count++;
+        results.set(event.args.requestId, result);
+        callbacks.set(event.transactionHash, event);
+
+        const sender = guesses.get(event.args.requestId);
+        if (sender && event.args.correct && !won.has(sender.player)) {
+          won.add(sender.player);
+          winners.push(playerAddresses[sender.player]);
+        }
+      }
+      for (const event of callbacks.values()) {
+        recordGas("callbackGuessResult", (await event.getTransactionReceipt()).gasUsed);
+      }
+    }
+
+    const prizeWinner = await game.roundWinners(round);
+    const played: SimulationRound = {
+      round,
+      secret,
+      guesses: guesses.size,
+      winners,
+      prizeWinner: BigInt(prizeWinner) === 0n ? undefined : prizeWinner,
+    };
+    report.violations.push(...(await checkRound(game, played, playerAddresses, tried, guesses, results)));
+
+    await adminClient.reset();
+    await recordSent();
+
+    report.rounds.push(played);
+    options.onRound?.(played);
+  }
+
+  report.elapsedMs = Date.now() - startedAt;
+  return report;
+}
+
+async function checkRound(
+  game: SecretNumberGame,
+  played: SimulationRound,
+  players: string[],
+  tried: Set<number>[],
+  guesses: Map<bigint, { player: number; guess: number }>,
+  results: Map<bigint, { correct: boolean; count: number }>,
+): Promise<string[]> {
+  const { round, secret } = played;
+  const violations: string[] = [];
+
+  // Winner list entries added this round, per player
+  const listed = new Map<string, number>();
+  const winnerCount = await game.getWinnerCount();
+  for (const winner of await game.getWinners(0, winnerCount)) {
+    if (winner.round === round) {
+      listed.set(winner.player, (listed.get(winner.player) ?? 0) + 1);
+    }
+  }
+
+  for (let i = 0; i < players.length; i++) {
+    const player = players[i];
+    const guessedSecret = tried[i].has(secret);
+    const stats = await game.getPlayerStats(round, player);
+
+    if (stats.won !== guessedSecret) {
+      violations.push(`Round ${round}: ${player} ${guessedSecret ? "guessed the secret but is not" : "is"} a winner`);
+    }
+    const entries = listed.get(player) ?? 0;
+    if (entries !== (guessedSecret ? 1 : 0)) {
+      violations.push(`Round ${round}: ${player} is listed ${entries} times as a winner`);
+    }
+    if (Number(stats.guesses) !== tried[i].size) {
+      violations.push(`Round ${round}: ${player} sent ${tried[i].size} guesses but totalGuesses is ${stats.guesses}`);
+    }
+  }
+
+  if (played.prizeWinner !== undefined && !played.winners.includes(played.prizeWinner)) {
+    violations.push(`Round ${round}: the prize went to ${played.prizeWinner}, who did not guess the secret`);
+  }
+
+  for (const [requestId, { guess }] of guesses) {
+    const result = results.get(requestId);
+    if (!(await game.isRequestProcessed(requestId))) {
+      violations.push(`Round ${round}: request ${requestId} was never processed`);
+    }
+    if (result?.count !== 1) {
+      violations.push(`Round ${round}: request ${requestId} has ${result?.count ?? 0} results`);
+    } else if (result.correct !== (guess === secret)) {
+      violations.push(
+        `Round ${round}: request ${requestId} for ${guess} came back ${result.correct ? "correct" : "wrong"}`,
+      );
+    }
+  }
+
+  return violations;
+}
+
+function range(min: number, max: number): number[] {
+  return Array.from({ length: max - min + 1 }, (_, i) => min + i);
+}
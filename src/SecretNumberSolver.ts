@@ -0,0 +1,94 @@
+import type { GuessHint } from "./SecretNumberGameClient";
+
+/**
+ * How the solver picks its next guess:
+ *   - sequential: every number from the bottom of the range up
+ *   - random: every number once, in random order
+ *   - binary: halves the remaining range using the encrypted higher/lower hints
+ */
+export type SolverStrategy = "sequential" | "random" | "binary";
+
+export const SOLVER_STRATEGIES: readonly SolverStrategy[] = ["sequential", "random", "binary"];
+
+/**
+ * Everything the solver knows about one round. Plain JSON so a run can be saved and resumed.
+ */
+export type SolverState = {
+  game: string;
+  player: string;
+  round: string;
+  strategy: SolverStrategy;
+  // The numbers the secret can still be, inclusive
+  low: number;
+  high: number;
+  tried: number[];
+  // A guess that was sent but whose result had not arrived when the state was saved
+  pending?: { guess: number; requestId: string; blockNumber: number };
+  // Gas used and wei spent on gas by the guesses so far, as decimal strings
+  gasUsed: string;
+  gasCost: string;
+  solved?: number;
+};
+
+export function createSolverState(
+  game: string,
+  player: string,
+  round: bigint,
+  strategy: SolverStrategy,
+  min: number,
+  max: number,
+): SolverState {
+  return {
+    game,
+    player,
+    round: round.toString(),
+    strategy,
+    low: min,
+    high: max,
+    tried: [],
+    gasUsed: "0",
+    gasCost: "0",
+  };
+}
+
+/**
+ * Picks the next number to guess, or undefined once every candidate has been tried.
+ */
+export function nextGuess(state: SolverState, random: () => number = Math.random): number | undefined {
+  const candidates: number[] = [];
+  for (let n = state.low; n <= state.high; n++) {
+    if (!state.tried.includes(n)) {
+      candidates.push(n);
+    }
+  }
+  if (candidates.length === 0) {
+    return undefined;
+  }
+
+  switch (state.strategy) {
+    case "sequential":
+      return candidates[0];
+    case "random":
+      return candidates[Math.floor(random() * candidates.length)];
+    case "binary":
+      return candidates[Math.floor((candidates.length - 1) / 2)];
+  }
+}
+
+/**
+ * Records the outcome of a guess. A hint narrows the range for every strategy, not just binary search.
+ */
+export function recordGuess(state: SolverState, guess: number, correct: boolean, hint?: GuessHint): void {
+  state.tried.push(guess);
+  state.pending = undefined;
+
+  if (correct) {
+    state.solved = guess;
+    state.low = guess;
+    state.high = guess;
+  } else if (hint === "too-low") {
+    state.low = Math.max(state.low, guess + 1);
+  } else if (hint === "too-high") {
+    state.high = Math.min(state.high, guess - 1);
+  }
+}
@@ -1,16 +1,269 @@
+import * as fs from "fs";
 import { task } from "hardhat/config";
-import type { TaskArguments } from "hardhat/types";
+import type {
+  ActionType,
+  HardhatNetworkHDAccountsConfig,
+  HardhatRuntimeEnvironment,
+  TaskArguments,
+} from "hardhat/types";
+import * as path from "path";
 
-task("task:address", "Prints the SecretNumberGame address").setAction(async function (
-  _taskArguments: TaskArguments,
-  hre,
-) {
-  const { deployments } = hre;
+import { CodeBreakerGameClient, CodeFeedback, parseCode } from "../src/CodeBreakerGameClient";
+import { CommitRevealGameClient, CommitmentStore } from "../src/CommitRevealGameClient";
+import { SecretNumberGameClient } from "../src/SecretNumberGameClient";
+import { GameErrorDecoder } from "../src/SecretNumberGameErrors";
+import { SecretNumberGameServer } from "../src/SecretNumberGameServer";
+import { SecretNumberPlaySession } from "../src/SecretNumberPlaySession";
+import { IndexedEvent, SecretNumberIndexer } from "../src/SecretNumberIndexer";
+import { runSimulation } from "../src/SecretNumberSimulation";
+import {
+  SOLVER_STRATEGIES,
+  SolverState,
+  SolverStrategy,
+  createSolverState,
+  nextGuess,
+  recordGuess,
+} from "../src/SecretNumberSolver";
+import type { ISecretNumberGame } from "../types";
 
-  const secretNumberGame = await deployments.get("SecretNumberGame");
+type GameVariant = "fhe" | "commit-reveal";
 
-  console.log("SecretNumberGame address is " + secretNumberGame.address);
-});
+/**
+ * Wraps a task action so that a contract revert is printed as a readable message and ends the task with the exit
+ * code of its kind (see EXIT_CODES) instead of a stack trace. Any other error is left to hardhat.
+ */
+function withDecodedReverts(action: ActionType<TaskArguments>): ActionType<TaskArguments> {
+  return async function (taskArguments, hre, runSuper) {
+    try {
+      return await action(taskArguments, hre, runSuper);
+    } catch (error) {
+      const decoder = new GameErrorDecoder([
+        (await hre.artifacts.readArtifact("SecretNumberGame")).abi,
+        (await hre.artifacts.readArtifact("CommitRevealNumberGame")).abi,
+        (await hre.artifacts.readArtifact("SecretNumberGameFactory")).abi,
+        (await hre.artifacts.readArtifact("CodeBreakerGame")).abi,
+      ]);
+      const decoded = decoder.decode(error);
+      if (!decoded) {
+        throw error;
+      }
+
+      console.error(`\n❌ ${decoded.message} (${decoded.name})`);
+      process.exitCode = decoded.exitCode;
+    }
+  };
+}
+
+/**
+ * Resolves the SecretNumberGame to interact with, in order of precedence:
+ *   - the `--address` parameter
+ *   - the `--game` parameter, looked up in the deployed SecretNumberGameFactory
+ *   - the deployed SecretNumberGame, or the deployed CommitRevealNumberGame on chains without one
+ */
+async function getSecretNumberGameDeployment(
+  taskArguments: TaskArguments,
+  hre: HardhatRuntimeEnvironment,
+): Promise<{ address: string }> {
+  const { ethers, deployments } = hre;
+
+  if (taskArguments.address) {
+    return { address: taskArguments.address };
+  }
+
+  if (taskArguments.game !== undefined) {
+    const gameId = parseInt(taskArguments.game);
+    if (!Number.isInteger(gameId) || gameId < 0) {
+      throw new Error(`Game ID must be a non-negative integer`);
+    }
+
+    const factoryDeployment = await deployments.get("SecretNumberGameFactory");
+    const factoryContract = await ethers.getContractAt("SecretNumberGameFactory", factoryDeployment.address);
+    return { address: await factoryContract.getGame(gameId) };
+  }
+
+  return (await deployments.getOrNull("SecretNumberGame")) ?? deployments.get("CommitRevealNumberGame");
+}
+
+/**
+ * Tells which variant of the game the task runs against. Games deployed before GAME_VARIANT existed are
+ * FHEVM games.
+ */
+async function getGameVariant(taskArguments: TaskArguments, hre: HardhatRuntimeEnvironment): Promise<GameVariant> {
+  const { address } = await getSecretNumberGameDeployment(taskArguments, hre);
+  const contract = await hre.ethers.getContractAt("ISecretNumberGame", address);
+  try {
+    return (await contract.GAME_VARIANT()) as GameVariant;
+  } catch {
+    return "fhe";
+  }
+}
+
+/**
+ * Throws unless the task runs against an FHEVM game, for tasks that need encryption or the decryption oracle.
+ */
+async function requireFheGame(taskArguments: TaskArguments, hre: HardhatRuntimeEnvironment): Promise<void> {
+  if ((await getGameVariant(taskArguments, hre)) !== "fhe") {
+    throw new Error(`This task needs an FHEVM game, but the game is a commit-reveal game`);
+  }
+}
+
+/**
+ * Creates a SecretNumberGameClient for the resolved game, acting as the first signer.
+ * Every transaction the client sends is logged while it waits to be mined.
+ */
+async function getSecretNumberGameClient(
+  taskArguments: TaskArguments,
+  hre: HardhatRuntimeEnvironment,
+): Promise<SecretNumberGameClient> {
+  const { ethers, fhevm } = hre;
+
+  await requireFheGame(taskArguments, hre);
+  await fhevm.initializeCLIApi();
+
+  const SecretNumberGameDeployment = await getSecretNumberGameDeployment(taskArguments, hre);
+  console.log(`SecretNumberGame: ${SecretNumberGameDeployment.address}`);
+
+  const signers = await ethers.getSigners();
+
+  const secretNumberGameContract = await ethers.getContractAt("SecretNumberGame", SecretNumberGameDeployment.address);
+
+  return new SecretNumberGameClient(secretNumberGameContract, fhevm, signers[0], {
+    onTransaction: (tx) => console.log(`Wait for tx:${tx.hash}...`),
+  });
+}
+
+/**
+ * Creates a CommitRevealGameClient for the resolved game, acting as the first signer. The secrets and guesses it
+ * commits to are kept in the `--store` file, by default one per chain, game and account in the cache folder.
+ */
+async function getCommitRevealGameClient(
+  taskArguments: TaskArguments,
+  hre: HardhatRuntimeEnvironment,
+): Promise<CommitRevealGameClient> {
+  const { ethers } = hre;
+
+  const CommitRevealNumberGameDeployment = await getSecretNumberGameDeployment(taskArguments, hre);
+  console.log(`CommitRevealNumberGame: ${CommitRevealNumberGameDeployment.address}`);
+
+  const signers = await ethers.getSigners();
+
+  const commitRevealNumberGameContract = await ethers.getContractAt(
+    "CommitRevealNumberGame",
+    CommitRevealNumberGameDeployment.address,
+  );
+
+  const { chainId } = await ethers.provider.getNetwork();
+  const storeFile: string =
+    taskArguments.store ??
+    path.join(
+      hre.config.paths.cache,
+      "commit-reveal",
+      `${chainId}-${CommitRevealNumberGameDeployment.address}-${signers[0].address}.json`,
+    );
+
+  return new CommitRevealGameClient(commitRevealNumberGameContract, signers[0], new CommitmentStore(storeFile), {
+    onTransaction: (tx) => console.log(`Wait for tx:${tx.hash}...`),
+  });
+}
+
+/**
+ * Finds the block the resolved SecretNumberGame was deployed in, so its events are not searched for
+ * any earlier. Falls back to block 0 for a game given by `--address`.
+ */
+async function getSecretNumberGameDeploymentBlock(
+  taskArguments: TaskArguments,
+  hre: HardhatRuntimeEnvironment,
+): Promise<number> {
+  const { ethers, deployments } = hre;
+
+  if (taskArguments.address) {
+    return 0;
+  }
+
+  if (taskArguments.game !== undefined) {
+    const factoryDeployment = await deployments.get("SecretNumberGameFactory");
+    const factoryContract = await ethers.getContractAt("SecretNumberGameFactory", factoryDeployment.address);
+    const [created] = await factoryContract.queryFilter(
+      factoryContract.filters.GameCreated(BigInt(taskArguments.game)),
+      factoryDeployment.receipt?.blockNumber ?? 0,
+    );
+    return created?.blockNumber ?? 0;
+  }
+
+  const deployment =
+    (await deployments.getOrNull("SecretNumberGame")) ?? (await deployments.get("CommitRevealNumberGame"));
+  return deployment.receipt?.blockNumber ?? 0;
+}
+
+/**
+ * Resolves a --role task argument to the role identifier used by the contract.
+ */
+async function getRoleId(role: string, contract: ISecretNumberGame): Promise<string> {
+  switch (role) {
+    case "game-master":
+      return contract.GAME_MASTER_ROLE();
+    default:
+      throw new Error(`Unknown role "${role}", expected game-master`);
+  }
+}
+
+/**
+ * Names the guesses a result covers, e.g. "Guess #3", or "Guesses #3-5" for a batch of three ending with guess 5.
+ */
+function describeGuessNumbers(lastGuessNumber: number, count: number): string {
+  return count > 1 ? `Guesses #${lastGuessNumber - count + 1}-${lastGuessNumber}` : `Guess #${lastGuessNumber}`;
+}
+
+/**
+ * Describes an indexed event in one line for the round timeline.
+ */
+function describeIndexedEvent(event: IndexedEvent, formatEther: (wei: string) => string): string {
+  switch (event.name) {
+    case "GameStarted":
+      return `Round started at ${new Date(event.timestamp! * 1000).toISOString()}`;
+    case "GuessMade":
+      return `${event.player} made guess #${event.guessNumber} (request ${event.requestId})`;
+    case "GuessBatchMade":
+      return `${event.player} made ${event.batchSize} guesses at once (request ${event.requestId})`;
+    case "PrivateGuessMade":
+      return `${event.player} made private guess #${event.guessNumber}`;
+    case "SealedGuessMade":
+      return `${event.player} submitted a sealed guess`;
+    case "GuessResult":
+      return `${event.player} request ${event.requestId}: ${event.correct ? "✅ correct" : "❌ wrong"}`;
+    case "GameReset":
+      return `Round ended at ${new Date(event.timestamp! * 1000).toISOString()}`;
+    case "RequestCancelled":
+      return `${event.player} cancelled request ${event.requestId} (refund ${formatEther(event.amount!)} ETH)`;
+    case "LateResultRefunded":
+      return `${event.player} got ${formatEther(event.amount!)} ETH back for request ${event.requestId}, which resolved after its round`;
+    case "DecryptionRetried":
+      return `${event.player} retried request ${event.requestId} as ${event.newRequestId}`;
+    case "SecretRevealed":
+      return `Secret revealed: ${event.value}`;
+    case "PrivateWinnerRevealed":
+      return BigInt(event.player!) !== 0n
+        ? `Winner revealed: ${event.player} after ${event.totalGuesses} guesses`
+        : `Winner revealed: nobody`;
+    case "PrizeAwarded":
+      return `${event.player} was awarded ${formatEther(event.amount!)} ETH`;
+  }
+}
+
+/**
+ * Example:
+ *   - npx hardhat --network localhost task:address
+ *   - npx hardhat --network localhost task:address --game 0
+ */
+task("task:address", "Prints the SecretNumberGame address")
+  .addOptionalParam("game", "Optionally specify a game ID from the SecretNumberGameFactory")
+  .setAction(
+    withDecodedReverts(async function (taskArguments: TaskArguments, hre) {
+      const secretNumberGame = await getSecretNumberGameDeployment(taskArguments, hre);
+
+      console.log("SecretNumberGame address is " + secretNumberGame.address);
+    }),
+  );
 
 /**
  * Example:
@@ -19,200 +272,2328 @@ task("task:address", "Prints the SecretNumberGame address").setAction(async func
  */
 task("task:game-status", "Checks if the game is currently active")
   .addOptionalParam("address", "Optionally specify the SecretNumberGame contract address")
-  .setAction(async function (taskArguments: TaskArguments, hre) {
-    const { ethers, deployments } = hre;
+  .addOptionalParam("game", "Optionally specify a game ID from the SecretNumberGameFactory")
+  .setAction(
+    withDecodedReverts(async function (taskArguments: TaskArguments, hre) {
+      const { ethers } = hre;
 
-    const SecretNumberGameDeployment = taskArguments.address
-      ? { address: taskArguments.address }
-      : await deployments.get("SecretNumberGame");
-    console.log(`SecretNumberGame: ${SecretNumberGameDeployment.address}`);
+      const SecretNumberGameDeployment = await getSecretNumberGameDeployment(taskArguments, hre);
+      console.log(`SecretNumberGame: ${SecretNumberGameDeployment.address}`);
 
-    const secretNumberGameContract = await ethers.getContractAt("SecretNumberGame", SecretNumberGameDeployment.address);
+      const secretNumberGameContract = await ethers.getContractAt(
+        "ISecretNumberGame",
+        SecretNumberGameDeployment.address,
+      );
 
-    const isActive = await secretNumberGameContract.getGameStatus();
-    console.log(`Game Status: ${isActive ? "ACTIVE" : "INACTIVE"}`);
+      const variant = await getGameVariant(taskArguments, hre);
+      console.log(`Variant: ${variant === "fhe" ? "FHEVM" : "commit-reveal"}`);
 
-    const admin = await secretNumberGameContract.admin();
-    console.log(`Game Admin: ${admin}`);
-  });
+      const isActive = await secretNumberGameContract.getGameStatus();
+      console.log(`Game Status: ${isActive ? "ACTIVE" : "INACTIVE"}`);
+
+      const round = await secretNumberGameContract.getCurrentRound();
+      console.log(`Current Round: ${round}`);
+
+      const countdown = await getRoundCountdown(secretNumberGameContract, hre);
+      if (countdown) {
+        const closesAt = new Date(countdown.deadline * 1000).toISOString();
+        if (countdown.remaining > 0) {
+          console.log(`Time Remaining: ${formatDuration(countdown.remaining)} (closes at ${closesAt})`);
+        } else {
+          console.log(`Time Remaining: ⏰ EXPIRED at ${closesAt}, anyone can close it with 'task:close-expired-round'`);
+        }
+      }
+
+      if (variant === "fhe") {
+        const fheGameContract = await ethers.getContractAt("SecretNumberGame", SecretNumberGameDeployment.address);
+
+        if (round > 0n) {
+          if (await fheGameContract.soloRounds(round)) {
+            console.log(
+              `Secret: SOLO (every player solves a secret of their own, start yours with 'task:start-puzzle')`,
+            );
+          } else {
+            const random = await fheGameContract.randomRounds(round);
+            console.log(`Secret: ${random ? "RANDOM (drawn on chain, nobody knows it)" : "chosen by the game master"}`);
+          }
+        }
+
+        const hintsEnabled = await fheGameContract.hintsEnabled();
+        console.log(`Hints: ${hintsEnabled ? "ENABLED" : "DISABLED"}`);
+
+        const privacyMode = await fheGameContract.privacyMode();
+        console.log(`Privacy Mode: ${privacyMode ? "ENABLED" : "DISABLED"}`);
+
+        const sealedMode = await fheGameContract.sealedMode();
+        console.log(`Sealed Mode: ${sealedMode ? "ENABLED (one sealed guess each, the closest wins)" : "DISABLED"}`);
+        if (round > 0n && (await fheGameContract.sealedRounds(round)) !== sealedMode) {
+          console.log(`   (round ${round} was started with sealed mode ${sealedMode ? "disabled" : "enabled"})`);
+        } else if (round > 0n && !sealedMode && (await fheGameContract.privateRounds(round)) !== privacyMode) {
+          console.log(`   (round ${round} was started with privacy mode ${privacyMode ? "disabled" : "enabled"})`);
+        }
+      } else if (round > 0n && !isActive) {
+        const commitRevealGameContract = await ethers.getContractAt(
+          "CommitRevealNumberGame",
+          SecretNumberGameDeployment.address,
+        );
+        const settlement = await commitRevealGameContract.getRoundSettlement(round);
+        if (!settlement.revealed) {
+          console.log(`Settlement: waiting for the secret, reveal it with 'task:reveal'`);
+        } else if (settlement.settled) {
+          console.log(`Settlement: SETTLED (${settlement.revealedGuesses}/${settlement.guesses} guesses revealed)`);
+        } else {
+          const periodEnd = new Date(Number(settlement.revealPeriodEnd) * 1000).toISOString();
+          console.log(
+            `Settlement: ${settlement.revealedGuesses}/${settlement.guesses} guesses revealed, ` +
+              `reveal yours with 'task:reveal-guesses' before ${periodEnd}`,
+          );
+        }
+      }
+
+      const settings = await secretNumberGameContract.getGameSettings();
+      console.log(`Range: ${settings.min}-${settings.max}`);
+      console.log(`Guesses Per Player: ${settings.maxGuesses > 0n ? settings.maxGuesses : "unlimited"}`);
+
+      const poolInfo = await secretNumberGameContract.getPoolInfo();
+      console.log(`Guess Fee: ${ethers.formatEther(poolInfo.fee)} ETH`);
+      console.log(`Prize Pool: ${ethers.formatEther(poolInfo.pool)} ETH`);
+
+      const admin = await secretNumberGameContract.admin();
+      console.log(`Game Admin: ${admin}`);
+
+      const pendingAdmin = await secretNumberGameContract.pendingAdmin();
+      if (pendingAdmin !== ethers.ZeroAddress) {
+        console.log(`Pending Admin: ${pendingAdmin}`);
+      }
+    }),
+  );
+
+/**
+ * Formats a number of seconds as a countdown, e.g. 1h 02m 05s.
+ */
+function formatDuration(seconds: number): string {
+  const hours = Math.floor(seconds / 3600);
+  const minutes = Math.floor((seconds % 3600) / 60);
+  const pad = (value: number) => value.toString().padStart(2, "0");
+  if (hours > 0) {
+    return `${hours}h ${pad(minutes)}m ${pad(seconds % 60)}s`;
+  }
+  return minutes > 0 ? `${minutes}m ${pad(seconds % 60)}s` : `${seconds}s`;
+}
+
+/**
+ * Draws the connected player's secret when the round is a solo round they have not started a puzzle in yet,
+ * so guessing works the same in every round.
+ */
+async function ensurePuzzleStarted(client: SecretNumberGameClient, round: bigint): Promise<void> {
+  if (!(await client.contract.soloRounds(round)) || (await client.hasPuzzle(undefined, round))) {
+    return;
+  }
+
+  console.log(`Round ${round} is a solo round, drawing your own secret number...`);
+  await client.startPuzzle();
+  console.log(`🧩 Your puzzle is ready: your guesses are checked against a secret nobody else shares.`);
+}
+
+/**
+ * Returns the current round's deadline and the seconds left until it, or undefined if the round is not active or
+ * has no deadline. The contract measures time by block timestamps, which only move when blocks are mined, so the
+ * countdown runs from the later of the latest block and the local clock.
+ */
+async function getRoundCountdown(contract: ISecretNumberGame, hre: HardhatRuntimeEnvironment) {
+  const [hasDeadline] = await contract.getTimeRemaining();
+  if (!hasDeadline) {
+    return undefined;
+  }
+
+  const deadline = Number(await contract.getRoundDeadline(await contract.getCurrentRound()));
+  const latestBlock = await hre.ethers.provider.getBlock("latest");
+  const now = Math.max(latestBlock?.timestamp ?? 0, Math.floor(Date.now() / 1000));
+  return { deadline, remaining: Math.max(deadline - now, 0) };
+}
 
 /**
  * Example:
  *   - npx hardhat --network localhost task:set-secret --secret 42
+ *   - npx hardhat --network localhost task:set-secret --secret 42 --duration 600
+ *   - npx hardhat --network localhost task:set-secret --random
+ *   - npx hardhat --network localhost task:set-secret --solo --duration 3600
  *   - npx hardhat --network sepolia task:set-secret --secret 42
+ *   - npx hardhat --network anvil task:set-secret --secret 42 --store ./secrets.json
  */
-task("task:set-secret", "Sets the secret number for the game (admin only)")
+task("task:set-secret", "Sets the secret number for the game (admin or game master)")
   .addOptionalParam("address", "Optionally specify the SecretNumberGame contract address")
-  .addParam("secret", "The secret number (1-100)")
-  .setAction(async function (taskArguments: TaskArguments, hre) {
-    const { ethers, deployments, fhevm } = hre;
+  .addOptionalParam("game", "Optionally specify a game ID from the SecretNumberGameFactory")
+  .addOptionalParam("secret", "The secret number (within the game's configured range)")
+  .addFlag("random", "Let the contract draw a secret nobody knows from encrypted randomness (FHEVM games)")
+  .addFlag("solo", "Start a solo round where every player draws a secret of their own (FHEVM games)")
+  .addOptionalParam("duration", "Seconds the round accepts guesses for (0 = until reset)", "0")
+  .addOptionalParam("store", "Commit-reveal games: the file the secret and its salt are kept in")
+  .setAction(
+    withDecodedReverts(async function (taskArguments: TaskArguments, hre) {
+      const duration = parseInt(taskArguments.duration);
+      if (!Number.isInteger(duration) || duration < 0) {
+        throw new Error(`Argument --duration must be a non-negative number of seconds`);
+      }
+      const modes = [taskArguments.secret !== undefined, taskArguments.random, taskArguments.solo];
+      if (modes.filter(Boolean).length !== 1) {
+        throw new Error(`Pass exactly one of --secret, --random or --solo`);
+      }
 
-    const secretValue = parseInt(taskArguments.secret);
-    if (!Number.isInteger(secretValue) || secretValue < 1 || secretValue > 100) {
-      throw new Error(`Secret must be an integer between 1 and 100`);
-    }
+      const variant = await getGameVariant(taskArguments, hre);
+      if (taskArguments.solo) {
+        if (variant === "commit-reveal") {
+          throw new Error(`Commit-reveal games have no solo rounds, pass --secret instead`);
+        }
 
-    await fhevm.initializeCLIApi();
+        const client = await getSecretNumberGameClient(taskArguments, hre);
+        const round = await client.startSoloRound(duration);
 
-    const SecretNumberGameDeployment = taskArguments.address
-      ? { address: taskArguments.address }
-      : await deployments.get("SecretNumberGame");
-    console.log(`SecretNumberGame: ${SecretNumberGameDeployment.address}`);
+        console.log(`✅ Solo round ${round} is now ACTIVE.`);
+        if (duration > 0) {
+          console.log(`⏰ Guesses are accepted for ${formatDuration(duration)}.`);
+        }
+        console.log(`🧩 Every player draws a secret of their own with 'task:start-puzzle' (or on their first guess).`);
+        console.log(`   End the round with 'task:reset-game': there is no shared secret to reveal.`);
+        return;
+      }
+      if (taskArguments.random) {
+        if (variant === "commit-reveal") {
+          throw new Error(`Commit-reveal games cannot draw a secret on chain, pass --secret instead`);
+        }
 
-    const signers = await ethers.getSigners();
+        const client = await getSecretNumberGameClient(taskArguments, hre);
+        const settings = await client.contract.getGameSettings();
 
-    const secretNumberGameContract = await ethers.getContractAt("SecretNumberGame", SecretNumberGameDeployment.address);
+        console.log(`Drawing a random secret number between ${settings.min} and ${settings.max} on chain...`);
+        const round = await client.setRandomSecret(duration);
 
-    // Encrypt the secret value
-    const encryptedSecret = await fhevm
-      .createEncryptedInput(SecretNumberGameDeployment.address, signers[0].address)
-      .add8(secretValue)
-      .encrypt();
+        console.log(`✅ Random secret number drawn! Round ${round} is now ACTIVE.`);
+        if (duration > 0) {
+          console.log(`⏰ Guesses are accepted for ${formatDuration(duration)}.`);
+        }
+        console.log(`🎲 The secret only exists encrypted: nobody, not even you, knows it until it is revealed.`);
+        return;
+      }
 
-    console.log(`Setting secret number (encrypted)...`);
-    const tx = await secretNumberGameContract
-      .connect(signers[0])
-      .setSecretNumber(encryptedSecret.handles[0], encryptedSecret.inputProof);
+      const client =
+        variant === "commit-reveal"
+          ? await getCommitRevealGameClient(taskArguments, hre)
+          : await getSecretNumberGameClient(taskArguments, hre);
 
-    console.log(`Wait for tx:${tx.hash}...`);
+      const settings = await client.contract.getGameSettings();
+      const secretValue = parseInt(taskArguments.secret);
+      if (!Number.isInteger(secretValue) || secretValue < settings.min || secretValue > settings.max) {
+        throw new Error(`Secret must be an integer between ${settings.min} and ${settings.max}`);
+      }
 
-    const receipt = await tx.wait();
-    console.log(`tx:${tx.hash} status=${receipt?.status}`);
+      if (client instanceof CommitRevealGameClient) {
+        console.log(`Committing to the secret number...`);
+      } else {
+        console.log(`Setting secret number (encrypted)...`);
+      }
+      const round = await client.setSecret(secretValue, duration);
 
-    console.log(`✅ Secret number set successfully! Game is now ACTIVE.`);
-    console.log(`⚠️  The secret number is encrypted and cannot be viewed.`);
-  });
+      console.log(`✅ Secret number set successfully! Round ${round} is now ACTIVE.`);
+      if (duration > 0) {
+        console.log(`⏰ Guesses are accepted for ${formatDuration(duration)}.`);
+      }
+      if (client instanceof CommitRevealGameClient) {
+        console.log(`⚠️  Only a salted hash of the secret is on chain. The secret and its salt are kept in`);
+        console.log(`   ${client.store.file}, which 'task:reveal' needs to end the round.`);
+      } else {
+        console.log(`⚠️  The secret number is encrypted and cannot be viewed.`);
+      }
+    }),
+  );
+
+/**
+ * Example:
+ *   - npx hardhat --network localhost task:start-puzzle
+ *   - npx hardhat --network sepolia task:start-puzzle --game 3
+ */
+task("task:start-puzzle", "Draws your own secret number for the current solo round")
+  .addOptionalParam("address", "Optionally specify the SecretNumberGame contract address")
+  .addOptionalParam("game", "Optionally specify a game ID from the SecretNumberGameFactory")
+  .setAction(
+    withDecodedReverts(async function (taskArguments: TaskArguments, hre) {
+      const client = await getSecretNumberGameClient(taskArguments, hre);
+      const round = await client.contract.getCurrentRound();
+
+      if (await client.hasPuzzle(undefined, round)) {
+        console.log(`✅ You already have a puzzle in round ${round}, start guessing with 'task:make-guess'.`);
+        return;
+      }
+
+      console.log(`Drawing your secret number for round ${round}...`);
+      await client.startPuzzle();
+
+      const settings = await client.contract.getGameSettings();
+      console.log(`✅ Puzzle started! Your secret is between ${settings.min} and ${settings.max}.`);
+      console.log(`🧩 Nobody else guesses it, and nobody, not even you, knows it.`);
+    }),
+  );
+
+/**
+ * Example:
+ *   - npx hardhat --network localhost task:configure-game --min 1 --max 50 --max-guesses 10
+ *   - npx hardhat --network sepolia task:configure-game --min 1 --max 100 --max-guesses 0
+ */
+task("task:configure-game", "Configures the number range and per-player guess limit (admin only, between rounds)")
+  .addOptionalParam("address", "Optionally specify the SecretNumberGame contract address")
+  .addOptionalParam("game", "Optionally specify a game ID from the SecretNumberGameFactory")
+  .addParam("min", "The smallest valid secret and guess (0-255)")
+  .addParam("max", "The largest valid secret and guess (0-255)")
+  .addParam("maxGuesses", "How many guesses each player may make per round (0 = unlimited, max 255)")
+  .setAction(
+    withDecodedReverts(async function (taskArguments: TaskArguments, hre) {
+      const { ethers } = hre;
+
+      const min = parseInt(taskArguments.min);
+      const max = parseInt(taskArguments.max);
+      const maxGuesses = parseInt(taskArguments.maxGuesses);
+      for (const [name, value] of Object.entries({ min, max, "max-guesses": maxGuesses })) {
+        if (!Number.isInteger(value) || value < 0 || value > 255) {
+          throw new Error(`Argument --${name} must be an integer between 0 and 255`);
+        }
+      }
+      if (min > max) {
+        throw new Error(`Argument --min must not be greater than --max`);
+      }
+
+      const SecretNumberGameDeployment = await getSecretNumberGameDeployment(taskArguments, hre);
+      console.log(`SecretNumberGame: ${SecretNumberGameDeployment.address}`);
+
+      const signers = await ethers.getSigners();
+
+      const secretNumberGameContract = await ethers.getContractAt(
+        "ISecretNumberGame",
+        SecretNumberGameDeployment.address,
+      );
+
+      console.log(`Configuring game...`);
+      const tx = await secretNumberGameContract.connect(signers[0]).configureGame(min, max, maxGuesses);
+
+      console.log(`Wait for tx:${tx.hash}...`);
+
+      const receipt = await tx.wait();
+      console.log(`tx:${tx.hash} status=${receipt?.status}`);
+
+      console.log(`✅ Range is now ${min}-${max}, ${maxGuesses > 0 ? maxGuesses : "unlimited"} guesses per player.`);
+    }),
+  );
+
+/**
+ * Example:
+ *   - npx hardhat --network localhost task:set-hint-mode --enabled true
+ *   - npx hardhat --network sepolia task:set-hint-mode --enabled false
+ */
+task("task:set-hint-mode", "Enables or disables encrypted higher/lower hints (admin only, between rounds)")
+  .addOptionalParam("address", "Optionally specify the SecretNumberGame contract address")
+  .addOptionalParam("game", "Optionally specify a game ID from the SecretNumberGameFactory")
+  .addParam("enabled", "Whether hints should be enabled (true/false)")
+  .setAction(
+    withDecodedReverts(async function (taskArguments: TaskArguments, hre) {
+      const { ethers } = hre;
+
+      if (taskArguments.enabled !== "true" && taskArguments.enabled !== "false") {
+        throw new Error(`Argument --enabled must be 'true' or 'false'`);
+      }
+      const enabled = taskArguments.enabled === "true";
+
+      await requireFheGame(taskArguments, hre);
+
+      const SecretNumberGameDeployment = await getSecretNumberGameDeployment(taskArguments, hre);
+      console.log(`SecretNumberGame: ${SecretNumberGameDeployment.address}`);
+
+      const signers = await ethers.getSigners();
+
+      const secretNumberGameContract = await ethers.getContractAt(
+        "SecretNumberGame",
+        SecretNumberGameDeployment.address,
+      );
+
+      console.log(`${enabled ? "Enabling" : "Disabling"} hints...`);
+      const tx = await secretNumberGameContract.connect(signers[0]).setHintMode(enabled);
+
+      console.log(`Wait for tx:${tx.hash}...`);
+
+      const receipt = await tx.wait();
+      console.log(`tx:${tx.hash} status=${receipt?.status}`);
+
+      console.log(`✅ Hints are now ${enabled ? "ENABLED" : "DISABLED"}.`);
+    }),
+  );
+
+/**
+ * Example:
+ *   - npx hardhat --network localhost task:set-privacy-mode --enabled true
+ *   - npx hardhat --network sepolia task:set-privacy-mode --enabled false
+ */
+task("task:set-privacy-mode", "Keeps guess results private to each player (admin only, between rounds)")
+  .addOptionalParam("address", "Optionally specify the SecretNumberGame contract address")
+  .addOptionalParam("game", "Optionally specify a game ID from the SecretNumberGameFactory")
+  .addParam("enabled", "Whether privacy mode should be enabled (true/false)")
+  .setAction(
+    withDecodedReverts(async function (taskArguments: TaskArguments, hre) {
+      const { ethers } = hre;
+
+      if (taskArguments.enabled !== "true" && taskArguments.enabled !== "false") {
+        throw new Error(`Argument --enabled must be 'true' or 'false'`);
+      }
+      const enabled = taskArguments.enabled === "true";
+
+      await requireFheGame(taskArguments, hre);
+
+      const SecretNumberGameDeployment = await getSecretNumberGameDeployment(taskArguments, hre);
+      console.log(`SecretNumberGame: ${SecretNumberGameDeployment.address}`);
+
+      const signers = await ethers.getSigners();
+
+      const secretNumberGameContract = await ethers.getContractAt(
+        "SecretNumberGame",
+        SecretNumberGameDeployment.address,
+      );
+
+      console.log(`${enabled ? "Enabling" : "Disabling"} privacy mode...`);
+      const tx = await secretNumberGameContract.connect(signers[0]).setPrivacyMode(enabled);
+
+      console.log(`Wait for tx:${tx.hash}...`);
+
+      const receipt = await tx.wait();
+      console.log(`tx:${tx.hash} status=${receipt?.status}`);
+
+      console.log(`✅ Privacy mode is now ${enabled ? "ENABLED" : "DISABLED"}, starting with the next round.`);
+    }),
+  );
+
+/**
+ * Example:
+ *   - npx hardhat --network localhost task:set-sealed-mode --enabled true
+ *   - npx hardhat --network sepolia task:set-sealed-mode --enabled false
+ */
+task("task:set-sealed-mode", "Plays rounds as sealed closest-guess rounds (admin only, between rounds)")
+  .addOptionalParam("address", "Optionally specify the SecretNumberGame contract address")
+  .addOptionalParam("game", "Optionally specify a game ID from the SecretNumberGameFactory")
+  .addParam("enabled", "Whether sealed mode should be enabled (true/false)")
+  .setAction(
+    withDecodedReverts(async function (taskArguments: TaskArguments, hre) {
+      const { ethers } = hre;
+
+      if (taskArguments.enabled !== "true" && taskArguments.enabled !== "false") {
+        throw new Error(`Argument --enabled must be 'true' or 'false'`);
+      }
+      const enabled = taskArguments.enabled === "true";
+
+      await requireFheGame(taskArguments, hre);
+
+      const SecretNumberGameDeployment = await getSecretNumberGameDeployment(taskArguments, hre);
+      console.log(`SecretNumberGame: ${SecretNumberGameDeployment.address}`);
+
+      const signers = await ethers.getSigners();
+
+      const secretNumberGameContract = await ethers.getContractAt(
+        "SecretNumberGame",
+        SecretNumberGameDeployment.address,
+      );
+
+      console.log(`${enabled ? "Enabling" : "Disabling"} sealed mode...`);
+      const tx = await secretNumberGameContract.connect(signers[0]).setSealedMode(enabled);
+
+      console.log(`Wait for tx:${tx.hash}...`);
+
+      const receipt = await tx.wait();
+      console.log(`tx:${tx.hash} status=${receipt?.status}`);
+
+      console.log(`✅ Sealed mode is now ${enabled ? "ENABLED" : "DISABLED"}, starting with the next round.`);
+    }),
+  );
 
 /**
  * Example:
  *   - npx hardhat --network localhost task:make-guess --guess 42
- *   - npx hardhat --network sepolia task:make-guess --guess 42
+ *   - npx hardhat --network localhost task:make-guess --guess 10,20,30
+ *   - npx hardhat --network sepolia task:make-guess --guess 42 --timeout 300
+ *   - npx hardhat --network anvil task:make-guess --guess 42
  */
 task("task:make-guess", "Make a guess at the secret number")
   .addOptionalParam("address", "Optionally specify the SecretNumberGame contract address")
-  .addParam("guess", "Your guess (1-100)")
-  .setAction(async function (taskArguments: TaskArguments, hre) {
-    const { ethers, deployments, fhevm } = hre;
+  .addOptionalParam("game", "Optionally specify a game ID from the SecretNumberGameFactory")
+  .addOptionalParam("value", "Optionally specify the wei to send (defaults to the game's guess fee)")
+  .addParam("guess", "Your guess, or several comma-separated guesses to make at once (within the game's range)")
+  .addOptionalParam("timeout", "Seconds to wait for the guess result", "120")
+  .addOptionalParam("store", "Commit-reveal games: the file the guess and its salt are kept in")
+  .setAction(
+    withDecodedReverts(async function (taskArguments: TaskArguments, hre) {
+      const { ethers } = hre;
 
-    const guessValue = parseInt(taskArguments.guess);
-    if (!Number.isInteger(guessValue) || guessValue < 1 || guessValue > 100) {
-      throw new Error(`Guess must be an integer between 1 and 100`);
-    }
+      const timeoutSeconds = parseInt(taskArguments.timeout);
+      if (!Number.isInteger(timeoutSeconds) || timeoutSeconds < 0) {
+        throw new Error(`Timeout must be a non-negative number of seconds`);
+      }
 
-    await fhevm.initializeCLIApi();
+      const client =
+        (await getGameVariant(taskArguments, hre)) === "commit-reveal"
+          ? await getCommitRevealGameClient(taskArguments, hre)
+          : await getSecretNumberGameClient(taskArguments, hre);
+      const player = await client.signer.getAddress();
 
-    const SecretNumberGameDeployment = taskArguments.address
-      ? { address: taskArguments.address }
-      : await deployments.get("SecretNumberGame");
-    console.log(`SecretNumberGame: ${SecretNumberGameDeployment.address}`);
+      const settings = await client.contract.getGameSettings();
+      const guessValues = String(taskArguments.guess)
+        .split(",")
+        .map((part) => Number(part.trim()));
+      for (const guessValue of guessValues) {
+        if (!Number.isInteger(guessValue) || guessValue < settings.min || guessValue > settings.max) {
+          throw new Error(`Guess must be an integer between ${settings.min} and ${settings.max}`);
+        }
+      }
+      if (client instanceof SecretNumberGameClient) {
+        const maxBatch = await client.contract.MAX_BATCH_GUESSES();
+        if (guessValues.length > maxBatch) {
+          throw new Error(`At most ${maxBatch} guesses can be made at once`);
+        }
+      }
+      const guessList = guessValues.join(", ");
 
-    const signers = await ethers.getSigners();
+      // Check if game is active
+      const isActive = await client.contract.getGameStatus();
+      if (!isActive) {
+        console.log("❌ Game is not active! Admin needs to set a secret number first.");
+        return;
+      }
 
-    const secretNumberGameContract = await ethers.getContractAt("SecretNumberGame", SecretNumberGameDeployment.address);
+      const round = await client.contract.getCurrentRound();
+      const isPrivate = client instanceof SecretNumberGameClient && (await client.contract.privateRounds(round));
+      console.log(`Round: ${round}${isPrivate ? " (private)" : ""}`);
 
-    // Check if game is active
-    const isActive = await secretNumberGameContract.getGameStatus();
-    if (!isActive) {
-      console.log("❌ Game is not active! Admin needs to set a secret number first.");
-      return;
-    }
+      // Check if player already won this round (a private win is only known once the round has ended)
+      const stats = await client.stats(player, round);
+      if (stats.won) {
+        console.log("🎉 You already won this round! Wait for admin to start a new one.");
+        return;
+      }
 
-    // Check if player already won
-    const stats = await secretNumberGameContract.connect(signers[0]).getMyStats();
-    if (stats.won) {
-      console.log("🎉 You already won this game! Wait for admin to reset.");
-      return;
-    }
+      // Check if player has guesses left this round
+      if (settings.maxGuesses > 0n && stats.guesses >= settings.maxGuesses) {
+        console.log(`❌ You have used all ${settings.maxGuesses} guesses for this round.`);
+        return;
+      }
+      if (settings.maxGuesses > 0n && stats.guesses + guessValues.length > settings.maxGuesses) {
+        console.log(`❌ You only have ${Number(settings.maxGuesses) - stats.guesses} guesses left this round.`);
+        return;
+      }
+
+      if (client instanceof SecretNumberGameClient) {
+        if (await client.contract.sealedRounds(round)) {
+          console.log(`❌ Round ${round} is a sealed round, submit your one guess with 'task:submit-sealed'.`);
+          return;
+        }
+        await ensurePuzzleStarted(client, round);
+      }
 
-    // Encrypt the guess
-    const encryptedGuess = await fhevm
-      .createEncryptedInput(SecretNumberGameDeployment.address, signers[0].address)
-      .add8(guessValue)
-      .encrypt();
+      // Every guess of a batch pays the fee
+      const guessFee = (await client.contract.guessFee()) * BigInt(guessValues.length);
+      const value = taskArguments.value !== undefined ? BigInt(taskArguments.value) : guessFee;
+      if (value !== guessFee) {
+        console.log(`⚠️  Sending ${value} wei but the guess fee is ${guessFee} wei, the guess will be rejected.`);
+      } else if (value > 0n) {
+        console.log(`Paying guess fee: ${ethers.formatEther(value)} ETH`);
+      }
 
-    console.log(`Making guess: ${guessValue}...`);
-    const tx = await secretNumberGameContract
-      .connect(signers[0])
-      .makeGuess(encryptedGuess.handles[0], encryptedGuess.inputProof);
+      if (client instanceof CommitRevealGameClient) {
+        // Only a salted hash of the guess goes on chain, so there is no result until the round ends. Every
+        // guess is committed on its own, since each one is revealed separately.
+        const fee = value / BigInt(guessValues.length);
+        for (const guessValue of guessValues) {
+          console.log(`Committing to guess: ${guessValue}...`);
+          const submitted = await client.submitGuess(guessValue, { value: fee });
 
-    console.log(`Wait for tx:${tx.hash}...`);
+          console.log(
+            `\n🔒 Guess #${submitted.guessNumber} committed as request ${submitted.requestId} (round ${round}).`,
+          );
+        }
+        console.log(`   💡 Once the secret is revealed with 'task:reveal', reveal your guesses with`);
+        console.log(`      'task:reveal-guesses' to get their results. The salts are kept in ${client.store.file}.`);
+        return;
+      }
 
-    const receipt = await tx.wait();
-    console.log(`tx:${tx.hash} status=${receipt?.status}`);
+      if (isPrivate) {
+        // The result is only ever decrypted for this player, so there is no oracle to wait for
+        console.log(`Making private guess: ${guessList}...`);
+        const result =
+          guessValues.length > 1
+            ? await client.privateGuesses(guessValues, { value })
+            : await client.privateGuess(guessValues[0], { value, hint: true });
 
-    // Wait a moment for the callback to process
-    console.log(`Waiting for result...`);
-    await new Promise((resolve) => setTimeout(resolve, 2000));
+        console.log(`\n🔒 Private result (round ${round}, only you can decrypt it):`);
+        console.log(
+          `   ${describeGuessNumbers(result.totalGuesses, guessValues.length)}: ${result.correct ? "✅ CORRECT!" : "❌ Wrong"}`,
+        );
+        if (result.correct) {
+          console.log(`   🏆 The first correct guesser is revealed, and wins the prize, when the round ends.`);
+          return;
+        }
+        if (result.hint === "too-high") {
+          console.log(`   🔼 Your guess is too high`);
+        } else if (result.hint === "too-low") {
+          console.log(`   🔽 Your guess is too low`);
+        }
+        console.log(`   💡 Try again!`);
+        return;
+      }
 
-    // Get updated stats
-    const updatedStats = await secretNumberGameContract.connect(signers[0]).getMyStats();
+      console.log(`Making guess: ${guessList}...`);
+      const submitted =
+        guessValues.length > 1
+          ? await client.submitGuesses(guessValues, { value })
+          : await client.submitGuess(guessValues[0], { value });
 
-    console.log(`\n📊 Result:`);
-    console.log(`   Guess #${updatedStats.guesses}: ${updatedStats.correct ? "✅ CORRECT!" : "❌ Wrong"}`);
-    console.log(`   Total Guesses: ${updatedStats.guesses}`);
+      console.log(`Waiting up to ${timeoutSeconds}s for the result of request ${submitted.requestId}...`);
+      const result = await client.waitForResult(submitted, {
+        timeoutMs: timeoutSeconds * 1000,
+        onProgress: (elapsedMs) =>
+          console.log(
+            `   ...still waiting for request ${submitted.requestId} (${Math.floor(elapsedMs / 1000)}s elapsed)`,
+          ),
+      });
+      if (!result) {
+        console.log(`❌ Request ${submitted.requestId} was cancelled or retried before its result arrived.`);
+        return;
+      }
+
+      console.log(`\n📊 Result (round ${round}):`);
+      console.log(
+        `   ${describeGuessNumbers(submitted.guessNumber, guessValues.length)}: ${result.correct ? "✅ CORRECT!" : "❌ Wrong"}`,
+      );
+      console.log(`   Total Guesses: ${result.totalGuesses}`);
+
+      if ((await client.stats(player, round)).won) {
+        console.log(`   🎉 CONGRATULATIONS! You won the game!`);
+
+        const prize = await client.contract.pendingPrizes(player);
+        if (prize > 0n) {
+          console.log(
+            `   💰 ${ethers.formatEther(prize)} ETH is waiting for you, use 'task:claim-prize' to collect it.`,
+          );
+        }
+        return;
+      }
+
+      // Decrypt the higher/lower hint, which only this player is allowed to read
+      const hint = await client.decryptHint(submitted.requestId);
+      if (hint === "too-high") {
+        console.log(`   🔼 Your guess is too high`);
+      } else if (hint === "too-low") {
+        console.log(`   🔽 Your guess is too low`);
+      }
 
-    if (updatedStats.won) {
-      console.log(`   🎉 CONGRATULATIONS! You won the game!`);
-    } else {
       console.log(`   💡 Try again!`);
-    }
-  });
+    }),
+  );
+
+/**
+ * Example:
+ *   - npx hardhat --network localhost task:submit-sealed --guess 42
+ *   - npx hardhat --network sepolia task:submit-sealed --guess 42 --game 3
+ */
+task("task:submit-sealed", "Submits your one sealed guess of a sealed round, the closest guess wins")
+  .addOptionalParam("address", "Optionally specify the SecretNumberGame contract address")
+  .addOptionalParam("game", "Optionally specify a game ID from the SecretNumberGameFactory")
+  .addOptionalParam("value", "Optionally specify the wei to send (defaults to the game's guess fee)")
+  .addParam("guess", "Your guess (within the game's range)")
+  .setAction(
+    withDecodedReverts(async function (taskArguments: TaskArguments, hre) {
+      const { ethers } = hre;
+
+      const client = await getSecretNumberGameClient(taskArguments, hre);
+      const player = await client.signer.getAddress();
+
+      const settings = await client.contract.getGameSettings();
+      const guessValue = Number(taskArguments.guess);
+      if (!Number.isInteger(guessValue) || guessValue < settings.min || guessValue > settings.max) {
+        throw new Error(`Guess must be an integer between ${settings.min} and ${settings.max}`);
+      }
+
+      if (!(await client.contract.getGameStatus())) {
+        console.log("❌ Game is not active! Admin needs to set a secret number first.");
+        return;
+      }
+
+      const round = await client.contract.getCurrentRound();
+      if (!(await client.contract.sealedRounds(round))) {
+        console.log(`❌ Round ${round} is not a sealed round, guess with 'task:make-guess' instead.`);
+        return;
+      }
+      if ((await client.contract.totalGuesses(round, player)) > 0n) {
+        console.log(`❌ You have already sealed your guess for round ${round}.`);
+        return;
+      }
+      await ensurePuzzleStarted(client, round);
+
+      const guessFee = await client.contract.guessFee();
+      const value = taskArguments.value !== undefined ? BigInt(taskArguments.value) : guessFee;
+      if (value !== guessFee) {
+        console.log(`⚠️  Sending ${value} wei but the guess fee is ${guessFee} wei, the guess will be rejected.`);
+      } else if (value > 0n) {
+        console.log(`Paying guess fee: ${ethers.formatEther(value)} ETH`);
+      }
+
+      console.log(`Sealing guess: ${guessValue}...`);
+      await client.submitSealedGuess(guessValue, { value });
+
+      console.log(`\n🔒 Your guess is sealed in round ${round}. Nobody, not even the game, ever decrypts it.`);
+      console.log(
+        `   🏆 Once the round ends, only the player whose guess came closest is revealed, see 'task:settle'.`,
+      );
+    }),
+  );
+
+/**
+ * Example:
+ *   - npx hardhat --network localhost task:settle
+ *   - npx hardhat --network sepolia task:settle --timeout 300
+ */
+task("task:settle", "Ends a sealed round and reveals the player whose guess came closest")
+  .addOptionalParam("address", "Optionally specify the SecretNumberGame contract address")
+  .addOptionalParam("game", "Optionally specify a game ID from the SecretNumberGameFactory")
+  .addOptionalParam("round", "The sealed round to settle (defaults to the current round)")
+  .addOptionalParam("timeout", "Seconds to wait for the winner to be revealed", "120")
+  .setAction(
+    withDecodedReverts(async function (taskArguments: TaskArguments, hre) {
+      const { ethers } = hre;
+
+      const timeoutSeconds = parseInt(taskArguments.timeout);
+      if (!Number.isInteger(timeoutSeconds) || timeoutSeconds < 0) {
+        throw new Error(`Timeout must be a non-negative number of seconds`);
+      }
+
+      const client = await getSecretNumberGameClient(taskArguments, hre);
+      const currentRound = await client.contract.getCurrentRound();
+      const round = taskArguments.round !== undefined ? BigInt(taskArguments.round) : currentRound;
+
+      if (round === 0n || round > currentRound || !(await client.contract.sealedRounds(round))) {
+        console.log(`❌ Round ${round} is not a sealed round.`);
+        return;
+      }
+
+      // The closest guesser is decrypted as soon as the round ends, whoever ends it
+      if (round === currentRound && (await client.contract.getGameStatus())) {
+        const countdown = await getRoundCountdown(client.contract, hre);
+        if (countdown && countdown.remaining === 0) {
+          console.log(`Closing expired round ${round}...`);
+          await client.closeExpiredRound();
+        } else {
+          console.log(`Ending round ${round}...`);
+          await client.reset();
+        }
+        console.log(`✅ Round ${round} has ended, no more sealed guesses are accepted.`);
+      }
+
+      await printPrivateWinner(client, round, timeoutSeconds);
+
+      const player = await client.signer.getAddress();
+      if ((await client.contract.roundWinners(round)) === player) {
+        const prize = await client.contract.pendingPrizes(player);
+        if (prize > 0n) {
+          console.log(
+            `   💰 ${ethers.formatEther(prize)} ETH is waiting for you, use 'task:claim-prize' to collect it.`,
+          );
+        }
+      }
+    }),
+  );
+
+/**
+ * Example:
+ *   - npx hardhat --network localhost task:auto-play
+ *   - npx hardhat --network localhost task:auto-play --strategy random
+ *   - npx hardhat --network sepolia task:auto-play --state ./my-run.json --timeout 300
+ */
+task("task:auto-play", "Plays the current round until the secret is found")
+  .addOptionalParam("address", "Optionally specify the SecretNumberGame contract address")
+  .addOptionalParam("game", "Optionally specify a game ID from the SecretNumberGameFactory")
+  .addOptionalParam("strategy", "sequential, random or binary (defaults to binary when hints are enabled)")
+  .addOptionalParam("state", "Optionally specify the file the run is saved to and resumed from")
+  .addOptionalParam("timeout", "Seconds to wait for each guess result", "120")
+  .setAction(
+    withDecodedReverts(async function (taskArguments: TaskArguments, hre) {
+      const { ethers } = hre;
+
+      const timeoutSeconds = parseInt(taskArguments.timeout);
+      if (!Number.isInteger(timeoutSeconds) || timeoutSeconds < 0) {
+        throw new Error(`Timeout must be a non-negative number of seconds`);
+      }
+      if (taskArguments.strategy !== undefined && !SOLVER_STRATEGIES.includes(taskArguments.strategy)) {
+        throw new Error(`Strategy must be one of ${SOLVER_STRATEGIES.join(", ")}`);
+      }
+
+      const client = await getSecretNumberGameClient(taskArguments, hre);
+      const game = await client.getAddress();
+      const player = await client.signer.getAddress();
+
+      if (!(await client.contract.getGameStatus())) {
+        console.log("❌ Game is not active! Admin needs to set a secret number first.");
+        return;
+      }
+
+      const round = await client.contract.getCurrentRound();
+      if (await client.contract.privateRounds(round)) {
+        throw new Error(`Round ${round} is private, auto-play needs public results to know when to stop`);
+      }
+      await ensurePuzzleStarted(client, round);
+      const settings = await client.contract.getGameSettings();
+      const hintsEnabled = await client.contract.hintsEnabled();
+
+      const strategy: SolverStrategy = taskArguments.strategy ?? (hintsEnabled ? "binary" : "sequential");
+      if (strategy === "binary" && !hintsEnabled) {
+        throw new Error(`The binary strategy needs hints, which are disabled for this game`);
+      }
+
+      const stateFile: string =
+        taskArguments.state ?? path.join(hre.config.paths.cache, "auto-play", `${game}-${player}.json`);
+      const saveState = (state: SolverState) => {
+        fs.mkdirSync(path.dirname(stateFile), { recursive: true });
+        fs.writeFileSync(stateFile, JSON.stringify(state, null, 2));
+      };
+
+      // Resume a saved run for the same game, player and round; anything else starts over
+      let state = createSolverState(game, player, round, strategy, Number(settings.min), Number(settings.max));
+      if (fs.existsSync(stateFile)) {
+        const saved: SolverState = JSON.parse(fs.readFileSync(stateFile, "utf8"));
+        if (saved.game === game && saved.player === player && saved.round === round.toString()) {
+          state = saved;
+          console.log(`Resuming run from ${stateFile} (${state.tried.length} guesses tried)`);
+        }
+      }
+      console.log(`Round ${round}: playing ${state.low}-${state.high} with the ${state.strategy} strategy`);
+
+      const playGuess = async (guess: number, submitted: Parameters<typeof client.waitForResult>[0]): Promise<void> => {
+        state.pending = { guess, requestId: submitted.requestId.toString(), blockNumber: submitted.blockNumber };
+        saveState(state);
+
+        const result = await client.waitForResult(submitted, { timeoutMs: timeoutSeconds * 1000 });
+        if (!result) {
+          // A retried request hands the guess over to a new request, whose result is still to come
+          const retried = await client.findRetry(submitted);
+          if (retried) {
+            console.log(`   Guess ${guess}: request ${submitted.requestId} was retried as ${retried.requestId}`);
+            await playGuess(guess, retried);
+            return;
+          }
+          console.log(`   Guess ${guess}: request ${submitted.requestId} was closed without a result, skipping it`);
+          state.pending = undefined;
+          saveState(state);
+          return;
+        }
+
+        const hint = !result.correct && hintsEnabled ? await client.decryptHint(submitted.requestId) : undefined;
+        recordGuess(state, guess, result.correct, hint);
+        saveState(state);
+
+        console.log(
+          `   Guess #${result.totalGuesses}: ${guess} ${result.correct ? "✅" : `❌${hint ? ` ${hint}` : ""}`}`,
+        );
+      };
+
+      // A guess sent before an interruption is waited for rather than sent again
+      if (state.pending) {
+        const { guess, requestId, blockNumber } = state.pending;
+        await playGuess(guess, {
+          requestId: BigInt(requestId),
+          round,
+          guessNumber: 0,
+          blockNumber,
+          transactionHash: "",
+        });
+      }
+
+      for (;;) {
+        const stats = await client.stats(player, round);
+        if (stats.won) {
+          break;
+        }
+        if (settings.maxGuesses > 0n && stats.guesses >= settings.maxGuesses) {
+          console.log(`❌ Out of guesses after ${stats.guesses} tries.`);
+          break;
+        }
+
+        const guess = nextGuess(state);
+        if (guess === undefined) {
+          console.log(`❌ Every number in the range has been tried.`);
+          break;
+        }
+
+        const submitted = await client.submitGuess(guess);
+        const receipt = await ethers.provider.getTransactionReceipt(submitted.transactionHash);
+        state.gasUsed = (BigInt(state.gasUsed) + (receipt?.gasUsed ?? 0n)).toString();
+        state.gasCost = (BigInt(state.gasCost) + (receipt?.fee ?? 0n)).toString();
+
+        await playGuess(guess, submitted);
+      }
+
+      const stats = await client.stats(player, round);
+      console.log(`\n🤖 Auto-play finished (round ${round}):`);
+      console.log(`   Result: ${stats.won ? `🎉 WON with ${state.solved ?? "a correct guess"}` : "not solved"}`);
+      console.log(`   Guesses Used: ${stats.guesses}`);
+      console.log(`   Gas Used: ${state.gasUsed} (${ethers.formatEther(state.gasCost)} ETH)`);
+      console.log(`   State File: ${stateFile}`);
+    }),
+  );
+
+/**
+ * Example:
+ *   - npx hardhat --network localhost task:simulate
+ *   - npx hardhat --network localhost task:simulate --players 20 --rounds 5
+ *   - npx hardhat --network localhost task:simulate --players 50 --guesses 5 --max 100
+ */
+task("task:simulate", "Plays many rounds with many players on a fresh game and checks the game's invariants")
+  .addOptionalParam("players", "How many players to simulate", "20")
+  .addOptionalParam("rounds", "How many rounds to play", "5")
+  .addOptionalParam("guesses", "Most guesses each player makes per round", "3")
+  .addOptionalParam("max", "The largest number of the game's range (the range starts at 1)", "10")
+  .setAction(
+    withDecodedReverts(async function (taskArguments: TaskArguments, hre) {
+      const { ethers, fhevm } = hre;
+
+      const players = parseInt(taskArguments.players);
+      const rounds = parseInt(taskArguments.rounds);
+      const guesses = parseInt(taskArguments.guesses);
+      const max = parseInt(taskArguments.max);
+      if (!Number.isInteger(players) || players < 1) {
+        throw new Error(`Players must be a positive integer`);
+      }
+      if (!Number.isInteger(rounds) || rounds < 1) {
+        throw new Error(`Rounds must be a positive integer`);
+      }
+      if (!Number.isInteger(guesses) || guesses < 1) {
+        throw new Error(`Guesses must be a positive integer`);
+      }
+      if (!Number.isInteger(max) || max < 1 || max > 255) {
+        throw new Error(`Max must be between 1 and 255`);
+      }
+
+      await fhevm.initializeCLIApi();
+      if (!fhevm.isMock) {
+        throw new Error(`task:simulate needs the mock FHEVM of a local hardhat node`);
+      }
+
+      // Players are derived from the hardhat mnemonic after the admin account, and funded for their guesses
+      const [admin] = await ethers.getSigners();
+      const accounts = hre.config.networks.hardhat.accounts as HardhatNetworkHDAccountsConfig;
+      const root = ethers.HDNodeWallet.fromPhrase(accounts.mnemonic, accounts.passphrase, accounts.path);
+      const wallets = Array.from({ length: players }, (_, i) =>
+        root.deriveChild(accounts.initialIndex + 1 + i).connect(ethers.provider),
+      );
+      for (const wallet of wallets) {
+        await ethers.provider.send("hardhat_setBalance", [wallet.address, ethers.toQuantity(ethers.parseEther("100"))]);
+      }
+
+      const factory = await ethers.getContractFactory("SecretNumberGame");
+      const game = await factory.deploy(admin.address);
+      await game.waitForDeployment();
+      await (await game.configureGame(1, max, 0)).wait();
+      console.log(`SecretNumberGame: ${await game.getAddress()}`);
+      console.log(
+        `Simulating ${rounds} rounds of ${players} players guessing 1-${max}, up to ${guesses} guesses each\n`,
+      );
+
+      const report = await runSimulation(game, fhevm, admin, wallets, {
+        rounds,
+        guessesPerPlayer: guesses,
+        onRound: (round) =>
+          console.log(
+            `   Round ${round.round}: secret ${round.secret}, ${round.guesses} guesses, ` +
+              `${round.winners.length} winners, prize to ${round.prizeWinner ?? "nobody"}`,
+          ),
+      });
+
+      console.log(`\n📊 Simulation Report:`);
+      console.log(`   Players: ${report.players}`);
+      console.log(`   Rounds: ${report.rounds.length}`);
+      console.log(`   Guesses: ${report.guesses}`);
+      console.log(`   Time: ${(report.elapsedMs / 1000).toFixed(1)}s`);
+
+      console.log(`\n⛽ Gas per operation:`);
+      console.log(
+        `   ${"Operation".padEnd(20)} ${"Calls".padStart(6)} ${"Min".padStart(9)} ${"Avg".padStart(9)} ${"Max".padStart(9)}`,
+      );
+      for (const [operation, stats] of Object.entries(report.gas)) {
+        const avg = stats.total / BigInt(stats.calls);
+        console.log(
+          `   ${operation.padEnd(20)} ${stats.calls.toString().padStart(6)} ${stats.min.toString().padStart(9)} ` +
+            `${avg.toString().padStart(9)} ${stats.max.toString().padStart(9)}`,
+        );
+      }
+
+      if (report.violations.length > 0) {
+        console.log(`\n❌ ${report.violations.length} invariant violations:`);
+        for (const violation of report.violations) {
+          console.log(`   ${violation}`);
+        }
+        throw new Error(`The simulation broke ${report.violations.length} invariants`);
+      }
+      console.log(`\n✅ All invariants held`);
+    }),
+  );
+
+/**
+ * Example:
+ *   - npx hardhat --network localhost task:serve
+ *   - npx hardhat --network localhost task:serve --port 8080 --host 0.0.0.0
+ *   - npx hardhat --network localhost task:serve --origins http://localhost:5173
+ */
+task("task:serve", "Serves the game over a local HTTP/JSON API until interrupted")
+  .addOptionalParam("address", "Optionally specify the SecretNumberGame contract address")
+  .addOptionalParam("game", "Optionally specify a game ID from the SecretNumberGameFactory")
+  .addOptionalParam("port", "The port to listen on", "3000")
+  .addOptionalParam("host", "The interface to listen on", "127.0.0.1")
+  .addOptionalParam("origins", "Comma-separated origins of the web pages allowed to call the API (none by default)")
+  .setAction(
+    withDecodedReverts(async function (taskArguments: TaskArguments, hre) {
+      const port = parseInt(taskArguments.port);
+      if (!Number.isInteger(port) || port < 0 || port > 65535) {
+        throw new Error(`Argument --port must be between 0 and 65535`);
+      }
+
+      const allowedOrigins =
+        taskArguments.origins !== undefined
+          ? String(taskArguments.origins)
+              .split(",")
+              .map((part) => part.trim())
+              .filter((part) => part.length > 0)
+          : [];
+
+      const client = await getSecretNumberGameClient(taskArguments, hre);
+      const server = new SecretNumberGameServer(client, { allowedOrigins });
+      const url = await server.listen(port, taskArguments.host);
+
+      console.log(`🌐 Serving the game at ${url}`);
+      console.log(`   Guesses sent to POST /guess are relayed from ${await client.signer.getAddress()}`);
+      console.log(
+        allowedOrigins.length > 0
+          ? `   Browsers may call it from ${allowedOrigins.join(", ")}`
+          : `   Browsers may not call it, pass --origins to allow a web page`,
+      );
+      console.log(`   Press Ctrl+C to stop`);
+
+      // Hardhat exits once the task returns, so keep serving until interrupted
+      await new Promise<void>((resolve) => {
+        process.once("SIGINT", resolve);
+        process.once("SIGTERM", resolve);
+      });
+      await server.close();
+      console.log(`\n👋 Server stopped`);
+    }),
+  );
+
+/**
+ * Example:
+ *   - npx hardhat --network localhost task:play
+ *   - npx hardhat --network sepolia task:play --game 3
+ */
+task("task:play", "Plays the game in an interactive session: guess, check stats and run rounds from one prompt")
+  .addOptionalParam("address", "Optionally specify the SecretNumberGame contract address")
+  .addOptionalParam("game", "Optionally specify a game ID from the SecretNumberGameFactory")
+  .setAction(
+    withDecodedReverts(async function (taskArguments: TaskArguments, hre) {
+      const client = await getSecretNumberGameClient(taskArguments, hre);
+      await new SecretNumberPlaySession(client, process.stdin, process.stdout).run();
+    }),
+  );
 
 /**
  * Example:
  *   - npx hardhat --network localhost task:get-stats
+ *   - npx hardhat --network localhost task:get-stats --round 1
  *   - npx hardhat --network sepolia task:get-stats
  */
 task("task:get-stats", "Get your game statistics")
   .addOptionalParam("address", "Optionally specify the SecretNumberGame contract address")
-  .setAction(async function (taskArguments: TaskArguments, hre) {
-    const { ethers, deployments } = hre;
+  .addOptionalParam("game", "Optionally specify a game ID from the SecretNumberGameFactory")
+  .addOptionalParam("round", "Optionally specify the round (defaults to the current round)")
+  .setAction(
+    withDecodedReverts(async function (taskArguments: TaskArguments, hre) {
+      const client =
+        (await getGameVariant(taskArguments, hre)) === "commit-reveal"
+          ? await getCommitRevealGameClient(taskArguments, hre)
+          : await getSecretNumberGameClient(taskArguments, hre);
+      const player = await client.signer.getAddress();
 
-    const SecretNumberGameDeployment = taskArguments.address
-      ? { address: taskArguments.address }
-      : await deployments.get("SecretNumberGame");
-    console.log(`SecretNumberGame: ${SecretNumberGameDeployment.address}`);
+      const currentRound = Number(await client.contract.getCurrentRound());
+      if (currentRound === 0) {
+        console.log("❌ No game has been started yet.");
+        return;
+      }
 
-    const signers = await ethers.getSigners();
+      const round = taskArguments.round !== undefined ? parseInt(taskArguments.round) : currentRound;
+      if (!Number.isInteger(round) || round < 1 || round > currentRound) {
+        throw new Error(`Round must be an integer between 1 and ${currentRound}`);
+      }
 
-    const secretNumberGameContract = await ethers.getContractAt("SecretNumberGame", SecretNumberGameDeployment.address);
+      if (client instanceof SecretNumberGameClient && (await client.contract.privateRounds(round))) {
+        // Decrypt this player's own results, which nobody else is allowed to read
+        const result = await client.privateResult(BigInt(round));
+        const { revealed, winner } = await client.contract.getPrivateWinner(round);
 
-    const stats = await secretNumberGameContract.connect(signers[0]).getMyStats();
+        console.log(`\n🔒 Your Private Statistics (round ${round}${round === currentRound ? ", current" : ""}):`);
+        console.log(`   Player Address: ${player}`);
+        console.log(`   Total Guesses: ${result.totalGuesses}`);
+        console.log(
+          `   Last Guess: ${result.totalGuesses > 0 ? (result.correct ? "✅ Correct" : "❌ Wrong") : "No guesses yet"}`,
+        );
+        console.log(`   Found The Secret: ${result.won ? "🎉 YES" : "NO"}`);
+        if (revealed) {
+          console.log(`   Round Winner: ${winner === player ? "🏆 YOU!" : BigInt(winner) !== 0n ? winner : "nobody"}`);
+        }
+        return;
+      }
 
-    console.log(`\n📊 Your Statistics:`);
-    console.log(`   Player Address: ${signers[0].address}`);
-    console.log(`   Total Guesses: ${stats.guesses}`);
-    console.log(`   Last Guess: ${stats.guesses > 0 ? (stats.correct ? "✅ Correct" : "❌ Wrong") : "No guesses yet"}`);
-    console.log(`   Game Status: ${stats.won ? "🎉 WON!" : "🎮 Playing"}`);
-  });
+      const stats = await client.stats(player, BigInt(round));
+
+      console.log(`\n📊 Your Statistics (round ${round}${round === currentRound ? ", current" : ""}):`);
+      console.log(`   Player Address: ${player}`);
+      console.log(`   Total Guesses: ${stats.guesses}`);
+      console.log(
+        `   Last Guess: ${stats.guesses > 0 ? (stats.correct ? "✅ Correct" : "❌ Wrong") : "No guesses yet"}`,
+      );
+      console.log(`   Game Status: ${stats.won ? "🎉 WON!" : "🎮 Playing"}`);
+
+      if (client instanceof CommitRevealGameClient && !(await client.settlement(BigInt(round))).settled) {
+        console.log(`   💡 Only revealed guesses have a result so far, see 'task:reveal-guesses'.`);
+      }
+    }),
+  );
+
+/**
+ * Waits for the winner of an ended private round to be revealed and prints it.
+ */
+async function printPrivateWinner(client: SecretNumberGameClient, round: bigint, timeoutSeconds = 120) {
+  const sealed = await client.contract.sealedRounds(round);
+  console.log(`Waiting for the winner of ${sealed ? "sealed" : "private"} round ${round} to be revealed...`);
+  const winner = await client.waitForPrivateWinner(round, { timeoutMs: timeoutSeconds * 1000 });
+  const nobody = sealed ? "nobody sealed a guess inside the range" : "nobody guessed the secret";
+  console.log(`🏆 Round ${round} winner: ${winner ?? nobody}`);
+}
 
 /**
  * Example:
  *   - npx hardhat --network localhost task:reset-game
  *   - npx hardhat --network sepolia task:reset-game
  */
-task("task:reset-game", "Reset the game (admin only)")
+task("task:reset-game", "Reset the game (admin or game master)")
   .addOptionalParam("address", "Optionally specify the SecretNumberGame contract address")
-  .setAction(async function (taskArguments: TaskArguments, hre) {
-    const { ethers, deployments } = hre;
+  .addOptionalParam("game", "Optionally specify a game ID from the SecretNumberGameFactory")
+  .setAction(
+    withDecodedReverts(async function (taskArguments: TaskArguments, hre) {
+      const client =
+        (await getGameVariant(taskArguments, hre)) === "commit-reveal"
+          ? await getCommitRevealGameClient(taskArguments, hre)
+          : await getSecretNumberGameClient(taskArguments, hre);
+      const round = await client.contract.getCurrentRound();
 
-    const SecretNumberGameDeployment = taskArguments.address
-      ? { address: taskArguments.address }
-      : await deployments.get("SecretNumberGame");
-    console.log(`SecretNumberGame: ${SecretNumberGameDeployment.address}`);
+      console.log(`Resetting game...`);
+      await client.reset();
 
-    const signers = await ethers.getSigners();
+      console.log(`✅ Game has been reset successfully!`);
 
-    const secretNumberGameContract = await ethers.getContractAt("SecretNumberGame", SecretNumberGameDeployment.address);
+      if (client instanceof CommitRevealGameClient) {
+        console.log(`💡 Use 'task:reveal' to reveal the secret and settle the round's guesses.`);
+      } else if (await client.contract.privateRounds(round)) {
+        await printPrivateWinner(client, round);
+      }
+      console.log(`💡 Use 'task:set-secret' to start a new game.`);
+    }),
+  );
+
+/**
+ * Example:
+ *   - npx hardhat --network localhost task:close-expired-round
+ *   - npx hardhat --network sepolia task:close-expired-round
+ */
+task("task:close-expired-round", "Closes the current round once its deadline has passed (anyone)")
+  .addOptionalParam("address", "Optionally specify the SecretNumberGame contract address")
+  .addOptionalParam("game", "Optionally specify a game ID from the SecretNumberGameFactory")
+  .setAction(
+    withDecodedReverts(async function (taskArguments: TaskArguments, hre) {
+      const client =
+        (await getGameVariant(taskArguments, hre)) === "commit-reveal"
+          ? await getCommitRevealGameClient(taskArguments, hre)
+          : await getSecretNumberGameClient(taskArguments, hre);
+      const round = await client.contract.getCurrentRound();
+
+      const countdown = await getRoundCountdown(client.contract, hre);
+      if (!countdown) {
+        console.log(`❌ Round ${round} is not active or has no deadline.`);
+        return;
+      }
+      if (countdown.remaining > 0) {
+        console.log(`❌ Round ${round} is still open for ${formatDuration(countdown.remaining)}.`);
+        return;
+      }
+
+      console.log(`Closing expired round ${round}...`);
+      await client.closeExpiredRound();
+
+      console.log(`✅ Round ${round} has been closed.`);
+
+      if (client instanceof CommitRevealGameClient) {
+        console.log(`💡 The game master can now reveal the secret with 'task:reveal' to settle the round.`);
+      } else if (await client.contract.privateRounds(round)) {
+        await printPrivateWinner(client, round);
+      }
+    }),
+  );
+
+/**
+ * Prints a round's revealed secret and whether anyone could have guessed it.
+ */
+function printRevealedSecret(round: bigint, reveal: { value: bigint; inRange: boolean }) {
+  console.log(`\n🔓 Round ${round} secret number: ${reveal.value}`);
+  if (reveal.inRange) {
+    console.log(`   ✅ The secret was inside the round's range.`);
+  } else {
+    console.log(`   ⚠️  The secret was OUTSIDE the round's range, nobody could have won!`);
+  }
+}
+
+/**
+ * Example:
+ *   - npx hardhat --network localhost task:reveal
+ *   - npx hardhat --network sepolia task:reveal --timeout 300
+ *   - npx hardhat --network anvil task:reveal --store ./secrets.json
+ */
+task("task:reveal", "Ends the current round if needed and publicly reveals its secret number (admin or game master)")
+  .addOptionalParam("address", "Optionally specify the SecretNumberGame contract address")
+  .addOptionalParam("game", "Optionally specify a game ID from the SecretNumberGameFactory")
+  .addOptionalParam("timeout", "How many seconds to wait for the reveal", "120")
+  .addOptionalParam("store", "Commit-reveal games: the file the secret and its salt were kept in")
+  .setAction(
+    withDecodedReverts(async function (taskArguments: TaskArguments, hre) {
+      const { ethers, fhevm } = hre;
 
-    console.log(`Resetting game...`);
-    const tx = await secretNumberGameContract.connect(signers[0]).resetGame();
+      const timeoutSeconds = parseInt(taskArguments.timeout);
+      if (!Number.isInteger(timeoutSeconds) || timeoutSeconds <= 0) {
+        throw new Error(`Argument --timeout must be a positive integer`);
+      }
 
-    console.log(`Wait for tx:${tx.hash}...`);
+      if ((await getGameVariant(taskArguments, hre)) === "commit-reveal") {
+        const client = await getCommitRevealGameClient(taskArguments, hre);
 
-    const receipt = await tx.wait();
-    console.log(`tx:${tx.hash} status=${receipt?.status}`);
+        console.log(`Ending the round and revealing the committed secret...`);
+        const { round } = await client.endRound();
 
-    console.log(`✅ Game has been reset successfully!`);
-    console.log(`💡 Use 'task:set-secret' to start a new game.`);
+        printRevealedSecret(round, await client.contract.getRevealedSecret(round));
+
+        const settlement = await client.settlement(round);
+        if (settlement.settled) {
+          const winner = await client.contract.roundWinners(round);
+          console.log(`🏆 Round ${round} winner: ${BigInt(winner) !== 0n ? winner : "nobody, there were no guesses"}`);
+          return;
+        }
+        const periodEnd = new Date(settlement.revealPeriodEnd * 1000).toISOString();
+        console.log(`\n💡 Players can reveal their ${settlement.guesses} guesses with 'task:reveal-guesses' until`);
+        console.log(`   ${periodEnd}. The round settles with the last reveal, or with 'task:settle-round' after that.`);
+        return;
+      }
+
+      await fhevm.initializeCLIApi();
+
+      const SecretNumberGameDeployment = await getSecretNumberGameDeployment(taskArguments, hre);
+      console.log(`SecretNumberGame: ${SecretNumberGameDeployment.address}`);
+
+      const signers = await ethers.getSigners();
+
+      const secretNumberGameContract = await ethers.getContractAt(
+        "SecretNumberGame",
+        SecretNumberGameDeployment.address,
+      );
+
+      const round = await secretNumberGameContract.getCurrentRound();
+
+      if (await secretNumberGameContract.getGameStatus()) {
+        console.log(`Ending round ${round} and requesting the reveal...`);
+        const tx = await secretNumberGameContract.connect(signers[0]).endRound();
+
+        console.log(`Wait for tx:${tx.hash}...`);
+
+        const receipt = await tx.wait();
+        console.log(`tx:${tx.hash} status=${receipt?.status}`);
+      } else if (round === 0n || (await secretNumberGameContract.soloRounds(round))) {
+        throw new Error(`Round ${round} has no shared secret to reveal`);
+      } else {
+        // Rounds ended by task:reset-game or task:close-expired-round request their reveal on their own
+        console.log(`Round ${round} has already ended, waiting for its reveal...`);
+      }
+
+      // Wait for the oracle to publish the decrypted secret
+      console.log(`Waiting for the reveal...`);
+      if (fhevm.isMock) {
+        await fhevm.awaitDecryptionOracle();
+      }
+
+      const deadline = Date.now() + timeoutSeconds * 1000;
+      let reveal = await secretNumberGameContract.getRevealedSecret(round);
+      while (!reveal.revealed && Date.now() < deadline) {
+        await new Promise((resolve) => setTimeout(resolve, 2000));
+        reveal = await secretNumberGameContract.getRevealedSecret(round);
+      }
+
+      if (!reveal.revealed) {
+        throw new Error(`The secret of round ${round} was not revealed within ${timeoutSeconds} seconds`);
+      }
+
+      printRevealedSecret(round, reveal);
+
+      if (await secretNumberGameContract.privateRounds(round)) {
+        const client = await getSecretNumberGameClient(taskArguments, hre);
+        await printPrivateWinner(client, round, timeoutSeconds);
+      }
+    }),
+  );
+
+/**
+ * Example:
+ *   - npx hardhat --network anvil task:reveal-guesses
+ *   - npx hardhat --network anvil task:reveal-guesses --round 2 --store ./guesses.json
+ */
+task("task:reveal-guesses", "Reveals your committed guesses once the round's secret is revealed (commit-reveal games)")
+  .addOptionalParam("address", "Optionally specify the SecretNumberGame contract address")
+  .addOptionalParam("game", "Optionally specify a game ID from the SecretNumberGameFactory")
+  .addOptionalParam("round", "Optionally specify the round (defaults to the current round)")
+  .addOptionalParam("store", "The file your guesses and their salts were kept in")
+  .setAction(
+    withDecodedReverts(async function (taskArguments: TaskArguments, hre) {
+      if ((await getGameVariant(taskArguments, hre)) !== "commit-reveal") {
+        throw new Error(`Only commit-reveal games have guesses to reveal, FHEVM games deliver results on their own`);
+      }
+
+      const client = await getCommitRevealGameClient(taskArguments, hre);
+      const player = await client.signer.getAddress();
+
+      const currentRound = Number(await client.contract.getCurrentRound());
+      const round = taskArguments.round !== undefined ? parseInt(taskArguments.round) : currentRound;
+      if (!Number.isInteger(round) || round < 1 || round > currentRound) {
+        throw new Error(`Round must be an integer between 1 and ${currentRound}`);
+      }
+
+      const settlement = await client.settlement(BigInt(round));
+      if (!settlement.revealed) {
+        console.log(`❌ The secret of round ${round} has not been revealed yet, see 'task:reveal'.`);
+        return;
+      }
+      if (settlement.settled) {
+        console.log(`❌ Round ${round} has already been settled.`);
+        return;
+      }
+
+      console.log(`Revealing your guesses in round ${round}...`);
+      const results = await client.revealGuesses(BigInt(round));
+      if (results.length === 0) {
+        console.log(`❌ None of your unrevealed guesses in round ${round} are in ${client.store.file}.`);
+        return;
+      }
+
+      console.log(`\n📊 Results (round ${round}):`);
+      for (const result of results) {
+        console.log(`   Request ${result.requestId}: ${result.correct ? "✅ CORRECT!" : "❌ Wrong"}`);
+      }
+
+      const revealed = await client.settlement(BigInt(round));
+      if (!revealed.settled) {
+        const periodEnd = new Date(revealed.revealPeriodEnd * 1000).toISOString();
+        console.log(`\n💡 ${revealed.revealedGuesses}/${revealed.guesses} guesses of the round are revealed.`);
+        console.log(`   The round settles with the last reveal, or with 'task:settle-round' after ${periodEnd}.`);
+        return;
+      }
+
+      const winner = await client.contract.roundWinners(round);
+      console.log(`\n🏆 Round ${round} is settled, winner: ${BigInt(winner) !== 0n ? winner : "nobody"}`);
+      if (winner === player) {
+        console.log(`   🎉 CONGRATULATIONS! Use 'task:claim-prize' to collect any prize.`);
+      }
+    }),
+  );
+
+/**
+ * Example:
+ *   - npx hardhat --network anvil task:settle-round
+ */
+task("task:settle-round", "Settles the current round once its guesses can no longer be revealed (commit-reveal games)")
+  .addOptionalParam("address", "Optionally specify the SecretNumberGame contract address")
+  .addOptionalParam("game", "Optionally specify a game ID from the SecretNumberGameFactory")
+  .setAction(
+    withDecodedReverts(async function (taskArguments: TaskArguments, hre) {
+      if ((await getGameVariant(taskArguments, hre)) !== "commit-reveal") {
+        throw new Error(`Only commit-reveal games are settled by hand, FHEVM games settle every guess on their own`);
+      }
+
+      const client = await getCommitRevealGameClient(taskArguments, hre);
+      const round = await client.contract.getCurrentRound();
+
+      const settlement = await client.settlement(round);
+      if (!settlement.revealed) {
+        console.log(`❌ The secret of round ${round} has not been revealed yet, see 'task:reveal'.`);
+        return;
+      }
+      if (settlement.settled) {
+        console.log(`❌ Round ${round} has already been settled.`);
+        return;
+      }
+
+      const latestBlock = await hre.ethers.provider.getBlock("latest");
+      if ((latestBlock?.timestamp ?? 0) < settlement.revealPeriodEnd) {
+        const periodEnd = new Date(settlement.revealPeriodEnd * 1000).toISOString();
+        console.log(`❌ Guesses of round ${round} can be revealed until ${periodEnd}.`);
+        return;
+      }
+
+      console.log(`Settling round ${round} (${settlement.revealedGuesses}/${settlement.guesses} guesses revealed)...`);
+      const winner = await client.settle();
+
+      console.log(`✅ Round ${round} is settled, winner: ${winner ?? "nobody"}`);
+    }),
+  );
+
+/**
+ * Example:
+ *   - npx hardhat --network localhost task:leaderboard
+ *   - npx hardhat --network localhost task:leaderboard --round 2 --json
+ */
+task("task:leaderboard", "Shows the winners ranked by the number of guesses they needed")
+  .addOptionalParam("address", "Optionally specify the SecretNumberGame contract address")
+  .addOptionalParam("game", "Optionally specify a game ID from the SecretNumberGameFactory")
+  .addOptionalParam("round", "Only rank the winners of this round")
+  .addOptionalParam("limit", "How many entries to show", "10")
+  .addFlag("json", "Print the ranking as JSON")
+  .setAction(
+    withDecodedReverts(async function (taskArguments: TaskArguments, hre) {
+      const { ethers } = hre;
+
+      const limit = parseInt(taskArguments.limit);
+      if (!Number.isInteger(limit) || limit <= 0) {
+        throw new Error(`Argument --limit must be a positive integer`);
+      }
+
+      const round = taskArguments.round !== undefined ? parseInt(taskArguments.round) : undefined;
+      if (round !== undefined && (!Number.isInteger(round) || round < 1)) {
+        throw new Error(`Argument --round must be a positive integer`);
+      }
+
+      const SecretNumberGameDeployment = await getSecretNumberGameDeployment(taskArguments, hre);
+      if (!taskArguments.json) {
+        console.log(`SecretNumberGame: ${SecretNumberGameDeployment.address}`);
+      }
+
+      const secretNumberGameContract = await ethers.getContractAt(
+        "ISecretNumberGame",
+        SecretNumberGameDeployment.address,
+      );
+
+      // Fetch every recorded win page by page
+      const pageSize = 50;
+      const count = await secretNumberGameContract.getWinnerCount();
+      const entries: { player: string; round: number; guesses: number; timestamp: number }[] = [];
+      for (let offset = 0n; offset < count; offset += BigInt(pageSize)) {
+        const page = await secretNumberGameContract.getWinners(offset, pageSize);
+        for (const winner of page) {
+          entries.push({
+            player: winner.player,
+            round: Number(winner.round),
+            guesses: Number(winner.guesses),
+            timestamp: Number(winner.timestamp),
+          });
+        }
+      }
+
+      // Fewest guesses first, earliest win breaks ties
+      const ranking = entries
+        .filter((entry) => round === undefined || entry.round === round)
+        .sort((a, b) => a.guesses - b.guesses || a.timestamp - b.timestamp)
+        .slice(0, limit)
+        .map((entry, index) => ({ rank: index + 1, ...entry }));
+
+      if (taskArguments.json) {
+        console.log(JSON.stringify(ranking, null, 2));
+        return;
+      }
+
+      if (ranking.length === 0) {
+        console.log("No winners yet.");
+        return;
+      }
+
+      console.log(`\n🏆 Leaderboard${round !== undefined ? ` (round ${round})` : ""}:`);
+      console.log(`   ${"#".padEnd(4)} ${"Player".padEnd(42)} ${"Round".padEnd(6)} ${"Guesses".padEnd(8)} Won At`);
+      for (const entry of ranking) {
+        const wonAt = new Date(entry.timestamp * 1000).toISOString();
+        console.log(
+          `   ${String(entry.rank).padEnd(4)} ${entry.player.padEnd(42)} ${String(entry.round).padEnd(6)} ${String(entry.guesses).padEnd(8)} ${wonAt}`,
+        );
+      }
+    }),
+  );
+
+/**
+ * Example:
+ *   - npx hardhat --network localhost task:index
+ *   - npx hardhat --network localhost task:index history --player 0x70997970C51812dc3A010C7d01b50e0d17dc79C8
+ *   - npx hardhat --network localhost task:index timeline --round 2
+ *   - npx hardhat --network localhost task:index rounds --json
+ */
+task("task:index", "Indexes the game's events into a local file and queries the game's history")
+  .addOptionalPositionalParam("query", "What to show after indexing: summary, history, timeline or rounds", "summary")
+  .addOptionalParam("address", "Optionally specify the SecretNumberGame contract address")
+  .addOptionalParam("game", "Optionally specify a game ID from the SecretNumberGameFactory")
+  .addOptionalParam("player", "The player whose guess history to show (defaults to your address)")
+  .addOptionalParam("round", "The round whose timeline to show (defaults to the current round)")
+  .addOptionalParam("store", "Optionally specify the file the index is kept in")
+  .addOptionalParam("fromBlock", "Optionally specify the block to start indexing from (defaults to the deployment)")
+  .addFlag("json", "Print the query result as JSON")
+  .setAction(
+    withDecodedReverts(async function (taskArguments: TaskArguments, hre) {
+      const { ethers } = hre;
+      const query: string = taskArguments.query;
+      const log = (message: string) => {
+        if (!taskArguments.json) {
+          console.log(message);
+        }
+      };
+
+      if (!["summary", "history", "timeline", "rounds"].includes(query)) {
+        throw new Error(`Query must be one of summary, history, timeline or rounds`);
+      }
+      const round = taskArguments.round !== undefined ? parseInt(taskArguments.round) : undefined;
+      if (round !== undefined && (!Number.isInteger(round) || round < 1)) {
+        throw new Error(`Argument --round must be a positive integer`);
+      }
+      const fromBlock =
+        taskArguments.fromBlock !== undefined
+          ? parseInt(taskArguments.fromBlock)
+          : await getSecretNumberGameDeploymentBlock(taskArguments, hre);
+      if (!Number.isInteger(fromBlock) || fromBlock < 0) {
+        throw new Error(`Argument --from-block must be a non-negative integer`);
+      }
+
+      const SecretNumberGameDeployment = await getSecretNumberGameDeployment(taskArguments, hre);
+      log(`SecretNumberGame: ${SecretNumberGameDeployment.address}`);
+
+      const secretNumberGameContract = await ethers.getContractAt(
+        "SecretNumberGame",
+        SecretNumberGameDeployment.address,
+      );
+      const { chainId } = await ethers.provider.getNetwork();
+      const store: string =
+        taskArguments.store ??
+        path.join(hre.config.paths.cache, "index", `${chainId}-${SecretNumberGameDeployment.address}.json`);
+
+      const indexer = await SecretNumberIndexer.open(secretNumberGameContract, store, fromBlock);
+      const resumedFrom = indexer.index.lastBlock + 1;
+      const added = await indexer.sync();
+      if (resumedFrom > indexer.index.lastBlock) {
+        log(`Index ${store} is up to date at block ${indexer.index.lastBlock}`);
+      } else {
+        log(`Indexed ${added} new events from blocks ${resumedFrom}-${indexer.index.lastBlock} into ${store}`);
+      }
+
+      switch (query) {
+        case "summary": {
+          const rounds = indexer.rounds();
+          const guesses = rounds.reduce((sum, summary) => sum + summary.guesses, 0);
+          const summary = { events: indexer.index.events.length, rounds: rounds.length, guesses };
+          if (taskArguments.json) {
+            console.log(JSON.stringify(summary, null, 2));
+            return;
+          }
+          console.log(`\n📚 Index:`);
+          console.log(`   Events: ${summary.events}`);
+          console.log(`   Rounds: ${summary.rounds}`);
+          console.log(`   Guesses: ${summary.guesses}`);
+          return;
+        }
+
+        case "history": {
+          const player = taskArguments.player ?? (await ethers.getSigners())[0].address;
+          const history = indexer.history(player);
+          if (taskArguments.json) {
+            console.log(JSON.stringify(history, null, 2));
+            return;
+          }
+          if (history.length === 0) {
+            console.log(`No guesses found for ${player}.`);
+            return;
+          }
+          console.log(`\n📜 Guess history of ${player}:`);
+          console.log(
+            `   ${"Round".padEnd(6)} ${"Guess".padEnd(6)} ${"Request".padEnd(10)} ${"Status".padEnd(10)} Block`,
+          );
+          for (const guess of history) {
+            const request = `${guess.requestId ?? "-"}${guess.retries > 0 ? "*" : ""}`;
+            // A batch covers a run of guess numbers and ends with the one its GuessMade event reports
+            const number = guess.batchSize
+              ? `#${guess.guessNumber - guess.batchSize + 1}-${guess.guessNumber}`
+              : `#${guess.guessNumber}`;
+            console.log(
+              `   ${guess.round.padEnd(6)} ${number.padEnd(6)} ${request.padEnd(10)} ${guess.status.padEnd(10)} ${guess.blockNumber}`,
+            );
+          }
+          if (history.some((guess) => guess.retries > 0)) {
+            console.log(`   * the result was asked for again under this request`);
+          }
+          return;
+        }
+
+        case "timeline": {
+          const timelineRound = round !== undefined ? BigInt(round) : await secretNumberGameContract.getCurrentRound();
+          const timeline = indexer.timeline(timelineRound);
+          if (taskArguments.json) {
+            console.log(JSON.stringify(timeline, null, 2));
+            return;
+          }
+          if (timeline.length === 0) {
+            console.log(`No events found for round ${timelineRound}.`);
+            return;
+          }
+          console.log(`\n🕒 Round ${timelineRound} timeline:`);
+          for (const event of timeline) {
+            console.log(`   ${String(event.blockNumber).padEnd(8)} ${describeIndexedEvent(event, ethers.formatEther)}`);
+          }
+          return;
+        }
+
+        case "rounds": {
+          const rounds = indexer.rounds();
+          if (taskArguments.json) {
+            console.log(JSON.stringify(rounds, null, 2));
+            return;
+          }
+          if (rounds.length === 0) {
+            console.log("No rounds played yet.");
+            return;
+          }
+          console.log(`\n🎲 Rounds:`);
+          console.log(
+            `   ${"Round".padEnd(6)} ${"Started".padEnd(25)} ${"Players".padEnd(8)} ${"Guesses".padEnd(8)} ${"Winners".padEnd(8)} Secret`,
+          );
+          for (const summary of rounds) {
+            const started = new Date(summary.startedAt * 1000).toISOString();
+            const status = summary.endedBlock === undefined ? " (active)" : "";
+            console.log(
+              `   ${summary.round.padEnd(6)} ${started.padEnd(25)} ${String(summary.players).padEnd(8)} ${String(summary.guesses).padEnd(8)} ${String(summary.winners.length).padEnd(8)} ${summary.secret ?? "-"}${status}`,
+            );
+          }
+          return;
+        }
+      }
+    }),
+  );
+
+/**
+ * Example:
+ *   - npx hardhat --network localhost task:set-fee --fee 1000000000000000
+ *   - npx hardhat --network sepolia task:set-fee --fee 0
+ */
+task("task:set-fee", "Sets the per-guess fee in wei (admin only, between rounds)")
+  .addOptionalParam("address", "Optionally specify the SecretNumberGame contract address")
+  .addOptionalParam("game", "Optionally specify a game ID from the SecretNumberGameFactory")
+  .addParam("fee", "The fee every guess must pay, in wei")
+  .setAction(
+    withDecodedReverts(async function (taskArguments: TaskArguments, hre) {
+      const { ethers } = hre;
+
+      const fee = BigInt(taskArguments.fee);
+      if (fee < 0n) {
+        throw new Error(`Fee must be a non-negative amount of wei`);
+      }
+
+      const SecretNumberGameDeployment = await getSecretNumberGameDeployment(taskArguments, hre);
+      console.log(`SecretNumberGame: ${SecretNumberGameDeployment.address}`);
+
+      const signers = await ethers.getSigners();
+
+      const secretNumberGameContract = await ethers.getContractAt(
+        "ISecretNumberGame",
+        SecretNumberGameDeployment.address,
+      );
+
+      console.log(`Setting guess fee to ${ethers.formatEther(fee)} ETH...`);
+      const tx = await secretNumberGameContract.connect(signers[0]).setGuessFee(fee);
+
+      console.log(`Wait for tx:${tx.hash}...`);
+
+      const receipt = await tx.wait();
+      console.log(`tx:${tx.hash} status=${receipt?.status}`);
+
+      console.log(`✅ Guess fee updated!`);
+    }),
+  );
+
+/**
+ * Example:
+ *   - npx hardhat --network localhost task:pool
+ *   - npx hardhat --network sepolia task:pool
+ */
+task("task:pool", "Shows the prize pool, guess fee and your unclaimed prizes")
+  .addOptionalParam("address", "Optionally specify the SecretNumberGame contract address")
+  .addOptionalParam("game", "Optionally specify a game ID from the SecretNumberGameFactory")
+  .setAction(
+    withDecodedReverts(async function (taskArguments: TaskArguments, hre) {
+      const { ethers } = hre;
+
+      const SecretNumberGameDeployment = await getSecretNumberGameDeployment(taskArguments, hre);
+      console.log(`SecretNumberGame: ${SecretNumberGameDeployment.address}`);
+
+      const signers = await ethers.getSigners();
+
+      const secretNumberGameContract = await ethers.getContractAt(
+        "ISecretNumberGame",
+        SecretNumberGameDeployment.address,
+      );
+
+      const poolInfo = await secretNumberGameContract.getPoolInfo();
+      const round = await secretNumberGameContract.getCurrentRound();
+      const prize = await secretNumberGameContract.pendingPrizes(signers[0].address);
+
+      console.log(`\n💰 Prize Pool (round ${round}):`);
+      console.log(`   Pool: ${ethers.formatEther(poolInfo.pool)} ETH`);
+      console.log(`   Guess Fee: ${ethers.formatEther(poolInfo.fee)} ETH`);
+      console.log(`   Round Winner: ${poolInfo.winner === ethers.ZeroAddress ? "None yet" : poolInfo.winner}`);
+      console.log(`   Your Unclaimed Prizes: ${ethers.formatEther(prize)} ETH`);
+    }),
+  );
+
+/**
+ * Example:
+ *   - npx hardhat --network localhost task:claim-prize
+ *   - npx hardhat --network sepolia task:claim-prize
+ */
+task("task:claim-prize", "Withdraws the prizes you have won")
+  .addOptionalParam("address", "Optionally specify the SecretNumberGame contract address")
+  .addOptionalParam("game", "Optionally specify a game ID from the SecretNumberGameFactory")
+  .setAction(
+    withDecodedReverts(async function (taskArguments: TaskArguments, hre) {
+      const { ethers } = hre;
+
+      const SecretNumberGameDeployment = await getSecretNumberGameDeployment(taskArguments, hre);
+      console.log(`SecretNumberGame: ${SecretNumberGameDeployment.address}`);
+
+      const signers = await ethers.getSigners();
+
+      const secretNumberGameContract = await ethers.getContractAt(
+        "ISecretNumberGame",
+        SecretNumberGameDeployment.address,
+      );
+
+      const prize = await secretNumberGameContract.pendingPrizes(signers[0].address);
+      if (prize === 0n) {
+        console.log("❌ You have no prize to claim.");
+        return;
+      }
+
+      console.log(`Claiming ${ethers.formatEther(prize)} ETH...`);
+      const tx = await secretNumberGameContract.connect(signers[0]).claimPrize();
+
+      console.log(`Wait for tx:${tx.hash}...`);
+
+      const receipt = await tx.wait();
+      console.log(`tx:${tx.hash} status=${receipt?.status}`);
+
+      console.log(`✅ Prize claimed!`);
+    }),
+  );
+
+/**
+ * Example:
+ *   - npx hardhat --network localhost task:pending-requests
+ *   - npx hardhat --network sepolia task:pending-requests --player 0x...
+ */
+task("task:pending-requests", "Lists guesses whose result has not arrived yet")
+  .addOptionalParam("address", "Optionally specify the SecretNumberGame contract address")
+  .addOptionalParam("game", "Optionally specify a game ID from the SecretNumberGameFactory")
+  .addOptionalParam("player", "Optionally specify the player (defaults to your address)")
+  .setAction(
+    withDecodedReverts(async function (taskArguments: TaskArguments, hre) {
+      const { ethers } = hre;
+
+      await requireFheGame(taskArguments, hre);
+
+      const SecretNumberGameDeployment = await getSecretNumberGameDeployment(taskArguments, hre);
+      console.log(`SecretNumberGame: ${SecretNumberGameDeployment.address}`);
+
+      const signers = await ethers.getSigners();
+
+      const player = taskArguments.player ?? signers[0].address;
+      if (!ethers.isAddress(player)) {
+        throw new Error(`Argument --player is not a valid address`);
+      }
+
+      const secretNumberGameContract = await ethers.getContractAt(
+        "SecretNumberGame",
+        SecretNumberGameDeployment.address,
+      );
+
+      const timeoutBlocks = await secretNumberGameContract.DECRYPTION_TIMEOUT_BLOCKS();
+      const currentBlock = BigInt(await ethers.provider.getBlockNumber());
+
+      const pending = [];
+      for (const requestId of await secretNumberGameContract.getPlayerRequests(player)) {
+        if (await secretNumberGameContract.isRequestProcessed(requestId)) {
+          continue;
+        }
+        pending.push({
+          requestId,
+          round: await secretNumberGameContract.getRequestRound(requestId),
+          guessNumber: await secretNumberGameContract.requestGuessNumbers(requestId),
+          fee: await secretNumberGameContract.requestFees(requestId),
+          deadline: (await secretNumberGameContract.requestBlocks(requestId)) + timeoutBlocks,
+        });
+      }
+
+      if (pending.length === 0) {
+        console.log(`✅ No pending requests for ${player}.`);
+        return;
+      }
+
+      console.log(`\n⏳ Pending requests for ${player} (block ${currentBlock}):`);
+      for (const request of pending) {
+        const status =
+          currentBlock >= request.deadline
+            ? "timed out, cancel or retry it"
+            : `times out in ${request.deadline - currentBlock} blocks`;
+        console.log(
+          `   Request ${request.requestId}: round ${request.round}, guess #${request.guessNumber}, fee ${ethers.formatEther(request.fee)} ETH, ${status}`,
+        );
+      }
+    }),
+  );
+
+/**
+ * Example:
+ *   - npx hardhat --network localhost task:cancel-request --request-id 1
+ *   - npx hardhat --network sepolia task:cancel-request --request-id 1 --keep-guess
+ */
+task("task:cancel-request", "Cancels a timed-out guess and refunds its fee")
+  .addOptionalParam("address", "Optionally specify the SecretNumberGame contract address")
+  .addOptionalParam("game", "Optionally specify a game ID from the SecretNumberGameFactory")
+  .addParam("requestId", "The decryption request ID of the guess")
+  .addFlag("keepGuess", "Keep the guess counted towards your guess limit")
+  .setAction(
+    withDecodedReverts(async function (taskArguments: TaskArguments, hre) {
+      const { ethers } = hre;
+
+      const requestId = BigInt(taskArguments.requestId);
+
+      await requireFheGame(taskArguments, hre);
+
+      const SecretNumberGameDeployment = await getSecretNumberGameDeployment(taskArguments, hre);
+      console.log(`SecretNumberGame: ${SecretNumberGameDeployment.address}`);
+
+      const signers = await ethers.getSigners();
+
+      const secretNumberGameContract = await ethers.getContractAt(
+        "SecretNumberGame",
+        SecretNumberGameDeployment.address,
+      );
+
+      console.log(`Cancelling request ${requestId}...`);
+      const tx = await secretNumberGameContract.connect(signers[0]).cancelRequest(requestId, !taskArguments.keepGuess);
+
+      console.log(`Wait for tx:${tx.hash}...`);
+
+      const receipt = await tx.wait();
+      console.log(`tx:${tx.hash} status=${receipt?.status}`);
+
+      console.log(`✅ Request cancelled!`);
+    }),
+  );
+
+/**
+ * Example:
+ *   - npx hardhat --network localhost task:retry-request --request-id 1
+ *   - npx hardhat --network sepolia task:retry-request --request-id 1
+ */
+task("task:retry-request", "Asks the oracle again for the result of a timed-out guess")
+  .addOptionalParam("address", "Optionally specify the SecretNumberGame contract address")
+  .addOptionalParam("game", "Optionally specify a game ID from the SecretNumberGameFactory")
+  .addParam("requestId", "The decryption request ID of the guess")
+  .setAction(
+    withDecodedReverts(async function (taskArguments: TaskArguments, hre) {
+      const { ethers } = hre;
+
+      const requestId = BigInt(taskArguments.requestId);
+
+      await requireFheGame(taskArguments, hre);
+
+      const SecretNumberGameDeployment = await getSecretNumberGameDeployment(taskArguments, hre);
+      console.log(`SecretNumberGame: ${SecretNumberGameDeployment.address}`);
+
+      const signers = await ethers.getSigners();
+
+      const secretNumberGameContract = await ethers.getContractAt(
+        "SecretNumberGame",
+        SecretNumberGameDeployment.address,
+      );
+
+      console.log(`Retrying request ${requestId}...`);
+      const tx = await secretNumberGameContract.connect(signers[0]).retryRequest(requestId);
+
+      console.log(`Wait for tx:${tx.hash}...`);
+
+      const receipt = await tx.wait();
+      console.log(`tx:${tx.hash} status=${receipt?.status}`);
+
+      let newRequestId: bigint | undefined;
+      for (const log of receipt?.logs ?? []) {
+        const parsed = secretNumberGameContract.interface.parseLog(log);
+        if (parsed?.name === "DecryptionRetried") {
+          newRequestId = parsed.args.newRequestId;
+        }
+      }
+
+      console.log(`✅ Decryption requested again as request ${newRequestId}!`);
+    }),
+  );
+
+/**
+ * Example:
+ *   - npx hardhat --network localhost task:grant-role --account 0x...
+ *   - npx hardhat --network sepolia task:grant-role --account 0x... --role game-master
+ */
+task("task:grant-role", "Grants a role to an account (admin only)")
+  .addOptionalParam("address", "Optionally specify the SecretNumberGame contract address")
+  .addOptionalParam("game", "Optionally specify a game ID from the SecretNumberGameFactory")
+  .addParam("account", "The account receiving the role")
+  .addOptionalParam("role", "The role to grant", "game-master")
+  .setAction(
+    withDecodedReverts(async function (taskArguments: TaskArguments, hre) {
+      const { ethers } = hre;
+
+      if (!ethers.isAddress(taskArguments.account)) {
+        throw new Error(`Argument --account is not a valid address`);
+      }
+
+      const SecretNumberGameDeployment = await getSecretNumberGameDeployment(taskArguments, hre);
+      console.log(`SecretNumberGame: ${SecretNumberGameDeployment.address}`);
+
+      const signers = await ethers.getSigners();
+
+      const secretNumberGameContract = await ethers.getContractAt(
+        "ISecretNumberGame",
+        SecretNumberGameDeployment.address,
+      );
+
+      const roleId = await getRoleId(taskArguments.role, secretNumberGameContract);
+      if (await secretNumberGameContract.hasRole(roleId, taskArguments.account)) {
+        console.log(`ℹ️ ${taskArguments.account} already has the ${taskArguments.role} role.`);
+        return;
+      }
+
+      console.log(`Granting ${taskArguments.role} to ${taskArguments.account}...`);
+      const tx = await secretNumberGameContract.connect(signers[0]).grantRole(roleId, taskArguments.account);
+
+      console.log(`Wait for tx:${tx.hash}...`);
+
+      const receipt = await tx.wait();
+      console.log(`tx:${tx.hash} status=${receipt?.status}`);
+
+      console.log(`✅ Role granted!`);
+    }),
+  );
+
+/**
+ * Example:
+ *   - npx hardhat --network localhost task:revoke-role --account 0x...
+ *   - npx hardhat --network sepolia task:revoke-role --account 0x... --role game-master
+ */
+task("task:revoke-role", "Revokes a role from an account (admin only)")
+  .addOptionalParam("address", "Optionally specify the SecretNumberGame contract address")
+  .addOptionalParam("game", "Optionally specify a game ID from the SecretNumberGameFactory")
+  .addParam("account", "The account losing the role")
+  .addOptionalParam("role", "The role to revoke", "game-master")
+  .setAction(
+    withDecodedReverts(async function (taskArguments: TaskArguments, hre) {
+      const { ethers } = hre;
+
+      if (!ethers.isAddress(taskArguments.account)) {
+        throw new Error(`Argument --account is not a valid address`);
+      }
+
+      const SecretNumberGameDeployment = await getSecretNumberGameDeployment(taskArguments, hre);
+      console.log(`SecretNumberGame: ${SecretNumberGameDeployment.address}`);
+
+      const signers = await ethers.getSigners();
+
+      const secretNumberGameContract = await ethers.getContractAt(
+        "ISecretNumberGame",
+        SecretNumberGameDeployment.address,
+      );
+
+      const roleId = await getRoleId(taskArguments.role, secretNumberGameContract);
+      if (!(await secretNumberGameContract.hasRole(roleId, taskArguments.account))) {
+        console.log(`ℹ️ ${taskArguments.account} does not have the ${taskArguments.role} role.`);
+        return;
+      }
+
+      console.log(`Revoking ${taskArguments.role} from ${taskArguments.account}...`);
+      const tx = await secretNumberGameContract.connect(signers[0]).revokeRole(roleId, taskArguments.account);
+
+      console.log(`Wait for tx:${tx.hash}...`);
+
+      const receipt = await tx.wait();
+      console.log(`tx:${tx.hash} status=${receipt?.status}`);
+
+      console.log(`✅ Role revoked!`);
+    }),
+  );
+
+/**
+ * Example:
+ *   - npx hardhat --network localhost task:transfer-admin --to 0x...
+ *   - npx hardhat --network localhost task:transfer-admin --accept
+ *   - npx hardhat --network sepolia task:transfer-admin --cancel
+ */
+task("task:transfer-admin", "Starts, accepts or cancels a two-step admin transfer")
+  .addOptionalParam("address", "Optionally specify the SecretNumberGame contract address")
+  .addOptionalParam("game", "Optionally specify a game ID from the SecretNumberGameFactory")
+  .addOptionalParam("to", "The account proposed as the new admin")
+  .addFlag("accept", "Accept a pending transfer as the proposed admin")
+  .addFlag("cancel", "Cancel the pending transfer as the current admin")
+  .setAction(
+    withDecodedReverts(async function (taskArguments: TaskArguments, hre) {
+      const { ethers } = hre;
+
+      const actions = [taskArguments.to !== undefined, taskArguments.accept, taskArguments.cancel].filter(Boolean);
+      if (actions.length !== 1) {
+        throw new Error(`Specify exactly one of --to, --accept or --cancel`);
+      }
+      if (taskArguments.to !== undefined && !ethers.isAddress(taskArguments.to)) {
+        throw new Error(`Argument --to is not a valid address`);
+      }
+
+      const SecretNumberGameDeployment = await getSecretNumberGameDeployment(taskArguments, hre);
+      console.log(`SecretNumberGame: ${SecretNumberGameDeployment.address}`);
+
+      const signers = await ethers.getSigners();
+
+      const secretNumberGameContract = await ethers.getContractAt(
+        "ISecretNumberGame",
+        SecretNumberGameDeployment.address,
+      );
+
+      let tx;
+      if (taskArguments.accept) {
+        console.log(`Accepting admin role as ${signers[0].address}...`);
+        tx = await secretNumberGameContract.connect(signers[0]).acceptAdmin();
+      } else if (taskArguments.cancel) {
+        const pendingAdmin = await secretNumberGameContract.pendingAdmin();
+        console.log(`Cancelling transfer to ${pendingAdmin}...`);
+        tx = await secretNumberGameContract.connect(signers[0]).cancelAdminTransfer();
+      } else {
+        console.log(`Proposing ${taskArguments.to} as the new admin...`);
+        tx = await secretNumberGameContract.connect(signers[0]).transferAdmin(taskArguments.to);
+      }
+
+      console.log(`Wait for tx:${tx.hash}...`);
+
+      const receipt = await tx.wait();
+      console.log(`tx:${tx.hash} status=${receipt?.status}`);
+
+      if (taskArguments.accept) {
+        console.log(`✅ You are now the game admin!`);
+      } else if (taskArguments.cancel) {
+        console.log(`✅ Admin transfer cancelled!`);
+      } else {
+        console.log(`✅ Admin transfer started! ${taskArguments.to} must run --accept to complete it.`);
+      }
+    }),
+  );
+
+/**
+ * Example:
+ *   - npx hardhat --network localhost task:create-game
+ *   - npx hardhat --network sepolia task:create-game
+ */
+task("task:create-game", "Creates a new SecretNumberGame through the factory (caller becomes admin)")
+  .addOptionalParam("factory", "Optionally specify the SecretNumberGameFactory contract address")
+  .setAction(
+    withDecodedReverts(async function (taskArguments: TaskArguments, hre) {
+      const { ethers, deployments } = hre;
+
+      const SecretNumberGameFactoryDeployment = taskArguments.factory
+        ? { address: taskArguments.factory }
+        : await deployments.get("SecretNumberGameFactory");
+      console.log(`SecretNumberGameFactory: ${SecretNumberGameFactoryDeployment.address}`);
+
+      const signers = await ethers.getSigners();
+
+      const factoryContract = await ethers.getContractAt(
+        "SecretNumberGameFactory",
+        SecretNumberGameFactoryDeployment.address,
+      );
+
+      console.log(`Creating game...`);
+      const tx = await factoryContract.connect(signers[0]).createGame();
+
+      console.log(`Wait for tx:${tx.hash}...`);
+
+      const receipt = await tx.wait();
+      console.log(`tx:${tx.hash} status=${receipt?.status}`);
+
+      for (const log of receipt?.logs ?? []) {
+        const parsed = factoryContract.interface.parseLog(log);
+        if (parsed?.name === "GameCreated") {
+          console.log(`✅ Game #${parsed.args.gameId} created at ${parsed.args.game}`);
+          console.log(`💡 Use '--game ${parsed.args.gameId}' with the other tasks to play it.`);
+        }
+      }
+    }),
+  );
+
+/**
+ * Example:
+ *   - npx hardhat --network localhost task:list-games
+ *   - npx hardhat --network localhost task:list-games --creator 0x... --status active
+ */
+task("task:list-games", "Lists games created through the factory")
+  .addOptionalParam("factory", "Optionally specify the SecretNumberGameFactory contract address")
+  .addOptionalParam("creator", "Only list games created by this address")
+  .addOptionalParam("status", "Only list games with this status (active/inactive)")
+  .setAction(
+    withDecodedReverts(async function (taskArguments: TaskArguments, hre) {
+      const { ethers, deployments } = hre;
+
+      if (
+        taskArguments.status !== undefined &&
+        taskArguments.status !== "active" &&
+        taskArguments.status !== "inactive"
+      ) {
+        throw new Error(`Argument --status must be 'active' or 'inactive'`);
+      }
+
+      const SecretNumberGameFactoryDeployment = taskArguments.factory
+        ? { address: taskArguments.factory }
+        : await deployments.get("SecretNumberGameFactory");
+      console.log(`SecretNumberGameFactory: ${SecretNumberGameFactoryDeployment.address}`);
+
+      const factoryContract = await ethers.getContractAt(
+        "SecretNumberGameFactory",
+        SecretNumberGameFactoryDeployment.address,
+      );
+
+      let gameIds: bigint[];
+      if (taskArguments.creator) {
+        gameIds = [...(await factoryContract.getGamesByCreator(taskArguments.creator))];
+      } else {
+        const count = await factoryContract.getGameCount();
+        gameIds = Array.from({ length: Number(count) }, (_, i) => BigInt(i));
+      }
+
+      if (taskArguments.status !== undefined) {
+        const matching = new Set(await factoryContract.getGamesByStatus(taskArguments.status === "active"));
+        gameIds = gameIds.filter((gameId) => matching.has(gameId));
+      }
+
+      if (gameIds.length === 0) {
+        console.log("No games found.");
+        return;
+      }
+
+      console.log(`\n🎮 Games (${gameIds.length}):`);
+      for (const gameId of gameIds) {
+        const gameAddress = await factoryContract.getGame(gameId);
+        const creator = await factoryContract.gameCreators(gameId);
+        const gameContract = await ethers.getContractAt("SecretNumberGame", gameAddress);
+        const isActive = await gameContract.getGameStatus();
+        const round = await gameContract.getCurrentRound();
+        console.log(
+          `   #${gameId} ${gameAddress} creator=${creator} round=${round} ${isActive ? "ACTIVE" : "INACTIVE"}`,
+        );
+      }
+    }),
+  );
+
+/**
+ * Creates a CodeBreakerGameClient for the `--address` parameter or the deployed CodeBreakerGame, acting as the
+ * first signer. Every transaction the client sends is logged while it waits to be mined.
+ */
+async function getCodeBreakerGameClient(
+  taskArguments: TaskArguments,
+  hre: HardhatRuntimeEnvironment,
+): Promise<CodeBreakerGameClient> {
+  const { ethers, deployments, fhevm } = hre;
+
+  await fhevm.initializeCLIApi();
+
+  const CodeBreakerGameDeployment = taskArguments.address
+    ? { address: taskArguments.address }
+    : await deployments.get("CodeBreakerGame");
+  console.log(`CodeBreakerGame: ${CodeBreakerGameDeployment.address}`);
+
+  const signers = await ethers.getSigners();
+
+  const codeBreakerGameContract = await ethers.getContractAt("CodeBreakerGame", CodeBreakerGameDeployment.address);
+
+  return new CodeBreakerGameClient(codeBreakerGameContract, fhevm, signers[0], {
+    onTransaction: (tx) => console.log(`Wait for tx:${tx.hash}...`),
   });
+}
+
+function formatFeedback({ bulls, cows }: CodeFeedback): string {
+  return `${bulls} bull${bulls === 1 ? "" : "s"}, ${cows} cow${cows === 1 ? "" : "s"}`;
+}
+
+/**
+ * Example:
+ *   - npx hardhat --network localhost task:code-start --code 1123
+ *   - npx hardhat --network localhost task:code-start --random --max-guesses 10
+ */
+task("task:code-start", "Starts a code-breaker round with a secret 4-digit code (admin only)")
+  .addOptionalParam("address", "Optionally specify the CodeBreakerGame contract address")
+  .addOptionalParam("code", "The secret code, four digits from 0 to 9 (digits may repeat)")
+  .addFlag("random", "Draw the code from encrypted on-chain randomness, so nobody knows it")
+  .addOptionalParam("maxGuesses", "Optionally change the per-player guess limit first (0 = unlimited)")
+  .setAction(
+    withDecodedReverts(async function (taskArguments: TaskArguments, hre) {
+      if ((taskArguments.code !== undefined) === Boolean(taskArguments.random)) {
+        throw new Error(`Pass exactly one of --code or --random`);
+      }
+      const code = taskArguments.code !== undefined ? parseCode(taskArguments.code) : undefined;
+
+      const client = await getCodeBreakerGameClient(taskArguments, hre);
+
+      if (taskArguments.maxGuesses !== undefined) {
+        const maxGuesses = Number(taskArguments.maxGuesses);
+        if (!Number.isInteger(maxGuesses) || maxGuesses < 0 || maxGuesses > 255) {
+          throw new Error(`Max guesses must be an integer between 0 and 255`);
+        }
+        console.log(`Setting the guess limit to ${maxGuesses === 0 ? "unlimited" : maxGuesses}...`);
+        const tx = await client.contract.configureGame(maxGuesses);
+        console.log(`Wait for tx:${tx.hash}...`);
+        await tx.wait();
+      }
+
+      let round: bigint;
+      if (code) {
+        console.log(`Encrypting code: ${code.join("")}...`);
+        round = await client.setCode(code);
+      } else {
+        console.log(`Drawing a random code...`);
+        round = await client.startRandomCode();
+      }
+
+      console.log(`\n✅ Code-breaker round ${round} started!`);
+      console.log(`   💡 Players crack the code with 'task:code-guess --code <4 digits>'.`);
+    }),
+  );
+
+/**
+ * Example:
+ *   - npx hardhat --network localhost task:code-guess --code 1234
+ */
+task("task:code-guess", "Guesses the code-breaker code and decrypts your bulls and cows")
+  .addOptionalParam("address", "Optionally specify the CodeBreakerGame contract address")
+  .addParam("code", "Your guess, four digits from 0 to 9")
+  .setAction(
+    withDecodedReverts(async function (taskArguments: TaskArguments, hre) {
+      const code = parseCode(taskArguments.code);
+
+      const client = await getCodeBreakerGameClient(taskArguments, hre);
+
+      if (!(await client.contract.isGameActive())) {
+        console.log("❌ No code-breaker round is running! The admin needs to start one with 'task:code-start'.");
+        return;
+      }
+
+      console.log(`Encrypting guess: ${code.join("")}...`);
+      const guessNumber = await client.submitGuess(code);
+
+      console.log(`Decrypting feedback...`);
+      const feedback = await client.feedback(guessNumber);
+
+      console.log(`\n🎯 Guess #${guessNumber} ${code.join("")}: ${formatFeedback(feedback)}`);
+      if (feedback.bulls === code.length) {
+        console.log(`🎉 You cracked the code! The first to crack it is revealed when the round ends.`);
+      }
+    }),
+  );
+
+/**
+ * Example:
+ *   - npx hardhat --network localhost task:code-status
+ *   - npx hardhat --network localhost task:code-status --round 2
+ */
+task("task:code-status", "Shows the code-breaker round and the feedback on your guesses")
+  .addOptionalParam("address", "Optionally specify the CodeBreakerGame contract address")
+  .addOptionalParam("round", "The round to show (defaults to the current round)")
+  .setAction(
+    withDecodedReverts(async function (taskArguments: TaskArguments, hre) {
+      const client = await getCodeBreakerGameClient(taskArguments, hre);
+      const player = await client.signer.getAddress();
+
+      const currentRound = await client.contract.currentRound();
+      const round = taskArguments.round !== undefined ? BigInt(taskArguments.round) : currentRound;
+      if (round === 0n) {
+        console.log("No code-breaker round has been started yet.");
+        return;
+      }
+
+      const isActive = round === currentRound && (await client.contract.isGameActive());
+      const maxGuesses = Number(await client.contract.maxGuessesPerPlayer());
+      console.log(`\n🔐 Code-breaker round ${round}: ${isActive ? "ACTIVE" : "ENDED"}`);
+      console.log(`   Code: ${(await client.contract.randomRounds(round)) ? "RANDOM" : "SET BY ADMIN"}`);
+      console.log(`   Guess limit: ${maxGuesses === 0 ? "unlimited" : maxGuesses}`);
+
+      const guesses = Number(await client.contract.totalGuesses(round, player));
+      console.log(`\n📋 Your guesses: ${guesses}`);
+      for (let guessNumber = 1; guessNumber <= guesses; guessNumber++) {
+        console.log(`   #${guessNumber}: ${formatFeedback(await client.feedback(guessNumber, round))}`);
+      }
+
+      const { revealed, code, winner, guesses: winnerGuesses } = await client.contract.getRoundReveal(round);
+      if (revealed) {
+        console.log(`\n🔓 Code: ${code.join("")}`);
+        console.log(
+          BigInt(winner) !== 0n
+            ? `🏆 Cracked first by ${winner} in ${winnerGuesses} guesses`
+            : `Nobody cracked the code this round.`,
+        );
+      }
+    }),
+  );
+
+/**
+ * Example:
+ *   - npx hardhat --network localhost task:code-reveal
+ *   - npx hardhat --network sepolia task:code-reveal --timeout 300
+ */
+task("task:code-reveal", "Ends the code-breaker round and reveals its code and first solver (admin only)")
+  .addOptionalParam("address", "Optionally specify the CodeBreakerGame contract address")
+  .addOptionalParam("timeout", "Seconds to wait for the code to be revealed", "120")
+  .setAction(
+    withDecodedReverts(async function (taskArguments: TaskArguments, hre) {
+      const timeoutSeconds = parseInt(taskArguments.timeout);
+      if (!Number.isInteger(timeoutSeconds) || timeoutSeconds < 0) {
+        throw new Error(`Timeout must be a non-negative number of seconds`);
+      }
+
+      const client = await getCodeBreakerGameClient(taskArguments, hre);
+
+      let round = await client.contract.currentRound();
+      if (await client.contract.isGameActive()) {
+        console.log(`Ending round ${round}...`);
+        round = await client.endRound();
+      } else if (round === 0n) {
+        console.log("No code-breaker round has been started yet.");
+        return;
+      }
+
+      console.log(`Waiting for the code of round ${round} to be revealed...`);
+      const reveal = await client.waitForReveal(round, { timeoutMs: timeoutSeconds * 1000 });
+
+      console.log(`\n🔓 Code of round ${round}: ${reveal.code.join("")}`);
+      console.log(
+        reveal.winner
+          ? `🏆 Cracked first by ${reveal.winner} in ${reveal.guesses} guesses`
+          : `Nobody cracked the code this round.`,
+      );
+    }),
+  );
@@ -0,0 +1,260 @@
+import { FhevmType } from "@fhevm/hardhat-plugin";
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { ethers, fhevm } from "hardhat";
+import { expect } from "chai";
+
+import { CodeBreakerGameClient, parseCode } from "../src/CodeBreakerGameClient";
+import { EXIT_CODES, GameErrorDecoder } from "../src/SecretNumberGameErrors";
+import { CodeBreakerGame } from "../types";
+
+type Signers = {
+  admin: HardhatEthersSigner;
+  alice: HardhatEthersSigner;
+  bob: HardhatEthersSigner;
+};
+
+async function deployFixture(admin: string) {
+  const factory = await ethers.getContractFactory("CodeBreakerGame");
+  const codeBreakerContract = (await factory.deploy(admin)) as CodeBreakerGame;
+  const codeBreakerContractAddress = await codeBreakerContract.getAddress();
+  return { codeBreakerContract, codeBreakerContractAddress };
+}
+
+// Plain bulls-and-cows scoring, to check the encrypted scoring against
+function score(secret: number[], guess: number[]) {
+  const bulls = guess.filter((digit, i) => digit === secret[i]).length;
+  let matches = 0;
+  for (let digit = 0; digit < 10; digit++) {
+    matches += Math.min(guess.filter((d) => d === digit).length, secret.filter((d) => d === digit).length);
+  }
+  return { bulls, cows: matches - bulls };
+}
+
+describe("CodeBreakerGame", function () {
+  let signers: Signers;
+  let codeBreakerContract: CodeBreakerGame;
+  let codeBreakerContractAddress: string;
+  let gameClient: CodeBreakerGameClient;
+
+  before(async function () {
+    const ethSigners: HardhatEthersSigner[] = await ethers.getSigners();
+    signers = { admin: ethSigners[0], alice: ethSigners[1], bob: ethSigners[2] };
+  });
+
+  beforeEach(async function () {
+    // Check whether the tests are running against an FHEVM mock environment
+    if (!fhevm.isMock) {
+      console.warn(`This hardhat test suite cannot run on Sepolia Testnet`);
+      this.skip();
+    }
+    ({ codeBreakerContract, codeBreakerContractAddress } = await deployFixture(signers.admin.address));
+    gameClient = new CodeBreakerGameClient(codeBreakerContract, fhevm, signers.admin, { pollIntervalMs: 50 });
+  });
+
+  // Guesses as the player and decrypts the feedback
+  async function guess(player: HardhatEthersSigner, code: string) {
+    const client = gameClient.connect(player);
+    const guessNumber = await client.submitGuess(parseCode(code));
+    return client.feedback(guessNumber);
+  }
+
+  describe("Rounds", function () {
+    it("should only let the admin run rounds, one at a time", async function () {
+      await expect(codeBreakerContract.connect(signers.alice).startRandomCode())
+        .to.be.revertedWithCustomError(codeBreakerContract, "NotAdmin")
+        .withArgs(signers.alice.address);
+      await expect(codeBreakerContract.endRound()).to.be.revertedWithCustomError(codeBreakerContract, "GameNotActive");
+
+      expect(await gameClient.setCode(parseCode("1234"))).to.eq(1n);
+      await expect(gameClient.setCode(parseCode("5678"))).to.be.revertedWithCustomError(
+        codeBreakerContract,
+        "RoundInProgress",
+      );
+      await expect(codeBreakerContract.configureGame(3)).to.be.revertedWithCustomError(
+        codeBreakerContract,
+        "RoundInProgress",
+      );
+      await expect(codeBreakerContract.connect(signers.alice).endRound())
+        .to.be.revertedWithCustomError(codeBreakerContract, "NotAdmin")
+        .withArgs(signers.alice.address);
+    });
+
+    it("should reject a code from anyone but the admin before verifying it", async function () {
+      // The proof is bound to the admin, so verifying it for alice would fail with a different error
+      const { handles, inputProof } = await gameClient.encryptCode(parseCode("1234"));
+      const setCode = codeBreakerContract.connect(signers.alice).getFunction("setSecretCode");
+
+      await expect(setCode([handles[0], handles[1], handles[2], handles[3]], inputProof))
+        .to.be.revertedWithCustomError(codeBreakerContract, "NotAdmin")
+        .withArgs(signers.alice.address);
+    });
+
+    it("should not start a round before the previous code is revealed", async function () {
+      await gameClient.setCode(parseCode("1234"));
+      const round = await gameClient.endRound();
+
+      await expect(gameClient.startRandomCode())
+        .to.be.revertedWithCustomError(codeBreakerContract, "CodeNotRevealed")
+        .withArgs(round);
+
+      await gameClient.waitForReveal(round);
+      expect(await gameClient.startRandomCode()).to.eq(2n);
+      expect(await codeBreakerContract.randomRounds(2)).to.eq(true);
+    });
+
+    it("should reject guesses outside a round or beyond the guess limit", async function () {
+      await expect(gameClient.connect(signers.alice).submitGuess(parseCode("1234"))).to.be.revertedWithCustomError(
+        codeBreakerContract,
+        "GameNotActive",
+      );
+
+      await expect(codeBreakerContract.configureGame(1)).to.emit(codeBreakerContract, "GameConfigured").withArgs(1);
+      await gameClient.setCode(parseCode("1234"));
+      await gameClient.connect(signers.alice).submitGuess(parseCode("5678"));
+
+      await expect(gameClient.connect(signers.alice).submitGuess(parseCode("1234")))
+        .to.be.revertedWithCustomError(codeBreakerContract, "GuessLimitReached")
+        .withArgs(signers.alice.address, 1);
+      expect(await gameClient.connect(signers.bob).submitGuess(parseCode("1234"))).to.eq(1);
+    });
+  });
+
+  describe("Feedback", function () {
+    it("should count bulls and cows of a code with distinct digits", async function () {
+      await gameClient.setCode(parseCode("1234"));
+
+      expect(await guess(signers.alice, "5678")).to.deep.eq({ bulls: 0, cows: 0 });
+      expect(await guess(signers.alice, "4321")).to.deep.eq({ bulls: 0, cows: 4 });
+      expect(await guess(signers.alice, "1243")).to.deep.eq({ bulls: 2, cows: 2 });
+      expect(await guess(signers.alice, "1234")).to.deep.eq({ bulls: 4, cows: 0 });
+    });
+
+    it("should count a repeated guess digit only as often as the code holds it", async function () {
+      await gameClient.setCode(parseCode("1234"));
+
+      expect(await guess(signers.alice, "1111")).to.deep.eq({ bulls: 1, cows: 0 });
+      expect(await guess(signers.alice, "2222")).to.deep.eq({ bulls: 1, cows: 0 });
+      expect(await guess(signers.alice, "1122")).to.deep.eq({ bulls: 1, cows: 1 });
+      expect(await guess(signers.alice, "3311")).to.deep.eq({ bulls: 0, cows: 2 });
+    });
+
+    it("should count a repeated code digit only as often as the guess holds it", async function () {
+      await gameClient.setCode(parseCode("1123"));
+
+      expect(await guess(signers.alice, "3111")).to.deep.eq({ bulls: 1, cows: 2 });
+      expect(await guess(signers.alice, "2311")).to.deep.eq({ bulls: 0, cows: 4 });
+      expect(await guess(signers.alice, "1000")).to.deep.eq({ bulls: 1, cows: 0 });
+      expect(await guess(signers.alice, "0001")).to.deep.eq({ bulls: 0, cows: 1 });
+      expect(await guess(signers.alice, "1123")).to.deep.eq({ bulls: 4, cows: 0 });
+    });
+
+    it("should score a code of one repeated digit", async function () {
+      await gameClient.setCode(parseCode("7777"));
+
+      expect(await guess(signers.alice, "7000")).to.deep.eq({ bulls: 1, cows: 0 });
+      expect(await guess(signers.alice, "0777")).to.deep.eq({ bulls: 3, cows: 0 });
+      expect(await guess(signers.alice, "1234")).to.deep.eq({ bulls: 0, cows: 0 });
+    });
+
+    it("should only let the guesser decrypt the feedback", async function () {
+      await gameClient.setCode(parseCode("1234"));
+      await gameClient.connect(signers.alice).submitGuess(parseCode("1243"));
+      const [bulls] = await codeBreakerContract.getFeedback(1, signers.alice.address, 0);
+
+      expect(await fhevm.userDecryptEuint(FhevmType.euint8, bulls, codeBreakerContractAddress, signers.alice)).to.eq(
+        2n,
+      );
+      await expect(fhevm.userDecryptEuint(FhevmType.euint8, bulls, codeBreakerContractAddress, signers.bob)).to.be
+        .rejected;
+    });
+
+    it("should take secret digits above 9 modulo 10 and never match guess digits above 9", async function () {
+      await gameClient.setCode([1, 12, 3, 4]);
+      expect(await guess(signers.alice, "1234")).to.deep.eq({ bulls: 4, cows: 0 });
+
+      await gameClient.connect(signers.alice).submitGuess([11, 2, 3, 4]);
+      expect(await gameClient.connect(signers.alice).feedback()).to.deep.eq({ bulls: 3, cows: 0 });
+    });
+  });
+
+  describe("Reveal", function () {
+    it("should reveal the code and the first player to crack it", async function () {
+      await gameClient.setCode(parseCode("9081"));
+      await guess(signers.alice, "9180");
+      await guess(signers.bob, "9081");
+      await guess(signers.alice, "9081");
+
+      const round = await gameClient.endRound();
+      expect(await gameClient.waitForReveal(round)).to.deep.eq({
+        round,
+        code: [9, 0, 8, 1],
+        winner: signers.bob.address,
+        guesses: 1,
+      });
+    });
+
+    it("should reveal a round nobody cracked without a winner", async function () {
+      await gameClient.setCode(parseCode("1123"));
+      await guess(signers.alice, "3211");
+
+      const round = await gameClient.endRound();
+      await expect(codeBreakerContract.endRound()).to.be.revertedWithCustomError(codeBreakerContract, "GameNotActive");
+      expect(await gameClient.waitForReveal(round)).to.deep.eq({
+        round,
+        code: [1, 1, 2, 3],
+        winner: undefined,
+        guesses: 0,
+      });
+    });
+
+    it("should score guesses against a random code nobody knows", async function () {
+      const round = await gameClient.startRandomCode();
+      const guesses = ["0123", "4567", "8899", "0000"];
+      const feedback = [];
+      for (const code of guesses) {
+        feedback.push(await guess(signers.alice, code));
+      }
+
+      await gameClient.endRound();
+      const { code } = await gameClient.waitForReveal(round);
+
+      expect(code.every((digit) => digit >= 0 && digit <= 9)).to.eq(true);
+      expect(feedback).to.deep.eq(guesses.map((guessed) => score(code, parseCode(guessed))));
+    });
+  });
+
+  describe("CodeBreakerGameClient", function () {
+    it("should parse codes of exactly four digits", function () {
+      expect(parseCode("0912")).to.deep.eq([0, 9, 1, 2]);
+      expect(() => parseCode("123")).to.throw('A code is 4 digits from 0 to 9, got "123"');
+      expect(() => parseCode("12a4")).to.throw("A code is 4 digits");
+    });
+
+    it("should refuse to read feedback before guessing", async function () {
+      await gameClient.setCode(parseCode("1234"));
+
+      await expect(gameClient.connect(signers.alice).feedback()).to.be.rejectedWith(
+        `${signers.alice.address} has not guessed in round 1`,
+      );
+    });
+
+    it("should have its reverts decoded", async function () {
+      const decoder = new GameErrorDecoder([codeBreakerContract.interface]);
+      await gameClient.setCode(parseCode("1234"));
+      await gameClient.endRound();
+
+      let error: unknown;
+      try {
+        await gameClient.setCode(parseCode("5678"));
+      } catch (caught) {
+        error = caught;
+      }
+
+      expect(decoder.decode(error)).to.deep.include({
+        name: "CodeNotRevealed",
+        message: "The code of round 1 has to be revealed before a new round can start",
+        exitCode: EXIT_CODES.state,
+      });
+    });
+  });
+});
@@ -0,0 +1,286 @@
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { time } from "@nomicfoundation/hardhat-network-helpers";
+import { ethers } from "hardhat";
+import { expect } from "chai";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+
+import {
+  CommitRevealGameClient,
+  CommitmentStore,
+  guessCommitment,
+  secretCommitment,
+} from "../src/CommitRevealGameClient";
+import { EXIT_CODES, GameErrorDecoder } from "../src/SecretNumberGameErrors";
+import { CommitRevealNumberGame } from "../types";
+
+type Signers = {
+  admin: HardhatEthersSigner;
+  alice: HardhatEthersSigner;
+  bob: HardhatEthersSigner;
+};
+
+const SALT = ethers.id("salt");
+
+async function deployFixture(admin: string) {
+  const factory = await ethers.getContractFactory("CommitRevealNumberGame");
+  const commitRevealContract = (await factory.deploy(admin)) as CommitRevealNumberGame;
+  const commitRevealContractAddress = await commitRevealContract.getAddress();
+  return { commitRevealContract, commitRevealContractAddress };
+}
+
+describe("CommitRevealNumberGame", function () {
+  let signers: Signers;
+  let commitRevealContract: CommitRevealNumberGame;
+  let commitRevealContractAddress: string;
+  let gameClient: CommitRevealGameClient;
+
+  before(async function () {
+    const ethSigners: HardhatEthersSigner[] = await ethers.getSigners();
+    signers = { admin: ethSigners[0], alice: ethSigners[1], bob: ethSigners[2] };
+  });
+
+  beforeEach(async function () {
+    ({ commitRevealContract, commitRevealContractAddress } = await deployFixture(signers.admin.address));
+    gameClient = new CommitRevealGameClient(commitRevealContract, signers.admin);
+  });
+
+  // Commits to a guess with a known salt, so the test can reveal it by hand
+  async function commitGuess(player: HardhatEthersSigner, guess: number, salt = SALT): Promise<bigint> {
+    const commitment = guessCommitment(commitRevealContractAddress, player.address, guess, salt);
+    await commitRevealContract.connect(player).makeGuess(commitment);
+    const requestIds = await commitRevealContract.getPlayerRequests(player.address);
+    return requestIds[requestIds.length - 1];
+  }
+
+  describe("Commitments", function () {
+    it("should hash commitments the same way as the client", async function () {
+      expect(await commitRevealContract.computeSecretCommitment(42, SALT)).to.eq(
+        secretCommitment(commitRevealContractAddress, 42, SALT),
+      );
+      expect(await commitRevealContract.computeGuessCommitment(signers.alice.address, 42, SALT)).to.eq(
+        guessCommitment(commitRevealContractAddress, signers.alice.address, 42, SALT),
+      );
+    });
+
+    it("should only reveal the committed secret, once", async function () {
+      await commitRevealContract.setSecretNumber(secretCommitment(commitRevealContractAddress, 42, SALT), 0);
+
+      await expect(commitRevealContract.connect(signers.alice).endRound(42, SALT))
+        .to.be.revertedWithCustomError(commitRevealContract, "NotGameMaster")
+        .withArgs(signers.alice.address);
+      await expect(commitRevealContract.endRound(41, SALT)).to.be.revertedWithCustomError(
+        commitRevealContract,
+        "CommitmentMismatch",
+      );
+      await expect(commitRevealContract.endRound(42, ethers.id("other"))).to.be.revertedWithCustomError(
+        commitRevealContract,
+        "CommitmentMismatch",
+      );
+
+      await expect(commitRevealContract.endRound(42, SALT))
+        .to.emit(commitRevealContract, "SecretRevealed")
+        .withArgs(1, 42);
+      await expect(commitRevealContract.endRound(42, SALT))
+        .to.be.revertedWithCustomError(commitRevealContract, "SecretAlreadyRevealed")
+        .withArgs(1);
+    });
+
+    it("should only reveal a guess with its own number and salt after the secret", async function () {
+      await gameClient.setSecret(42);
+      const requestId = await commitGuess(signers.alice, 42);
+      // 0 stands for "no request", so IDs start at 1
+      expect(requestId).to.eq(1n);
+
+      await expect(commitRevealContract.revealGuess(requestId, 42, SALT))
+        .to.be.revertedWithCustomError(commitRevealContract, "SecretNotRevealed")
+        .withArgs(1);
+
+      await gameClient.endRound();
+
+      await expect(commitRevealContract.revealGuess(requestId + 1n, 42, SALT))
+        .to.be.revertedWithCustomError(commitRevealContract, "InvalidRequest")
+        .withArgs(requestId + 1n);
+      await expect(commitRevealContract.revealGuess(requestId, 41, SALT)).to.be.revertedWithCustomError(
+        commitRevealContract,
+        "CommitmentMismatch",
+      );
+
+      // Anyone holding the salt may reveal, but the guess counts for the player who made it
+      await expect(commitRevealContract.connect(signers.bob).revealGuess(requestId, 42, SALT))
+        .to.emit(commitRevealContract, "GuessResult")
+        .withArgs(signers.alice.address, 1, true, 1, requestId);
+      await expect(commitRevealContract.revealGuess(requestId, 42, SALT))
+        .to.be.revertedWithCustomError(commitRevealContract, "RequestAlreadyProcessed")
+        .withArgs(requestId);
+    });
+  });
+
+  describe("Settlement", function () {
+    it("should award the earliest committed correct guess, whatever the reveal order", async function () {
+      await gameClient.setSecret(42);
+      const aliceRequest = await commitGuess(signers.alice, 42);
+      const bobRequest = await commitGuess(signers.bob, 42);
+      await gameClient.endRound();
+
+      await commitRevealContract.revealGuess(bobRequest, 42, SALT);
+      await expect(commitRevealContract.revealGuess(aliceRequest, 42, SALT))
+        .to.emit(commitRevealContract, "RoundSettled")
+        .withArgs(1, signers.alice.address);
+
+      expect(await commitRevealContract.roundWinners(1)).to.eq(signers.alice.address);
+      expect(await commitRevealContract.hasWon(1, signers.bob.address)).to.eq(true);
+      expect(await commitRevealContract.getWinnerCount()).to.eq(2n);
+    });
+
+    it("should not let a guess outside the round's range win", async function () {
+      await commitRevealContract.configureGame(1, 10, 0);
+      await gameClient.setSecret(42);
+      const requestId = await commitGuess(signers.alice, 42);
+      await gameClient.endRound();
+
+      await expect(commitRevealContract.revealGuess(requestId, 42, SALT))
+        .to.emit(commitRevealContract, "RoundSettled")
+        .withArgs(1, ethers.ZeroAddress);
+      expect(await commitRevealContract.getRevealedSecret(1)).to.deep.eq([true, 42n, false]);
+    });
+
+    it("should settle a round without guesses as soon as the secret is revealed", async function () {
+      await gameClient.setSecret(42);
+
+      await expect(commitRevealContract.endRound(42, SALT)).to.be.revertedWithCustomError(
+        commitRevealContract,
+        "CommitmentMismatch",
+      );
+      await gameClient.endRound();
+
+      expect(await gameClient.settlement()).to.include({ revealed: true, settled: true, guesses: 0 });
+    });
+
+    it("should let anyone settle once the reveal period is over, losing unrevealed guesses", async function () {
+      const fee = ethers.parseEther("0.01");
+      await commitRevealContract.setGuessFee(fee);
+      await gameClient.setSecret(42);
+      await gameClient.connect(signers.alice).submitGuess(42);
+      await gameClient.connect(signers.bob).submitGuess(7);
+      await gameClient.endRound();
+      await gameClient.connect(signers.bob).revealGuesses();
+
+      const { revealPeriodEnd } = await gameClient.settlement();
+      await expect(gameClient.connect(signers.bob).settle())
+        .to.be.revertedWithCustomError(commitRevealContract, "RevealPeriodActive")
+        .withArgs(1, revealPeriodEnd);
+
+      await time.increaseTo(revealPeriodEnd);
+
+      expect(await gameClient.connect(signers.bob).settle()).to.eq(undefined);
+      expect(await gameClient.settlement()).to.include({ settled: true, guesses: 2, revealedGuesses: 1 });
+      expect(await commitRevealContract.prizePool()).to.eq(fee * 2n);
+      await expect(gameClient.connect(signers.alice).revealGuesses())
+        .to.be.revertedWithCustomError(commitRevealContract, "RoundAlreadySettled")
+        .withArgs(1);
+    });
+
+    it("should not start a round while the previous one is revealed but unsettled", async function () {
+      await gameClient.setSecret(42);
+      await gameClient.connect(signers.alice).submitGuess(42);
+      await gameClient.endRound();
+
+      await expect(gameClient.setSecret(7))
+        .to.be.revertedWithCustomError(commitRevealContract, "RoundNotSettled")
+        .withArgs(1);
+
+      await gameClient.connect(signers.alice).revealGuesses();
+      expect(await gameClient.setSecret(7)).to.eq(2n);
+    });
+
+    it("should not start a round while the previous secret is unrevealed, even once it was reset", async function () {
+      await gameClient.setSecret(42);
+      await gameClient.connect(signers.alice).submitGuess(42);
+
+      await expect(gameClient.setSecret(7))
+        .to.be.revertedWithCustomError(commitRevealContract, "SecretNotRevealed")
+        .withArgs(1);
+      await gameClient.reset();
+      await expect(gameClient.setSecret(7))
+        .to.be.revertedWithCustomError(commitRevealContract, "SecretNotRevealed")
+        .withArgs(1);
+
+      await gameClient.endRound();
+      await gameClient.connect(signers.alice).revealGuesses();
+      expect(await gameClient.stats(signers.alice.address, 1n)).to.deep.eq({ correct: true, guesses: 1, won: true });
+      expect(await gameClient.setSecret(7)).to.eq(2n);
+    });
+
+    it("should still reveal the secret of a round that was closed", async function () {
+      await gameClient.setSecret(42, 60);
+      await gameClient.connect(signers.alice).submitGuess(42);
+      await time.increase(60);
+      await gameClient.closeExpiredRound();
+
+      expect(await gameClient.endRound()).to.deep.eq({ round: 1n, secret: 42 });
+      const [result] = await gameClient.connect(signers.alice).revealGuesses();
+      expect(result).to.include({ correct: true, totalGuesses: 1, player: signers.alice.address });
+    });
+  });
+
+  describe("CommitRevealGameClient", function () {
+    let storeDir: string;
+
+    beforeEach(function () {
+      storeDir = fs.mkdtempSync(path.join(os.tmpdir(), "commit-reveal-"));
+    });
+
+    afterEach(function () {
+      fs.rmSync(storeDir, { recursive: true, force: true });
+    });
+
+    it("should keep commitments in its store file across clients", async function () {
+      const file = path.join(storeDir, "nested", "store.json");
+      await new CommitRevealGameClient(commitRevealContract, signers.admin, new CommitmentStore(file)).setSecret(42);
+      await new CommitRevealGameClient(commitRevealContract, signers.alice, new CommitmentStore(file)).submitGuess(42);
+
+      const client = new CommitRevealGameClient(commitRevealContract, signers.admin, new CommitmentStore(file));
+      expect(await client.endRound()).to.deep.eq({ round: 1n, secret: 42 });
+      const results = await client.connect(signers.alice).revealGuesses();
+
+      expect(results.map((result) => result.correct)).to.deep.eq([true]);
+      expect(await client.settlement()).to.include({ settled: true });
+    });
+
+    it("should refuse to end a round whose secret is not in its store", async function () {
+      await gameClient.setSecret(42);
+      const other = new CommitRevealGameClient(commitRevealContract, signers.admin);
+
+      await expect(other.endRound()).to.be.rejectedWith("The secret of round 1 was not committed with this store");
+    });
+
+    it("should skip guesses that were not committed with its store", async function () {
+      await gameClient.setSecret(42);
+      await commitGuess(signers.alice, 42);
+      await gameClient.endRound();
+
+      expect(await gameClient.connect(signers.alice).revealGuesses()).to.deep.eq([]);
+    });
+
+    it("should have its reverts decoded", async function () {
+      const decoder = new GameErrorDecoder([commitRevealContract.interface]);
+      await gameClient.setSecret(42);
+      await gameClient.endRound();
+
+      let error: unknown;
+      try {
+        await gameClient.endRound();
+      } catch (caught) {
+        error = caught;
+      }
+
+      expect(decoder.decode(error)).to.deep.include({
+        name: "SecretAlreadyRevealed",
+        message: "The secret of round 1 has already been revealed",
+        exitCode: EXIT_CODES.state,
+      });
+    });
+  });
+});
@@ -1,7 +1,12 @@
+import { FhevmType } from "@fhevm/hardhat-plugin";
 import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { ContractTransactionReceipt } from "ethers";
+import { mine, time } from "@nomicfoundation/hardhat-network-helpers";
 import { ethers, fhevm } from "hardhat";
-import { SecretNumberGame } from "../types";
+import { SecretNumberGameClient } from "../src/SecretNumberGameClient";
+import { ReentrantPrizeClaimer, SecretNumberGame } from "../types";
 import { expect } from "chai";
+import { anyValue } from "@nomicfoundation/hardhat-chai-matchers/withArgs";
 
 type Signers = {
   admin: HardhatEthersSigner;
@@ -9,13 +14,24 @@ type Signers = {
   bob: HardhatEthersSigner;
 };
 
-async function deployFixture() {
+async function deployFixture(admin: string) {
   const factory = await ethers.getContractFactory("SecretNumberGame");
-  const secretNumberGameContract = (await factory.deploy()) as SecretNumberGame;
+  const secretNumberGameContract = (await factory.deploy(admin)) as SecretNumberGame;
   const secretNumberGameContractAddress = await secretNumberGameContract.getAddress();
   return { secretNumberGameContract, secretNumberGameContractAddress };
 }
 
+// Helper function to extract the requestId from the GuessMade event of a receipt
+function getGuessRequestId(contract: SecretNumberGame, receipt: ContractTransactionReceipt | null): bigint | undefined {
+  for (const log of receipt?.logs ?? []) {
+    const parsed = contract.interface.parseLog(log);
+    if (parsed?.name === "GuessMade") {
+      return parsed.args.requestId;
+    }
+  }
+  return undefined;
+}
+
 // Helper function to wait for decryption and process callback
 async function waitForDecryptionAndCallback(contract: SecretNumberGame, requestId: bigint) {
   // Wait for the decryption oracle
@@ -37,6 +53,7 @@ describe("SecretNumberGame", function () {
   let signers: Signers;
   let secretNumberGameContract: SecretNumberGame;
   let secretNumberGameContractAddress: string;
+  let gameClient: SecretNumberGameClient;
 
   before(async function () {
     const ethSigners: HardhatEthersSigner[] = await ethers.getSigners();
@@ -53,32 +70,55 @@ describe("SecretNumberGame", function () {
       console.warn(`This hardhat test suite cannot run on Sepolia Testnet`);
       this.skip();
     }
-    ({ secretNumberGameContract, secretNumberGameContractAddress } = await deployFixture());
+    ({ secretNumberGameContract, secretNumberGameContractAddress } = await deployFixture(signers.admin.address));
+    gameClient = new SecretNumberGameClient(secretNumberGameContract, fhevm, signers.admin, { pollIntervalMs: 50 });
   });
 
+  // Admin sets an encrypted secret, opening a new round
+  async function startRound(secretValue: number) {
+    await gameClient.setSecret(secretValue);
+  }
+
+  // Player submits an encrypted guess and returns its requestId without waiting for the callback
+  async function guess(player: HardhatEthersSigner, guessValue: number, value: bigint = 0n) {
+    return (await gameClient.connect(player).submitGuess(guessValue, { value })).requestId;
+  }
+
+  // Player submits an encrypted guess and waits for the oracle callback
+  async function guessAndWait(player: HardhatEthersSigner, guessValue: number, value: bigint = 0n) {
+    return (await gameClient.connect(player).guess(guessValue, { value })).requestId;
+  }
+
   describe("Deployment", function () {
     it("should set the correct admin", async function () {
       const admin = await secretNumberGameContract.admin();
       expect(admin).to.eq(signers.admin.address);
     });
 
+    it("should reject the zero address as admin", async function () {
+      const factory = await ethers.getContractFactory("SecretNumberGame");
+      await expect(factory.deploy(ethers.ZeroAddress)).to.be.revertedWithCustomError(factory, "InvalidAdmin");
+    });
+
     it("should have game inactive initially", async function () {
       const isActive = await secretNumberGameContract.getGameStatus();
       expect(isActive).to.equal(false);
     });
+
+    it("should start at round 0", async function () {
+      const round = await secretNumberGameContract.getCurrentRound();
+      expect(round).to.eq(0);
+    });
   });
 
   describe("Setting Secret Number", function () {
     it("admin should be able to set secret number and activate game", async function () {
       const secretValue = 42;
-      const encryptedSecret = await fhevm
-        .createEncryptedInput(secretNumberGameContractAddress, signers.admin.address)
-        .add8(secretValue)
-        .encrypt();
+      const encryptedSecret = await gameClient.encrypt(secretValue);
 
       const tx = await secretNumberGameContract
         .connect(signers.admin)
-        .setSecretNumber(encryptedSecret.handles[0], encryptedSecret.inputProof);
+        .setSecretNumber(encryptedSecret.handle, encryptedSecret.inputProof, 0);
 
       await expect(tx).to.emit(secretNumberGameContract, "GameStarted");
 
@@ -86,33 +126,67 @@ describe("SecretNumberGame", function () {
       expect(isActive).to.equal(true);
     });
 
+    it("should open a new round each time the secret is set", async function () {
+      for (const expectedRound of [1, 2]) {
+        const encryptedSecret = await gameClient.encrypt(42);
+
+        const tx = await secretNumberGameContract
+          .connect(signers.admin)
+          .setSecretNumber(encryptedSecret.handle, encryptedSecret.inputProof, 0);
+
+        await expect(tx).to.emit(secretNumberGameContract, "GameStarted").withArgs(expectedRound, anyValue, 0);
+        expect(await secretNumberGameContract.getCurrentRound()).to.eq(expectedRound);
+        await gameClient.reset();
+      }
+    });
+
+    it("should not open a round over a running one", async function () {
+      await startRound(42);
+      await guessAndWait(signers.alice, 10);
+
+      const encryptedSecret = await gameClient.encrypt(17);
+      await expect(
+        secretNumberGameContract
+          .connect(signers.admin)
+          .setSecretNumber(encryptedSecret.handle, encryptedSecret.inputProof, 0),
+      ).to.be.revertedWithCustomError(secretNumberGameContract, "RoundInProgress");
+      await expect(secretNumberGameContract.connect(signers.admin).startRandomGame(0)).to.be.revertedWithCustomError(
+        secretNumberGameContract,
+        "RoundInProgress",
+      );
+      await expect(secretNumberGameContract.connect(signers.admin).startSoloRound(0)).to.be.revertedWithCustomError(
+        secretNumberGameContract,
+        "RoundInProgress",
+      );
+      expect(await secretNumberGameContract.getCurrentRound()).to.eq(1);
+
+      // Ending the round reveals its secret, after which the next round can start
+      await gameClient.reset();
+      await fhevm.awaitDecryptionOracle();
+      expect((await secretNumberGameContract.secretReveals(1)).revealed).to.eq(true);
+      expect((await secretNumberGameContract.secretReveals(1)).value).to.eq(42);
+      await startRound(17);
+      expect(await secretNumberGameContract.getCurrentRound()).to.eq(2);
+    });
+
     it("non-admin should not be able to set secret number", async function () {
       const secretValue = 42;
-      const encryptedSecret = await fhevm
-        .createEncryptedInput(secretNumberGameContractAddress, signers.alice.address)
-        .add8(secretValue)
-        .encrypt();
+      const encryptedSecret = await gameClient.connect(signers.alice).encrypt(secretValue);
 
       await expect(
         secretNumberGameContract
           .connect(signers.alice)
-          .setSecretNumber(encryptedSecret.handles[0], encryptedSecret.inputProof),
-      ).to.be.revertedWith("Only admin can set secret number");
+          .setSecretNumber(encryptedSecret.handle, encryptedSecret.inputProof, 0),
+      )
+        .to.be.revertedWithCustomError(secretNumberGameContract, "NotGameMaster")
+        .withArgs(signers.alice.address);
     });
   });
 
   describe("Making Guesses", function () {
     beforeEach(async function () {
       // Set up a game with secret number 42
-      const secretValue = 42;
-      const encryptedSecret = await fhevm
-        .createEncryptedInput(secretNumberGameContractAddress, signers.admin.address)
-        .add8(secretValue)
-        .encrypt();
-
-      await secretNumberGameContract
-        .connect(signers.admin)
-        .setSecretNumber(encryptedSecret.handles[0], encryptedSecret.inputProof);
+      await startRound(42);
     });
 
     it("should revert when game is not active", async function () {
@@ -120,52 +194,42 @@ describe("SecretNumberGame", function () {
       await secretNumberGameContract.connect(signers.admin).resetGame();
 
       const guessValue = 50;
-      const encryptedGuess = await fhevm
-        .createEncryptedInput(secretNumberGameContractAddress, signers.alice.address)
-        .add8(guessValue)
-        .encrypt();
+      const encryptedGuess = await gameClient.connect(signers.alice).encrypt(guessValue);
 
       await expect(
-        secretNumberGameContract.connect(signers.alice).makeGuess(encryptedGuess.handles[0], encryptedGuess.inputProof),
-      ).to.be.revertedWith("Game not active");
+        secretNumberGameContract.connect(signers.alice).makeGuess(encryptedGuess.handle, encryptedGuess.inputProof),
+      ).to.be.revertedWithCustomError(secretNumberGameContract, "GameNotActive");
     });
 
     it("should allow player to make a guess and increment counter", async function () {
       const guessValue = 50;
-      const encryptedGuess = await fhevm
-        .createEncryptedInput(secretNumberGameContractAddress, signers.alice.address)
-        .add8(guessValue)
-        .encrypt();
+      const encryptedGuess = await gameClient.connect(signers.alice).encrypt(guessValue);
 
       const tx = await secretNumberGameContract
         .connect(signers.alice)
-        .makeGuess(encryptedGuess.handles[0], encryptedGuess.inputProof);
+        .makeGuess(encryptedGuess.handle, encryptedGuess.inputProof);
 
       await expect(tx).to.emit(secretNumberGameContract, "GuessMade");
 
-      const totalGuesses = await secretNumberGameContract.totalGuesses(signers.alice.address);
+      const totalGuesses = await secretNumberGameContract.totalGuesses(1, signers.alice.address);
       expect(totalGuesses).to.eq(1);
     });
 
     it("should correctly identify wrong guess", async function () {
       const wrongGuess = 50; // secret is 42
-      const encryptedGuess = await fhevm
-        .createEncryptedInput(secretNumberGameContractAddress, signers.alice.address)
-        .add8(wrongGuess)
-        .encrypt();
+      const encryptedGuess = await gameClient.connect(signers.alice).encrypt(wrongGuess);
 
       const tx = await secretNumberGameContract
         .connect(signers.alice)
-        .makeGuess(encryptedGuess.handles[0], encryptedGuess.inputProof);
+        .makeGuess(encryptedGuess.handle, encryptedGuess.inputProof);
 
       const receipt = await tx.wait();
 
       // Get the requestId from the event
-      const event = receipt?.logs.find((log: any) => log.fragment && log.fragment.name === "GuessMade");
-      expect(event).to.not.be.undefined;
+      const requestId = getGuessRequestId(secretNumberGameContract, receipt);
+      expect(requestId).to.be.a("bigint");
 
-      if (event && "args" in event) {
-        const requestId = event.args[2];
+      if (requestId !== undefined) {
         console.log("Request ID:", requestId.toString());
 
         // Wait for decryption and callback
@@ -174,7 +238,7 @@ describe("SecretNumberGame", function () {
       }
 
       // Check the stats
-      const stats = await secretNumberGameContract.getMyStats();
+      const stats = await secretNumberGameContract.connect(signers.alice).getMyStats();
       console.log("Stats:", {
         correct: stats.correct,
         guesses: stats.guesses.toString(),
@@ -188,23 +252,19 @@ describe("SecretNumberGame", function () {
 
     it("should correctly identify correct guess", async function () {
       const correctGuess = 42; // secret is 42
-      const encryptedGuess = await fhevm
-        .createEncryptedInput(secretNumberGameContractAddress, signers.alice.address)
-        .add8(correctGuess)
-        .encrypt();
+      const encryptedGuess = await gameClient.connect(signers.alice).encrypt(correctGuess);
 
       const tx = await secretNumberGameContract
         .connect(signers.alice)
-        .makeGuess(encryptedGuess.handles[0], encryptedGuess.inputProof);
+        .makeGuess(encryptedGuess.handle, encryptedGuess.inputProof);
 
       const receipt = await tx.wait();
 
       // Get the requestId from the event
-      const event = receipt?.logs.find((log: any) => log.fragment && log.fragment.name === "GuessMade");
-      expect(event).to.not.be.undefined;
+      const requestId = getGuessRequestId(secretNumberGameContract, receipt);
+      expect(requestId).to.be.a("bigint");
 
-      if (event && "args" in event) {
-        const requestId = event.args[2];
+      if (requestId !== undefined) {
         console.log("Request ID:", requestId.toString());
 
         // Wait for decryption and callback
@@ -212,7 +272,7 @@ describe("SecretNumberGame", function () {
         console.log("Callback processed:", processed);
       }
 
-      const stats = await secretNumberGameContract.getMyStats();
+      const stats = await secretNumberGameContract.connect(signers.alice).getMyStats();
       console.log("Stats:", {
         correct: stats.correct,
         guesses: stats.guesses.toString(),
@@ -226,34 +286,27 @@ describe("SecretNumberGame", function () {
 
     it("should prevent players from guessing after they won", async function () {
       const correctGuess = 42;
-      const encryptedGuess = await fhevm
-        .createEncryptedInput(secretNumberGameContractAddress, signers.alice.address)
-        .add8(correctGuess)
-        .encrypt();
+      const encryptedGuess = await gameClient.connect(signers.alice).encrypt(correctGuess);
 
       const tx = await secretNumberGameContract
         .connect(signers.alice)
-        .makeGuess(encryptedGuess.handles[0], encryptedGuess.inputProof);
+        .makeGuess(encryptedGuess.handle, encryptedGuess.inputProof);
 
       const receipt = await tx.wait();
 
       // Get requestId and wait for callback
-      const event = receipt?.logs.find((log: any) => log.fragment && log.fragment.name === "GuessMade");
-      if (event && "args" in event) {
-        const requestId = event.args[2];
+      const requestId = getGuessRequestId(secretNumberGameContract, receipt);
+      if (requestId !== undefined) {
         await waitForDecryptionAndCallback(secretNumberGameContract, requestId);
       }
 
-      const encryptedGuess2 = await fhevm
-        .createEncryptedInput(secretNumberGameContractAddress, signers.alice.address)
-        .add8(correctGuess)
-        .encrypt();
+      const encryptedGuess2 = await gameClient.connect(signers.alice).encrypt(correctGuess);
 
       await expect(
-        secretNumberGameContract
-          .connect(signers.alice)
-          .makeGuess(encryptedGuess2.handles[0], encryptedGuess2.inputProof),
-      ).to.be.revertedWith("You already won!");
+        secretNumberGameContract.connect(signers.alice).makeGuess(encryptedGuess2.handle, encryptedGuess2.inputProof),
+      )
+        .to.be.revertedWithCustomError(secretNumberGameContract, "AlreadyWon")
+        .withArgs(signers.alice.address);
     });
 
     it("should track multiple guesses from the same player", async function () {
@@ -262,70 +315,58 @@ describe("SecretNumberGame", function () {
       const wrongGuess3 = 60;
 
       for (const guess of [wrongGuess1, wrongGuess2, wrongGuess3]) {
-        const encryptedGuess = await fhevm
-          .createEncryptedInput(secretNumberGameContractAddress, signers.alice.address)
-          .add8(guess)
-          .encrypt();
+        const encryptedGuess = await gameClient.connect(signers.alice).encrypt(guess);
 
         const tx = await secretNumberGameContract
           .connect(signers.alice)
-          .makeGuess(encryptedGuess.handles[0], encryptedGuess.inputProof);
+          .makeGuess(encryptedGuess.handle, encryptedGuess.inputProof);
 
         const receipt = await tx.wait();
 
         // Get requestId and wait for callback
-        const event = receipt?.logs.find((log: any) => log.fragment && log.fragment.name === "GuessMade");
-        if (event && "args" in event) {
-          const requestId = event.args[2];
+        const requestId = getGuessRequestId(secretNumberGameContract, receipt);
+        if (requestId !== undefined) {
           await waitForDecryptionAndCallback(secretNumberGameContract, requestId);
         }
       }
 
-      const totalGuesses = await secretNumberGameContract.totalGuesses(signers.alice.address);
+      const totalGuesses = await secretNumberGameContract.totalGuesses(1, signers.alice.address);
       expect(totalGuesses).to.eq(3);
     });
 
     it("should track different players independently", async function () {
       // Alice makes 2 guesses
       for (let i = 0; i < 2; i++) {
-        const encryptedGuess = await fhevm
-          .createEncryptedInput(secretNumberGameContractAddress, signers.alice.address)
-          .add8(50)
-          .encrypt();
+        const encryptedGuess = await gameClient.connect(signers.alice).encrypt(50);
 
         const tx = await secretNumberGameContract
           .connect(signers.alice)
-          .makeGuess(encryptedGuess.handles[0], encryptedGuess.inputProof);
+          .makeGuess(encryptedGuess.handle, encryptedGuess.inputProof);
 
         const receipt = await tx.wait();
-        const event = receipt?.logs.find((log: any) => log.fragment && log.fragment.name === "GuessMade");
-        if (event && "args" in event) {
-          const requestId = event.args[2];
+        const requestId = getGuessRequestId(secretNumberGameContract, receipt);
+        if (requestId !== undefined) {
           await waitForDecryptionAndCallback(secretNumberGameContract, requestId);
         }
       }
 
       // Bob makes 3 guesses
       for (let i = 0; i < 3; i++) {
-        const encryptedGuess = await fhevm
-          .createEncryptedInput(secretNumberGameContractAddress, signers.bob.address)
-          .add8(60)
-          .encrypt();
+        const encryptedGuess = await gameClient.connect(signers.bob).encrypt(60);
 
         const tx = await secretNumberGameContract
           .connect(signers.bob)
-          .makeGuess(encryptedGuess.handles[0], encryptedGuess.inputProof);
+          .makeGuess(encryptedGuess.handle, encryptedGuess.inputProof);
 
         const receipt = await tx.wait();
-        const event = receipt?.logs.find((log: any) => log.fragment && log.fragment.name === "GuessMade");
-        if (event && "args" in event) {
-          const requestId = event.args[2];
+        const requestId = getGuessRequestId(secretNumberGameContract, receipt);
+        if (requestId !== undefined) {
           await waitForDecryptionAndCallback(secretNumberGameContract, requestId);
         }
       }
 
-      const aliceGuesses = await secretNumberGameContract.totalGuesses(signers.alice.address);
-      const bobGuesses = await secretNumberGameContract.totalGuesses(signers.bob.address);
+      const aliceGuesses = await secretNumberGameContract.totalGuesses(1, signers.alice.address);
+      const bobGuesses = await secretNumberGameContract.totalGuesses(1, signers.bob.address);
 
       expect(aliceGuesses).to.eq(2);
       expect(bobGuesses).to.eq(3);
@@ -334,34 +375,22 @@ describe("SecretNumberGame", function () {
 
   describe("Game Statistics", function () {
     beforeEach(async function () {
-      const secretValue = 42;
-      const encryptedSecret = await fhevm
-        .createEncryptedInput(secretNumberGameContractAddress, signers.admin.address)
-        .add8(secretValue)
-        .encrypt();
-
-      await secretNumberGameContract
-        .connect(signers.admin)
-        .setSecretNumber(encryptedSecret.handles[0], encryptedSecret.inputProof);
+      await startRound(42);
     });
 
     it("should return correct stats for player", async function () {
       const guessValue = 42;
-      const encryptedGuess = await fhevm
-        .createEncryptedInput(secretNumberGameContractAddress, signers.alice.address)
-        .add8(guessValue)
-        .encrypt();
+      const encryptedGuess = await gameClient.connect(signers.alice).encrypt(guessValue);
 
       const tx = await secretNumberGameContract
         .connect(signers.alice)
-        .makeGuess(encryptedGuess.handles[0], encryptedGuess.inputProof);
+        .makeGuess(encryptedGuess.handle, encryptedGuess.inputProof);
 
       const receipt = await tx.wait();
 
       // Get requestId and wait for callback
-      const event = receipt?.logs.find((log: any) => log.fragment && log.fragment.name === "GuessMade");
-      if (event && "args" in event) {
-        const requestId = event.args[2];
+      const requestId = getGuessRequestId(secretNumberGameContract, receipt);
+      if (requestId !== undefined) {
         await waitForDecryptionAndCallback(secretNumberGameContract, requestId);
       }
 
@@ -383,15 +412,7 @@ describe("SecretNumberGame", function () {
 
   describe("Reset Game", function () {
     beforeEach(async function () {
-      const secretValue = 42;
-      const encryptedSecret = await fhevm
-        .createEncryptedInput(secretNumberGameContractAddress, signers.admin.address)
-        .add8(secretValue)
-        .encrypt();
-
-      await secretNumberGameContract
-        .connect(signers.admin)
-        .setSecretNumber(encryptedSecret.handles[0], encryptedSecret.inputProof);
+      await startRound(42);
     });
 
     it("admin should be able to reset game", async function () {
@@ -404,57 +425,42 @@ describe("SecretNumberGame", function () {
     });
 
     it("non-admin should not be able to reset game", async function () {
-      await expect(secretNumberGameContract.connect(signers.alice).resetGame()).to.be.revertedWith(
-        "Only admin can reset",
-      );
+      await expect(secretNumberGameContract.connect(signers.alice).resetGame())
+        .to.be.revertedWithCustomError(secretNumberGameContract, "NotGameMaster")
+        .withArgs(signers.alice.address);
     });
 
     it("should deactivate game after reset", async function () {
       await secretNumberGameContract.connect(signers.admin).resetGame();
 
       const guessValue = 42;
-      const encryptedGuess = await fhevm
-        .createEncryptedInput(secretNumberGameContractAddress, signers.alice.address)
-        .add8(guessValue)
-        .encrypt();
+      const encryptedGuess = await gameClient.connect(signers.alice).encrypt(guessValue);
 
       await expect(
-        secretNumberGameContract.connect(signers.alice).makeGuess(encryptedGuess.handles[0], encryptedGuess.inputProof),
-      ).to.be.revertedWith("Game not active");
+        secretNumberGameContract.connect(signers.alice).makeGuess(encryptedGuess.handle, encryptedGuess.inputProof),
+      ).to.be.revertedWithCustomError(secretNumberGameContract, "GameNotActive");
     });
   });
 
   describe("Request Tracking", function () {
     beforeEach(async function () {
-      const secretValue = 42;
-      const encryptedSecret = await fhevm
-        .createEncryptedInput(secretNumberGameContractAddress, signers.admin.address)
-        .add8(secretValue)
-        .encrypt();
-
-      await secretNumberGameContract
-        .connect(signers.admin)
-        .setSecretNumber(encryptedSecret.handles[0], encryptedSecret.inputProof);
+      await startRound(42);
     });
 
     it("should track request player", async function () {
       const guessValue = 50;
-      const encryptedGuess = await fhevm
-        .createEncryptedInput(secretNumberGameContractAddress, signers.alice.address)
-        .add8(guessValue)
-        .encrypt();
+      const encryptedGuess = await gameClient.connect(signers.alice).encrypt(guessValue);
 
       const tx = await secretNumberGameContract
         .connect(signers.alice)
-        .makeGuess(encryptedGuess.handles[0], encryptedGuess.inputProof);
+        .makeGuess(encryptedGuess.handle, encryptedGuess.inputProof);
 
       const receipt = await tx.wait();
 
       // Find the GuessMade event to get the requestId
-      const event = receipt?.logs.find((log: any) => log.fragment && log.fragment.name === "GuessMade");
+      const requestId = getGuessRequestId(secretNumberGameContract, receipt);
 
-      if (event && "args" in event) {
-        const requestId = event.args[2];
+      if (requestId !== undefined) {
         const player = await secretNumberGameContract.getRequestPlayer(requestId);
         expect(player).to.eq(signers.alice.address);
       }
@@ -462,27 +468,1864 @@ describe("SecretNumberGame", function () {
 
     it("should mark request as processed after callback", async function () {
       const guessValue = 42;
-      const encryptedGuess = await fhevm
-        .createEncryptedInput(secretNumberGameContractAddress, signers.alice.address)
-        .add8(guessValue)
-        .encrypt();
+      const encryptedGuess = await gameClient.connect(signers.alice).encrypt(guessValue);
 
       const tx = await secretNumberGameContract
         .connect(signers.alice)
-        .makeGuess(encryptedGuess.handles[0], encryptedGuess.inputProof);
+        .makeGuess(encryptedGuess.handle, encryptedGuess.inputProof);
 
       const receipt = await tx.wait();
 
       // Get requestId and wait for callback
-      const event = receipt?.logs.find((log: any) => log.fragment && log.fragment.name === "GuessMade");
+      const requestId = getGuessRequestId(secretNumberGameContract, receipt);
 
-      if (event && "args" in event) {
-        const requestId = event.args[2];
+      if (requestId !== undefined) {
         await waitForDecryptionAndCallback(secretNumberGameContract, requestId);
 
         const isProcessed = await secretNumberGameContract.isRequestProcessed(requestId);
         expect(isProcessed).to.equal(true);
       }
     });
+
+    it("should emit the result together with its request ID", async function () {
+      const firstRequestId = await guess(signers.alice, 50);
+      const secondRequestId = await guess(signers.alice, 42);
+
+      const fromBlock = await ethers.provider.getBlockNumber();
+      await fhevm.awaitDecryptionOracle();
+
+      const events = await secretNumberGameContract.queryFilter(
+        secretNumberGameContract.filters.GuessResult(signers.alice.address, 1),
+        fromBlock,
+      );
+      const results = events.map((event) => [event.args.requestId, event.args.correct]);
+      expect(results).to.deep.eq([
+        [firstRequestId, false],
+        [secondRequestId, true],
+      ]);
+    });
+  });
+
+  describe("Rounds", function () {
+    it("previous winner should be able to play again after a reset", async function () {
+      await startRound(42);
+      await guessAndWait(signers.alice, 42);
+      expect((await secretNumberGameContract.connect(signers.alice).getMyStats()).won).to.equal(true);
+
+      await secretNumberGameContract.connect(signers.admin).resetGame();
+      await startRound(17);
+
+      const freshStats = await secretNumberGameContract.connect(signers.alice).getMyStats();
+      expect(freshStats.correct).to.equal(false);
+      expect(freshStats.guesses).to.eq(0);
+      expect(freshStats.won).to.equal(false);
+
+      await guessAndWait(signers.alice, 42);
+      await guessAndWait(signers.alice, 17);
+
+      const stats = await secretNumberGameContract.connect(signers.alice).getMyStats();
+      expect(stats.guesses).to.eq(2);
+      expect(stats.won).to.equal(true);
+    });
+
+    it("should keep past round stats queryable", async function () {
+      await startRound(42);
+      await guessAndWait(signers.alice, 10);
+      await guessAndWait(signers.alice, 42);
+
+      await secretNumberGameContract.connect(signers.admin).resetGame();
+      await startRound(17);
+      await guessAndWait(signers.alice, 10);
+
+      const round1 = await secretNumberGameContract.getPlayerStats(1, signers.alice.address);
+      expect(round1.correct).to.equal(true);
+      expect(round1.guesses).to.eq(2);
+      expect(round1.won).to.equal(true);
+
+      const round2 = await secretNumberGameContract.getPlayerStats(2, signers.alice.address);
+      expect(round2.correct).to.equal(false);
+      expect(round2.guesses).to.eq(1);
+      expect(round2.won).to.equal(false);
+    });
+
+    it("should record the round of each request", async function () {
+      await startRound(42);
+      const firstRequestId = await guessAndWait(signers.alice, 10);
+
+      await gameClient.reset();
+      await startRound(17);
+      const secondRequestId = await guessAndWait(signers.alice, 10);
+
+      expect(await secretNumberGameContract.getRequestRound(firstRequestId)).to.eq(1);
+      expect(await secretNumberGameContract.getRequestRound(secondRequestId)).to.eq(2);
+    });
+
+    it("should emit the round with reset events", async function () {
+      await startRound(42);
+
+      await expect(secretNumberGameContract.connect(signers.admin).resetGame())
+        .to.emit(secretNumberGameContract, "GameReset")
+        .withArgs(1, anyValue);
+    });
+  });
+
+  describe("Hints", function () {
+    async function decryptHint(player: HardhatEthersSigner, requestId: bigint) {
+      const hintHandle = await secretNumberGameContract.getRequestHint(requestId);
+      return fhevm.userDecryptEuint(FhevmType.euint8, hintHandle, secretNumberGameContractAddress, player);
+    }
+
+    it("should have hints disabled by default", async function () {
+      expect(await secretNumberGameContract.hintsEnabled()).to.equal(false);
+    });
+
+    it("admin should be able to enable hints between rounds", async function () {
+      await expect(secretNumberGameContract.connect(signers.admin).setHintMode(true))
+        .to.emit(secretNumberGameContract, "HintModeChanged")
+        .withArgs(true);
+
+      expect(await secretNumberGameContract.hintsEnabled()).to.equal(true);
+    });
+
+    it("non-admin should not be able to change hint mode", async function () {
+      await expect(secretNumberGameContract.connect(signers.alice).setHintMode(true))
+        .to.be.revertedWithCustomError(secretNumberGameContract, "NotAdmin")
+        .withArgs(signers.alice.address);
+    });
+
+    it("should not allow changing hint mode during a round", async function () {
+      await startRound(42);
+
+      await expect(secretNumberGameContract.connect(signers.admin).setHintMode(true)).to.be.revertedWithCustomError(
+        secretNumberGameContract,
+        "RoundInProgress",
+      );
+    });
+
+    it("should tell the player when a guess is too high", async function () {
+      await secretNumberGameContract.connect(signers.admin).setHintMode(true);
+      await startRound(42);
+
+      const requestId = await guess(signers.alice, 50);
+
+      const hint = await decryptHint(signers.alice, requestId);
+      expect(hint).to.eq(await secretNumberGameContract.HINT_TOO_HIGH());
+    });
+
+    it("should tell the player when a guess is too low", async function () {
+      await secretNumberGameContract.connect(signers.admin).setHintMode(true);
+      await startRound(42);
+
+      const requestId = await guess(signers.alice, 30);
+
+      const hint = await decryptHint(signers.alice, requestId);
+      expect(hint).to.eq(await secretNumberGameContract.HINT_TOO_LOW());
+    });
+
+    it("should report a correct guess as neither too high nor too low", async function () {
+      await secretNumberGameContract.connect(signers.admin).setHintMode(true);
+      await startRound(42);
+
+      const requestId = await guess(signers.alice, 42);
+
+      const hint = await decryptHint(signers.alice, requestId);
+      expect(hint).to.eq(await secretNumberGameContract.HINT_CORRECT());
+    });
+
+    it("other players should not be able to decrypt a player's hint", async function () {
+      await secretNumberGameContract.connect(signers.admin).setHintMode(true);
+      await startRound(42);
+
+      const requestId = await guess(signers.alice, 50);
+
+      await expect(decryptHint(signers.bob, requestId)).to.be.rejected;
+    });
+
+    it("should not produce a hint when hints are disabled", async function () {
+      await startRound(42);
+
+      const requestId = await guess(signers.alice, 50);
+
+      expect(await secretNumberGameContract.getRequestHint(requestId)).to.eq(ethers.ZeroHash);
+    });
+  });
+
+  describe("Prize Pool", function () {
+    const fee = ethers.parseEther("0.01");
+
+    it("admin should be able to set the guess fee between rounds", async function () {
+      await expect(secretNumberGameContract.connect(signers.admin).setGuessFee(fee))
+        .to.emit(secretNumberGameContract, "GuessFeeChanged")
+        .withArgs(fee);
+
+      expect(await secretNumberGameContract.guessFee()).to.eq(fee);
+    });
+
+    it("non-admin should not be able to set the guess fee", async function () {
+      await expect(secretNumberGameContract.connect(signers.alice).setGuessFee(fee))
+        .to.be.revertedWithCustomError(secretNumberGameContract, "NotAdmin")
+        .withArgs(signers.alice.address);
+    });
+
+    it("should not allow changing the guess fee during a round", async function () {
+      await startRound(42);
+
+      await expect(secretNumberGameContract.connect(signers.admin).setGuessFee(fee)).to.be.revertedWithCustomError(
+        secretNumberGameContract,
+        "RoundInProgress",
+      );
+    });
+
+    it("should reject guesses that do not pay the exact fee", async function () {
+      await secretNumberGameContract.connect(signers.admin).setGuessFee(fee);
+      await startRound(42);
+
+      const encryptedGuess = await gameClient.connect(signers.alice).encrypt(50);
+
+      await expect(
+        secretNumberGameContract
+          .connect(signers.alice)
+          .makeGuess(encryptedGuess.handle, encryptedGuess.inputProof, { value: fee - 1n }),
+      )
+        .to.be.revertedWithCustomError(secretNumberGameContract, "IncorrectGuessFee")
+        .withArgs(fee - 1n, fee);
+    });
+
+    it("should collect fees into the pool", async function () {
+      await secretNumberGameContract.connect(signers.admin).setGuessFee(fee);
+      await startRound(42);
+
+      await guessAndWait(signers.alice, 50, fee);
+      await guessAndWait(signers.bob, 60, fee);
+
+      const poolInfo = await secretNumberGameContract.getPoolInfo();
+      expect(poolInfo.pool).to.eq(fee * 2n);
+      expect(poolInfo.winner).to.eq(ethers.ZeroAddress);
+      expect(await ethers.provider.getBalance(secretNumberGameContractAddress)).to.eq(fee * 2n);
+    });
+
+    it("should award the pool to the first correct guesser", async function () {
+      await secretNumberGameContract.connect(signers.admin).setGuessFee(fee);
+      await startRound(42);
+
+      await guessAndWait(signers.alice, 50, fee);
+      await guessAndWait(signers.bob, 42, fee);
+      await guessAndWait(signers.alice, 42, fee);
+
+      expect(await secretNumberGameContract.roundWinners(1)).to.eq(signers.bob.address);
+      expect(await secretNumberGameContract.pendingPrizes(signers.bob.address)).to.eq(fee * 2n);
+      expect(await secretNumberGameContract.pendingPrizes(signers.alice.address)).to.eq(0);
+
+      // Alice's late winning fee stays in the pool for the next round
+      expect(await secretNumberGameContract.prizePool()).to.eq(fee);
+    });
+
+    it("winner should be able to claim the prize", async function () {
+      await secretNumberGameContract.connect(signers.admin).setGuessFee(fee);
+      await startRound(42);
+
+      await guessAndWait(signers.alice, 50, fee);
+      await guessAndWait(signers.bob, 42, fee);
+
+      const tx = secretNumberGameContract.connect(signers.bob).claimPrize();
+      await expect(tx)
+        .to.emit(secretNumberGameContract, "PrizeClaimed")
+        .withArgs(signers.bob.address, fee * 2n);
+      await expect(tx).to.changeEtherBalances([signers.bob, secretNumberGameContract], [fee * 2n, -(fee * 2n)]);
+
+      expect(await secretNumberGameContract.pendingPrizes(signers.bob.address)).to.eq(0);
+    });
+
+    it("should revert when there is no prize to claim", async function () {
+      await expect(secretNumberGameContract.connect(signers.alice).claimPrize())
+        .to.be.revertedWithCustomError(secretNumberGameContract, "NoPrizeToClaim")
+        .withArgs(signers.alice.address);
+    });
+
+    it("should roll an unwon pool over into the next round", async function () {
+      await secretNumberGameContract.connect(signers.admin).setGuessFee(fee);
+      await startRound(42);
+      await guessAndWait(signers.alice, 50, fee);
+
+      await secretNumberGameContract.connect(signers.admin).resetGame();
+      await startRound(17);
+      await guessAndWait(signers.bob, 17, fee);
+
+      expect(await secretNumberGameContract.pendingPrizes(signers.bob.address)).to.eq(fee * 2n);
+    });
+
+    it("should refund the fee when the game is inactive", async function () {
+      await secretNumberGameContract.connect(signers.admin).setGuessFee(fee);
+
+      const encryptedGuess = await gameClient.connect(signers.alice).encrypt(42);
+
+      const balanceBefore = await ethers.provider.getBalance(signers.alice.address);
+
+      await expect(
+        secretNumberGameContract
+          .connect(signers.alice)
+          .makeGuess(encryptedGuess.handle, encryptedGuess.inputProof, { value: fee }),
+      ).to.be.revertedWithCustomError(secretNumberGameContract, "GameNotActive");
+
+      // Only gas was spent, the fee itself came back with the revert
+      const balanceAfter = await ethers.provider.getBalance(signers.alice.address);
+      expect(balanceBefore - balanceAfter).to.be.lessThan(fee);
+      expect(await ethers.provider.getBalance(secretNumberGameContractAddress)).to.eq(0);
+      expect(await secretNumberGameContract.prizePool()).to.eq(0);
+    });
+
+    it("should not pay out twice to a re-entrant receiver", async function () {
+      const claimerFactory = await ethers.getContractFactory("ReentrantPrizeClaimer");
+      const claimer = (await claimerFactory.deploy(secretNumberGameContractAddress)) as ReentrantPrizeClaimer;
+      const claimerAddress = await claimer.getAddress();
+
+      await secretNumberGameContract.connect(signers.admin).setGuessFee(fee);
+      await startRound(42);
+
+      // Seed the pool with an honest guess, then let the attacker win it
+      await guessAndWait(signers.alice, 50, fee);
+
+      const encryptedGuess = await fhevm
+        .createEncryptedInput(secretNumberGameContractAddress, claimerAddress)
+        .add8(42)
+        .encrypt();
+      const tx = await claimer
+        .connect(signers.bob)
+        .guess(encryptedGuess.handles[0], encryptedGuess.inputProof, { value: fee });
+      await tx.wait();
+      await fhevm.awaitDecryptionOracle();
+
+      expect(await secretNumberGameContract.pendingPrizes(claimerAddress)).to.eq(fee * 2n);
+
+      // Leave extra funds in the contract that a successful re-entry could steal
+      await guessAndWait(signers.alice, 60, fee);
+
+      await expect(claimer.claim()).to.changeEtherBalances(
+        [claimer, secretNumberGameContract],
+        [fee * 2n, -(fee * 2n)],
+      );
+
+      expect(await claimer.reentryAttempts()).to.eq(1);
+      expect(await claimer.reentrySuccesses()).to.eq(0);
+      expect(await ethers.provider.getBalance(secretNumberGameContractAddress)).to.eq(fee);
+    });
+  });
+
+  describe("Game Settings", function () {
+    it("should default to the 1-100 range with unlimited guesses", async function () {
+      const settings = await secretNumberGameContract.getGameSettings();
+      expect(settings.min).to.eq(1);
+      expect(settings.max).to.eq(100);
+      expect(settings.maxGuesses).to.eq(0);
+    });
+
+    it("admin should be able to configure the game between rounds", async function () {
+      await expect(secretNumberGameContract.connect(signers.admin).configureGame(10, 20, 3))
+        .to.emit(secretNumberGameContract, "GameConfigured")
+        .withArgs(10, 20, 3);
+
+      const settings = await secretNumberGameContract.getGameSettings();
+      expect(settings.min).to.eq(10);
+      expect(settings.max).to.eq(20);
+      expect(settings.maxGuesses).to.eq(3);
+    });
+
+    it("non-admin should not be able to configure the game", async function () {
+      await expect(secretNumberGameContract.connect(signers.alice).configureGame(10, 20, 3))
+        .to.be.revertedWithCustomError(secretNumberGameContract, "NotAdmin")
+        .withArgs(signers.alice.address);
+    });
+
+    it("should not allow configuring the game during a round", async function () {
+      await startRound(42);
+
+      await expect(
+        secretNumberGameContract.connect(signers.admin).configureGame(10, 20, 3),
+      ).to.be.revertedWithCustomError(secretNumberGameContract, "RoundInProgress");
+    });
+
+    it("should reject an empty range", async function () {
+      await expect(secretNumberGameContract.connect(signers.admin).configureGame(20, 10, 0))
+        .to.be.revertedWithCustomError(secretNumberGameContract, "InvalidRange")
+        .withArgs(20, 10);
+    });
+
+    it("should accept a correct guess inside a custom range", async function () {
+      await secretNumberGameContract.connect(signers.admin).configureGame(10, 20, 0);
+      await startRound(15);
+
+      await guessAndWait(signers.alice, 15);
+
+      const stats = await secretNumberGameContract.connect(signers.alice).getMyStats();
+      expect(stats.won).to.equal(true);
+    });
+
+    it("should treat out-of-range guesses as misses even when they match the secret", async function () {
+      await secretNumberGameContract.connect(signers.admin).configureGame(1, 50, 0);
+      await startRound(60);
+
+      await guessAndWait(signers.alice, 60);
+      await guessAndWait(signers.bob, 0);
+
+      const aliceStats = await secretNumberGameContract.connect(signers.alice).getMyStats();
+      expect(aliceStats.correct).to.equal(false);
+      expect(aliceStats.guesses).to.eq(1);
+      expect(aliceStats.won).to.equal(false);
+
+      const bobStats = await secretNumberGameContract.connect(signers.bob).getMyStats();
+      expect(bobStats.correct).to.equal(false);
+    });
+
+    it("should revert once a player's guess limit is reached", async function () {
+      await secretNumberGameContract.connect(signers.admin).configureGame(1, 100, 2);
+      await startRound(42);
+
+      await guessAndWait(signers.alice, 10);
+      await guessAndWait(signers.alice, 20);
+
+      const encryptedGuess = await gameClient.connect(signers.alice).encrypt(42);
+
+      await expect(
+        secretNumberGameContract.connect(signers.alice).makeGuess(encryptedGuess.handle, encryptedGuess.inputProof),
+      )
+        .to.be.revertedWithCustomError(secretNumberGameContract, "GuessLimitReached")
+        .withArgs(signers.alice.address, 2);
+
+      // Other players keep their own allowance
+      await guessAndWait(signers.bob, 42);
+      expect((await secretNumberGameContract.connect(signers.bob).getMyStats()).won).to.equal(true);
+    });
+
+    it("should restore the guess allowance in a new round", async function () {
+      await secretNumberGameContract.connect(signers.admin).configureGame(1, 100, 1);
+      await startRound(42);
+      await guessAndWait(signers.alice, 10);
+
+      await secretNumberGameContract.connect(signers.admin).resetGame();
+      await startRound(42);
+      await guessAndWait(signers.alice, 42);
+
+      expect((await secretNumberGameContract.connect(signers.alice).getMyStats()).won).to.equal(true);
+    });
+  });
+
+  describe("Secret Reveal", function () {
+    it("admin should be able to end the round and reveal the secret", async function () {
+      await startRound(42);
+
+      const tx = await secretNumberGameContract.connect(signers.admin).endRound();
+      await expect(tx).to.emit(secretNumberGameContract, "GameReset").withArgs(1, anyValue);
+      await expect(tx).to.emit(secretNumberGameContract, "SecretRevealRequested");
+      expect(await secretNumberGameContract.getGameStatus()).to.equal(false);
+
+      await fhevm.awaitDecryptionOracle();
+
+      const reveal = await secretNumberGameContract.getRevealedSecret(1);
+      expect(reveal.revealed).to.equal(true);
+      expect(reveal.value).to.eq(42);
+      expect(reveal.inRange).to.equal(true);
+    });
+
+    it("should emit SecretRevealed from the oracle callback", async function () {
+      await startRound(42);
+      await secretNumberGameContract.connect(signers.admin).endRound();
+
+      await fhevm.awaitDecryptionOracle();
+
+      const events = await secretNumberGameContract.queryFilter(secretNumberGameContract.filters.SecretRevealed(1));
+      expect(events.length).to.eq(1);
+      expect(events[0].args.value).to.eq(42);
+    });
+
+    it("should detect a revealed secret outside the configured range", async function () {
+      await secretNumberGameContract.connect(signers.admin).configureGame(1, 50, 0);
+      await startRound(0);
+      await secretNumberGameContract.connect(signers.admin).endRound();
+
+      await fhevm.awaitDecryptionOracle();
+
+      const reveal = await secretNumberGameContract.getRevealedSecret(1);
+      expect(reveal.revealed).to.equal(true);
+      expect(reveal.value).to.eq(0);
+      expect(reveal.inRange).to.equal(false);
+    });
+
+    it("should judge the reveal against the range the round was played under", async function () {
+      await secretNumberGameContract.connect(signers.admin).configureGame(1, 50, 0);
+      await startRound(60);
+      await secretNumberGameContract.connect(signers.admin).endRound();
+
+      // Widening the range afterwards must not make the round look fair
+      await secretNumberGameContract.connect(signers.admin).configureGame(1, 100, 0);
+      await fhevm.awaitDecryptionOracle();
+
+      const reveal = await secretNumberGameContract.getRevealedSecret(1);
+      expect(reveal.value).to.eq(60);
+      expect(reveal.inRange).to.equal(false);
+    });
+
+    it("should not reveal anything before the round ends", async function () {
+      await startRound(42);
+
+      const reveal = await secretNumberGameContract.getRevealedSecret(1);
+      expect(reveal.revealed).to.equal(false);
+      expect(reveal.value).to.eq(0);
+    });
+
+    it("should reveal the secret of a round ended by a reset", async function () {
+      await startRound(42);
+
+      const tx = await secretNumberGameContract.connect(signers.admin).resetGame();
+      await expect(tx).to.emit(secretNumberGameContract, "SecretRevealRequested");
+      // Resetting again requests nothing more
+      await expect(secretNumberGameContract.connect(signers.admin).resetGame()).not.to.emit(
+        secretNumberGameContract,
+        "SecretRevealRequested",
+      );
+
+      await fhevm.awaitDecryptionOracle();
+
+      const reveal = await secretNumberGameContract.getRevealedSecret(1);
+      expect(reveal.revealed).to.equal(true);
+      expect(reveal.value).to.eq(42);
+      expect(reveal.inRange).to.equal(true);
+    });
+
+    it("should reveal the secret of a round closed after its deadline", async function () {
+      await gameClient.setSecret(42, 60);
+      await time.increase(60);
+
+      await expect(secretNumberGameContract.connect(signers.bob).closeExpiredRound()).to.emit(
+        secretNumberGameContract,
+        "SecretRevealRequested",
+      );
+      await fhevm.awaitDecryptionOracle();
+
+      const reveal = await secretNumberGameContract.getRevealedSecret(1);
+      expect(reveal.revealed).to.equal(true);
+      expect(reveal.value).to.eq(42);
+    });
+
+    it("non-admin should not be able to end the round", async function () {
+      await startRound(42);
+
+      await expect(secretNumberGameContract.connect(signers.alice).endRound())
+        .to.be.revertedWithCustomError(secretNumberGameContract, "NotGameMaster")
+        .withArgs(signers.alice.address);
+    });
+
+    it("should not end a round that is not active", async function () {
+      await expect(secretNumberGameContract.connect(signers.admin).endRound()).to.be.revertedWithCustomError(
+        secretNumberGameContract,
+        "GameNotActive",
+      );
+
+      await startRound(42);
+      await secretNumberGameContract.connect(signers.admin).endRound();
+
+      await expect(secretNumberGameContract.connect(signers.admin).endRound()).to.be.revertedWithCustomError(
+        secretNumberGameContract,
+        "GameNotActive",
+      );
+    });
+  });
+
+  describe("Leaderboard", function () {
+    it("should start empty", async function () {
+      expect(await secretNumberGameContract.getWinnerCount()).to.eq(0);
+      expect(await secretNumberGameContract.getWinners(0, 10)).to.deep.eq([]);
+    });
+
+    it("should record winners in order with their guess count", async function () {
+      await startRound(42);
+      await guessAndWait(signers.alice, 10);
+      await guessAndWait(signers.bob, 42);
+      await guessAndWait(signers.alice, 42);
+
+      expect(await secretNumberGameContract.getWinnerCount()).to.eq(2);
+
+      const winners = await secretNumberGameContract.getWinners(0, 10);
+      expect(winners.length).to.eq(2);
+
+      expect(winners[0].player).to.eq(signers.bob.address);
+      expect(winners[0].round).to.eq(1);
+      expect(winners[0].guesses).to.eq(1);
+
+      expect(winners[1].player).to.eq(signers.alice.address);
+      expect(winners[1].round).to.eq(1);
+      expect(winners[1].guesses).to.eq(2);
+
+      const latestBlock = await ethers.provider.getBlock("latest");
+      expect(winners[1].timestamp).to.be.greaterThan(0);
+      expect(winners[1].timestamp).to.be.lessThanOrEqual(latestBlock!.timestamp);
+    });
+
+    it("should not count wrong guesses made after the winning one", async function () {
+      await startRound(42);
+
+      // Both guesses are pending when the oracle resolves them
+      await guess(signers.alice, 42);
+      await guess(signers.alice, 10);
+      await fhevm.awaitDecryptionOracle();
+
+      const winners = await secretNumberGameContract.getWinners(0, 10);
+      expect(winners.length).to.eq(1);
+      expect(winners[0].guesses).to.eq(1);
+    });
+
+    it("should record a player once per round even with several winning guesses in flight", async function () {
+      await startRound(42);
+
+      await guess(signers.alice, 42);
+      await guess(signers.alice, 42);
+      await fhevm.awaitDecryptionOracle();
+
+      expect(await secretNumberGameContract.getWinnerCount()).to.eq(1);
+    });
+
+    it("should record winners across rounds", async function () {
+      await startRound(42);
+      await guessAndWait(signers.alice, 42);
+
+      await secretNumberGameContract.connect(signers.admin).resetGame();
+      await startRound(17);
+      await guessAndWait(signers.alice, 17);
+
+      const winners = await secretNumberGameContract.getWinners(0, 10);
+      expect(winners.map((winner) => winner.round)).to.deep.eq([1n, 2n]);
+    });
+
+    it("should paginate winners", async function () {
+      await startRound(42);
+      await guessAndWait(signers.admin, 42);
+      await guessAndWait(signers.alice, 42);
+      await guessAndWait(signers.bob, 42);
+
+      const firstPage = await secretNumberGameContract.getWinners(0, 2);
+      const secondPage = await secretNumberGameContract.getWinners(2, 2);
+      const pastTheEnd = await secretNumberGameContract.getWinners(3, 2);
+
+      expect(firstPage.map((winner) => winner.player)).to.deep.eq([signers.admin.address, signers.alice.address]);
+      expect(secondPage.map((winner) => winner.player)).to.deep.eq([signers.bob.address]);
+      expect(pastTheEnd.length).to.eq(0);
+    });
+  });
+
+  describe("Roles", function () {
+    it("should report the admin role for the admin only", async function () {
+      const adminRole = await secretNumberGameContract.ADMIN_ROLE();
+
+      expect(await secretNumberGameContract.hasRole(adminRole, signers.admin.address)).to.equal(true);
+      expect(await secretNumberGameContract.hasRole(adminRole, signers.alice.address)).to.equal(false);
+    });
+
+    it("admin should be able to grant and revoke the game master role", async function () {
+      const gameMasterRole = await secretNumberGameContract.GAME_MASTER_ROLE();
+
+      await expect(secretNumberGameContract.connect(signers.admin).grantRole(gameMasterRole, signers.alice.address))
+        .to.emit(secretNumberGameContract, "RoleGranted")
+        .withArgs(gameMasterRole, signers.alice.address, signers.admin.address);
+      expect(await secretNumberGameContract.hasRole(gameMasterRole, signers.alice.address)).to.equal(true);
+
+      await expect(secretNumberGameContract.connect(signers.admin).revokeRole(gameMasterRole, signers.alice.address))
+        .to.emit(secretNumberGameContract, "RoleRevoked")
+        .withArgs(gameMasterRole, signers.alice.address, signers.admin.address);
+      expect(await secretNumberGameContract.hasRole(gameMasterRole, signers.alice.address)).to.equal(false);
+    });
+
+    it("should not emit events for role changes that change nothing", async function () {
+      const gameMasterRole = await secretNumberGameContract.GAME_MASTER_ROLE();
+
+      await expect(
+        secretNumberGameContract.connect(signers.admin).revokeRole(gameMasterRole, signers.alice.address),
+      ).to.not.emit(secretNumberGameContract, "RoleRevoked");
+
+      await secretNumberGameContract.connect(signers.admin).grantRole(gameMasterRole, signers.alice.address);
+      await expect(
+        secretNumberGameContract.connect(signers.admin).grantRole(gameMasterRole, signers.alice.address),
+      ).to.not.emit(secretNumberGameContract, "RoleGranted");
+    });
+
+    it("should reject unknown roles", async function () {
+      const adminRole = await secretNumberGameContract.ADMIN_ROLE();
+
+      await expect(secretNumberGameContract.connect(signers.admin).grantRole(adminRole, signers.alice.address))
+        .to.be.revertedWithCustomError(secretNumberGameContract, "UnknownRole")
+        .withArgs(adminRole);
+    });
+
+    it("non-admin should not be able to grant or revoke roles", async function () {
+      const gameMasterRole = await secretNumberGameContract.GAME_MASTER_ROLE();
+
+      await expect(secretNumberGameContract.connect(signers.alice).grantRole(gameMasterRole, signers.alice.address))
+        .to.be.revertedWithCustomError(secretNumberGameContract, "NotAdmin")
+        .withArgs(signers.alice.address);
+      await expect(secretNumberGameContract.connect(signers.alice).revokeRole(gameMasterRole, signers.admin.address))
+        .to.be.revertedWithCustomError(secretNumberGameContract, "NotAdmin")
+        .withArgs(signers.alice.address);
+    });
+
+    it("game master should be able to start, reset and end rounds", async function () {
+      const gameMasterRole = await secretNumberGameContract.GAME_MASTER_ROLE();
+      await secretNumberGameContract.connect(signers.admin).grantRole(gameMasterRole, signers.bob.address);
+
+      const encryptedSecret = await gameClient.connect(signers.bob).encrypt(42);
+      await expect(
+        secretNumberGameContract
+          .connect(signers.bob)
+          .setSecretNumber(encryptedSecret.handle, encryptedSecret.inputProof, 0),
+      ).to.emit(secretNumberGameContract, "GameStarted");
+
+      await expect(secretNumberGameContract.connect(signers.bob).resetGame()).to.emit(
+        secretNumberGameContract,
+        "GameReset",
+      );
+
+      await startRound(42);
+      await expect(secretNumberGameContract.connect(signers.bob).endRound()).to.emit(
+        secretNumberGameContract,
+        "SecretRevealRequested",
+      );
+    });
+
+    it("game master should not be able to change settings or roles", async function () {
+      const gameMasterRole = await secretNumberGameContract.GAME_MASTER_ROLE();
+      await secretNumberGameContract.connect(signers.admin).grantRole(gameMasterRole, signers.bob.address);
+
+      await expect(secretNumberGameContract.connect(signers.bob).configureGame(1, 10, 0))
+        .to.be.revertedWithCustomError(secretNumberGameContract, "NotAdmin")
+        .withArgs(signers.bob.address);
+      await expect(secretNumberGameContract.connect(signers.bob).setGuessFee(1))
+        .to.be.revertedWithCustomError(secretNumberGameContract, "NotAdmin")
+        .withArgs(signers.bob.address);
+      await expect(secretNumberGameContract.connect(signers.bob).grantRole(gameMasterRole, signers.alice.address))
+        .to.be.revertedWithCustomError(secretNumberGameContract, "NotAdmin")
+        .withArgs(signers.bob.address);
+      await expect(secretNumberGameContract.connect(signers.bob).transferAdmin(signers.bob.address))
+        .to.be.revertedWithCustomError(secretNumberGameContract, "NotAdmin")
+        .withArgs(signers.bob.address);
+    });
+
+    it("revoked game master should lose access", async function () {
+      const gameMasterRole = await secretNumberGameContract.GAME_MASTER_ROLE();
+      await secretNumberGameContract.connect(signers.admin).grantRole(gameMasterRole, signers.bob.address);
+      await secretNumberGameContract.connect(signers.admin).revokeRole(gameMasterRole, signers.bob.address);
+
+      await startRound(42);
+      await expect(secretNumberGameContract.connect(signers.bob).resetGame())
+        .to.be.revertedWithCustomError(secretNumberGameContract, "NotGameMaster")
+        .withArgs(signers.bob.address);
+    });
+  });
+
+  describe("Admin Transfer", function () {
+    it("should hand over the admin role in two steps", async function () {
+      const adminRole = await secretNumberGameContract.ADMIN_ROLE();
+
+      await expect(secretNumberGameContract.connect(signers.admin).transferAdmin(signers.alice.address))
+        .to.emit(secretNumberGameContract, "AdminTransferStarted")
+        .withArgs(signers.admin.address, signers.alice.address);
+
+      // Nothing changes until the new admin accepts
+      expect(await secretNumberGameContract.admin()).to.eq(signers.admin.address);
+      expect(await secretNumberGameContract.pendingAdmin()).to.eq(signers.alice.address);
+
+      const tx = secretNumberGameContract.connect(signers.alice).acceptAdmin();
+      await expect(tx)
+        .to.emit(secretNumberGameContract, "RoleRevoked")
+        .withArgs(adminRole, signers.admin.address, signers.alice.address);
+      await expect(tx)
+        .to.emit(secretNumberGameContract, "RoleGranted")
+        .withArgs(adminRole, signers.alice.address, signers.alice.address);
+
+      expect(await secretNumberGameContract.admin()).to.eq(signers.alice.address);
+      expect(await secretNumberGameContract.pendingAdmin()).to.eq(ethers.ZeroAddress);
+
+      // The previous admin has no privileges left
+      await expect(secretNumberGameContract.connect(signers.admin).setGuessFee(1))
+        .to.be.revertedWithCustomError(secretNumberGameContract, "NotAdmin")
+        .withArgs(signers.admin.address);
+    });
+
+    it("only the pending admin should be able to accept", async function () {
+      await secretNumberGameContract.connect(signers.admin).transferAdmin(signers.alice.address);
+
+      await expect(secretNumberGameContract.connect(signers.bob).acceptAdmin())
+        .to.be.revertedWithCustomError(secretNumberGameContract, "NotPendingAdmin")
+        .withArgs(signers.bob.address);
+    });
+
+    it("should reject the zero address as new admin", async function () {
+      await expect(
+        secretNumberGameContract.connect(signers.admin).transferAdmin(ethers.ZeroAddress),
+      ).to.be.revertedWithCustomError(secretNumberGameContract, "InvalidAdmin");
+    });
+
+    it("admin should be able to cancel a pending transfer", async function () {
+      await secretNumberGameContract.connect(signers.admin).transferAdmin(signers.alice.address);
+
+      await expect(secretNumberGameContract.connect(signers.admin).cancelAdminTransfer())
+        .to.emit(secretNumberGameContract, "AdminTransferCancelled")
+        .withArgs(signers.admin.address, signers.alice.address);
+
+      expect(await secretNumberGameContract.pendingAdmin()).to.eq(ethers.ZeroAddress);
+      await expect(secretNumberGameContract.connect(signers.alice).acceptAdmin())
+        .to.be.revertedWithCustomError(secretNumberGameContract, "NotPendingAdmin")
+        .withArgs(signers.alice.address);
+      expect(await secretNumberGameContract.admin()).to.eq(signers.admin.address);
+    });
+
+    it("should not cancel when no transfer is pending", async function () {
+      await expect(secretNumberGameContract.connect(signers.admin).cancelAdminTransfer()).to.be.revertedWithCustomError(
+        secretNumberGameContract,
+        "NoPendingTransfer",
+      );
+    });
+
+    it("non-admin should not be able to cancel a pending transfer", async function () {
+      await secretNumberGameContract.connect(signers.admin).transferAdmin(signers.alice.address);
+
+      await expect(secretNumberGameContract.connect(signers.alice).cancelAdminTransfer())
+        .to.be.revertedWithCustomError(secretNumberGameContract, "NotAdmin")
+        .withArgs(signers.alice.address);
+    });
+
+    it("a newer transfer should replace the pending one", async function () {
+      await secretNumberGameContract.connect(signers.admin).transferAdmin(signers.alice.address);
+      await secretNumberGameContract.connect(signers.admin).transferAdmin(signers.bob.address);
+
+      await expect(secretNumberGameContract.connect(signers.alice).acceptAdmin())
+        .to.be.revertedWithCustomError(secretNumberGameContract, "NotPendingAdmin")
+        .withArgs(signers.alice.address);
+      await secretNumberGameContract.connect(signers.bob).acceptAdmin();
+      expect(await secretNumberGameContract.admin()).to.eq(signers.bob.address);
+    });
+  });
+
+  describe("Decryption Timeout", function () {
+    const fee = ethers.parseEther("0.01");
+
+    // The oracle is never run between the guess and the timeout, as if its callback never arrived
+    async function guessAndTimeOut(player: HardhatEthersSigner, guessValue: number, value: bigint = 0n) {
+      const requestId = await guess(player, guessValue, value);
+      await mine(await secretNumberGameContract.DECRYPTION_TIMEOUT_BLOCKS());
+      return requestId;
+    }
+
+    it("should record the block and fee of each request", async function () {
+      await secretNumberGameContract.connect(signers.admin).setGuessFee(fee);
+      await startRound(42);
+
+      const requestId = await guess(signers.alice, 50, fee);
+      const blockNumber = await ethers.provider.getBlockNumber();
+
+      expect(await secretNumberGameContract.requestBlocks(requestId)).to.eq(blockNumber);
+      expect(await secretNumberGameContract.requestFees(requestId)).to.eq(fee);
+      expect(await secretNumberGameContract.getPlayerRequests(signers.alice.address)).to.deep.eq([requestId]);
+    });
+
+    it("should hold the fee out of the pool until the result arrives", async function () {
+      await secretNumberGameContract.connect(signers.admin).setGuessFee(fee);
+      await startRound(42);
+
+      const requestId = await guess(signers.alice, 50, fee);
+      expect(await secretNumberGameContract.prizePool()).to.eq(0);
+
+      await waitForDecryptionAndCallback(secretNumberGameContract, requestId);
+      expect(await secretNumberGameContract.prizePool()).to.eq(fee);
+      expect(await secretNumberGameContract.requestFees(requestId)).to.eq(0);
+    });
+
+    it("should not allow cancelling before the timeout", async function () {
+      await startRound(42);
+      const requestId = await guess(signers.alice, 50);
+
+      await expect(secretNumberGameContract.connect(signers.alice).cancelRequest(requestId, true))
+        .to.be.revertedWithCustomError(secretNumberGameContract, "RequestNotTimedOut")
+        .withArgs(requestId, anyValue);
+      await expect(secretNumberGameContract.connect(signers.alice).retryRequest(requestId))
+        .to.be.revertedWithCustomError(secretNumberGameContract, "RequestNotTimedOut")
+        .withArgs(requestId, anyValue);
+    });
+
+    it("should only let the guessing player cancel or retry", async function () {
+      await startRound(42);
+      const requestId = await guessAndTimeOut(signers.alice, 50);
+
+      await expect(secretNumberGameContract.connect(signers.bob).cancelRequest(requestId, true))
+        .to.be.revertedWithCustomError(secretNumberGameContract, "NotRequestOwner")
+        .withArgs(requestId, signers.bob.address);
+      await expect(secretNumberGameContract.connect(signers.bob).retryRequest(requestId))
+        .to.be.revertedWithCustomError(secretNumberGameContract, "NotRequestOwner")
+        .withArgs(requestId, signers.bob.address);
+    });
+
+    it("should not cancel a request that was already processed", async function () {
+      await startRound(42);
+      const requestId = await guessAndWait(signers.alice, 50);
+      await mine(await secretNumberGameContract.DECRYPTION_TIMEOUT_BLOCKS());
+
+      await expect(secretNumberGameContract.connect(signers.alice).cancelRequest(requestId, true))
+        .to.be.revertedWithCustomError(secretNumberGameContract, "RequestAlreadyProcessed")
+        .withArgs(requestId);
+    });
+
+    it("should refund the fee and take back the guess on cancel", async function () {
+      await secretNumberGameContract.connect(signers.admin).setGuessFee(fee);
+      await startRound(42);
+      const requestId = await guessAndTimeOut(signers.alice, 42, fee);
+
+      const tx = secretNumberGameContract.connect(signers.alice).cancelRequest(requestId, true);
+      await expect(tx)
+        .to.emit(secretNumberGameContract, "RequestCancelled")
+        .withArgs(signers.alice.address, requestId, fee, true);
+      await expect(tx).to.changeEtherBalances([signers.alice, secretNumberGameContract], [fee, -fee]);
+
+      const stats = await secretNumberGameContract.connect(signers.alice).getMyStats();
+      expect(stats.guesses).to.eq(0);
+      expect(await secretNumberGameContract.isRequestProcessed(requestId)).to.eq(true);
+      expect(await secretNumberGameContract.cancelledRequests(requestId)).to.eq(true);
+
+      // A result arriving after the cancel is ignored, even a winning one
+      await fhevm.awaitDecryptionOracle();
+      const statsAfter = await secretNumberGameContract.connect(signers.alice).getMyStats();
+      expect(statsAfter.won).to.eq(false);
+      expect(await secretNumberGameContract.prizePool()).to.eq(0);
+      expect(await secretNumberGameContract.roundWinners(1)).to.eq(ethers.ZeroAddress);
+    });
+
+    it("should keep the guess counted when not restoring it", async function () {
+      await secretNumberGameContract.connect(signers.admin).configureGame(1, 100, 1);
+      await startRound(42);
+      const requestId = await guessAndTimeOut(signers.alice, 50);
+
+      await secretNumberGameContract.connect(signers.alice).cancelRequest(requestId, false);
+
+      const stats = await secretNumberGameContract.connect(signers.alice).getMyStats();
+      expect(stats.guesses).to.eq(1);
+      await expect(guess(signers.alice, 42))
+        .to.be.revertedWithCustomError(secretNumberGameContract, "GuessLimitReached")
+        .withArgs(signers.alice.address, 1);
+
+      await fhevm.awaitDecryptionOracle();
+    });
+
+    it("should re-request decryption of the stored result on retry", async function () {
+      await secretNumberGameContract.connect(signers.admin).setGuessFee(fee);
+      await startRound(42);
+      const requestId = await guessAndTimeOut(signers.alice, 42, fee);
+
+      const tx = await secretNumberGameContract.connect(signers.alice).retryRequest(requestId);
+      const receipt = await tx.wait();
+      const retried = receipt!.logs
+        .map((log) => secretNumberGameContract.interface.parseLog(log))
+        .find((parsed) => parsed?.name === "DecryptionRetried");
+      const newRequestId: bigint = retried!.args.newRequestId;
+
+      expect(newRequestId).to.not.eq(requestId);
+      expect(await secretNumberGameContract.getRequestPlayer(newRequestId)).to.eq(signers.alice.address);
+      expect(await secretNumberGameContract.requestFees(newRequestId)).to.eq(fee);
+      expect(await secretNumberGameContract.requestFees(requestId)).to.eq(0);
+      expect(await secretNumberGameContract.getPlayerRequests(signers.alice.address)).to.deep.eq([
+        requestId,
+        newRequestId,
+      ]);
+
+      // Both the stale and the new request reach the oracle; only the new one counts
+      await waitForDecryptionAndCallback(secretNumberGameContract, newRequestId);
+
+      const stats = await secretNumberGameContract.connect(signers.alice).getMyStats();
+      expect(stats.won).to.eq(true);
+      expect(stats.guesses).to.eq(1);
+      expect(await secretNumberGameContract.pendingPrizes(signers.alice.address)).to.eq(fee);
+      expect(await secretNumberGameContract.getWinnerCount()).to.eq(1);
+    });
+
+    it("should refund a result that arrives after a later round opened, without paying it the pool", async function () {
+      await secretNumberGameContract.connect(signers.admin).setGuessFee(fee);
+      await startRound(42);
+      const requestId = await guessAndTimeOut(signers.alice, 42, fee);
+
+      await gameClient.reset();
+      await startRound(17);
+      await guess(signers.bob, 50, fee);
+      const newRequestId = await secretNumberGameContract.connect(signers.alice).retryRequest.staticCall(requestId);
+      await secretNumberGameContract.connect(signers.alice).retryRequest(requestId);
+
+      // Bob's round-2 fee and Alice's late round-1 win resolve together
+      await fhevm.awaitDecryptionOracle();
+
+      const [refund] = await secretNumberGameContract.queryFilter(
+        secretNumberGameContract.filters.LateResultRefunded(),
+      );
+      expect(refund.args).to.deep.eq([signers.alice.address, newRequestId, fee]);
+      expect(await secretNumberGameContract.pendingPrizes(signers.alice.address)).to.eq(fee);
+      expect(await secretNumberGameContract.prizePool()).to.eq(fee);
+      expect(await secretNumberGameContract.roundWinners(1)).to.eq(ethers.ZeroAddress);
+
+      // The win itself still counts
+      expect(await gameClient.stats(signers.alice.address, 1n)).to.include({ won: true });
+      expect(await secretNumberGameContract.getWinnerCount()).to.eq(1);
+    });
+
+    it("should not retry a cancelled request", async function () {
+      await startRound(42);
+      const requestId = await guessAndTimeOut(signers.alice, 50);
+      await secretNumberGameContract.connect(signers.alice).cancelRequest(requestId, true);
+
+      await expect(secretNumberGameContract.connect(signers.alice).retryRequest(requestId))
+        .to.be.revertedWithCustomError(secretNumberGameContract, "RequestAlreadyProcessed")
+        .withArgs(requestId);
+
+      await fhevm.awaitDecryptionOracle();
+    });
+  });
+
+  describe("Round Deadline", function () {
+    const duration = 60;
+
+    // Opens a round that accepts guesses for `duration` seconds and returns its deadline
+    async function startTimedRound(secretValue: number) {
+      await gameClient.setSecret(secretValue, duration);
+      return secretNumberGameContract.getRoundDeadline(await secretNumberGameContract.getCurrentRound());
+    }
+
+    it("should not set a deadline by default", async function () {
+      await startRound(42);
+
+      expect(await secretNumberGameContract.getRoundDeadline(1)).to.eq(0);
+      expect(await secretNumberGameContract.getTimeRemaining()).to.deep.eq([false, 0n]);
+      await expect(secretNumberGameContract.connect(signers.alice).closeExpiredRound())
+        .to.be.revertedWithCustomError(secretNumberGameContract, "NoRoundDeadline")
+        .withArgs(1);
+    });
+
+    it("should set the deadline from the round duration", async function () {
+      const { handle, inputProof } = await gameClient.encrypt(42);
+      const tx = await secretNumberGameContract.connect(signers.admin).setSecretNumber(handle, inputProof, duration);
+      const startedAt = (await ethers.provider.getBlock((await tx.wait())!.blockNumber))!.timestamp;
+
+      await expect(tx)
+        .to.emit(secretNumberGameContract, "GameStarted")
+        .withArgs(1, startedAt, startedAt + duration);
+      expect(await secretNumberGameContract.getRoundDeadline(1)).to.eq(startedAt + duration);
+      expect(await secretNumberGameContract.getTimeRemaining()).to.deep.eq([true, BigInt(duration)]);
+
+      await time.increase(20);
+      expect(await secretNumberGameContract.getTimeRemaining()).to.deep.eq([true, BigInt(duration - 20)]);
+    });
+
+    it("should accept guesses until the second before the deadline", async function () {
+      const deadline = await startTimedRound(42);
+
+      await time.setNextBlockTimestamp(deadline - 1n);
+      await guess(signers.alice, 50);
+
+      await time.setNextBlockTimestamp(deadline);
+      await expect(guess(signers.bob, 42))
+        .to.be.revertedWithCustomError(secretNumberGameContract, "RoundHasExpired")
+        .withArgs(1, deadline);
+      expect(await secretNumberGameContract.getTimeRemaining()).to.deep.eq([true, 0n]);
+    });
+
+    it("should let anyone close the round once the deadline has passed", async function () {
+      const deadline = await startTimedRound(42);
+
+      await time.setNextBlockTimestamp(deadline - 1n);
+      await expect(secretNumberGameContract.connect(signers.bob).closeExpiredRound())
+        .to.be.revertedWithCustomError(secretNumberGameContract, "RoundNotExpired")
+        .withArgs(1, deadline);
+
+      await time.increase(1);
+      await expect(secretNumberGameContract.connect(signers.bob).closeExpiredRound())
+        .to.emit(secretNumberGameContract, "RoundExpired")
+        .withArgs(1, deadline, signers.bob.address)
+        .and.to.emit(secretNumberGameContract, "GameReset");
+
+      expect(await secretNumberGameContract.getGameStatus()).to.equal(false);
+      expect(await secretNumberGameContract.getTimeRemaining()).to.deep.eq([false, 0n]);
+      await expect(secretNumberGameContract.connect(signers.bob).closeExpiredRound()).to.be.revertedWithCustomError(
+        secretNumberGameContract,
+        "GameNotActive",
+      );
+    });
+
+    it("should deliver results of guesses made before the deadline", async function () {
+      await startTimedRound(42);
+      const requestId = await guess(signers.alice, 42);
+
+      await time.increase(duration);
+      await secretNumberGameContract.connect(signers.bob).closeExpiredRound();
+      await fhevm.awaitDecryptionOracle();
+
+      expect(await secretNumberGameContract.isRequestProcessed(requestId)).to.equal(true);
+      expect(await secretNumberGameContract.hasWon(1, signers.alice.address)).to.equal(true);
+    });
+
+    it("should give every round its own deadline", async function () {
+      await startTimedRound(42);
+      await time.increase(duration);
+      await secretNumberGameContract.connect(signers.alice).closeExpiredRound();
+
+      await startRound(17);
+      expect(await secretNumberGameContract.getRoundDeadline(2)).to.eq(0);
+      await guessAndWait(signers.alice, 17);
+      expect(await secretNumberGameContract.hasWon(2, signers.alice.address)).to.equal(true);
+    });
+
+    it("should reveal the winner of a private round closed after its deadline", async function () {
+      await secretNumberGameContract.connect(signers.admin).setPrivacyMode(true);
+      await startTimedRound(42);
+      const { handle, inputProof } = await gameClient.connect(signers.alice).encrypt(42);
+      await secretNumberGameContract.connect(signers.alice).makeGuess(handle, inputProof);
+
+      await time.increase(duration);
+      await expect(secretNumberGameContract.connect(signers.bob).closeExpiredRound()).to.emit(
+        secretNumberGameContract,
+        "WinnerRevealRequested",
+      );
+      expect(await gameClient.waitForPrivateWinner(1n)).to.eq(signers.alice.address);
+    });
+  });
+
+  describe("Privacy Mode", function () {
+    const fee = ethers.parseEther("0.01");
+
+    // Player submits an encrypted guess straight to the contract, since private rounds have no request to wait for
+    async function privateGuess(player: HardhatEthersSigner, guessValue: number, value: bigint = 0n) {
+      const { handle, inputProof } = await gameClient.connect(player).encrypt(guessValue);
+      return secretNumberGameContract.connect(player).makeGuess(handle, inputProof, { value });
+    }
+
+    async function decryptResult(player: HardhatEthersSigner, owner: HardhatEthersSigner = player) {
+      const result = await secretNumberGameContract.getPrivateResult(1, owner.address);
+      return {
+        lastCorrect: await fhevm.userDecryptEbool(result.lastCorrect, secretNumberGameContractAddress, player),
+        won: await fhevm.userDecryptEbool(result.won, secretNumberGameContractAddress, player),
+      };
+    }
+
+    async function startPrivateRound(secretValue: number) {
+      await secretNumberGameContract.connect(signers.admin).setPrivacyMode(true);
+      await startRound(secretValue);
+    }
+
+    it("admin should be able to enable privacy mode between rounds", async function () {
+      expect(await secretNumberGameContract.privacyMode()).to.equal(false);
+
+      await expect(secretNumberGameContract.connect(signers.admin).setPrivacyMode(true))
+        .to.emit(secretNumberGameContract, "PrivacyModeChanged")
+        .withArgs(true);
+
+      expect(await secretNumberGameContract.privacyMode()).to.equal(true);
+    });
+
+    it("non-admin should not be able to change privacy mode", async function () {
+      await expect(secretNumberGameContract.connect(signers.alice).setPrivacyMode(true))
+        .to.be.revertedWithCustomError(secretNumberGameContract, "NotAdmin")
+        .withArgs(signers.alice.address);
+    });
+
+    it("should not allow changing privacy mode during a round", async function () {
+      await startRound(42);
+
+      await expect(secretNumberGameContract.connect(signers.admin).setPrivacyMode(true)).to.be.revertedWithCustomError(
+        secretNumberGameContract,
+        "RoundInProgress",
+      );
+    });
+
+    it("should only mark rounds started in privacy mode as private", async function () {
+      await startRound(42);
+      await gameClient.reset();
+      await startPrivateRound(42);
+
+      expect(await secretNumberGameContract.privateRounds(1)).to.equal(false);
+      expect(await secretNumberGameContract.privateRounds(2)).to.equal(true);
+    });
+
+    it("should not publish or request decryption of a private guess result", async function () {
+      await startPrivateRound(42);
+
+      const tx = await privateGuess(signers.alice, 42);
+      await expect(tx).to.emit(secretNumberGameContract, "PrivateGuessMade").withArgs(signers.alice.address, 1, 1);
+      await expect(tx).to.not.emit(secretNumberGameContract, "GuessMade");
+
+      await fhevm.awaitDecryptionOracle();
+
+      expect(await secretNumberGameContract.totalGuesses(1, signers.alice.address)).to.eq(1);
+      expect(await secretNumberGameContract.lastGuessCorrect(1, signers.alice.address)).to.equal(false);
+      expect(await secretNumberGameContract.hasWon(1, signers.alice.address)).to.equal(false);
+      expect(await secretNumberGameContract.isRequestProcessed(0)).to.equal(false);
+      expect(await secretNumberGameContract.getRequestPlayer(0)).to.eq(ethers.ZeroAddress);
+    });
+
+    it("player should be able to decrypt their own results and hints", async function () {
+      await secretNumberGameContract.connect(signers.admin).setHintMode(true);
+      await startPrivateRound(42);
+
+      await privateGuess(signers.alice, 50);
+      expect(await decryptResult(signers.alice)).to.deep.eq({ lastCorrect: false, won: false });
+      const { lastHint } = await secretNumberGameContract.getPrivateResult(1, signers.alice.address);
+      expect(
+        await fhevm.userDecryptEuint(FhevmType.euint8, lastHint, secretNumberGameContractAddress, signers.alice),
+      ).to.eq(await secretNumberGameContract.HINT_TOO_HIGH());
+
+      await privateGuess(signers.alice, 42);
+      expect(await decryptResult(signers.alice)).to.deep.eq({ lastCorrect: true, won: true });
+
+      // A later wrong guess does not take the win back
+      await privateGuess(signers.alice, 30);
+      expect(await decryptResult(signers.alice)).to.deep.eq({ lastCorrect: false, won: true });
+    });
+
+    it("other players and the admin should not be able to decrypt a player's results", async function () {
+      await secretNumberGameContract.connect(signers.admin).setHintMode(true);
+      await startPrivateRound(42);
+      await privateGuess(signers.alice, 42);
+
+      const result = await secretNumberGameContract.getPrivateResult(1, signers.alice.address);
+      for (const other of [signers.bob, signers.admin]) {
+        await expect(fhevm.userDecryptEbool(result.lastCorrect, secretNumberGameContractAddress, other)).to.be.rejected;
+        await expect(fhevm.userDecryptEbool(result.won, secretNumberGameContractAddress, other)).to.be.rejected;
+        await expect(fhevm.userDecryptEuint(FhevmType.euint8, result.lastHint, secretNumberGameContractAddress, other))
+          .to.be.rejected;
+      }
+    });
+
+    it("should reveal only the first correct guesser when the round is reset", async function () {
+      await secretNumberGameContract.connect(signers.admin).setGuessFee(fee);
+      await startPrivateRound(42);
+
+      await privateGuess(signers.alice, 50, fee);
+      await privateGuess(signers.bob, 42, fee);
+      await privateGuess(signers.alice, 42, fee);
+
+      // Nothing about the winner is known while the round runs
+      expect(await secretNumberGameContract.getPrivateWinner(1)).to.deep.eq([false, ethers.ZeroAddress]);
+      expect(await secretNumberGameContract.prizePool()).to.eq(fee * 3n);
+
+      await expect(secretNumberGameContract.connect(signers.admin).resetGame()).to.emit(
+        secretNumberGameContract,
+        "WinnerRevealRequested",
+      );
+      await fhevm.awaitDecryptionOracle();
+
+      const [revealed] = await secretNumberGameContract.queryFilter(
+        secretNumberGameContract.filters.PrivateWinnerRevealed(),
+      );
+      expect(revealed.args).to.deep.eq([1n, signers.bob.address, 1n]);
+
+      expect(await secretNumberGameContract.getPrivateWinner(1)).to.deep.eq([true, signers.bob.address]);
+      expect(await secretNumberGameContract.hasWon(1, signers.bob.address)).to.equal(true);
+      expect(await secretNumberGameContract.hasWon(1, signers.alice.address)).to.equal(false);
+      expect(await secretNumberGameContract.getWinnerCount()).to.eq(1);
+      expect(await secretNumberGameContract.pendingPrizes(signers.bob.address)).to.eq(fee * 3n);
+      expect(await secretNumberGameContract.prizePool()).to.eq(0);
+    });
+
+    it("should reveal the winner when the round ends with a secret reveal", async function () {
+      await startPrivateRound(42);
+      await privateGuess(signers.alice, 42);
+
+      await expect(secretNumberGameContract.connect(signers.admin).endRound())
+        .to.emit(secretNumberGameContract, "SecretRevealRequested")
+        .and.to.emit(secretNumberGameContract, "WinnerRevealRequested");
+      await fhevm.awaitDecryptionOracle();
+
+      expect((await secretNumberGameContract.getRevealedSecret(1)).value).to.eq(42);
+      expect(await secretNumberGameContract.getPrivateWinner(1)).to.deep.eq([true, signers.alice.address]);
+      expect(await secretNumberGameContract.roundWinners(1)).to.eq(signers.alice.address);
+    });
+
+    it("should reveal the zero address and keep the pool when nobody won", async function () {
+      await secretNumberGameContract.connect(signers.admin).setGuessFee(fee);
+      await startPrivateRound(42);
+      await privateGuess(signers.alice, 50, fee);
+
+      await gameClient.reset();
+      await fhevm.awaitDecryptionOracle();
+
+      const [revealed] = await secretNumberGameContract.queryFilter(
+        secretNumberGameContract.filters.PrivateWinnerRevealed(),
+      );
+      expect(revealed.args).to.deep.eq([1n, ethers.ZeroAddress, 0n]);
+      expect(await secretNumberGameContract.getPrivateWinner(1)).to.deep.eq([true, ethers.ZeroAddress]);
+      expect(await secretNumberGameContract.getWinnerCount()).to.eq(0);
+      expect(await secretNumberGameContract.prizePool()).to.eq(fee);
+    });
+
+    it("should not start the next round before the winner is revealed", async function () {
+      await startPrivateRound(42);
+      await privateGuess(signers.alice, 42);
+      await gameClient.reset();
+
+      await expect(startRound(17))
+        .to.be.revertedWithCustomError(secretNumberGameContract, "WinnerNotRevealed")
+        .withArgs(1);
+
+      // A second reset does not ask for another reveal
+      await expect(secretNumberGameContract.connect(signers.admin).resetGame()).to.not.emit(
+        secretNumberGameContract,
+        "WinnerRevealRequested",
+      );
+
+      await fhevm.awaitDecryptionOracle();
+      await startRound(17);
+      expect(await secretNumberGameContract.getCurrentRound()).to.eq(2);
+    });
+
+    it("should let the client decrypt its own private results", async function () {
+      await secretNumberGameContract.connect(signers.admin).setHintMode(true);
+      await startPrivateRound(42);
+      const aliceClient = gameClient.connect(signers.alice);
+
+      await expect(aliceClient.submitGuess(42)).to.be.rejectedWith("Round 1 is private");
+
+      expect(await aliceClient.privateGuess(30, { hint: true })).to.deep.eq({
+        round: 1n,
+        player: signers.alice.address,
+        correct: false,
+        won: false,
+        totalGuesses: 1,
+        hint: "too-low",
+      });
+      expect(await aliceClient.privateGuess(42, { hint: true })).to.include({ correct: true, won: true });
+      expect(await gameClient.connect(signers.bob).privateResult()).to.include({ totalGuesses: 0, won: false });
+
+      await gameClient.reset();
+      expect(await gameClient.waitForPrivateWinner(1n)).to.eq(signers.alice.address);
+    });
+  });
+
+  describe("Batch Guesses", function () {
+    const fee = ethers.parseEther("0.01");
+
+    // Player submits several encrypted guesses in one transaction without waiting for the callback
+    async function guessBatch(player: HardhatEthersSigner, guessValues: number[], value: bigint = 0n) {
+      const { handles, inputProof } = await gameClient.connect(player).encryptAll(guessValues);
+      return secretNumberGameContract.connect(player).makeGuesses(handles, inputProof, { value });
+    }
+
+    it("should count every guess of a batch and deliver one result for all of them", async function () {
+      await startRound(42);
+
+      const result = await gameClient.connect(signers.alice).guesses([10, 42, 30]);
+      expect(result).to.include({ correct: true, totalGuesses: 3 });
+
+      expect(await secretNumberGameContract.requestBatchSizes(result.requestId)).to.eq(3);
+      expect(await secretNumberGameContract.getPlayerStats(1, signers.alice.address)).to.deep.eq([true, 3n, true]);
+      expect(await secretNumberGameContract.roundWinners(1)).to.eq(signers.alice.address);
+
+      // A winning batch is ranked by its last guess
+      const [winner] = await secretNumberGameContract.getWinners(0, 1);
+      expect(winner.guesses).to.eq(3);
+    });
+
+    it("should emit GuessMade and GuessBatchMade for the batch", async function () {
+      await startRound(42);
+
+      const tx = await guessBatch(signers.alice, [1, 2]);
+      await expect(tx).to.emit(secretNumberGameContract, "GuessMade").withArgs(signers.alice.address, 1, 2, anyValue);
+      await expect(tx)
+        .to.emit(secretNumberGameContract, "GuessBatchMade")
+        .withArgs(signers.alice.address, 1, 2, anyValue);
+    });
+
+    it("should report a wrong batch and pay every fee into the pool", async function () {
+      await secretNumberGameContract.connect(signers.admin).setGuessFee(fee);
+      await startRound(42);
+
+      const result = await gameClient.connect(signers.alice).guesses([41, 43]);
+      expect(result).to.include({ correct: false, totalGuesses: 2 });
+      expect(await secretNumberGameContract.prizePool()).to.eq(fee * 2n);
+
+      // A batch has no hint, since it could not say which guess it is about
+      expect(await gameClient.connect(signers.alice).decryptHint(result.requestId)).to.eq(undefined);
+    });
+
+    it("should charge the guess fee for every guess of a batch", async function () {
+      await secretNumberGameContract.connect(signers.admin).setGuessFee(fee);
+      await startRound(42);
+
+      await expect(guessBatch(signers.alice, [1, 2, 3], fee))
+        .to.be.revertedWithCustomError(secretNumberGameContract, "IncorrectGuessFee")
+        .withArgs(fee, fee * 3n);
+    });
+
+    it("should reject empty batches and batches over MAX_BATCH_GUESSES", async function () {
+      await startRound(42);
+      const maxBatch = await secretNumberGameContract.MAX_BATCH_GUESSES();
+
+      await expect(secretNumberGameContract.connect(signers.alice).makeGuesses([], "0x"))
+        .to.be.revertedWithCustomError(secretNumberGameContract, "InvalidBatchSize")
+        .withArgs(0, maxBatch);
+      await expect(
+        guessBatch(
+          signers.alice,
+          Array.from({ length: Number(maxBatch) + 1 }, (_, i) => i + 1),
+        ),
+      )
+        .to.be.revertedWithCustomError(secretNumberGameContract, "InvalidBatchSize")
+        .withArgs(maxBatch + 1n, maxBatch);
+    });
+
+    it("should count a batch towards the guess limit", async function () {
+      await secretNumberGameContract.connect(signers.admin).configureGame(1, 100, 4);
+      await startRound(42);
+      await guess(signers.alice, 1);
+
+      await expect(guessBatch(signers.alice, [2, 3, 4, 5]))
+        .to.be.revertedWithCustomError(secretNumberGameContract, "NotEnoughGuessesLeft")
+        .withArgs(3);
+
+      await guessBatch(signers.alice, [2, 3, 4]);
+      await expect(guess(signers.alice, 5))
+        .to.be.revertedWithCustomError(secretNumberGameContract, "GuessLimitReached")
+        .withArgs(signers.alice.address, 4);
+    });
+
+    it("should not count more guesses than the counter holds, with or without a limit", async function () {
+      await secretNumberGameContract.connect(signers.admin).configureGame(1, 100, 255);
+      await startRound(100);
+      const batch = [1, 2, 3, 4, 5, 6, 7, 8];
+      for (let i = 0; i < 31; i++) {
+        await guessBatch(signers.alice, batch);
+      }
+
+      // 248 guesses used: the sum must not wrap around in uint8
+      await expect(guessBatch(signers.alice, batch))
+        .to.be.revertedWithCustomError(secretNumberGameContract, "NotEnoughGuessesLeft")
+        .withArgs(7);
+
+      // An unlimited round stops at 255 guesses instead of overflowing
+      await secretNumberGameContract.connect(signers.admin).resetGame();
+      await secretNumberGameContract.connect(signers.admin).configureGame(1, 100, 0);
+      await startRound(100);
+      for (let i = 0; i < 31; i++) {
+        await guessBatch(signers.alice, batch);
+      }
+      await guessBatch(signers.alice, batch.slice(0, 7));
+      await expect(guess(signers.alice, 1))
+        .to.be.revertedWithCustomError(secretNumberGameContract, "GuessLimitReached")
+        .withArgs(signers.alice.address, 255);
+    });
+
+    it("should take back every guess of a cancelled batch", async function () {
+      await secretNumberGameContract.connect(signers.admin).setGuessFee(fee);
+      await startRound(42);
+      const submitted = await gameClient.connect(signers.alice).submitGuesses([1, 2, 3]);
+      await mine(await secretNumberGameContract.DECRYPTION_TIMEOUT_BLOCKS());
+
+      const retried = await secretNumberGameContract
+        .connect(signers.alice)
+        .retryRequest.staticCall(submitted.requestId);
+      await secretNumberGameContract.connect(signers.alice).retryRequest(submitted.requestId);
+      expect(await secretNumberGameContract.requestBatchSizes(retried)).to.eq(3);
+      await mine(await secretNumberGameContract.DECRYPTION_TIMEOUT_BLOCKS());
+
+      await expect(secretNumberGameContract.connect(signers.alice).cancelRequest(retried, true))
+        .to.emit(secretNumberGameContract, "RequestCancelled")
+        .withArgs(signers.alice.address, retried, fee * 3n, true);
+      expect((await secretNumberGameContract.connect(signers.alice).getMyStats()).guesses).to.eq(0);
+    });
+
+    it("should keep the result of a batch private in a private round", async function () {
+      await secretNumberGameContract.connect(signers.admin).setPrivacyMode(true);
+      await startRound(42);
+
+      const result = await gameClient.connect(signers.alice).privateGuesses([41, 42]);
+      expect(result).to.deep.eq({
+        round: 1n,
+        player: signers.alice.address,
+        correct: true,
+        won: true,
+        totalGuesses: 2,
+      });
+
+      await gameClient.reset();
+      expect(await gameClient.waitForPrivateWinner(1n)).to.eq(signers.alice.address);
+    });
+
+    it("should cost less gas than the same guesses made one at a time", async function () {
+      const guessValues = [10, 20, 30, 40];
+      await startRound(42);
+
+      let singleGas = 0n;
+      for (const guessValue of guessValues) {
+        const { handle, inputProof } = await gameClient.connect(signers.alice).encrypt(guessValue);
+        const tx = await secretNumberGameContract.connect(signers.alice).makeGuess(handle, inputProof);
+        singleGas += (await tx.wait())!.gasUsed;
+      }
+      const batchGas = (await (await guessBatch(signers.bob, guessValues)).wait())!.gasUsed;
+
+      expect(batchGas < singleGas).to.eq(true, `batch used ${batchGas} gas, single guesses ${singleGas}`);
+    });
+  });
+
+  describe("Random Secret", function () {
+    // Ends the current round and returns its secret once the oracle has decrypted it
+    async function revealSecret(round: bigint) {
+      await secretNumberGameContract.connect(signers.admin).endRound();
+      await fhevm.awaitDecryptionOracle();
+      return secretNumberGameContract.getRevealedSecret(round);
+    }
+
+    it("should only let the admin or a game master start a random round", async function () {
+      await expect(secretNumberGameContract.connect(signers.alice).startRandomGame(0))
+        .to.be.revertedWithCustomError(secretNumberGameContract, "NotGameMaster")
+        .withArgs(signers.alice.address);
+
+      await secretNumberGameContract
+        .connect(signers.admin)
+        .grantRole(await secretNumberGameContract.GAME_MASTER_ROLE(), signers.alice.address);
+      await expect(secretNumberGameContract.connect(signers.alice).startRandomGame(0)).to.emit(
+        secretNumberGameContract,
+        "GameStarted",
+      );
+    });
+
+    it("should open a round and record that its secret was drawn on chain", async function () {
+      const round = await gameClient.setRandomSecret(600);
+
+      expect(round).to.eq(1n);
+      expect(await secretNumberGameContract.isGameActive()).to.eq(true);
+      expect(await secretNumberGameContract.randomRounds(round)).to.eq(true);
+      expect(await secretNumberGameContract.getRoundDeadline(round)).to.not.eq(0);
+
+      await gameClient.reset();
+      await startRound(42);
+      expect(await secretNumberGameContract.randomRounds(2)).to.eq(false);
+    });
+
+    it("should draw secrets that decrypt within the configured range", async function () {
+      await secretNumberGameContract.connect(signers.admin).configureGame(5, 8, 0);
+
+      const secrets = new Set<bigint>();
+      for (let i = 0; i < 12; i++) {
+        const round = await gameClient.setRandomSecret();
+        const { revealed, value, inRange } = await revealSecret(round);
+
+        expect(revealed).to.eq(true);
+        expect(inRange).to.eq(true);
+        expect(value >= 5n && value <= 8n).to.eq(true, `secret ${value} is outside 5-8`);
+        secrets.add(value);
+      }
+      expect(secrets.size).to.be.greaterThan(1);
+    });
+
+    it("should handle the full 0-255 range", async function () {
+      await secretNumberGameContract.connect(signers.admin).configureGame(0, 255, 0);
+
+      const round = await gameClient.setRandomSecret();
+      expect((await revealSecret(round)).inRange).to.eq(true);
+    });
+
+    it("should be guessable like any other secret", async function () {
+      // A range of one number leaves the draw no choice
+      await secretNumberGameContract.connect(signers.admin).configureGame(7, 7, 0);
+      await gameClient.setRandomSecret();
+
+      const result = await gameClient.connect(signers.alice).guess(7);
+      expect(result.correct).to.eq(true);
+    });
+  });
+
+  describe("Solo Puzzles", function () {
+    // Binary-searches the player's own secret with hints and returns it with the number of guesses it took
+    async function solvePuzzle(player: HardhatEthersSigner, value: bigint = 0n) {
+      const client = gameClient.connect(player);
+      let [low, high] = [1, 16];
+      for (let guesses = 1; ; guesses++) {
+        const guessValue = Math.floor((low + high) / 2);
+        const result = await client.guess(guessValue, { value, hint: true });
+        if (result.correct) {
+          return { secret: guessValue, guesses };
+        }
+        if (result.hint === "too-high") {
+          high = guessValue - 1;
+        } else {
+          low = guessValue + 1;
+        }
+      }
+    }
+
+    beforeEach(async function () {
+      await secretNumberGameContract.connect(signers.admin).configureGame(1, 16, 0);
+      await secretNumberGameContract.connect(signers.admin).setHintMode(true);
+    });
+
+    it("should only let the admin or a game master start a solo round", async function () {
+      await expect(secretNumberGameContract.connect(signers.alice).startSoloRound(0))
+        .to.be.revertedWithCustomError(secretNumberGameContract, "NotGameMaster")
+        .withArgs(signers.alice.address);
+
+      const round = await gameClient.startSoloRound();
+      expect(await secretNumberGameContract.soloRounds(round)).to.eq(true);
+      expect(await secretNumberGameContract.isGameActive()).to.eq(true);
+    });
+
+    it("should let every player start one puzzle, only in a solo round", async function () {
+      await expect(secretNumberGameContract.connect(signers.alice).startMyPuzzle()).to.be.revertedWithCustomError(
+        secretNumberGameContract,
+        "GameNotActive",
+      );
+      await startRound(7);
+      await expect(secretNumberGameContract.connect(signers.alice).startMyPuzzle())
+        .to.be.revertedWithCustomError(secretNumberGameContract, "NotSoloRound")
+        .withArgs(1);
+
+      await gameClient.reset();
+      await gameClient.startSoloRound();
+      expect(await gameClient.connect(signers.alice).hasPuzzle()).to.eq(false);
+
+      await expect(secretNumberGameContract.connect(signers.alice).startMyPuzzle())
+        .to.emit(secretNumberGameContract, "PuzzleStarted")
+        .withArgs(signers.alice.address, 2);
+      expect(await gameClient.hasPuzzle(signers.alice.address)).to.eq(true);
+      expect(await gameClient.hasPuzzle(signers.bob.address)).to.eq(false);
+
+      await expect(gameClient.connect(signers.alice).startPuzzle())
+        .to.be.revertedWithCustomError(secretNumberGameContract, "PuzzleAlreadyStarted")
+        .withArgs(signers.alice.address);
+    });
+
+    it("should refuse guesses from players without a puzzle", async function () {
+      await gameClient.startSoloRound();
+
+      await expect(gameClient.connect(signers.bob).submitGuess(8))
+        .to.be.revertedWithCustomError(secretNumberGameContract, "PuzzleNotStarted")
+        .withArgs(signers.bob.address);
+      await expect(gameClient.connect(signers.bob).submitGuesses([1, 2]))
+        .to.be.revertedWithCustomError(secretNumberGameContract, "PuzzleNotStarted")
+        .withArgs(signers.bob.address);
+    });
+
+    it("should resolve every player's puzzle independently", async function () {
+      const fee = ethers.parseEther("0.01");
+      await secretNumberGameContract.connect(signers.admin).setGuessFee(fee);
+      const round = await gameClient.startSoloRound();
+      await gameClient.connect(signers.alice).startPuzzle();
+      await gameClient.connect(signers.bob).startPuzzle();
+
+      const alice = await solvePuzzle(signers.alice, fee);
+
+      // Alice's win neither ends the round nor touches Bob's puzzle
+      expect(await secretNumberGameContract.isGameActive()).to.eq(true);
+      expect(await gameClient.stats(signers.alice.address)).to.deep.eq({
+        correct: true,
+        guesses: alice.guesses,
+        won: true,
+      });
+      expect(await gameClient.stats(signers.bob.address)).to.deep.eq({ correct: false, guesses: 0, won: false });
+      await expect(gameClient.connect(signers.alice).submitGuess(alice.secret, { value: fee }))
+        .to.be.revertedWithCustomError(secretNumberGameContract, "AlreadyWon")
+        .withArgs(signers.alice.address);
+
+      const bob = await solvePuzzle(signers.bob, fee);
+      expect(await gameClient.stats(signers.bob.address)).to.deep.eq({
+        correct: true,
+        guesses: bob.guesses,
+        won: true,
+      });
+
+      // The first solver takes the pool, and both solvers make the leaderboard
+      expect(await secretNumberGameContract.roundWinners(round)).to.eq(signers.alice.address);
+      expect(await secretNumberGameContract.pendingPrizes(signers.alice.address)).to.eq(fee * BigInt(alice.guesses));
+      expect(await secretNumberGameContract.prizePool()).to.eq(fee * BigInt(bob.guesses));
+      const winners = await secretNumberGameContract.getWinners(0, 10);
+      expect(winners.map((winner) => [winner.player, winner.guesses])).to.deep.eq([
+        [signers.alice.address, BigInt(alice.guesses)],
+        [signers.bob.address, BigInt(bob.guesses)],
+      ]);
+    });
+
+    it("should check a batch against the player's own secret", async function () {
+      await gameClient.startSoloRound();
+      await gameClient.connect(signers.alice).startPuzzle();
+
+      const lowerHalf = await gameClient.connect(signers.alice).guesses([1, 2, 3, 4, 5, 6, 7, 8]);
+      if (!lowerHalf.correct) {
+        const upperHalf = await gameClient.connect(signers.alice).guesses([9, 10, 11, 12, 13, 14, 15, 16]);
+        expect(upperHalf.correct).to.eq(true);
+      }
+      expect((await gameClient.stats(signers.alice.address)).won).to.eq(true);
+    });
+
+    it("should be ended with resetGame, having no shared secret to reveal", async function () {
+      await gameClient.startSoloRound(60);
+
+      await expect(secretNumberGameContract.connect(signers.admin).endRound())
+        .to.be.revertedWithCustomError(secretNumberGameContract, "NoSharedSecret")
+        .withArgs(1);
+
+      await time.increase(60);
+      await expect(gameClient.connect(signers.alice).startPuzzle()).to.be.revertedWithCustomError(
+        secretNumberGameContract,
+        "RoundHasExpired",
+      );
+
+      await gameClient.reset();
+      await startRound(7);
+      expect(await secretNumberGameContract.soloRounds(2)).to.eq(false);
+      expect((await gameClient.connect(signers.alice).guess(7)).correct).to.eq(true);
+    });
+  });
+
+  describe("Sealed Mode", function () {
+    const fee = ethers.parseEther("0.01");
+
+    beforeEach(async function () {
+      await secretNumberGameContract.connect(signers.admin).setGuessFee(fee);
+      await secretNumberGameContract.connect(signers.admin).setSealedMode(true);
+    });
+
+    async function seal(player: HardhatEthersSigner, guessValue: number) {
+      return gameClient.connect(player).submitSealedGuess(guessValue, { value: fee });
+    }
+
+    // Ends the current round and waits for its closest guesser
+    async function settle() {
+      const round = await secretNumberGameContract.getCurrentRound();
+      await gameClient.reset();
+      return gameClient.waitForPrivateWinner(round);
+    }
+
+    it("should not start a solo round while sealed mode is on", async function () {
+      await expect(secretNumberGameContract.connect(signers.admin).startSoloRound(0)).to.be.revertedWithCustomError(
+        secretNumberGameContract,
+        "SealedModeEnabled",
+      );
+
+      await secretNumberGameContract.connect(signers.admin).setSealedMode(false);
+      await secretNumberGameContract.connect(signers.admin).startSoloRound(0);
+      expect(await secretNumberGameContract.sealedRounds(1)).to.eq(false);
+    });
+
+    it("should only let the admin change sealed mode, between rounds", async function () {
+      await expect(secretNumberGameContract.connect(signers.alice).setSealedMode(false))
+        .to.be.revertedWithCustomError(secretNumberGameContract, "NotAdmin")
+        .withArgs(signers.alice.address);
+
+      await startRound(50);
+      await expect(secretNumberGameContract.connect(signers.admin).setSealedMode(false)).to.be.revertedWithCustomError(
+        secretNumberGameContract,
+        "RoundInProgress",
+      );
+      expect(await secretNumberGameContract.sealedRounds(1)).to.eq(true);
+      expect(await secretNumberGameContract.privateRounds(1)).to.eq(true);
+
+      await settle();
+      await expect(secretNumberGameContract.connect(signers.admin).setSealedMode(false))
+        .to.emit(secretNumberGameContract, "SealedModeChanged")
+        .withArgs(false);
+      await startRound(50);
+      expect(await secretNumberGameContract.sealedRounds(2)).to.eq(false);
+    });
+
+    it("should take exactly one sealed guess per player, and only in a sealed round", async function () {
+      await startRound(50);
+
+      const { handle, inputProof } = await gameClient.connect(signers.alice).encrypt(50);
+      await expect(secretNumberGameContract.connect(signers.alice).makeGuess(handle, inputProof, { value: fee }))
+        .to.be.revertedWithCustomError(secretNumberGameContract, "SealedGuessRequired")
+        .withArgs(1);
+      await expect(gameClient.connect(signers.alice).submitSealedGuess(50, { value: 0n }))
+        .to.be.revertedWithCustomError(secretNumberGameContract, "IncorrectGuessFee")
+        .withArgs(0n, fee);
+
+      await expect(
+        secretNumberGameContract.connect(signers.alice).submitSealedGuess(handle, inputProof, { value: fee }),
+      )
+        .to.emit(secretNumberGameContract, "SealedGuessMade")
+        .withArgs(signers.alice.address, 1);
+      await expect(seal(signers.alice, 51))
+        .to.be.revertedWithCustomError(secretNumberGameContract, "SealedGuessAlreadySubmitted")
+        .withArgs(signers.alice.address);
+      expect(await gameClient.stats(signers.alice.address)).to.deep.eq({ correct: false, guesses: 1, won: false });
+      expect(await secretNumberGameContract.prizePool()).to.eq(fee);
+
+      await settle();
+      await secretNumberGameContract.connect(signers.admin).setSealedMode(false);
+      await startRound(50);
+      await expect(seal(signers.alice, 50))
+        .to.be.revertedWithCustomError(secretNumberGameContract, "NotSealedRound")
+        .withArgs(2);
+    });
+
+    it("should award the pool to the closest guess once the round ends", async function () {
+      await startRound(50);
+      await seal(signers.alice, 40);
+      await seal(signers.bob, 53);
+      await seal(signers.admin, 70);
+
+      // Nothing about the guesses is known while the round runs
+      expect(await secretNumberGameContract.roundWinners(1)).to.eq(ethers.ZeroAddress);
+      await expect(startRound(7)).to.be.revertedWithCustomError(secretNumberGameContract, "RoundInProgress");
+
+      expect(await settle()).to.eq(signers.bob.address);
+      expect(await secretNumberGameContract.roundWinners(1)).to.eq(signers.bob.address);
+      expect(await secretNumberGameContract.pendingPrizes(signers.bob.address)).to.eq(fee * 3n);
+      expect(await gameClient.stats(signers.bob.address, 1n)).to.include({ guesses: 1, won: true });
+      expect(await gameClient.stats(signers.alice.address, 1n)).to.include({ won: false });
+
+      const [winner] = await secretNumberGameContract.getWinners(0, 10);
+      expect([winner.player, winner.round, winner.guesses]).to.deep.eq([signers.bob.address, 1n, 1n]);
+    });
+
+    it("should let an exact guess win", async function () {
+      await startRound(50);
+      await seal(signers.alice, 49);
+      await seal(signers.bob, 50);
+      await seal(signers.admin, 51);
+
+      expect(await settle()).to.eq(signers.bob.address);
+    });
+
+    it("should break a tie in favor of the earlier guess", async function () {
+      await startRound(50);
+      await seal(signers.alice, 45);
+      await seal(signers.bob, 55);
+      expect(await settle()).to.eq(signers.alice.address);
+
+      await startRound(50);
+      await seal(signers.bob, 55);
+      await seal(signers.alice, 45);
+      expect(await settle()).to.eq(signers.bob.address);
+    });
+
+    it("should measure distances across the whole 0-255 range", async function () {
+      await secretNumberGameContract.connect(signers.admin).configureGame(0, 255, 0);
+      await startRound(0);
+      await seal(signers.alice, 255);
+      await seal(signers.bob, 254);
+
+      expect(await settle()).to.eq(signers.bob.address);
+    });
+
+    it("should never let a guess outside the range win", async function () {
+      await secretNumberGameContract.connect(signers.admin).configureGame(1, 10, 0);
+      await startRound(10);
+      await seal(signers.alice, 11);
+
+      expect(await settle()).to.eq(undefined);
+      expect(await secretNumberGameContract.prizePool()).to.eq(fee);
+
+      await startRound(10);
+      await seal(signers.alice, 11);
+      await seal(signers.bob, 1);
+      expect(await settle()).to.eq(signers.bob.address);
+      expect(await secretNumberGameContract.pendingPrizes(signers.bob.address)).to.eq(fee * 3n);
+    });
+
+    it("should settle a round that is closed at its deadline", async function () {
+      await gameClient.setSecret(50, 60);
+      await seal(signers.alice, 20);
+      await time.increase(60);
+
+      await expect(seal(signers.bob, 50)).to.be.revertedWithCustomError(secretNumberGameContract, "RoundHasExpired");
+      await gameClient.connect(signers.bob).closeExpiredRound();
+      expect(await gameClient.waitForPrivateWinner(1n)).to.eq(signers.alice.address);
+    });
   });
 });
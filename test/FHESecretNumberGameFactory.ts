@@ -0,0 +1,192 @@
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { artifacts, ethers, fhevm } from "hardhat";
+import { SecretNumberGameClient } from "../src/SecretNumberGameClient";
+import { SecretNumberGame, SecretNumberGameFactory } from "../types";
+import { expect } from "chai";
+import { anyValue } from "@nomicfoundation/hardhat-chai-matchers/withArgs";
+
+type Signers = {
+  deployer: HardhatEthersSigner;
+  alice: HardhatEthersSigner;
+  bob: HardhatEthersSigner;
+};
+
+async function deployFixture(deployer: string) {
+  // The game the factory clones; its own admin and state play no part in the clones
+  const implementation = await (await ethers.getContractFactory("SecretNumberGame")).deploy(deployer);
+  const factory = await ethers.getContractFactory("SecretNumberGameFactory");
+  const secretNumberGameFactoryContract = (await factory.deploy(
+    await implementation.getAddress(),
+  )) as SecretNumberGameFactory;
+  const secretNumberGameFactoryContractAddress = await secretNumberGameFactoryContract.getAddress();
+  return { secretNumberGameFactoryContract, secretNumberGameFactoryContractAddress };
+}
+
+describe("SecretNumberGameFactory", function () {
+  let signers: Signers;
+  let secretNumberGameFactoryContract: SecretNumberGameFactory;
+
+  before(async function () {
+    const ethSigners: HardhatEthersSigner[] = await ethers.getSigners();
+    signers = {
+      deployer: ethSigners[0],
+      alice: ethSigners[1],
+      bob: ethSigners[2],
+    };
+  });
+
+  beforeEach(async function () {
+    // Check whether the tests are running against an FHEVM mock environment
+    if (!fhevm.isMock) {
+      console.warn(`This hardhat test suite cannot run on Sepolia Testnet`);
+      this.skip();
+    }
+    ({ secretNumberGameFactoryContract } = await deployFixture(signers.deployer.address));
+  });
+
+  // Creates a game through the factory and returns the game contract connected to its creator
+  async function createGame(creator: HardhatEthersSigner) {
+    const tx = await secretNumberGameFactoryContract.connect(creator).createGame();
+    const receipt = await tx.wait();
+
+    for (const log of receipt?.logs ?? []) {
+      const parsed = secretNumberGameFactoryContract.interface.parseLog(log);
+      if (parsed?.name === "GameCreated") {
+        const gameContract = await ethers.getContractAt("SecretNumberGame", parsed.args.game);
+        return { gameId: parsed.args.gameId as bigint, gameContract, gameAddress: parsed.args.game as string };
+      }
+    }
+    throw new Error("GameCreated event not found");
+  }
+
+  async function startGame(admin: HardhatEthersSigner, gameContract: SecretNumberGame) {
+    await new SecretNumberGameClient(gameContract, fhevm, admin).setSecret(42);
+  }
+
+  describe("Creating Games", function () {
+    it("should start with no games", async function () {
+      expect(await secretNumberGameFactoryContract.getGameCount()).to.eq(0);
+    });
+
+    it("should emit GameCreated with sequential game IDs", async function () {
+      await expect(secretNumberGameFactoryContract.connect(signers.alice).createGame())
+        .to.emit(secretNumberGameFactoryContract, "GameCreated")
+        .withArgs(0, signers.alice.address, anyValue);
+
+      await expect(secretNumberGameFactoryContract.connect(signers.bob).createGame())
+        .to.emit(secretNumberGameFactoryContract, "GameCreated")
+        .withArgs(1, signers.bob.address, anyValue);
+
+      expect(await secretNumberGameFactoryContract.getGameCount()).to.eq(2);
+    });
+
+    it("should make the creator the admin of the new game", async function () {
+      const { gameId, gameContract, gameAddress } = await createGame(signers.alice);
+
+      expect(await secretNumberGameFactoryContract.getGame(gameId)).to.eq(gameAddress);
+      expect(await secretNumberGameFactoryContract.gameCreators(gameId)).to.eq(signers.alice.address);
+      expect(await gameContract.admin()).to.eq(signers.alice.address);
+    });
+
+    it("should only clone a deployed game", async function () {
+      const factory = await ethers.getContractFactory("SecretNumberGameFactory");
+      await expect(factory.deploy(signers.alice.address)).to.be.revertedWithCustomError(
+        factory,
+        "InvalidImplementation",
+      );
+    });
+
+    it("should set each clone up once, with its own FHEVM config and default range", async function () {
+      const { gameContract } = await createGame(signers.alice);
+
+      await expect(gameContract.initialize(signers.bob.address)).to.be.revertedWithCustomError(
+        gameContract,
+        "AlreadyInitialized",
+      );
+      expect(await gameContract.getGameSettings()).to.deep.eq([1n, 100n, 0n]);
+
+      // The result only arrives if the clone reaches the decryption oracle
+      await startGame(signers.alice, gameContract);
+      const result = await new SecretNumberGameClient(gameContract, fhevm, signers.bob).guess(42);
+      expect(result.correct).to.eq(true);
+    });
+
+    it("should not let the implementation be set up again", async function () {
+      const implementation = await ethers.getContractAt(
+        "SecretNumberGame",
+        await secretNumberGameFactoryContract.GAME_IMPLEMENTATION(),
+      );
+      await expect(implementation.initialize(signers.alice.address)).to.be.revertedWithCustomError(
+        implementation,
+        "AlreadyInitialized",
+      );
+    });
+
+    it("should revert when looking up an unknown game", async function () {
+      await expect(secretNumberGameFactoryContract.getGame(0))
+        .to.be.revertedWithCustomError(secretNumberGameFactoryContract, "GameDoesNotExist")
+        .withArgs(0);
+    });
+  });
+
+  describe("Listing Games", function () {
+    it("should list games by creator", async function () {
+      await createGame(signers.alice);
+      await createGame(signers.bob);
+      await createGame(signers.alice);
+
+      const aliceGames = await secretNumberGameFactoryContract.getGamesByCreator(signers.alice.address);
+      const bobGames = await secretNumberGameFactoryContract.getGamesByCreator(signers.bob.address);
+      const deployerGames = await secretNumberGameFactoryContract.getGamesByCreator(signers.deployer.address);
+
+      expect(aliceGames).to.deep.eq([0n, 2n]);
+      expect(bobGames).to.deep.eq([1n]);
+      expect(deployerGames).to.deep.eq([]);
+    });
+
+    it("should list games by status", async function () {
+      const first = await createGame(signers.alice);
+      await createGame(signers.bob);
+      const third = await createGame(signers.alice);
+
+      await startGame(signers.alice, first.gameContract);
+      await startGame(signers.alice, third.gameContract);
+
+      expect(await secretNumberGameFactoryContract.getGamesByStatus(true)).to.deep.eq([0n, 2n]);
+      expect(await secretNumberGameFactoryContract.getGamesByStatus(false)).to.deep.eq([1n]);
+
+      await first.gameContract.connect(signers.alice).resetGame();
+
+      expect(await secretNumberGameFactoryContract.getGamesByStatus(true)).to.deep.eq([2n]);
+      expect(await secretNumberGameFactoryContract.getGamesByStatus(false)).to.deep.eq([0n, 1n]);
+    });
+  });
+
+  describe("Running Games Side By Side", function () {
+    it("should keep admins and state of each game independent", async function () {
+      const aliceGame = await createGame(signers.alice);
+      const bobGame = await createGame(signers.bob);
+
+      await startGame(signers.alice, aliceGame.gameContract);
+
+      expect(await aliceGame.gameContract.getGameStatus()).to.equal(true);
+      expect(await bobGame.gameContract.getGameStatus()).to.equal(false);
+
+      await expect(bobGame.gameContract.connect(signers.alice).resetGame())
+        .to.be.revertedWithCustomError(bobGame.gameContract, "NotGameMaster")
+        .withArgs(signers.alice.address);
+    });
+  });
+
+  describe("Contract Size", function () {
+    // EIP-170 caps deployed code at 24576 bytes
+    const MAX_CONTRACT_SIZE = 24576;
+
+    for (const name of ["SecretNumberGame", "SecretNumberGameFactory", "CommitRevealNumberGame", "CodeBreakerGame"]) {
+      it(`should keep ${name} within the contract size limit`, async function () {
+        const { deployedBytecode } = await artifacts.readArtifact(name);
+        expect((deployedBytecode.length - 2) / 2).to.be.at.most(MAX_CONTRACT_SIZE);
+      });
+    }
+  });
+});
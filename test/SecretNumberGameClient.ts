@@ -0,0 +1,207 @@
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { mine } from "@nomicfoundation/hardhat-network-helpers";
+import { ethers, fhevm } from "hardhat";
+import { expect } from "chai";
+
+import {
+  FhevmClient,
+  GuessResult,
+  GuessResultTimeoutError,
+  SecretNumberGameClient,
+} from "../src/SecretNumberGameClient";
+import { SecretNumberGame } from "../types";
+
+type Signers = {
+  admin: HardhatEthersSigner;
+  alice: HardhatEthersSigner;
+  bob: HardhatEthersSigner;
+};
+
+async function deployFixture(admin: string) {
+  const factory = await ethers.getContractFactory("SecretNumberGame");
+  const secretNumberGameContract = (await factory.deploy(admin)) as SecretNumberGame;
+  const secretNumberGameContractAddress = await secretNumberGameContract.getAddress();
+  return { secretNumberGameContract, secretNumberGameContractAddress };
+}
+
+describe("SecretNumberGameClient", function () {
+  let signers: Signers;
+  let secretNumberGameContract: SecretNumberGame;
+  let secretNumberGameContractAddress: string;
+  let admin: SecretNumberGameClient;
+  let alice: SecretNumberGameClient;
+
+  before(async function () {
+    const ethSigners: HardhatEthersSigner[] = await ethers.getSigners();
+    signers = { admin: ethSigners[0], alice: ethSigners[1], bob: ethSigners[2] };
+  });
+
+  beforeEach(async function () {
+    // Check whether the tests are running against an FHEVM mock environment
+    if (!fhevm.isMock) {
+      console.warn(`This hardhat test suite cannot run on Sepolia Testnet`);
+      this.skip();
+    }
+    ({ secretNumberGameContract, secretNumberGameContractAddress } = await deployFixture(signers.admin.address));
+
+    admin = new SecretNumberGameClient(secretNumberGameContract, fhevm, signers.admin, { pollIntervalMs: 50 });
+    alice = admin.connect(signers.alice);
+  });
+
+  it("should bind the client to the game and the signer", async function () {
+    expect(await alice.getAddress()).to.eq(secretNumberGameContractAddress);
+    expect(await alice.signer.getAddress()).to.eq(signers.alice.address);
+    expect(await admin.signer.getAddress()).to.eq(signers.admin.address);
+  });
+
+  it("setSecret should open a round and return its number", async function () {
+    expect(await admin.setSecret(42)).to.eq(1n);
+    expect(await secretNumberGameContract.getGameStatus()).to.eq(true);
+
+    await admin.reset();
+    expect(await secretNumberGameContract.getGameStatus()).to.eq(false);
+
+    expect(await admin.setSecret(17)).to.eq(2n);
+  });
+
+  it("should surface contract reverts", async function () {
+    await expect(alice.setSecret(42))
+      .to.be.revertedWithCustomError(secretNumberGameContract, "NotGameMaster")
+      .withArgs(signers.alice.address);
+    await expect(alice.guess(42)).to.be.revertedWithCustomError(secretNumberGameContract, "GameNotActive");
+  });
+
+  it("guess should resolve to a typed result", async function () {
+    await admin.setSecret(42);
+
+    const wrong = await alice.guess(50);
+    expect(wrong.correct).to.eq(false);
+    expect(wrong.totalGuesses).to.eq(1);
+    expect(wrong.round).to.eq(1n);
+    expect(wrong.player).to.eq(signers.alice.address);
+    expect(wrong.hint).to.eq(undefined);
+
+    const right = await alice.guess(42);
+    expect(right.correct).to.eq(true);
+    expect(right.totalGuesses).to.eq(2);
+    expect(right.requestId).to.not.eq(wrong.requestId);
+  });
+
+  it("guess should pay the game's guess fee by default", async function () {
+    const fee = ethers.parseEther("0.01");
+    await secretNumberGameContract.connect(signers.admin).setGuessFee(fee);
+    await admin.setSecret(42);
+
+    await alice.guess(42);
+
+    expect(await alice.contract.pendingPrizes(signers.alice.address)).to.eq(fee);
+  });
+
+  it("guess should decrypt the hint of a wrong guess when asked to", async function () {
+    await secretNumberGameContract.connect(signers.admin).setHintMode(true);
+    await admin.setSecret(42);
+
+    expect((await alice.guess(50, { hint: true })).hint).to.eq("too-high");
+    expect((await alice.guess(10, { hint: true })).hint).to.eq("too-low");
+    expect((await alice.guess(42, { hint: true })).hint).to.eq(undefined);
+  });
+
+  it("decryptHint should return undefined when hints are disabled", async function () {
+    await admin.setSecret(42);
+    const result = await alice.guess(50);
+
+    expect(await alice.decryptHint(result.requestId)).to.eq(undefined);
+  });
+
+  it("stats should default to the connected signer and the current round", async function () {
+    await admin.setSecret(42);
+    await alice.guess(42);
+
+    expect(await alice.stats()).to.deep.eq({ correct: true, guesses: 1, won: true });
+    expect(await admin.stats(signers.alice.address)).to.deep.eq({ correct: true, guesses: 1, won: true });
+    expect(await admin.stats()).to.deep.eq({ correct: false, guesses: 0, won: false });
+
+    await admin.reset();
+    await admin.setSecret(17);
+    expect(await alice.stats()).to.deep.eq({ correct: false, guesses: 0, won: false });
+    expect((await alice.stats(undefined, 1n)).won).to.eq(true);
+  });
+
+  it("submitGuess and waitForResult should split sending from waiting", async function () {
+    await admin.setSecret(42);
+
+    const submitted = await alice.submitGuess(42);
+    expect(submitted.guessNumber).to.eq(1);
+    expect(await secretNumberGameContract.isRequestProcessed(submitted.requestId)).to.eq(false);
+
+    const result = await alice.waitForResult(submitted);
+    expect(result?.correct).to.eq(true);
+  });
+
+  it("waitForResult should time out when the oracle never answers", async function () {
+    await admin.setSecret(42);
+
+    // Without awaitDecryptionOracle the client behaves like a relayer-SDK instance whose oracle is stuck
+    const relayerLike: FhevmClient = {
+      createEncryptedInput: fhevm.createEncryptedInput.bind(fhevm),
+      generateKeypair: fhevm.generateKeypair.bind(fhevm),
+      createEIP712: fhevm.createEIP712.bind(fhevm),
+      userDecrypt: fhevm.userDecrypt.bind(fhevm),
+    };
+    const stuck = new SecretNumberGameClient(secretNumberGameContract, relayerLike, signers.alice, {
+      pollIntervalMs: 50,
+    });
+
+    const submitted = await stuck.submitGuess(50);
+    const progress: number[] = [];
+    const error = await stuck
+      .waitForResult(submitted, { timeoutMs: 200, onProgress: (elapsedMs) => progress.push(elapsedMs) })
+      .catch((e) => e);
+
+    expect(error).to.be.instanceOf(GuessResultTimeoutError);
+    expect(error.requestId).to.eq(submitted.requestId);
+    expect(progress.length).to.be.greaterThan(0);
+
+    // Let the oracle catch up so the request does not leak into other tests
+    await fhevm.awaitDecryptionOracle();
+    expect((await stuck.waitForResult(submitted))?.correct).to.eq(false);
+  });
+
+  it("findRetry should hand over a retried guess to its new request", async function () {
+    await admin.setSecret(42);
+    const submitted = await alice.submitGuess(42);
+    expect(await alice.findRetry(submitted)).to.eq(undefined);
+
+    await mine(await secretNumberGameContract.DECRYPTION_TIMEOUT_BLOCKS());
+    await secretNumberGameContract.connect(signers.alice).retryRequest(submitted.requestId);
+    expect(await alice.waitForResult(submitted)).to.eq(undefined);
+
+    const retried = await alice.findRetry(submitted);
+    expect(retried).to.include({ round: submitted.round, guessNumber: submitted.guessNumber });
+    expect(retried!.requestId).to.not.eq(submitted.requestId);
+    expect(await alice.waitForResult(retried!)).to.include({ requestId: retried!.requestId, correct: true });
+    expect(await alice.findRetry(retried!)).to.eq(undefined);
+  });
+
+  it("onResult should report results as they arrive", async function () {
+    await admin.setSecret(42);
+
+    const results: GuessResult[] = [];
+    const unsubscribe = alice.onResult((result) => results.push(result), signers.alice.address);
+    try {
+      await admin.connect(signers.bob).guess(42);
+      const guessed = await alice.guess(42);
+
+      // Listeners are driven by the provider's polling, so give them a moment
+      for (let i = 0; i < 50 && results.length === 0; i++) {
+        await new Promise((resolve) => setTimeout(resolve, 100));
+      }
+
+      expect(results).to.have.length(1);
+      expect(results[0].requestId).to.eq(guessed.requestId);
+      expect(results[0].correct).to.eq(true);
+    } finally {
+      unsubscribe();
+    }
+  });
+});
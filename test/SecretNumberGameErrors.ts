@@ -0,0 +1,112 @@
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { ethers, fhevm } from "hardhat";
+import { expect } from "chai";
+
+import { SecretNumberGameClient } from "../src/SecretNumberGameClient";
+import { EXIT_CODES, GameErrorDecoder } from "../src/SecretNumberGameErrors";
+import { SecretNumberGame, SecretNumberGameFactory } from "../types";
+
+type Signers = {
+  admin: HardhatEthersSigner;
+  alice: HardhatEthersSigner;
+};
+
+async function deployFixture(admin: string) {
+  const gameFactory = await ethers.getContractFactory("SecretNumberGame");
+  const secretNumberGameContract = (await gameFactory.deploy(admin)) as SecretNumberGame;
+  const factoryFactory = await ethers.getContractFactory("SecretNumberGameFactory");
+  const secretNumberGameFactoryContract = (await factoryFactory.deploy(
+    await secretNumberGameContract.getAddress(),
+  )) as SecretNumberGameFactory;
+  return { secretNumberGameContract, secretNumberGameFactoryContract };
+}
+
+// Runs a call that must fail and returns what it threw
+async function failure(call: () => Promise<unknown>): Promise<unknown> {
+  try {
+    await call();
+  } catch (error) {
+    return error;
+  }
+  throw new Error(`The call did not fail`);
+}
+
+describe("GameErrorDecoder", function () {
+  let signers: Signers;
+  let secretNumberGameContract: SecretNumberGame;
+  let secretNumberGameFactoryContract: SecretNumberGameFactory;
+  let decoder: GameErrorDecoder;
+
+  before(async function () {
+    const ethSigners: HardhatEthersSigner[] = await ethers.getSigners();
+    signers = { admin: ethSigners[0], alice: ethSigners[1] };
+  });
+
+  beforeEach(async function () {
+    // Check whether the tests are running against an FHEVM mock environment
+    if (!fhevm.isMock) {
+      console.warn(`This hardhat test suite cannot run on Sepolia Testnet`);
+      this.skip();
+    }
+    ({ secretNumberGameContract, secretNumberGameFactoryContract } = await deployFixture(signers.admin.address));
+    decoder = new GameErrorDecoder([secretNumberGameContract.interface, secretNumberGameFactoryContract.interface]);
+  });
+
+  it("should decode a failed transaction into its custom error", async function () {
+    const error = await failure(() => secretNumberGameContract.connect(signers.alice).setGuessFee(1));
+
+    expect(decoder.decode(error)).to.deep.eq({
+      name: "NotAdmin",
+      args: [signers.alice.address],
+      kind: "permission",
+      message: `Only the game admin can do this (called by ${signers.alice.address})`,
+      exitCode: EXIT_CODES.permission,
+    });
+  });
+
+  it("should decode reverts surfaced by the client", async function () {
+    const client = new SecretNumberGameClient(secretNumberGameContract, fhevm, signers.admin, { pollIntervalMs: 50 });
+    await secretNumberGameContract.setGuessFee(ethers.parseEther("0.01"));
+    await client.setSecret(42);
+
+    const decoded = decoder.decode(await failure(() => client.connect(signers.alice).guess(42, { value: 0n })));
+
+    expect(decoded).to.include({ name: "IncorrectGuessFee", kind: "input", exitCode: EXIT_CODES.input });
+    expect(decoded?.message).to.eq("Incorrect guess fee: sent 0.0 ETH but the fee is 0.01 ETH");
+  });
+
+  it("should decode errors of every ABI it is given", async function () {
+    const error = await failure(() => secretNumberGameFactoryContract.getGame(3));
+
+    expect(decoder.decode(error)).to.include({ name: "GameDoesNotExist", message: "Game 3 does not exist" });
+  });
+
+  it("should decode revert data from the error message or nested errors", function () {
+    const data = secretNumberGameContract.interface.encodeErrorResult("GameNotActive", []);
+
+    expect(decoder.decode(new Error(`reverted with an unrecognized custom error (return data: ${data})`))).to.include({
+      name: "GameNotActive",
+      exitCode: EXIT_CODES.state,
+    });
+    expect(decoder.decode({ info: { error: { data } } })).to.include({ name: "GameNotActive" });
+  });
+
+  it("should report plain messages and unknown errors as unknown reverts", function () {
+    const message = secretNumberGameContract.interface.encodeErrorResult("Error(string)", ["ACL: not allowed"]);
+
+    expect(decoder.decode({ data: message })).to.include({
+      name: "Error",
+      message: "ACL: not allowed",
+      exitCode: EXIT_CODES.unknown,
+    });
+    expect(decoder.decode({ data: "0xdeadbeef" })).to.include({
+      name: "Unknown",
+      message: "Reverted with unknown error 0xdeadbeef",
+    });
+  });
+
+  it("should leave errors without revert data alone", function () {
+    expect(decoder.decode(new Error("network unreachable"))).to.eq(undefined);
+    expect(decoder.decode("oops")).to.eq(undefined);
+  });
+});
@@ -0,0 +1,413 @@
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { ethers, fhevm } from "hardhat";
+import { expect } from "chai";
+import type { Provider } from "ethers";
+
+import { SecretNumberGameClient } from "../src/SecretNumberGameClient";
+import { SecretNumberGameServer } from "../src/SecretNumberGameServer";
+import { SecretNumberGame } from "../types";
+
+type Signers = {
+  admin: HardhatEthersSigner;
+  alice: HardhatEthersSigner;
+  bob: HardhatEthersSigner;
+};
+
+type StreamedEvent = { event: string; data: Record<string, unknown> };
+
+async function deployFixture(admin: string) {
+  const factory = await ethers.getContractFactory("SecretNumberGame");
+  const secretNumberGameContract = (await factory.deploy(admin)) as SecretNumberGame;
+  const secretNumberGameContractAddress = await secretNumberGameContract.getAddress();
+  return { secretNumberGameContract, secretNumberGameContractAddress };
+}
+
+// Reads Server-Sent Events until `count` events have arrived
+async function readEvents(response: Response, count: number): Promise<StreamedEvent[]> {
+  const reader = response.body!.getReader();
+  const decoder = new TextDecoder();
+  const events: StreamedEvent[] = [];
+  let buffer = "";
+  const timeout = setTimeout(() => void reader.cancel(), 10_000);
+
+  try {
+    while (events.length < count) {
+      const { done, value } = await reader.read();
+      if (done) {
+        break;
+      }
+      buffer += decoder.decode(value, { stream: true });
+
+      let end: number;
+      while ((end = buffer.indexOf("\n\n")) >= 0) {
+        const message = buffer.slice(0, end);
+        buffer = buffer.slice(end + 2);
+        const event = message.match(/^event: (.*)$/m);
+        const data = message.match(/^data: (.*)$/m);
+        if (event && data) {
+          events.push({ event: event[1], data: JSON.parse(data[1]) });
+        }
+      }
+    }
+  } finally {
+    clearTimeout(timeout);
+    await reader.cancel();
+  }
+  return events;
+}
+
+// Holds the event stream's first poll for logs until released, and counts the polls through getBlockNumber.
+// Only the tests' submitGuess calls share the provider, and they never query logs
+function holdFirstPoll(provider: Provider) {
+  const { getBlockNumber, getLogs } = provider;
+  let polls = 0;
+  let held = false;
+  let release!: () => void;
+  const released = new Promise<void>((resolve) => (release = resolve));
+  let started!: () => void;
+  const startedPromise = new Promise<void>((resolve) => (started = resolve));
+
+  provider.getBlockNumber = async () => {
+    polls++;
+    return getBlockNumber.call(provider);
+  };
+  provider.getLogs = async (filter) => {
+    if (!held) {
+      held = true;
+      started();
+      await released;
+    }
+    return getLogs.call(provider, filter);
+  };
+
+  return {
+    started: startedPromise,
+    polls: () => polls,
+    release,
+    restore: () => {
+      provider.getBlockNumber = getBlockNumber;
+      provider.getLogs = getLogs;
+    },
+  };
+}
+
+describe("SecretNumberGameServer", function () {
+  let signers: Signers;
+  let secretNumberGameContract: SecretNumberGame;
+  let secretNumberGameContractAddress: string;
+  let gameClient: SecretNumberGameClient;
+  let server: SecretNumberGameServer;
+  let url: string;
+
+  before(async function () {
+    const ethSigners: HardhatEthersSigner[] = await ethers.getSigners();
+    signers = { admin: ethSigners[0], alice: ethSigners[1], bob: ethSigners[2] };
+  });
+
+  beforeEach(async function () {
+    // Check whether the tests are running against an FHEVM mock environment
+    if (!fhevm.isMock) {
+      console.warn(`This hardhat test suite cannot run on Sepolia Testnet`);
+      this.skip();
+    }
+    ({ secretNumberGameContract, secretNumberGameContractAddress } = await deployFixture(signers.admin.address));
+    gameClient = new SecretNumberGameClient(secretNumberGameContract, fhevm, signers.admin, { pollIntervalMs: 50 });
+
+    // Alice runs the server, so guesses relayed through it are hers
+    server = new SecretNumberGameServer(gameClient.connect(signers.alice), { pollIntervalMs: 50 });
+    url = await server.listen();
+  });
+
+  afterEach(async function () {
+    await server?.close();
+  });
+
+  async function postGuess(body: unknown) {
+    return fetch(`${url}/guess`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: typeof body === "string" ? body : JSON.stringify(body),
+    });
+  }
+
+  async function encryptForAlice(value: number) {
+    const { handle, inputProof } = await gameClient.connect(signers.alice).encrypt(value);
+    return { handle: ethers.hexlify(handle), inputProof: ethers.hexlify(inputProof) };
+  }
+
+  describe("GET /status", function () {
+    it("should report the game state, admin and relayer", async function () {
+      let response = await fetch(`${url}/status`);
+      expect(response.status).to.eq(200);
+      expect(response.headers.get("access-control-allow-origin")).to.eq(null);
+      expect(await response.json()).to.deep.eq({
+        game: secretNumberGameContractAddress,
+        relayer: signers.alice.address,
+        active: false,
+        admin: signers.admin.address,
+        round: "0",
+        minNumber: 1,
+        maxNumber: 100,
+        maxGuesses: 0,
+        hintsEnabled: false,
+        privacyMode: false,
+        deadline: null,
+        timeRemaining: null,
+        guessFee: "0",
+        prizePool: "0",
+      });
+
+      await gameClient.setSecret(42, 60);
+
+      response = await fetch(`${url}/status`);
+      const status = (await response.json()) as Record<string, unknown>;
+      expect(status).to.include({ active: true, round: "1", timeRemaining: 60 });
+      expect(status.deadline).to.eq(Number(await secretNumberGameContract.getRoundDeadline(1)));
+    });
+  });
+
+  describe("POST /guess", function () {
+    it("should relay an encrypted guess", async function () {
+      await gameClient.setSecret(42);
+
+      const response = await postGuess(await encryptForAlice(42));
+      expect(response.status).to.eq(202);
+      const submitted = await response.json();
+      expect(submitted).to.include({ requestId: "0", round: "1", guessNumber: 1 });
+      expect(await secretNumberGameContract.getRequestPlayer(0)).to.eq(signers.alice.address);
+
+      await fhevm.awaitDecryptionOracle();
+
+      const request = await (await fetch(`${url}/requests/0`)).json();
+      expect(request).to.include({
+        requestId: "0",
+        player: signers.alice.address,
+        round: "1",
+        guessNumber: 1,
+        processed: true,
+        cancelled: false,
+        correct: true,
+      });
+    });
+
+    it("should send the guess fee unless a value is given", async function () {
+      const fee = ethers.parseEther("0.01");
+      await secretNumberGameContract.connect(signers.admin).setGuessFee(fee);
+      await gameClient.setSecret(42);
+
+      expect((await postGuess(await encryptForAlice(50))).status).to.eq(202);
+      expect(await secretNumberGameContract.requestFees(0)).to.eq(fee);
+
+      const response = await postGuess({ ...(await encryptForAlice(50)), value: "1" });
+      expect(response.status).to.eq(400);
+      expect(await response.json()).to.deep.eq({
+        error: "Incorrect guess fee: sent 0.000000000000000001 ETH but the fee is 0.01 ETH",
+        reason: "IncorrectGuessFee",
+      });
+    });
+
+    it("should refuse guesses in a private round", async function () {
+      await secretNumberGameContract.connect(signers.admin).setPrivacyMode(true);
+      await gameClient.setSecret(42);
+
+      const response = await postGuess(await encryptForAlice(42));
+      expect(response.status).to.eq(409);
+      expect(await secretNumberGameContract.totalGuesses(1, signers.alice.address)).to.eq(0);
+    });
+
+    it("should answer contract reverts with 400", async function () {
+      const response = await postGuess(await encryptForAlice(42));
+
+      expect(response.status).to.eq(400);
+      expect(await response.json()).to.deep.eq({
+        error: "The game is not active, a new round has to be started first",
+        reason: "GameNotActive",
+      });
+    });
+
+    it("should reject malformed bodies", async function () {
+      const encrypted = await encryptForAlice(42);
+
+      expect((await postGuess("not json")).status).to.eq(400);
+      expect((await postGuess([encrypted])).status).to.eq(400);
+      expect((await postGuess({ ...encrypted, handle: "0x1234" })).status).to.eq(400);
+      expect((await postGuess({ handle: encrypted.handle })).status).to.eq(400);
+      expect((await postGuess({ ...encrypted, value: 1 })).status).to.eq(400);
+    });
+  });
+
+  describe("GET /players/:address/stats", function () {
+    it("should report a player's guesses in the current or a given round", async function () {
+      await gameClient.setSecret(42);
+      await gameClient.connect(signers.bob).guess(50);
+      await gameClient.connect(signers.bob).guess(42);
+
+      const stats = await (await fetch(`${url}/players/${signers.bob.address.toLowerCase()}/stats`)).json();
+      expect(stats).to.deep.eq({
+        player: signers.bob.address,
+        round: "1",
+        guesses: 2,
+        lastGuessCorrect: true,
+        won: true,
+      });
+
+      await gameClient.reset();
+      await gameClient.setSecret(17);
+
+      expect(await (await fetch(`${url}/players/${signers.bob.address}/stats`)).json()).to.include({
+        round: "2",
+        guesses: 0,
+        won: false,
+      });
+      expect(await (await fetch(`${url}/players/${signers.bob.address}/stats?round=1`)).json()).to.include({
+        round: "1",
+        won: true,
+      });
+    });
+
+    it("should reject invalid addresses and rounds", async function () {
+      expect((await fetch(`${url}/players/0x1234/stats`)).status).to.eq(400);
+      expect((await fetch(`${url}/players/${signers.bob.address}/stats?round=-1`)).status).to.eq(400);
+    });
+  });
+
+  describe("GET /requests/:id", function () {
+    it("should report a request before its result arrives", async function () {
+      await gameClient.setSecret(42);
+      await gameClient.connect(signers.bob).submitGuess(50);
+
+      const request = await (await fetch(`${url}/requests/0`)).json();
+      expect(request).to.include({ player: signers.bob.address, processed: false, cancelled: false });
+      expect(request).to.not.have.property("correct");
+    });
+
+    it("should answer unknown requests and routes with 404", async function () {
+      expect((await fetch(`${url}/requests/7`)).status).to.eq(404);
+      expect((await fetch(`${url}/requests/abc`)).status).to.eq(400);
+      expect((await fetch(`${url}/nothing`)).status).to.eq(404);
+      expect((await fetch(`${url}/status`, { method: "DELETE" })).status).to.eq(404);
+    });
+  });
+
+  describe("GET /events", function () {
+    it("should stream guesses and their results", async function () {
+      await gameClient.setSecret(42);
+
+      const response = await fetch(`${url}/events`);
+      expect(response.headers.get("content-type")).to.eq("text/event-stream");
+
+      const result = await gameClient.connect(signers.bob).guess(42);
+      const events = await readEvents(response, 2);
+
+      expect(events.map((event) => event.event)).to.deep.eq(["GuessMade", "GuessResult"]);
+      expect(events[0].data).to.include({ player: signers.bob.address, round: "1", guessNumber: 1 });
+      expect(events[1].data).to.include({
+        player: signers.bob.address,
+        requestId: result.requestId.toString(),
+        correct: true,
+        totalGuesses: 1,
+      });
+    });
+
+    it("should only stream the given player's events", async function () {
+      await gameClient.setSecret(42);
+
+      const response = await fetch(`${url}/events?player=${signers.bob.address}`);
+      await gameClient.guess(50);
+      await gameClient.connect(signers.bob).guess(50);
+      const events = await readEvents(response, 2);
+
+      expect(events.map((event) => event.data.player)).to.deep.eq([signers.bob.address, signers.bob.address]);
+    });
+
+    it("should only stream events sent after a stream reopened while a poll was running", async function () {
+      const held = holdFirstPoll(signers.alice.provider);
+      try {
+        await gameClient.setSecret(42);
+        const controller = new AbortController();
+        await fetch(`${url}/events`, { signal: controller.signal });
+        await gameClient.connect(signers.bob).submitGuess(50);
+        await held.started;
+
+        // The only stream goes away while the poll waits for its logs, which then arrive too late to count
+        controller.abort();
+        await new Promise((resolve) => setTimeout(resolve, 200));
+        held.release();
+        await gameClient.connect(signers.bob).submitGuess(51);
+
+        const response = await fetch(`${url}/events`);
+        await gameClient.connect(signers.bob).submitGuess(52);
+        const events = await readEvents(response, 1);
+        expect(events[0]).to.deep.include({ event: "GuessMade" });
+        expect(events[0].data).to.include({ player: signers.bob.address, guessNumber: 3 });
+      } finally {
+        held.restore();
+        await fhevm.awaitDecryptionOracle();
+      }
+    });
+
+    it("should stop polling when closed while a poll is running", async function () {
+      const polling = new SecretNumberGameServer(gameClient.connect(signers.alice), { pollIntervalMs: 50 });
+      const pollingUrl = await polling.listen();
+      const held = holdFirstPoll(signers.alice.provider);
+      try {
+        await gameClient.setSecret(42);
+        await fetch(`${pollingUrl}/events`);
+        await gameClient.connect(signers.bob).submitGuess(50);
+        await held.started;
+
+        await polling.close();
+        const polls = held.polls();
+        held.release();
+        await new Promise((resolve) => setTimeout(resolve, 300));
+        expect(held.polls()).to.eq(polls);
+      } finally {
+        held.restore();
+        await fhevm.awaitDecryptionOracle();
+      }
+    });
+  });
+
+  describe("CORS", function () {
+    const origin = "http://localhost:5173";
+
+    it("should refuse browser requests when no origin is allowed", async function () {
+      const status = await fetch(`${url}/status`, { headers: { Origin: origin } });
+      expect(status.status).to.eq(403);
+      expect(status.headers.get("access-control-allow-origin")).to.eq(null);
+
+      await gameClient.setSecret(42);
+      const guess = await fetch(`${url}/guess`, {
+        method: "POST",
+        headers: { Origin: origin, "Content-Type": "text/plain" },
+        body: JSON.stringify(await encryptForAlice(42)),
+      });
+      expect(guess.status).to.eq(403);
+      expect(await secretNumberGameContract.totalGuesses(1, signers.alice.address)).to.eq(0);
+    });
+
+    it("should only answer the allowed origins", async function () {
+      const allowing = new SecretNumberGameServer(gameClient.connect(signers.alice), { allowedOrigins: [origin] });
+      const allowingUrl = await allowing.listen();
+      try {
+        const preflight = await fetch(`${allowingUrl}/guess`, { method: "OPTIONS", headers: { Origin: origin } });
+        expect(preflight.status).to.eq(204);
+        expect(preflight.headers.get("access-control-allow-origin")).to.eq(origin);
+        expect(preflight.headers.get("access-control-allow-methods")).to.contain("POST");
+
+        const status = await fetch(`${allowingUrl}/status`, { headers: { Origin: origin } });
+        expect(status.status).to.eq(200);
+        expect(status.headers.get("access-control-allow-origin")).to.eq(origin);
+
+        const other = await fetch(`${allowingUrl}/guess`, {
+          method: "OPTIONS",
+          headers: { Origin: "http://evil.example" },
+        });
+        expect(other.status).to.eq(403);
+        expect(other.headers.get("access-control-allow-origin")).to.eq(null);
+      } finally {
+        await allowing.close();
+      }
+    });
+  });
+});
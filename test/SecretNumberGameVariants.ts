@@ -0,0 +1,286 @@
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { time } from "@nomicfoundation/hardhat-network-helpers";
+import { ethers, fhevm } from "hardhat";
+import { expect } from "chai";
+
+import { CommitRevealGameClient } from "../src/CommitRevealGameClient";
+import { SecretNumberGameClient } from "../src/SecretNumberGameClient";
+import { CommitRevealNumberGame, ISecretNumberGame, SecretNumberGame } from "../types";
+
+type Signers = {
+  admin: HardhatEthersSigner;
+  alice: HardhatEthersSigner;
+  bob: HardhatEthersSigner;
+};
+
+// A deployed game variant, driven through the steps that differ between the variants
+type GameHarness = {
+  game: ISecretNumberGame;
+  // Opens a new round with the given secret (as the admin)
+  startRound: (secret: number, durationSeconds?: number) => Promise<void>;
+  // Sends a guess without waiting for its result
+  guess: (player: HardhatEthersSigner, value: number, options?: { value?: bigint }) => Promise<void>;
+  // Ends the current round if it is still open and delivers the results of all its guesses
+  settleRound: () => Promise<void>;
+};
+
+type GameVariant = {
+  contractName: string;
+  variant: string;
+  deploy: (admin: HardhatEthersSigner) => Promise<GameHarness>;
+};
+
+const VARIANTS: GameVariant[] = [
+  {
+    contractName: "SecretNumberGame",
+    variant: "fhe",
+    deploy: async (admin) => {
+      const factory = await ethers.getContractFactory("SecretNumberGame");
+      const contract = (await factory.deploy(admin.address)) as SecretNumberGame;
+      const client = new SecretNumberGameClient(contract, fhevm, admin, { pollIntervalMs: 50 });
+      const game = (await ethers.getContractAt("ISecretNumberGame", await contract.getAddress())) as ISecretNumberGame;
+
+      return {
+        game,
+        startRound: async (secret, durationSeconds) => {
+          await client.setSecret(secret, durationSeconds);
+        },
+        guess: async (player, value, options) => {
+          await client.connect(player).submitGuess(value, options);
+        },
+        settleRound: async () => {
+          await fhevm.awaitDecryptionOracle();
+          if (await contract.isGameActive()) {
+            await (await contract.endRound()).wait();
+            await fhevm.awaitDecryptionOracle();
+          }
+        },
+      };
+    },
+  },
+  {
+    contractName: "CommitRevealNumberGame",
+    variant: "commit-reveal",
+    deploy: async (admin) => {
+      const factory = await ethers.getContractFactory("CommitRevealNumberGame");
+      const contract = (await factory.deploy(admin.address)) as CommitRevealNumberGame;
+      const client = new CommitRevealGameClient(contract, admin);
+      const game = (await ethers.getContractAt("ISecretNumberGame", await contract.getAddress())) as ISecretNumberGame;
+      let players: HardhatEthersSigner[] = [];
+
+      return {
+        game,
+        startRound: async (secret, durationSeconds) => {
+          await client.setSecret(secret, durationSeconds);
+          players = [];
+        },
+        guess: async (player, value, options) => {
+          await client.connect(player).submitGuess(value, options);
+          if (!players.includes(player)) {
+            players.push(player);
+          }
+        },
+        settleRound: async () => {
+          const { round } = await client.endRound();
+          for (const player of players) {
+            await client.connect(player).revealGuesses(round);
+          }
+        },
+      };
+    },
+  },
+];
+
+for (const { contractName, variant, deploy } of VARIANTS) {
+  describe(`${contractName} (shared game behavior)`, function () {
+    let signers: Signers;
+    let harness: GameHarness;
+    let game: ISecretNumberGame;
+    const fee = ethers.parseEther("0.01");
+
+    before(async function () {
+      const ethSigners: HardhatEthersSigner[] = await ethers.getSigners();
+      signers = { admin: ethSigners[0], alice: ethSigners[1], bob: ethSigners[2] };
+    });
+
+    beforeEach(async function () {
+      // Check whether the tests are running against an FHEVM mock environment
+      if (!fhevm.isMock) {
+        console.warn(`This hardhat test suite cannot run on Sepolia Testnet`);
+        this.skip();
+      }
+      harness = await deploy(signers.admin);
+      game = harness.game;
+    });
+
+    it("should report its variant and start inactive with the default settings", async function () {
+      expect(await game.GAME_VARIANT()).to.eq(variant);
+      expect(await game.admin()).to.eq(signers.admin.address);
+      expect(await game.isGameActive()).to.eq(false);
+      expect(await game.getCurrentRound()).to.eq(0n);
+      expect(await game.getGameSettings()).to.deep.eq([1n, 100n, 0n]);
+    });
+
+    it("should only let the admin change settings, and only between rounds", async function () {
+      await expect(game.connect(signers.alice).setGuessFee(fee))
+        .to.be.revertedWithCustomError(game, "NotAdmin")
+        .withArgs(signers.alice.address);
+      await expect(game.configureGame(10, 5, 0))
+        .to.be.revertedWithCustomError(game, "InvalidRange")
+        .withArgs(10, 5);
+
+      await expect(game.configureGame(1, 10, 2))
+        .to.emit(game, "GameConfigured")
+        .withArgs(1, 10, 2);
+      await harness.startRound(5);
+
+      await expect(game.setGuessFee(fee)).to.be.revertedWithCustomError(game, "RoundInProgress");
+      await expect(game.configureGame(1, 20, 2)).to.be.revertedWithCustomError(game, "RoundInProgress");
+    });
+
+    it("should only let the admin or game masters run rounds", async function () {
+      const gameMasterRole = await game.GAME_MASTER_ROLE();
+      await harness.startRound(42);
+
+      await expect(game.connect(signers.alice).resetGame())
+        .to.be.revertedWithCustomError(game, "NotGameMaster")
+        .withArgs(signers.alice.address);
+
+      await game.grantRole(gameMasterRole, signers.alice.address);
+      expect(await game.hasRole(gameMasterRole, signers.alice.address)).to.eq(true);
+
+      await expect(game.connect(signers.alice).resetGame()).to.emit(game, "GameReset");
+      expect(await game.isGameActive()).to.eq(false);
+    });
+
+    it("should reject guesses outside an active round, with the wrong fee or beyond the limit", async function () {
+      await expect(harness.guess(signers.alice, 42)).to.be.revertedWithCustomError(game, "GameNotActive");
+
+      await game.setGuessFee(fee);
+      await game.configureGame(1, 100, 1);
+      await harness.startRound(42);
+
+      await expect(harness.guess(signers.alice, 42, { value: 0n }))
+        .to.be.revertedWithCustomError(game, "IncorrectGuessFee")
+        .withArgs(0n, fee);
+
+      await harness.guess(signers.alice, 7);
+      await expect(harness.guess(signers.alice, 8))
+        .to.be.revertedWithCustomError(game, "GuessLimitReached")
+        .withArgs(signers.alice.address, 1);
+    });
+
+    it("should award the pool to the correct guesser and record the round", async function () {
+      await game.setGuessFee(fee);
+      await harness.startRound(42);
+      const round = await game.getCurrentRound();
+
+      await harness.guess(signers.alice, 50);
+      await harness.guess(signers.alice, 7);
+      await harness.guess(signers.bob, 42);
+      await harness.settleRound();
+
+      expect(await game.getPlayerStats(round, signers.alice.address)).to.deep.eq([false, 2n, false]);
+      expect(await game.getPlayerStats(round, signers.bob.address)).to.deep.eq([true, 1n, true]);
+      expect(await game.roundWinners(round)).to.eq(signers.bob.address);
+      expect(await game.pendingPrizes(signers.bob.address)).to.eq(fee * 3n);
+      expect(await game.prizePool()).to.eq(0n);
+      expect(await game.isGameActive()).to.eq(false);
+      expect(await game.getRevealedSecret(round)).to.deep.eq([true, 42n, true]);
+
+      const [winner] = await game.getWinners(0, 10);
+      expect(await game.getWinnerCount()).to.eq(1n);
+      expect([winner.player, winner.round, winner.guesses]).to.deep.eq([signers.bob.address, round, 1n]);
+      // A page size past the end of the list is cut off instead of overflowing
+      expect((await game.getWinners(0, ethers.MaxUint256)).length).to.eq(1);
+    });
+
+    it("should track every guess as a request until its result is known", async function () {
+      await harness.startRound(42);
+      const round = await game.getCurrentRound();
+
+      await harness.guess(signers.alice, 1);
+      await harness.guess(signers.alice, 2);
+
+      const requestIds = await game.getPlayerRequests(signers.alice.address);
+      expect(requestIds.length).to.eq(2);
+      for (const requestId of requestIds) {
+        expect(await game.getRequestPlayer(requestId)).to.eq(signers.alice.address);
+        expect(await game.getRequestRound(requestId)).to.eq(round);
+      }
+
+      await harness.settleRound();
+
+      for (const requestId of requestIds) {
+        expect(await game.isRequestProcessed(requestId)).to.eq(true);
+      }
+    });
+
+    it("should roll a pool nobody won over to the next round", async function () {
+      await game.setGuessFee(fee);
+      await harness.startRound(42);
+      await harness.guess(signers.alice, 41);
+      await harness.settleRound();
+
+      expect(await game.roundWinners(await game.getCurrentRound())).to.eq(ethers.ZeroAddress);
+      expect(await game.prizePool()).to.eq(fee);
+
+      await harness.startRound(9);
+      await harness.guess(signers.bob, 9);
+      await harness.settleRound();
+
+      expect(await game.pendingPrizes(signers.bob.address)).to.eq(fee * 2n);
+    });
+
+    it("should let the winner claim the prize once", async function () {
+      await game.setGuessFee(fee);
+      await harness.startRound(42);
+      await harness.guess(signers.bob, 42);
+      await harness.settleRound();
+
+      const tx = game.connect(signers.bob).claimPrize();
+      await expect(tx).to.emit(game, "PrizeClaimed").withArgs(signers.bob.address, fee);
+      await expect(tx).to.changeEtherBalances([signers.bob, game], [fee, -fee]);
+
+      await expect(game.connect(signers.bob).claimPrize())
+        .to.be.revertedWithCustomError(game, "NoPrizeToClaim")
+        .withArgs(signers.bob.address);
+    });
+
+    it("should stop accepting guesses at the round deadline and let anyone close the round", async function () {
+      const duration = 60;
+      await harness.startRound(42, duration);
+      const round = await game.getCurrentRound();
+      const deadline = await game.getRoundDeadline(round);
+
+      await expect(game.connect(signers.alice).closeExpiredRound())
+        .to.be.revertedWithCustomError(game, "RoundNotExpired")
+        .withArgs(round, deadline);
+
+      await time.increase(duration);
+
+      await expect(harness.guess(signers.alice, 42))
+        .to.be.revertedWithCustomError(game, "RoundHasExpired")
+        .withArgs(round, deadline);
+      await expect(game.connect(signers.alice).closeExpiredRound())
+        .to.emit(game, "RoundExpired")
+        .withArgs(round, deadline, signers.alice.address);
+      expect(await game.isGameActive()).to.eq(false);
+    });
+
+    it("should hand the admin role over in two steps", async function () {
+      await expect(game.connect(signers.alice).acceptAdmin())
+        .to.be.revertedWithCustomError(game, "NotPendingAdmin")
+        .withArgs(signers.alice.address);
+
+      await expect(game.transferAdmin(signers.alice.address))
+        .to.emit(game, "AdminTransferStarted")
+        .withArgs(signers.admin.address, signers.alice.address);
+      await game.connect(signers.alice).acceptAdmin();
+
+      expect(await game.admin()).to.eq(signers.alice.address);
+      expect(await game.pendingAdmin()).to.eq(ethers.ZeroAddress);
+      await expect(game.setGuessFee(fee)).to.be.revertedWithCustomError(game, "NotAdmin");
+    });
+  });
+}
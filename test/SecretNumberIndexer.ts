@@ -0,0 +1,284 @@
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { mine } from "@nomicfoundation/hardhat-network-helpers";
+import { ethers, fhevm } from "hardhat";
+import { expect } from "chai";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+
+import { SecretNumberGameClient } from "../src/SecretNumberGameClient";
+import { SecretNumberIndexer } from "../src/SecretNumberIndexer";
+import { SecretNumberGame } from "../types";
+
+type Signers = {
+  admin: HardhatEthersSigner;
+  alice: HardhatEthersSigner;
+  bob: HardhatEthersSigner;
+};
+
+async function deployFixture(admin: string) {
+  const factory = await ethers.getContractFactory("SecretNumberGame");
+  const secretNumberGameContract = (await factory.deploy(admin)) as SecretNumberGame;
+  const deploymentBlock = (await secretNumberGameContract.deploymentTransaction()!.wait())!.blockNumber;
+  return { secretNumberGameContract, deploymentBlock };
+}
+
+describe("SecretNumberIndexer", function () {
+  let signers: Signers;
+  let secretNumberGameContract: SecretNumberGame;
+  let deploymentBlock: number;
+  let gameClient: SecretNumberGameClient;
+  let storeDir: string;
+
+  before(async function () {
+    const ethSigners: HardhatEthersSigner[] = await ethers.getSigners();
+    signers = { admin: ethSigners[0], alice: ethSigners[1], bob: ethSigners[2] };
+  });
+
+  beforeEach(async function () {
+    // Check whether the tests are running against an FHEVM mock environment
+    if (!fhevm.isMock) {
+      console.warn(`This hardhat test suite cannot run on Sepolia Testnet`);
+      this.skip();
+    }
+    ({ secretNumberGameContract, deploymentBlock } = await deployFixture(signers.admin.address));
+    gameClient = new SecretNumberGameClient(secretNumberGameContract, fhevm, signers.admin, { pollIntervalMs: 50 });
+    storeDir = fs.mkdtempSync(path.join(os.tmpdir(), "secret-number-index-"));
+  });
+
+  afterEach(function () {
+    if (storeDir) {
+      fs.rmSync(storeDir, { recursive: true, force: true });
+    }
+  });
+
+  // Two finished rounds and a third with a guess still waiting for the oracle
+  async function playRounds() {
+    const fee = ethers.parseEther("0.01");
+    await secretNumberGameContract.connect(signers.admin).setGuessFee(fee);
+
+    await gameClient.setSecret(42);
+    await gameClient.connect(signers.alice).guess(50);
+    await gameClient.connect(signers.bob).guess(42);
+    await gameClient.connect(signers.alice).guess(42);
+    await gameClient.reset();
+
+    await gameClient.setSecret(7, 600);
+    await gameClient.connect(signers.bob).guess(8);
+    await secretNumberGameContract.connect(signers.admin).endRound();
+    await fhevm.awaitDecryptionOracle();
+
+    await gameClient.setSecret(99);
+    return gameClient.connect(signers.alice).submitGuess(99);
+  }
+
+  it("should rebuild guess histories from the game's events", async function () {
+    const pending = await playRounds();
+    const indexer = await SecretNumberIndexer.open(
+      secretNumberGameContract,
+      path.join(storeDir, "index.json"),
+      deploymentBlock,
+    );
+
+    expect(await indexer.sync()).to.be.greaterThan(0);
+
+    const history = indexer.history(signers.alice.address.toLowerCase());
+    expect(history.map((guess) => [guess.round, guess.guessNumber, guess.status])).to.deep.eq([
+      ["1", 1, "wrong"],
+      ["1", 2, "correct"],
+      ["3", 1, "pending"],
+    ]);
+    expect(history[2].requestId).to.eq(pending.requestId.toString());
+    expect(history[2].transactionHash).to.eq(pending.transactionHash);
+    expect(indexer.history(signers.bob.address).map((guess) => guess.status)).to.deep.eq(["correct", "wrong"]);
+  });
+
+  it("should summarize every round", async function () {
+    await playRounds();
+    const indexer = await SecretNumberIndexer.open(
+      secretNumberGameContract,
+      path.join(storeDir, "index.json"),
+      deploymentBlock,
+    );
+    await indexer.sync();
+
+    const [first, second, third] = indexer.rounds();
+    expect(first).to.include({ round: "1", players: 2, guesses: 3, pending: 0 });
+    expect(first.winners).to.deep.eq([signers.bob.address, signers.alice.address]);
+    expect(first.prizeWinner).to.eq(signers.bob.address);
+    expect(first.prize).to.eq(ethers.parseEther("0.02").toString());
+    expect(first.endedBlock).to.be.greaterThan(first.startedBlock);
+    // Reset rounds reveal their secret too
+    expect(first.secret).to.eq(42);
+
+    expect(second).to.include({ round: "2", players: 1, guesses: 1, secret: 7 });
+    expect(second.deadline).to.eq(second.startedAt + 600);
+    expect(first.deadline).to.eq(undefined);
+    expect(second.winners).to.deep.eq([]);
+
+    expect(third).to.include({ round: "3", players: 1, guesses: 1, pending: 1 });
+    expect(third.endedBlock).to.eq(undefined);
+  });
+
+  it("should list a round's events in the order they happened", async function () {
+    await playRounds();
+    const indexer = await SecretNumberIndexer.open(
+      secretNumberGameContract,
+      path.join(storeDir, "index.json"),
+      deploymentBlock,
+    );
+    await indexer.sync();
+
+    expect(indexer.timeline(2n).map((event) => event.name)).to.deep.eq([
+      "GameStarted",
+      "GuessMade",
+      "GuessResult",
+      "GameReset",
+      "SecretRevealed",
+    ]);
+    expect(indexer.timeline(4n)).to.deep.eq([]);
+  });
+
+  it("should resume from the last indexed block", async function () {
+    const file = path.join(storeDir, "index.json");
+    await playRounds();
+    const midBlock = Math.floor((deploymentBlock + (await ethers.provider.getBlockNumber())) / 2);
+
+    // Stop halfway, as if the sync had been interrupted
+    const partial = await SecretNumberIndexer.open(secretNumberGameContract, file, deploymentBlock);
+    await partial.sync({ toBlock: midBlock, batchSize: 3 });
+    const saved = JSON.parse(fs.readFileSync(file, "utf8"));
+    expect(saved.lastBlock).to.eq(midBlock);
+    expect(saved.events.length).to.be.greaterThan(0);
+
+    await gameClient.connect(signers.bob).guess(99);
+
+    const resumed = await SecretNumberIndexer.open(secretNumberGameContract, file, deploymentBlock);
+    expect(resumed.index.events).to.have.length(saved.events.length);
+    await resumed.sync();
+
+    const fresh = await SecretNumberIndexer.open(
+      secretNumberGameContract,
+      path.join(storeDir, "fresh.json"),
+      deploymentBlock,
+    );
+    await fresh.sync();
+
+    expect(resumed.index.events).to.deep.eq(fresh.index.events);
+    expect(resumed.index.lastBlock).to.eq(await ethers.provider.getBlockNumber());
+    expect(await resumed.sync()).to.eq(0);
+  });
+
+  it("should start over when the file belongs to another game", async function () {
+    const file = path.join(storeDir, "index.json");
+    await gameClient.setSecret(42);
+    const indexer = await SecretNumberIndexer.open(secretNumberGameContract, file, deploymentBlock);
+    await indexer.sync();
+    expect(indexer.index.events).to.have.length(1);
+
+    const other = await deployFixture(signers.admin.address);
+    const otherIndexer = await SecretNumberIndexer.open(other.secretNumberGameContract, file, other.deploymentBlock);
+
+    expect(otherIndexer.index.game).to.eq(await other.secretNumberGameContract.getAddress());
+    expect(otherIndexer.index.events).to.deep.eq([]);
+    expect(otherIndexer.index.lastBlock).to.eq(other.deploymentBlock - 1);
+  });
+
+  it("should follow cancelled and retried requests", async function () {
+    await gameClient.setSecret(42);
+    const aliceGuess = await gameClient.connect(signers.alice).submitGuess(42);
+    const bobGuess = await gameClient.connect(signers.bob).submitGuess(50);
+    await mine(await secretNumberGameContract.DECRYPTION_TIMEOUT_BLOCKS());
+
+    await secretNumberGameContract.connect(signers.alice).retryRequest(aliceGuess.requestId);
+    await secretNumberGameContract.connect(signers.bob).cancelRequest(bobGuess.requestId, false);
+    await fhevm.awaitDecryptionOracle();
+
+    const indexer = await SecretNumberIndexer.open(
+      secretNumberGameContract,
+      path.join(storeDir, "index.json"),
+      deploymentBlock,
+    );
+    await indexer.sync();
+
+    const [retried] = indexer.history(signers.alice.address);
+    expect(retried.status).to.eq("correct");
+    expect(retried.retries).to.eq(1);
+    expect(retried.requestId).to.not.eq(aliceGuess.requestId.toString());
+
+    const [cancelled] = indexer.history(signers.bob.address);
+    expect(cancelled.status).to.eq("cancelled");
+
+    // Cancellations and retries are placed in the round of the guess they belong to
+    const names = indexer.timeline(1n).map((event) => event.name);
+    expect(names).to.include.members(["DecryptionRetried", "RequestCancelled"]);
+    expect(indexer.rounds()[0].winners).to.deep.eq([signers.alice.address]);
+  });
+
+  it("should index private and sealed guesses and their revealed winners", async function () {
+    await secretNumberGameContract.connect(signers.admin).setPrivacyMode(true);
+    await gameClient.setSecret(42);
+    await gameClient.connect(signers.alice).privateGuess(10);
+    await gameClient.connect(signers.alice).privateGuesses([20, 42]);
+    await gameClient.reset();
+    await gameClient.waitForPrivateWinner(1n);
+
+    await secretNumberGameContract.connect(signers.admin).setPrivacyMode(false);
+    await secretNumberGameContract.connect(signers.admin).setSealedMode(true);
+    await gameClient.setSecret(50);
+    await gameClient.connect(signers.bob).submitSealedGuess(49);
+    await gameClient.reset();
+    await gameClient.waitForPrivateWinner(2n);
+
+    const indexer = await SecretNumberIndexer.open(
+      secretNumberGameContract,
+      path.join(storeDir, "index.json"),
+      deploymentBlock,
+    );
+    await indexer.sync();
+
+    expect(
+      indexer.history(signers.alice.address).map((guess) => [guess.guessNumber, guess.batchSize, guess.status]),
+    ).to.deep.eq([
+      [1, undefined, "private"],
+      [3, 2, "private"],
+    ]);
+    const [sealed] = indexer.history(signers.bob.address);
+    expect(sealed).to.include({ round: "2", guessNumber: 1, status: "private" });
+    expect(sealed.requestId).to.eq(undefined);
+
+    const [privateRound, sealedRound] = indexer.rounds();
+    expect(privateRound).to.include({ players: 1, guesses: 3, pending: 0 });
+    expect(privateRound.winners).to.deep.eq([signers.alice.address]);
+    expect(sealedRound.winners).to.deep.eq([signers.bob.address]);
+
+    const names = indexer.timeline(2n).map((event) => event.name);
+    expect(names).to.include.members(["SealedGuessMade", "PrivateWinnerRevealed"]);
+    expect(indexer.timeline(1n).find((event) => event.name === "PrivateWinnerRevealed")).to.include({
+      player: signers.alice.address,
+      totalGuesses: 3,
+    });
+  });
+
+  it("should count every guess of a batch", async function () {
+    await gameClient.setSecret(42);
+    const batch = await gameClient.connect(signers.alice).guesses([10, 20, 42]);
+    await gameClient.connect(signers.bob).guess(50);
+
+    const indexer = await SecretNumberIndexer.open(
+      secretNumberGameContract,
+      path.join(storeDir, "index.json"),
+      deploymentBlock,
+    );
+    await indexer.sync();
+
+    const [guess] = indexer.history(signers.alice.address);
+    expect(guess).to.include({
+      requestId: batch.requestId.toString(),
+      guessNumber: 3,
+      batchSize: 3,
+      status: "correct",
+    });
+    expect(indexer.rounds()[0]).to.include({ players: 2, guesses: 4, pending: 0 });
+  });
+});
@@ -0,0 +1,128 @@
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { ethers, fhevm } from "hardhat";
+import { expect } from "chai";
+import { PassThrough } from "stream";
+
+import { SecretNumberGameClient } from "../src/SecretNumberGameClient";
+import { SecretNumberPlaySession } from "../src/SecretNumberPlaySession";
+import { SecretNumberGame } from "../types";
+
+type Signers = {
+  admin: HardhatEthersSigner;
+  alice: HardhatEthersSigner;
+};
+
+async function deployFixture(admin: string) {
+  const factory = await ethers.getContractFactory("SecretNumberGame");
+  const secretNumberGameContract = (await factory.deploy(admin)) as SecretNumberGame;
+  const secretNumberGameContractAddress = await secretNumberGameContract.getAddress();
+  return { secretNumberGameContract, secretNumberGameContractAddress };
+}
+
+// A running session fed through in-memory streams
+function startSession(client: SecretNumberGameClient) {
+  const input = new PassThrough();
+  const output = new PassThrough();
+  let text = "";
+  output.on("data", (chunk) => (text += chunk.toString()));
+
+  const session = new SecretNumberPlaySession(client, input, output);
+  const done = session.run();
+
+  return {
+    session,
+    done,
+    output: () => text,
+    // Types a line and waits until the output matches the pattern
+    send: async (line: string, pattern: RegExp) => {
+      const from = text.length;
+      input.write(`${line}\n`);
+      // Results are driven by the provider's polling, so give them a moment
+      for (let i = 0; i < 100 && !pattern.test(text.slice(from)); i++) {
+        await new Promise((resolve) => setTimeout(resolve, 100));
+      }
+      expect(text.slice(from)).to.match(pattern);
+    },
+    end: () => input.end(),
+  };
+}
+
+describe("SecretNumberPlaySession", function () {
+  let signers: Signers;
+  let secretNumberGameContract: SecretNumberGame;
+  let admin: SecretNumberGameClient;
+
+  before(async function () {
+    const ethSigners: HardhatEthersSigner[] = await ethers.getSigners();
+    signers = { admin: ethSigners[0], alice: ethSigners[1] };
+  });
+
+  beforeEach(async function () {
+    // Check whether the tests are running against an FHEVM mock environment
+    if (!fhevm.isMock) {
+      console.warn(`This hardhat test suite cannot run on Sepolia Testnet`);
+      this.skip();
+    }
+    ({ secretNumberGameContract } = await deployFixture(signers.admin.address));
+    admin = new SecretNumberGameClient(secretNumberGameContract, fhevm, signers.admin, { pollIntervalMs: 50 });
+  });
+
+  it("should show results and hints as they arrive and keep the history", async function () {
+    await secretNumberGameContract.setHintMode(true);
+    await admin.setSecret(42);
+    const play = startSession(admin.connect(signers.alice));
+
+    await play.send("50", /📡 50 ❌ too high/);
+    await play.send("guess 10", /📡 10 ❌ too low/);
+    await play.send("42", /📡 42 ✅ correct 🎉 You found the secret!/);
+    await play.send(
+      "history",
+      /1\. round 1: 50 ❌ too high\n.*2\. round 1: 10 ❌ too low\n.*3\. round 1: 42 ✅ correct/s,
+    );
+    await play.send("stats", /Round 1: 3 guess\(es\), 🎉 won/);
+    await play.send("quit", /👋 Bye!/);
+    await play.done;
+
+    expect(play.session.history.map((entry) => entry.correct)).to.deep.eq([false, false, true]);
+    expect(play.output()).to.match(/🎯 Round 1 is running: guess a number between 1 and 100/);
+  });
+
+  it("should let the admin set and reset rounds from the session", async function () {
+    const play = startSession(admin);
+
+    await play.send("set 42", /✅ Round 1 started/);
+    await play.send("reset", /🔄 The round has been stopped/);
+    expect(await secretNumberGameContract.isGameActive()).to.eq(false);
+
+    await play.send("set random 60", /✅ Round 2 started, it accepts guesses for 60s/);
+    expect(await secretNumberGameContract.getRoundDeadline(2)).to.be.gt(0n);
+    play.end();
+    await play.done;
+  });
+
+  it("should print errors and keep going", async function () {
+    const play = startSession(admin.connect(signers.alice));
+
+    await play.send("7", /❌ No round is running, the admin has to 'set' a secret first/);
+    await play.send("set 42", /❌ Only the admin or a game master can run rounds/);
+    await play.send("set", /❌ Usage: set <number\|random> \[seconds\]/);
+    await play.send("500", /❌ Guess must be an integer between 1 and 100/);
+    await play.send("dance", /❓ Unknown command 'dance'/);
+    await play.send("help", /quit +end the session/);
+
+    play.end();
+    await play.done;
+    expect(play.session.history).to.deep.eq([]);
+  });
+
+  it("should show the result of a private guess right away", async function () {
+    await secretNumberGameContract.setPrivacyMode(true);
+    await admin.setSecret(42);
+    const play = startSession(admin.connect(signers.alice));
+
+    await play.send("42", /🔒 42 ✅ correct \(private\)/);
+    await play.send("history", /1\. round 1: 42 ✅ correct/);
+    play.end();
+    await play.done;
+  });
+});
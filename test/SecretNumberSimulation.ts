@@ -0,0 +1,94 @@
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { ethers, fhevm } from "hardhat";
+import { expect } from "chai";
+
+import { FhevmClient } from "../src/SecretNumberGameClient";
+import { runSimulation } from "../src/SecretNumberSimulation";
+import { SecretNumberGame } from "../types";
+
+describe("SecretNumberSimulation", function () {
+  let admin: HardhatEthersSigner;
+  let players: HardhatEthersSigner[];
+  let secretNumberGameContract: SecretNumberGame;
+
+  before(async function () {
+    [admin, ...players] = await ethers.getSigners();
+    players = players.slice(0, 8);
+  });
+
+  beforeEach(async function () {
+    // Check whether the tests are running against an FHEVM mock environment
+    if (!fhevm.isMock) {
+      console.warn(`This hardhat test suite cannot run on Sepolia Testnet`);
+      this.skip();
+    }
+    const factory = await ethers.getContractFactory("SecretNumberGame");
+    secretNumberGameContract = (await factory.deploy(admin.address)) as SecretNumberGame;
+  });
+
+  it("should play every round with concurrent guesses and keep the invariants", async function () {
+    await secretNumberGameContract.connect(admin).setGuessFee(ethers.parseEther("0.001"));
+    const rounds: bigint[] = [];
+
+    const report = await runSimulation(secretNumberGameContract, fhevm, admin, players, {
+      rounds: 3,
+      guessesPerPlayer: 2,
+      onRound: (round) => rounds.push(round.round),
+    });
+
+    expect(report.violations).to.deep.eq([]);
+    expect(rounds).to.deep.eq([1n, 2n, 3n]);
+    expect(report.rounds.map((round) => round.round)).to.deep.eq(rounds);
+    expect(report.guesses).to.eq(report.rounds.reduce((sum, round) => sum + round.guesses, 0));
+    expect(report.gas.makeGuess.calls).to.eq(report.guesses);
+    expect(report.gas.callbackGuessResult.calls).to.eq(report.guesses);
+    expect(report.gas.setSecretNumber.calls).to.eq(3);
+    expect(report.gas.resetGame.calls).to.eq(3);
+    expect(await secretNumberGameContract.getGameStatus()).to.eq(false);
+  });
+
+  it("should flag every player as a winner when they can try the whole range", async function () {
+    await secretNumberGameContract.connect(admin).configureGame(1, 4, 0);
+
+    const report = await runSimulation(secretNumberGameContract, fhevm, admin, players, {
+      rounds: 2,
+      guessesPerPlayer: 4,
+    });
+
+    expect(report.violations).to.deep.eq([]);
+    for (const round of report.rounds) {
+      expect(round.winners).to.have.members(players.map((player) => player.address));
+      expect(round.prizeWinner).to.be.oneOf(round.winners);
+    }
+    expect(await secretNumberGameContract.getWinnerCount()).to.eq(players.length * 2);
+  });
+
+  it("should replay the same run from the same random source", async function () {
+    let seed = 7;
+    const random = () => {
+      seed = (seed * 16807) % 2147483647;
+      return (seed - 1) / 2147483646;
+    };
+
+    const report = await runSimulation(secretNumberGameContract, fhevm, admin, players, { rounds: 1, random });
+    seed = 7;
+    const replay = await runSimulation(secretNumberGameContract, fhevm, admin, players, { rounds: 1, random });
+
+    expect(replay.rounds[0].secret).to.eq(report.rounds[0].secret);
+    expect(replay.rounds[0].guesses).to.eq(report.rounds[0].guesses);
+    expect(replay.rounds[0].winners).to.deep.eq(report.rounds[0].winners);
+  });
+
+  it("should refuse to run without the mock oracle", async function () {
+    const relayerLike: FhevmClient = {
+      createEncryptedInput: fhevm.createEncryptedInput.bind(fhevm),
+      generateKeypair: fhevm.generateKeypair.bind(fhevm),
+      createEIP712: fhevm.createEIP712.bind(fhevm),
+      userDecrypt: fhevm.userDecrypt.bind(fhevm),
+    };
+
+    await expect(
+      runSimulation(secretNumberGameContract, relayerLike, admin, players, { rounds: 1 }),
+    ).to.be.rejectedWith("Simulations need the mock FHEVM");
+  });
+});
@@ -0,0 +1,99 @@
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { ethers, fhevm } from "hardhat";
+import { expect } from "chai";
+
+import { SecretNumberGameClient } from "../src/SecretNumberGameClient";
+import { createSolverState, nextGuess, recordGuess, SolverStrategy } from "../src/SecretNumberSolver";
+import { SecretNumberGame } from "../types";
+
+function newState(strategy: SolverStrategy, min = 1, max = 100) {
+  return createSolverState(ethers.ZeroAddress, ethers.ZeroAddress, 1n, strategy, min, max);
+}
+
+describe("SecretNumberSolver", function () {
+  it("sequential should guess the lowest untried number", function () {
+    const state = newState("sequential", 5, 7);
+
+    expect(nextGuess(state)).to.eq(5);
+    recordGuess(state, 5, false);
+    expect(nextGuess(state)).to.eq(6);
+    recordGuess(state, 6, false);
+    recordGuess(state, 7, false);
+    expect(nextGuess(state)).to.eq(undefined);
+  });
+
+  it("random should use the given source and never repeat a guess", function () {
+    const state = newState("random", 1, 4);
+
+    expect(nextGuess(state, () => 0.99)).to.eq(4);
+    recordGuess(state, 4, false);
+    expect(nextGuess(state, () => 0.99)).to.eq(3);
+
+    const seen = new Set<number>([4]);
+    for (let guess = nextGuess(state); guess !== undefined; guess = nextGuess(state)) {
+      expect(seen.has(guess)).to.eq(false);
+      seen.add(guess);
+      recordGuess(state, guess, false);
+    }
+    expect(seen.size).to.eq(4);
+  });
+
+  it("binary should guess the middle of the remaining range", function () {
+    const state = newState("binary");
+
+    expect(nextGuess(state)).to.eq(50);
+    recordGuess(state, 50, false, "too-low");
+    expect([state.low, state.high]).to.deep.eq([51, 100]);
+    expect(nextGuess(state)).to.eq(75);
+    recordGuess(state, 75, false, "too-high");
+    expect([state.low, state.high]).to.deep.eq([51, 74]);
+    expect(nextGuess(state)).to.eq(62);
+  });
+
+  it("recordGuess should mark the round solved and clear a pending guess", function () {
+    const state = newState("binary");
+    state.pending = { guess: 50, requestId: "1", blockNumber: 1 };
+
+    recordGuess(state, 50, true);
+
+    expect(state.pending).to.eq(undefined);
+    expect(state.solved).to.eq(50);
+    expect(nextGuess(state)).to.eq(undefined);
+  });
+
+  it("binary should find any secret in at most 7 guesses over 1-100", function () {
+    for (let secret = 1; secret <= 100; secret++) {
+      const state = newState("binary");
+      for (let guess = nextGuess(state); guess !== undefined; guess = nextGuess(state)) {
+        recordGuess(state, guess, guess === secret, guess < secret ? "too-low" : "too-high");
+      }
+      expect(state.solved).to.eq(secret);
+      expect(state.tried.length).to.be.at.most(7);
+    }
+  });
+
+  it("should solve a round against the game using encrypted hints", async function () {
+    if (!fhevm.isMock) {
+      console.warn(`This hardhat test suite cannot run on Sepolia Testnet`);
+      this.skip();
+    }
+    const [admin, player]: HardhatEthersSigner[] = await ethers.getSigners();
+    const factory = await ethers.getContractFactory("SecretNumberGame");
+    const game = (await factory.deploy(admin.address)) as SecretNumberGame;
+    await game.connect(admin).setHintMode(true);
+
+    const client = new SecretNumberGameClient(game, fhevm, admin, { pollIntervalMs: 50 });
+    const round = await client.setSecret(73);
+
+    const state = createSolverState(await game.getAddress(), player.address, round, "binary", 1, 100);
+    const playerClient = client.connect(player);
+    for (let guess = nextGuess(state); guess !== undefined; guess = nextGuess(state)) {
+      const result = await playerClient.guess(guess, { hint: true });
+      recordGuess(state, guess, result.correct, result.hint);
+    }
+
+    expect(state.solved).to.eq(73);
+    expect(state.tried).to.deep.eq([50, 75, 62, 68, 71, 73]);
+    expect((await playerClient.stats()).won).to.eq(true);
+  });
+});